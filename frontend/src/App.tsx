@@ -7,10 +7,16 @@ import Contact from './pages/Contact';
 import LoginPage from './pages/LoginPage';
 import SignupPage from './pages/SignupPage';
 import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
+import OAuthCallbackPage from './pages/OAuthCallbackPage';
 
 import Onboarding from './pages/Onboarding';
 import ProfessionalDashboard from './pages/ProfessionalDashboard';
 import RecruiterDashboard from './pages/RecruiterDashboard';
+import AdminConsole from './pages/AdminConsole';
+import OrganizationPage from './pages/OrganizationPage';
+import ShortlistsPage from './pages/ShortlistsPage';
+import MessagesPage from './pages/MessagesPage';
 
 
 import DashboardLayout from './components/layouts/DashboardLayout';
@@ -29,14 +35,20 @@ function App() {
           <Route path="/login" element={<><Navbar /><div className="flex-1"><LoginPage /></div><Footer /></>} />
           <Route path="/signup" element={<><Navbar /><div className="flex-1"><SignupPage /></div><Footer /></>} />
           <Route path="/forgot-password" element={<><Navbar /><div className="flex-1"><ForgotPasswordPage /></div><Footer /></>} />
+          <Route path="/verify-email" element={<><Navbar /><div className="flex-1"><VerifyEmailPage /></div><Footer /></>} />
+          <Route path="/oauth/callback" element={<><Navbar /><div className="flex-1"><OAuthCallbackPage /></div><Footer /></>} />
           <Route path="/onboarding" element={<><Navbar /><div className="flex-1"><Onboarding /></div><Footer /></>} />
 
           {/* Private Routes (Dashboard Layout) */}
           <Route element={<DashboardLayout />}>
             <Route path="/dashboard" element={<ProfessionalDashboard />} />
             <Route path="/recruiter" element={<RecruiterDashboard />} />
+            <Route path="/shortlists" element={<ShortlistsPage />} />
+            <Route path="/messages" element={<MessagesPage />} />
+            <Route path="/organization" element={<OrganizationPage />} />
             <Route path="/pathways" element={<Pathways />} />
             <Route path="/assistant" element={<Assistant />} />
+            <Route path="/admin" element={<AdminConsole />} />
           </Route>
         </Routes>
       </div>
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { Mail } from 'lucide-react';
+import { api } from '@/services/api';
+import type { ContactPreferences } from '@/types';
+
+const ContactSettings = ({ className = '' }: { className?: string }) => {
+    const [preferences, setPreferences] = useState<ContactPreferences | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const loadPreferences = async () => {
+            try {
+                setPreferences(await api.getContactPreferences());
+            } catch (err) {
+                console.error('Failed to load contact preferences:', err);
+            }
+        };
+        loadPreferences();
+    }, []);
+
+    const update = async (changes: Partial<ContactPreferences>) => {
+        setError(null);
+        try {
+            setPreferences(await api.updateContactPreferences(changes));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        }
+    };
+
+    if (!preferences) return null;
+
+    const reachable = preferences.isPublic && preferences.openToOpportunities;
+
+    return (
+        <div className={`bg-card p-6 rounded-xl border border-border ${className}`}>
+            <div className="flex items-center gap-3 mb-3">
+                <Mail className="w-6 h-6 text-primary" />
+                <h3 className="text-lg font-bold">Recruiter contact</h3>
+                <span className={`text-xs px-2 py-0.5 rounded-full ${reachable ? 'bg-primary/10 text-primary' : 'bg-secondary text-muted-foreground'}`}>
+                    {reachable ? 'Open' : 'Closed'}
+                </span>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+                Recruiters can send you a contact request when your profile is public and you are open to opportunities.
+                You decide whether to start a conversation.
+            </p>
+            <div className="space-y-2 text-sm">
+                <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={preferences.isPublic} onChange={e => update({ isPublic: e.target.checked })} />
+                    Show my profile in recruiter search
+                </label>
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={preferences.openToOpportunities}
+                        onChange={e => update({ openToOpportunities: e.target.checked })}
+                    />
+                    Open to opportunities
+                </label>
+            </div>
+            {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+        </div>
+    );
+};
+
+export default ContactSettings;
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { api } from '@/services/api';
+import type { MinPlatformScores, RoleProfile, ScoringWeights } from '@/types';
+
+const weightFields: { key: keyof ScoringWeights; label: string }[] = [
+    { key: 'github', label: 'GitHub' },
+    { key: 'linkedin', label: 'LinkedIn' },
+    { key: 'twitter', label: 'Twitter' },
+    { key: 'blog', label: 'Blog' },
+];
+
+const minimumFields: { key: keyof MinPlatformScores; label: string }[] = [
+    { key: 'github', label: 'GitHub' },
+    { key: 'linkedin', label: 'LinkedIn' },
+    { key: 'blog', label: 'Blog' },
+    { key: 'social', label: 'Social' },
+];
+
+interface RoleProfileFormProps {
+    onCreated: (profile: RoleProfile) => void;
+    onCancel: () => void;
+    className?: string;
+}
+
+const RoleProfileForm = ({ onCreated, onCancel, className = '' }: RoleProfileFormProps) => {
+    const [name, setName] = useState('');
+    const [weights, setWeights] = useState<ScoringWeights>({ github: 0.35, linkedin: 0.3, twitter: 0.15, blog: 0.2 });
+    const [languages, setLanguages] = useState('');
+    const [minimums, setMinimums] = useState<Record<keyof MinPlatformScores, string>>({ github: '', linkedin: '', blog: '', social: '' });
+    const [shared, setShared] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError(null);
+
+        // Only send the minimums that were filled in
+        const minPlatformScores: MinPlatformScores = Object.fromEntries(
+            Object.entries(minimums).filter(([, value]) => value.trim() !== '').map(([key, value]) => [key, Number(value)])
+        );
+
+        try {
+            const created = await api.createRoleProfile({
+                name: name.trim(),
+                weights,
+                requiredLanguages: languages.split(',').map(v => v.trim()).filter(Boolean),
+                minPlatformScores,
+                shared,
+            });
+            onCreated(created);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create role profile');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className={`bg-card p-6 rounded-xl border border-border grid grid-cols-1 md:grid-cols-3 gap-6 ${className}`}>
+            <div className="space-y-2">
+                <label className="text-sm font-medium">Role name</label>
+                <Input value={name} onChange={e => setName(e.target.value)} placeholder="Platform engineer" required />
+            </div>
+            <div className="space-y-2">
+                <label className="text-sm font-medium">Required languages</label>
+                <Input value={languages} onChange={e => setLanguages(e.target.value)} placeholder="Go, Rust" />
+            </div>
+            <div className="space-y-2">
+                <label className="text-sm font-medium">Visibility</label>
+                <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={shared} onChange={e => setShared(e.target.checked)} />
+                    Share with my organization
+                </label>
+            </div>
+            <div className="space-y-2 md:col-span-3">
+                <label className="text-sm font-medium">Platform weights</label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    {weightFields.map(field => (
+                        <label key={field.key} className="flex items-center justify-between gap-2 text-sm">
+                            {field.label}
+                            <input
+                                type="number"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={weights[field.key]}
+                                onChange={e => setWeights({ ...weights, [field.key]: Number(e.target.value) })}
+                                className="w-24 px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+            <div className="space-y-2 md:col-span-3">
+                <label className="text-sm font-medium">Minimum platform scores</label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    {minimumFields.map(field => (
+                        <Input
+                            key={field.key}
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={minimums[field.key]}
+                            onChange={e => setMinimums({ ...minimums, [field.key]: e.target.value })}
+                            placeholder={field.label}
+                        />
+                    ))}
+                </div>
+            </div>
+            <div className="md:col-span-3 flex items-center justify-end gap-2">
+                {error && <p className="text-sm text-red-400 mr-auto">{error}</p>}
+                <Button type="button" variant="ghost" onClick={onCancel}>Cancel</Button>
+                <Button type="submit" disabled={saving || !name.trim()}>
+                    {saving ? 'Saving...' : 'Create Role'}
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+export default RoleProfileForm;
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import { api } from '@/services/api';
+import type { CompositeScore, ScoreSimulation, ScoreSimulationDeltas, SimulatedPlatform } from '@/types';
+
+interface SimulatorForm {
+    repos: number;
+    stars: number;
+    githubFollowers: number;
+    tweets: number;
+    twitterFollowers: number;
+    posts: number;
+    newPlatform: SimulatedPlatform | '';
+    newPlatformScore: number;
+}
+
+const emptyForm: SimulatorForm = {
+    repos: 0,
+    stars: 0,
+    githubFollowers: 0,
+    tweets: 0,
+    twitterFollowers: 0,
+    posts: 0,
+    newPlatform: '',
+    newPlatformScore: 60,
+};
+
+// Missing platforms as reported in the score breakdown; a missing blog is simulated as dev.to
+const newPlatformOptions: { missing: string; value: SimulatedPlatform; label: string }[] = [
+    { missing: 'github', value: 'github', label: 'GitHub' },
+    { missing: 'linkedin', value: 'linkedin', label: 'LinkedIn' },
+    { missing: 'twitter', value: 'twitter', label: 'Twitter' },
+    { missing: 'blog', value: 'devto', label: 'A blog (dev.to)' },
+];
+
+const toDeltas = (form: SimulatorForm, score: CompositeScore): ScoreSimulationDeltas => {
+    const connected = score.breakdown.platformsConnected;
+    const deltas: ScoreSimulationDeltas = {};
+
+    if (connected.includes('github') && (form.repos || form.stars || form.githubFollowers)) {
+        deltas.github = { repos: form.repos, stars: form.stars, followers: form.githubFollowers };
+    }
+    if (connected.includes('twitter') && (form.tweets || form.twitterFollowers)) {
+        deltas.twitter = { tweets: form.tweets, followers: form.twitterFollowers };
+    }
+    if (score.blogScore !== null && form.posts) {
+        deltas.blog = { posts: form.posts };
+    }
+    if (form.newPlatform) {
+        deltas.newPlatform = { platform: form.newPlatform, score: form.newPlatformScore };
+    }
+
+    return deltas;
+};
+
+const formatChange = (change: number) => (change > 0 ? `+${change}` : `${change}`);
+
+const ScoreSimulator = ({ score, className = '' }: { score: CompositeScore; className?: string }) => {
+    const [form, setForm] = useState<SimulatorForm>(emptyForm);
+    const [simulation, setSimulation] = useState<ScoreSimulation | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const connected = score.breakdown.platformsConnected;
+    const missing = newPlatformOptions.filter(option => score.breakdown.platformsMissing.includes(option.missing));
+    const hasChanges = Object.keys(toDeltas(form, score)).length > 0;
+    // A stale projection is hidden once everything is back at zero
+    const projection = hasChanges ? simulation : null;
+
+    useEffect(() => {
+        const deltas = toDeltas(form, score);
+        if (Object.keys(deltas).length === 0) return;
+
+        let cancelled = false;
+        // Wait for the candidate to stop dragging before asking the server
+        const timer = setTimeout(async () => {
+            try {
+                const data = await api.simulateScore(deltas);
+                if (!cancelled) {
+                    setSimulation(data);
+                    setError(null);
+                }
+            } catch (err) {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to simulate score');
+            }
+        }, 400);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [form, score]);
+
+    const slider = (key: Exclude<keyof SimulatorForm, 'newPlatform'>, label: string, max: number, step = 1, prefix = '+') => (
+        <label key={key} className="block text-sm space-y-1">
+            <span className="flex justify-between">
+                {label}
+                <span className="font-bold">{prefix}{form[key]}</span>
+            </span>
+            <input
+                type="range"
+                min={0}
+                max={max}
+                step={step}
+                value={form[key]}
+                onChange={e => setForm({ ...form, [key]: Number(e.target.value) })}
+                className="w-full"
+            />
+        </label>
+    );
+
+    return (
+        <div className={`bg-card p-6 rounded-xl border border-border ${className}`}>
+            <div className="flex items-center gap-3 mb-3">
+                <FlaskConical className="w-6 h-6 text-primary" />
+                <h3 className="text-lg font-bold">What if?</h3>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+                See how your score would change. New activity is modelled on your existing work; nothing is saved.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="md:col-span-2 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {connected.includes('github') && (
+                        <>
+                            {slider('repos', 'New repositories', 20)}
+                            {slider('stars', 'New stars', 500, 5)}
+                            {slider('githubFollowers', 'New GitHub followers', 500, 5)}
+                        </>
+                    )}
+                    {connected.includes('twitter') && (
+                        <>
+                            {slider('tweets', 'New tweets', 100)}
+                            {slider('twitterFollowers', 'New Twitter followers', 1000, 10)}
+                        </>
+                    )}
+                    {score.blogScore !== null && slider('posts', 'New blog posts', 20)}
+                    {missing.length > 0 && (
+                        <div className="space-y-2 text-sm">
+                            <select
+                                value={form.newPlatform}
+                                onChange={e => setForm({ ...form, newPlatform: e.target.value as SimulatorForm['newPlatform'] })}
+                                className="w-full px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                            >
+                                <option value="">Connect a new platform…</option>
+                                {missing.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                            {form.newPlatform && slider('newPlatformScore', 'Expected score there', 100, 1, '')}
+                        </div>
+                    )}
+                </div>
+
+                <div className="text-center">
+                    <p className="text-sm text-muted-foreground">Projected score</p>
+                    <div className="text-5xl font-black text-primary my-2">
+                        {projection ? projection.projected.overallScore : score.overallScore}
+                    </div>
+                    {projection && (
+                        <>
+                            <p className={`text-sm ${projection.overallChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                {formatChange(projection.overallChange)} from {projection.current.overallScore}
+                            </p>
+                            <ul className="mt-3 space-y-1 text-xs text-muted-foreground">
+                                {projection.platformChanges.filter(change => change.change !== 0).map(change => (
+                                    <li key={change.platform} className="flex justify-between">
+                                        <span>{change.platform}</span>
+                                        <span>
+                                            {change.current ?? '-'} → {change.projected ?? '-'} ({formatChange(change.change)})
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                    <button
+                        type="button"
+                        onClick={() => setForm(emptyForm)}
+                        className="mt-4 px-4 py-2 rounded-lg border border-border hover:bg-secondary text-sm"
+                    >
+                        Reset
+                    </button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+        </div>
+    );
+};
+
+export default ScoreSimulator;
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { api } from '@/services/api';
+import type { TwoFactorStatus } from '@/types';
+
+const TwoFactorSettings = ({ className = '' }: { className?: string }) => {
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null);
+    const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+    const [code, setCode] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const loadStatus = async () => {
+        try {
+            setStatus(await api.getTwoFactorStatus());
+        } catch (err) {
+            console.error('Failed to load two-factor status:', err);
+        }
+    };
+
+    useEffect(() => {
+        loadStatus();
+    }, []);
+
+    // Every action needs a fresh code, so clear it whatever the outcome
+    const run = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        } finally {
+            setCode('');
+        }
+    };
+
+    const handleEnroll = () => run(async () => {
+        setBackupCodes(null);
+        setEnrollment(await api.startTwoFactorEnrollment());
+    });
+
+    const handleConfirm = () => run(async () => {
+        const { backupCodes } = await api.confirmTwoFactor(code.trim());
+        setEnrollment(null);
+        setBackupCodes(backupCodes);
+        await loadStatus();
+    });
+
+    const handleRegenerate = () => run(async () => {
+        const { backupCodes } = await api.regenerateBackupCodes(code.trim());
+        setBackupCodes(backupCodes);
+        await loadStatus();
+    });
+
+    const handleDisable = () => run(async () => {
+        await api.disableTwoFactor(code.trim());
+        setBackupCodes(null);
+        await loadStatus();
+    });
+
+    if (!status) return null;
+
+    const codeInput = (
+        <input
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            placeholder="Authenticator code"
+            autoComplete="one-time-code"
+            className="px-3 py-2 rounded-lg bg-background border border-border text-sm"
+        />
+    );
+
+    return (
+        <div className={`bg-card p-6 rounded-xl border border-border ${className}`}>
+            <div className="flex items-center gap-3 mb-3">
+                <KeyRound className="w-6 h-6 text-primary" />
+                <h3 className="text-lg font-bold">Two-factor authentication</h3>
+                <span className={`text-xs px-2 py-0.5 rounded-full ${status.enabled ? 'bg-primary/10 text-primary' : 'bg-secondary text-muted-foreground'}`}>
+                    {status.enabled ? 'On' : 'Off'}
+                </span>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+                {status.enabled
+                    ? `Sign-ins ask for a code from your authenticator app. ${status.backupCodesRemaining} backup codes left.`
+                    : 'Protect your account with a code from an authenticator app at sign-in.'}
+                {status.required && ' Your company requires it.'}
+            </p>
+
+            {!status.enabled && !enrollment && (
+                <button
+                    onClick={handleEnroll}
+                    className="px-4 py-2 rounded-lg border border-border hover:bg-secondary text-sm"
+                >
+                    Set up two-factor authentication
+                </button>
+            )}
+
+            {enrollment && (
+                <div className="space-y-3">
+                    <p className="text-sm">
+                        Open <a href={enrollment.otpauthUri} className="text-primary underline">this link</a> on your phone, or enter this key in your authenticator app:
+                    </p>
+                    <code className="block px-3 py-2 rounded-lg bg-background border border-border text-sm break-all">{enrollment.secret}</code>
+                    <div className="flex flex-wrap items-center gap-3">
+                        {codeInput}
+                        <button
+                            onClick={handleConfirm}
+                            disabled={!code.trim()}
+                            className="px-4 py-2 rounded-lg border border-border hover:bg-secondary text-sm disabled:opacity-50"
+                        >
+                            Confirm
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {status.enabled && (
+                <div className="flex flex-wrap items-center gap-3">
+                    {codeInput}
+                    <button
+                        onClick={handleRegenerate}
+                        disabled={!code.trim()}
+                        className="px-4 py-2 rounded-lg border border-border hover:bg-secondary text-sm disabled:opacity-50"
+                    >
+                        New backup codes
+                    </button>
+                    {!status.required && (
+                        <button
+                            onClick={handleDisable}
+                            disabled={!code.trim()}
+                            className="px-4 py-2 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 text-sm disabled:opacity-50"
+                        >
+                            Turn off
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {backupCodes && (
+                <div className="mt-4">
+                    <p className="text-sm text-muted-foreground mb-2">
+                        Save these backup codes somewhere safe. Each works once, and they will not be shown again.
+                    </p>
+                    <ul className="grid grid-cols-2 md:grid-cols-5 gap-2 font-mono text-sm">
+                        {backupCodes.map(backupCode => <li key={backupCode}>{backupCode}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+        </div>
+    );
+};
+
+export default TwoFactorSettings;
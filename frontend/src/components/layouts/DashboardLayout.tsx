@@ -1,6 +1,6 @@
 
 import { Outlet, Link, useLocation } from 'react-router-dom';
-import { LayoutDashboard, Map, MessageSquare, Settings, LogOut, TrendingUp, Users } from 'lucide-react';
+import { LayoutDashboard, Map, MessageSquare, Settings, LogOut, TrendingUp, Users, ShieldCheck, Building2, KanbanSquare, Inbox } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 
 const DashboardLayout = () => {
@@ -36,6 +36,12 @@ const DashboardLayout = () => {
                             AI Assistant
                         </Button>
                     </Link>
+                    <Link to="/messages">
+                        <Button variant={isActive('/messages') ? 'secondary' : 'ghost'} className="w-full justify-start gap-3">
+                            <Inbox size={20} />
+                            Messages
+                        </Button>
+                    </Link>
                     <div className="pt-4 mt-4 border-t border-border">
                         <h4 className="px-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">Recruiting</h4>
                         <Link to="/recruiter">
@@ -44,6 +50,27 @@ const DashboardLayout = () => {
                                 Talent Search
                             </Button>
                         </Link>
+                        <Link to="/shortlists">
+                            <Button variant={isActive('/shortlists') ? 'secondary' : 'ghost'} className="w-full justify-start gap-3">
+                                <KanbanSquare size={20} />
+                                Pipelines
+                            </Button>
+                        </Link>
+                        <Link to="/organization">
+                            <Button variant={isActive('/organization') ? 'secondary' : 'ghost'} className="w-full justify-start gap-3">
+                                <Building2 size={20} />
+                                Team
+                            </Button>
+                        </Link>
+                    </div>
+                    <div className="pt-4 mt-4 border-t border-border">
+                        <h4 className="px-4 text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">Admin</h4>
+                        <Link to="/admin">
+                            <Button variant={isActive('/admin') ? 'secondary' : 'ghost'} className="w-full justify-start gap-3">
+                                <ShieldCheck size={20} />
+                                Moderation
+                            </Button>
+                        </Link>
                     </div>
                 </div>
 
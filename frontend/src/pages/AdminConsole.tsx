@@ -0,0 +1,712 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Search, Ban, RotateCcw, RefreshCw, Database, Trash2, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { api } from '@/services/api';
+import type {
+    AdminUserList,
+    CandidatePlatformData,
+    ScoreAnomaly,
+    ScoreAnomalyStatus,
+    ScoreDispute,
+    ScoreDisputeStatus,
+    ScoreThresholds,
+    ScoringModel,
+    ScoringWeights,
+    UserRole,
+} from '@/types';
+
+const PAGE_SIZE = 20;
+
+type Tab = 'users' | 'disputes' | 'anomalies' | 'scoring';
+
+const disputeStatuses: { value: ScoreDisputeStatus | ''; label: string }[] = [
+    { value: 'pending', label: 'Pending' },
+    { value: 'in-review', label: 'In review' },
+    { value: 'resolved', label: 'Resolved' },
+    { value: 'rejected', label: 'Rejected' },
+    { value: '', label: 'All' },
+];
+
+const anomalyStatuses: { value: ScoreAnomalyStatus | ''; label: string }[] = [
+    { value: 'open', label: 'Open' },
+    { value: 'confirmed', label: 'Confirmed' },
+    { value: 'dismissed', label: 'Dismissed' },
+    { value: '', label: 'All' },
+];
+
+const AdminConsole = () => {
+    const [tab, setTab] = useState<Tab>('users');
+
+    return (
+        <div className="min-h-screen pt-24 px-6 max-w-7xl mx-auto">
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold">Moderation Console</h1>
+                <p className="text-muted-foreground">Manage accounts, platform data, score disputes, anomaly flags and scoring models.</p>
+            </div>
+
+            <div className="flex gap-2 mb-6">
+                <Button variant={tab === 'users' ? 'secondary' : 'ghost'} onClick={() => setTab('users')}>Users</Button>
+                <Button variant={tab === 'disputes' ? 'secondary' : 'ghost'} onClick={() => setTab('disputes')}>Disputes</Button>
+                <Button variant={tab === 'anomalies' ? 'secondary' : 'ghost'} onClick={() => setTab('anomalies')}>Anomalies</Button>
+                <Button variant={tab === 'scoring' ? 'secondary' : 'ghost'} onClick={() => setTab('scoring')}>Scoring</Button>
+            </div>
+
+            {tab === 'users' ? <UsersPanel />
+                : tab === 'disputes' ? <DisputesPanel />
+                : tab === 'anomalies' ? <AnomaliesPanel />
+                : <ScoringPanel />}
+        </div>
+    );
+};
+
+const UsersPanel = () => {
+    const [query, setQuery] = useState('');
+    const [filters, setFilters] = useState<{ userType?: UserRole; suspended?: boolean; query?: string }>({});
+    const [page, setPage] = useState(1);
+    const [result, setResult] = useState<AdminUserList | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [inspecting, setInspecting] = useState<{ userId: string; data: CandidatePlatformData } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const loadUsers = async () => {
+            try {
+                const data = await api.getAdminUsers(filters, page, PAGE_SIZE);
+                if (!cancelled) {
+                    setResult(data);
+                    setError(null);
+                }
+            } catch (err) {
+                console.error('Failed to load users:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load users');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        loadUsers();
+        return () => {
+            cancelled = true;
+        };
+    }, [filters, page, reloadKey]);
+
+    const applyFilters = (next: typeof filters) => {
+        setLoading(true);
+        setFilters(next);
+        setPage(1);
+    };
+
+    const reload = () => {
+        setLoading(true);
+        setReloadKey(prev => prev + 1);
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        applyFilters({ ...filters, query: query.trim() || undefined });
+    };
+
+    const handleSuspend = async (userId: string) => {
+        const reason = window.prompt('Reason for suspension');
+        if (!reason?.trim()) return;
+
+        try {
+            await api.suspendUser(userId, reason.trim());
+            reload();
+        } catch (err) {
+            console.error('Failed to suspend user:', err);
+            alert(err instanceof Error ? err.message : 'Failed to suspend user.');
+        }
+    };
+
+    const handleReinstate = async (userId: string) => {
+        try {
+            await api.reinstateUser(userId);
+            reload();
+        } catch (err) {
+            console.error('Failed to reinstate user:', err);
+            alert('Failed to reinstate user.');
+        }
+    };
+
+    const handleRecalculate = async (userId: string) => {
+        try {
+            const result = await api.recalculateUserScore(userId);
+            alert(`Score recalculated: ${result.current.overallScore} (${result.changeAmount >= 0 ? '+' : ''}${result.changeAmount})`);
+        } catch (err) {
+            console.error('Failed to recalculate score:', err);
+            alert(err instanceof Error ? err.message : 'Failed to recalculate score.');
+        }
+    };
+
+    const handleInspect = async (userId: string) => {
+        if (inspecting?.userId === userId) {
+            setInspecting(null);
+            return;
+        }
+
+        try {
+            setInspecting({ userId, data: await api.getUserPlatformData(userId) });
+        } catch (err) {
+            console.error('Failed to load platform data:', err);
+            alert(err instanceof Error ? err.message : 'Failed to load platform data.');
+        }
+    };
+
+    const handleDeletePlatformData = async (platformDataId: string) => {
+        if (!inspecting || !window.confirm('Delete this platform data row? It will be refetched on the next sync.')) return;
+
+        try {
+            await api.deletePlatformData(platformDataId);
+            setInspecting({
+                ...inspecting,
+                data: {
+                    ...inspecting.data,
+                    platformData: inspecting.data.platformData.filter(row => row.id !== platformDataId)
+                }
+            });
+        } catch (err) {
+            console.error('Failed to delete platform data:', err);
+            alert('Failed to delete platform data.');
+        }
+    };
+
+    return (
+        <>
+            <form onSubmit={handleSearch} className="flex gap-4 mb-6">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-3 text-muted-foreground w-5 h-5" />
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        placeholder="Search by name or email..."
+                        className="w-full pl-10 p-3 rounded-lg bg-card border border-border"
+                    />
+                </div>
+                <select
+                    value={filters.userType ?? ''}
+                    onChange={e => applyFilters({ ...filters, userType: (e.target.value || undefined) as UserRole | undefined })}
+                    className="p-3 rounded-lg bg-card border border-border"
+                >
+                    <option value="">All roles</option>
+                    <option value="CANDIDATE">Candidates</option>
+                    <option value="RECRUITER">Recruiters</option>
+                    <option value="ADMIN">Admins</option>
+                </select>
+                <select
+                    value={filters.suspended === undefined ? '' : String(filters.suspended)}
+                    onChange={e => applyFilters({ ...filters, suspended: e.target.value === '' ? undefined : e.target.value === 'true' })}
+                    className="p-3 rounded-lg bg-card border border-border"
+                >
+                    <option value="">Any status</option>
+                    <option value="false">Active</option>
+                    <option value="true">Suspended</option>
+                </select>
+                <Button type="submit" className="h-auto">Search</Button>
+            </form>
+
+            {loading ? (
+                <div className="flex items-center justify-center h-64"><Loader2 className="animate-spin text-primary" /></div>
+            ) : error ? (
+                <div className="text-center text-red-400 py-16">{error}</div>
+            ) : !result || result.users.length === 0 ? (
+                <div className="text-center text-muted-foreground py-16">No users match these filters.</div>
+            ) : (
+                <>
+                    <p className="text-sm text-muted-foreground mb-4">{result.total} users</p>
+                    <div className="space-y-4">
+                        {result.users.map(user => (
+                            <div key={user.id} className="bg-card p-6 rounded-xl border border-border">
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <div className="flex items-center gap-2">
+                                            <h3 className="text-lg font-bold">{user.name}</h3>
+                                            <span className="text-xs px-2 py-1 rounded-full bg-secondary text-secondary-foreground">
+                                                {user.userType.toLowerCase()}
+                                            </span>
+                                            {user.suspendedAt && (
+                                                <span className="text-xs px-2 py-1 rounded-full bg-red-950/40 text-red-400">suspended</span>
+                                            )}
+                                        </div>
+                                        <p className="text-sm text-muted-foreground">{user.email}</p>
+                                        {user.suspensionReason && (
+                                            <p className="text-xs text-red-400 mt-1">{user.suspensionReason}</p>
+                                        )}
+                                    </div>
+                                    <div className="flex gap-2">
+                                        {user.candidateProfileId && (
+                                            <>
+                                                <Button variant="outline" size="sm" className="gap-2" onClick={() => handleRecalculate(user.id)}>
+                                                    <RefreshCw className="w-4 h-4" />
+                                                    Recalculate
+                                                </Button>
+                                                <Button variant="outline" size="sm" className="gap-2" onClick={() => handleInspect(user.id)}>
+                                                    <Database className="w-4 h-4" />
+                                                    Data
+                                                </Button>
+                                            </>
+                                        )}
+                                        {user.userType !== 'ADMIN' && (user.suspendedAt ? (
+                                            <Button variant="outline" size="sm" className="gap-2" onClick={() => handleReinstate(user.id)}>
+                                                <RotateCcw className="w-4 h-4" />
+                                                Reinstate
+                                            </Button>
+                                        ) : (
+                                            <Button variant="outline" size="sm" className="gap-2 text-red-400" onClick={() => handleSuspend(user.id)}>
+                                                <Ban className="w-4 h-4" />
+                                                Suspend
+                                            </Button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                {inspecting?.userId === user.id && (
+                                    <div className="mt-4 pt-4 border-t border-border space-y-3">
+                                        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                                            {inspecting.data.connections.map(connection => (
+                                                <span key={connection.id}>
+                                                    {connection.platform.toLowerCase()} @{connection.username}
+                                                    {connection.isVerified ? ' (verified)' : ''}
+                                                    {connection.lastSynced ? `, synced ${new Date(connection.lastSynced).toLocaleDateString()}` : ', never synced'}
+                                                </span>
+                                            ))}
+                                        </div>
+                                        {inspecting.data.platformData.length === 0 ? (
+                                            <p className="text-sm text-muted-foreground">No stored platform data.</p>
+                                        ) : inspecting.data.platformData.map(row => (
+                                            <div key={row.id} className="rounded-lg border border-border p-3">
+                                                <div className="flex items-center justify-between mb-2">
+                                                    <span className="text-sm font-medium">
+                                                        {row.platform.toLowerCase()} / {row.dataType}
+                                                        <span className="text-muted-foreground font-normal"> fetched {new Date(row.fetchedAt).toLocaleString()}</span>
+                                                    </span>
+                                                    <button
+                                                        type="button"
+                                                        className="text-muted-foreground hover:text-red-400"
+                                                        onClick={() => handleDeletePlatformData(row.id)}
+                                                        aria-label={`Delete ${row.platform} ${row.dataType} data`}
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                                <pre className="text-xs overflow-x-auto max-h-64 bg-background/50 p-2 rounded">
+                                                    {JSON.stringify(row.processedData ?? row.rawData, null, 2)}
+                                                </pre>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    {result.totalPages > 1 && (
+                        <div className="flex items-center justify-center gap-4 my-8">
+                            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => { setLoading(true); setPage(page - 1); }}>
+                                <ChevronLeft className="w-4 h-4" />
+                            </Button>
+                            <span className="text-sm text-muted-foreground">Page {result.page} of {result.totalPages}</span>
+                            <Button variant="outline" size="sm" disabled={page >= result.totalPages} onClick={() => { setLoading(true); setPage(page + 1); }}>
+                                <ChevronRight className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    )}
+                </>
+            )}
+        </>
+    );
+};
+
+const DisputesPanel = () => {
+    const [status, setStatus] = useState<ScoreDisputeStatus | ''>('pending');
+    const [disputes, setDisputes] = useState<ScoreDispute[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const loadDisputes = async () => {
+            try {
+                const data = await api.getDisputes(status || undefined);
+                if (!cancelled) {
+                    setDisputes(data.disputes);
+                    setError(null);
+                }
+            } catch (err) {
+                console.error('Failed to load disputes:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load disputes');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        loadDisputes();
+        return () => {
+            cancelled = true;
+        };
+    }, [status]);
+
+    const handleStatusChange = (value: ScoreDisputeStatus | '') => {
+        setLoading(true);
+        setStatus(value);
+    };
+
+    const handleReview = async (dispute: ScoreDispute, nextStatus: Exclude<ScoreDisputeStatus, 'pending'>) => {
+        let resolution: string | undefined;
+        let adminNotes: string | undefined;
+        let recalculate = false;
+
+        if (nextStatus !== 'in-review') {
+            const input = window.prompt(nextStatus === 'resolved' ? 'Resolution shown to the candidate' : 'Reason for rejection');
+            if (!input?.trim()) return;
+            resolution = input.trim();
+            adminNotes = window.prompt('Internal notes (optional)')?.trim() || undefined;
+            recalculate = nextStatus === 'resolved'
+                && dispute.type === 'calculation-error'
+                && window.confirm('Recalculate this candidate\'s score now?');
+        }
+
+        try {
+            const updated = await api.reviewDispute(dispute.id, { status: nextStatus, resolution, adminNotes, recalculate });
+            setDisputes(prev => status && updated.status !== status
+                ? prev.filter(d => d.id !== updated.id)
+                : prev.map(d => (d.id === updated.id ? updated : d)));
+        } catch (err) {
+            console.error('Failed to review dispute:', err);
+            alert(err instanceof Error ? err.message : 'Failed to review dispute.');
+        }
+    };
+
+    return (
+        <>
+            <div className="flex gap-2 mb-6">
+                {disputeStatuses.map(option => (
+                    <Button
+                        key={option.label}
+                        variant={status === option.value ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => handleStatusChange(option.value)}
+                    >
+                        {option.label}
+                    </Button>
+                ))}
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center h-64"><Loader2 className="animate-spin text-primary" /></div>
+            ) : error ? (
+                <div className="text-center text-red-400 py-16">{error}</div>
+            ) : disputes.length === 0 ? (
+                <div className="text-center text-muted-foreground py-16">No disputes here.</div>
+            ) : (
+                <div className="space-y-4">
+                    {disputes.map(dispute => (
+                        <div key={dispute.id} className="bg-card p-6 rounded-xl border border-border">
+                            <div className="flex items-start justify-between gap-4">
+                                <div>
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <span className="text-xs px-2 py-1 rounded-full bg-secondary text-secondary-foreground">{dispute.type}</span>
+                                        <span className="text-xs text-muted-foreground">{dispute.status}</span>
+                                        <span className="text-xs text-muted-foreground">
+                                            submitted {new Date(dispute.submittedAt).toLocaleDateString()}
+                                        </span>
+                                    </div>
+                                    <p className="text-sm">{dispute.description}</p>
+                                    {dispute.resolution && <p className="text-sm text-primary mt-2">{dispute.resolution}</p>}
+                                    {dispute.adminNotes && <p className="text-xs text-muted-foreground mt-1">Notes: {dispute.adminNotes}</p>}
+                                </div>
+                                {(dispute.status === 'pending' || dispute.status === 'in-review') && (
+                                    <div className="flex gap-2 shrink-0">
+                                        {dispute.status === 'pending' && (
+                                            <Button variant="outline" size="sm" onClick={() => handleReview(dispute, 'in-review')}>Start Review</Button>
+                                        )}
+                                        <Button size="sm" onClick={() => handleReview(dispute, 'resolved')}>Resolve</Button>
+                                        <Button variant="outline" size="sm" className="text-red-400" onClick={() => handleReview(dispute, 'rejected')}>Reject</Button>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </>
+    );
+};
+
+const AnomaliesPanel = () => {
+    const [status, setStatus] = useState<ScoreAnomalyStatus | ''>('open');
+    const [anomalies, setAnomalies] = useState<ScoreAnomaly[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const loadAnomalies = async () => {
+            try {
+                const data = await api.getAnomalies(status || undefined);
+                if (!cancelled) {
+                    setAnomalies(data.anomalies);
+                    setError(null);
+                }
+            } catch (err) {
+                console.error('Failed to load anomalies:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load anomalies');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        loadAnomalies();
+        return () => {
+            cancelled = true;
+        };
+    }, [status]);
+
+    const handleStatusChange = (value: ScoreAnomalyStatus | '') => {
+        setLoading(true);
+        setStatus(value);
+    };
+
+    const handleReview = async (anomaly: ScoreAnomaly, nextStatus: Exclude<ScoreAnomalyStatus, 'open'>) => {
+        let dampening: number | undefined;
+
+        if (nextStatus === 'confirmed') {
+            const input = window.prompt('Multiply the platform score by (0-1, empty keeps the current factor)', String(anomaly.dampening));
+            if (input === null) return;
+            if (input.trim()) {
+                dampening = Number(input);
+                if (Number.isNaN(dampening) || dampening < 0 || dampening > 1) {
+                    alert('The factor must be between 0 and 1.');
+                    return;
+                }
+            }
+        }
+
+        try {
+            const updated = await api.reviewAnomaly(anomaly.id, { status: nextStatus, dampening });
+            // The review response has no candidate details, so keep the ones already shown
+            const merged = { ...anomaly, ...updated };
+            setAnomalies(prev => status && merged.status !== status
+                ? prev.filter(a => a.id !== merged.id)
+                : prev.map(a => (a.id === merged.id ? merged : a)));
+        } catch (err) {
+            console.error('Failed to review anomaly:', err);
+            alert(err instanceof Error ? err.message : 'Failed to review anomaly.');
+        }
+    };
+
+    return (
+        <>
+            <div className="flex gap-2 mb-6">
+                {anomalyStatuses.map(option => (
+                    <Button
+                        key={option.label}
+                        variant={status === option.value ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => handleStatusChange(option.value)}
+                    >
+                        {option.label}
+                    </Button>
+                ))}
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center h-64"><Loader2 className="animate-spin text-primary" /></div>
+            ) : error ? (
+                <div className="text-center text-red-400 py-16">{error}</div>
+            ) : anomalies.length === 0 ? (
+                <div className="text-center text-muted-foreground py-16">No anomalies here.</div>
+            ) : (
+                <div className="space-y-4">
+                    {anomalies.map(anomaly => (
+                        <div key={anomaly.id} className="bg-card p-6 rounded-xl border border-border">
+                            <div className="flex items-start justify-between gap-4">
+                                <div>
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <span className="text-xs px-2 py-1 rounded-full bg-secondary text-secondary-foreground">{anomaly.type}</span>
+                                        <span className="text-xs text-muted-foreground">{anomaly.platform}</span>
+                                        <span className="text-xs text-muted-foreground">{anomaly.status}</span>
+                                        <span className="text-xs text-muted-foreground">
+                                            flagged {new Date(anomaly.createdAt).toLocaleDateString()}
+                                        </span>
+                                    </div>
+                                    {anomaly.candidateName && <p className="font-medium">{anomaly.candidateName}</p>}
+                                    <p className="text-sm">{anomaly.summary}</p>
+                                    {anomaly.status !== 'dismissed' && anomaly.dampening < 1 && (
+                                        <p className="text-xs text-red-400 mt-1">Platform score scaled by {anomaly.dampening}</p>
+                                    )}
+                                </div>
+                                {anomaly.status !== 'dismissed' && (
+                                    <div className="flex gap-2 shrink-0">
+                                        <Button size="sm" onClick={() => handleReview(anomaly, 'confirmed')}>
+                                            {anomaly.status === 'open' ? 'Confirm' : 'Adjust'}
+                                        </Button>
+                                        <Button variant="outline" size="sm" onClick={() => handleReview(anomaly, 'dismissed')}>Dismiss</Button>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </>
+    );
+};
+
+const weightFields: { key: keyof ScoringWeights; label: string }[] = [
+    { key: 'github', label: 'GitHub' },
+    { key: 'linkedin', label: 'LinkedIn' },
+    { key: 'twitter', label: 'Twitter' },
+    { key: 'blog', label: 'Blogs' },
+];
+
+const ScoringPanel = () => {
+    const [models, setModels] = useState<ScoringModel[]>([]);
+    const [weights, setWeights] = useState<ScoringWeights | null>(null);
+    const [thresholds, setThresholds] = useState<ScoreThresholds | null>(null);
+    const [notes, setNotes] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [publishing, setPublishing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        const loadModels = async () => {
+            try {
+                const data = await api.getScoringModels();
+                if (!cancelled) {
+                    setModels(data);
+                    // Start the draft from the active version
+                    const active = data.find(model => model.active);
+                    if (active) {
+                        setWeights(active.weights);
+                        setThresholds(active.thresholds);
+                    }
+                    setError(null);
+                }
+            } catch (err) {
+                console.error('Failed to load scoring models:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load scoring models');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        loadModels();
+        return () => {
+            cancelled = true;
+        };
+    }, [reloadKey]);
+
+    const handlePublish = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!weights || !thresholds) return;
+        if (!window.confirm('Publish this scoring model? Every candidate will be rescored under it.')) return;
+
+        setPublishing(true);
+        try {
+            const { model } = await api.publishScoringModel({ weights, thresholds, notes: notes.trim() || undefined });
+            alert(`Version ${model.version} published. Candidates are being rescored in the background.`);
+            setNotes('');
+            setReloadKey(prev => prev + 1);
+        } catch (err) {
+            console.error('Failed to publish scoring model:', err);
+            alert(err instanceof Error ? err.message : 'Failed to publish scoring model.');
+        } finally {
+            setPublishing(false);
+        }
+    };
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-64"><Loader2 className="animate-spin text-primary" /></div>;
+    }
+
+    if (error) {
+        return <div className="text-center text-red-400 py-16">{error}</div>;
+    }
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-4">
+                {models.map(model => (
+                    <div key={model.version} className="bg-card p-6 rounded-xl border border-border">
+                        <div className="flex items-center justify-between mb-2">
+                            <div className="flex items-center gap-2">
+                                <h3 className="text-lg font-bold">Version {model.version}</h3>
+                                {model.active && (
+                                    <span className="text-xs px-2 py-1 rounded-full bg-primary/10 text-primary">active</span>
+                                )}
+                            </div>
+                            <span className="text-xs text-muted-foreground">
+                                {model.scoredCandidates} scored · published {new Date(model.createdAt).toLocaleDateString()}
+                            </span>
+                        </div>
+                        {model.notes && <p className="text-sm text-muted-foreground mb-2">{model.notes}</p>}
+                        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                            {weightFields.map(field => (
+                                <span key={field.key}>{field.label} {Math.round(model.weights[field.key] * 100)}%</span>
+                            ))}
+                            <span>Strength ≥ {model.thresholds.strength}</span>
+                            <span>Improvement &lt; {model.thresholds.improvement}</span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {weights && thresholds && (
+                <form onSubmit={handlePublish} className="bg-card p-6 rounded-xl border border-border space-y-4 h-fit">
+                    <h3 className="text-lg font-bold">Publish a new version</h3>
+                    <p className="text-xs text-muted-foreground">Metric coefficients carry over from the active version.</p>
+                    {weightFields.map(field => (
+                        <label key={field.key} className="flex items-center justify-between gap-4 text-sm">
+                            {field.label} weight
+                            <input
+                                type="number"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={weights[field.key]}
+                                onChange={e => setWeights({ ...weights, [field.key]: Number(e.target.value) })}
+                                className="w-24 px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                            />
+                        </label>
+                    ))}
+                    <label className="flex items-center justify-between gap-4 text-sm">
+                        Strength threshold
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={thresholds.strength}
+                            onChange={e => setThresholds({ ...thresholds, strength: Number(e.target.value) })}
+                            className="w-24 px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                        />
+                    </label>
+                    <label className="flex items-center justify-between gap-4 text-sm">
+                        Improvement threshold
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={thresholds.improvement}
+                            onChange={e => setThresholds({ ...thresholds, improvement: Number(e.target.value) })}
+                            className="w-24 px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                        />
+                    </label>
+                    <textarea
+                        value={notes}
+                        onChange={e => setNotes(e.target.value)}
+                        placeholder="What changed and why"
+                        className="w-full px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                        rows={3}
+                    />
+                    <Button type="submit" className="w-full" disabled={publishing}>
+                        {publishing ? 'Publishing...' : 'Publish'}
+                    </Button>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default AdminConsole;
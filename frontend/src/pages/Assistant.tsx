@@ -4,7 +4,6 @@ import { Button } from '@/components/ui/Button';
 import { Send, FileText, Sparkles, Bot, Loader2 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { api } from '@/services/api';
-import { supabase } from '@/lib/supabase';
 
 const Assistant = () => {
     const [messages, setMessages] = useState<{ role: 'user' | 'assistant', content: string }[]>([
@@ -29,11 +28,8 @@ const Assistant = () => {
         setIsTyping(true);
 
         try {
-            const { data: { user } } = await supabase.auth.getUser();
-            const userId = user?.id || 'demo-user';
-
             const contextPapersIds = papers.map(p => p.id);
-            const res = await api.chatWithAI(userId, userMessage, contextPapersIds);
+            const res = await api.chatWithAI(userMessage, contextPapersIds);
 
             setMessages(prev => [...prev, {
                 role: 'assistant',
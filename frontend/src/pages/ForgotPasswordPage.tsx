@@ -1,23 +1,39 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { ArrowLeft, ArrowRight, Loader2 } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardFooter } from '@/components/ui/Card';
+import { api } from '@/services/api';
 
 const ForgotPasswordPage = () => {
+    // Reset links from the email land here with a token
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get('token');
+
+    const [email, setEmail] = useState<string>('');
+    const [password, setPassword] = useState<string>('');
+    const [error, setError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isSubmitted, setIsSubmitted] = useState<boolean>(false);
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsLoading(true);
-        // Simulate API call
-        setTimeout(() => {
-            setIsLoading(false);
+        setError(null);
+        try {
+            if (token) {
+                await api.resetPassword(token, password);
+            } else {
+                await api.requestPasswordReset(email);
+            }
             setIsSubmitted(true);
-        }, 2000);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        } finally {
+            setIsLoading(false);
+        }
     };
 
     return (
@@ -31,31 +47,50 @@ const ForgotPasswordPage = () => {
             >
                 <div className="text-center mb-8">
                     <h1 className="text-3xl font-bold tracking-tight mb-2">Reset Password</h1>
-                    <p className="text-muted-foreground">Enter your email and we'll send you a reset link</p>
+                    <p className="text-muted-foreground">
+                        {token ? 'Choose a new password for your account' : "Enter your email and we'll send you a reset link"}
+                    </p>
                 </div>
 
                 <Card className="glass-card bg-black/40 border-white/10">
                     <CardContent className="pt-6">
                         {!isSubmitted ? (
                             <form onSubmit={handleSubmit} className="space-y-4">
-                                <div className="space-y-2">
-                                    <label className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">Email</label>
-                                    <Input
-                                        type="email"
-                                        placeholder="m@example.com"
-                                        required
-                                        className="bg-background/50"
-                                    />
-                                </div>
+                                {token ? (
+                                    <div className="space-y-2">
+                                        <label className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">New password</label>
+                                        <Input
+                                            type="password"
+                                            value={password}
+                                            onChange={(e) => setPassword(e.target.value)}
+                                            required
+                                            minLength={8}
+                                            className="bg-background/50"
+                                        />
+                                    </div>
+                                ) : (
+                                    <div className="space-y-2">
+                                        <label className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">Email</label>
+                                        <Input
+                                            type="email"
+                                            placeholder="m@example.com"
+                                            value={email}
+                                            onChange={(e) => setEmail(e.target.value)}
+                                            required
+                                            className="bg-background/50"
+                                        />
+                                    </div>
+                                )}
+                                {error && <p className="text-sm text-red-400">{error}</p>}
                                 <Button className="w-full" type="submit" disabled={isLoading}>
                                     {isLoading ? (
                                         <>
                                             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                            Sending link...
+                                            {token ? 'Saving...' : 'Sending link...'}
                                         </>
                                     ) : (
                                         <>
-                                            Send Reset Link
+                                            {token ? 'Set New Password' : 'Send Reset Link'}
                                             <ArrowRight className="ml-2 h-4 w-4" />
                                         </>
                                     )}
@@ -79,9 +114,11 @@ const ForgotPasswordPage = () => {
                                         <polyline points="22 4 12 14.01 9 11.01"></polyline>
                                     </svg>
                                 </div>
-                                <h3 className="text-lg font-semibold">Check your email</h3>
+                                <h3 className="text-lg font-semibold">{token ? 'Password updated' : 'Check your email'}</h3>
                                 <p className="text-muted-foreground text-sm">
-                                    We have sent a password reset link to your email address.
+                                    {token
+                                        ? 'Your password has been reset and all devices were logged out. You can now log in with your new password.'
+                                        : 'If an account exists for that address, we have sent a password reset link to it.'}
                                 </p>
                             </div>
                         )}
@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Github, ArrowRight, Loader2 } from 'lucide-react';
+import { Github, Linkedin, ArrowRight, Loader2 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardFooter } from '@/components/ui/Card';
+import { getOAuthUrl } from '@/lib/oauth';
+import type { OAuthProvider } from '@/lib/oauth';
 
 // Google Icon Component
 const GoogleIcon = (props: React.SVGProps<SVGSVGElement>) => (
@@ -39,6 +41,11 @@ const LoginPage = () => {
         setTimeout(() => setIsLoading(false), 2000);
     };
 
+    const handleOAuth = (provider: OAuthProvider) => {
+        setIsLoading(true);
+        window.location.href = getOAuthUrl(provider);
+    };
+
     return (
         <div className="min-h-screen pt-20 flex items-center justify-center p-6 relative overflow-hidden bg-background">
             <div className="absolute top-0 left-0 w-full h-full bg-[radial-gradient(circle_at_center,rgba(var(--primary),0.05),transparent_60%)] pointer-events-none" />
@@ -55,12 +62,16 @@ const LoginPage = () => {
 
                 <Card className="glass-card bg-black/40 border-white/10">
                     <CardContent className="pt-6">
-                        <div className="grid grid-cols-2 gap-4 mb-6">
-                            <Button variant="outline" className="w-full" disabled={isLoading}>
+                        <div className="grid grid-cols-3 gap-4 mb-6">
+                            <Button variant="outline" className="w-full" disabled={isLoading} onClick={() => handleOAuth('github')}>
                                 <Github className="mr-2 h-4 w-4" />
                                 Github
                             </Button>
-                            <Button variant="outline" className="w-full" disabled={isLoading}>
+                            <Button variant="outline" className="w-full" disabled={isLoading} onClick={() => handleOAuth('linkedin')}>
+                                <Linkedin className="mr-2 h-4 w-4" />
+                                LinkedIn
+                            </Button>
+                            <Button variant="outline" className="w-full" disabled={isLoading} onClick={() => handleOAuth('google')}>
                                 <GoogleIcon className="mr-2 h-4 w-4" />
                                 Google
                             </Button>
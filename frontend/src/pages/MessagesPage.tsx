@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Inbox, Loader2, Send } from 'lucide-react';
+import { api } from '@/services/api';
+import type { Conversation, ConversationDetails, ConversationStatus } from '@/types';
+
+const statusLabels: Record<ConversationStatus, string> = {
+    PENDING: 'Request pending',
+    ACCEPTED: 'Open',
+    DECLINED: 'Declined',
+    CLOSED: 'Closed',
+};
+
+const MessagesPage = () => {
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [thread, setThread] = useState<ConversationDetails | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [draft, setDraft] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        const loadConversations = async () => {
+            try {
+                const data = await api.getConversations();
+                if (!cancelled) setConversations(data);
+            } catch (err) {
+                console.error('Failed to load conversations:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load conversations');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        loadConversations();
+        return () => {
+            cancelled = true;
+        };
+    }, [reloadKey]);
+
+    useEffect(() => {
+        if (!selectedId) return;
+        let cancelled = false;
+        const loadThread = async () => {
+            try {
+                const data = await api.getConversation(selectedId);
+                if (!cancelled) setThread(data);
+            } catch (err) {
+                console.error('Failed to load conversation:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load conversation');
+            }
+        };
+        loadThread();
+        return () => {
+            cancelled = true;
+        };
+    }, [selectedId, reloadKey]);
+
+    const reload = () => setReloadKey(prev => prev + 1);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        }
+        reload();
+    };
+
+    const handleSend = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!thread) return;
+        run(async () => {
+            await api.sendMessage(thread.id, draft.trim());
+            setDraft('');
+        });
+    };
+
+    const handleClose = () => {
+        if (!thread) return;
+        const prompt = thread.status === 'PENDING'
+            ? 'Withdraw this contact request?'
+            : 'Close this conversation? Neither of you will be able to send more messages.';
+        if (!window.confirm(prompt)) return;
+        run(() => api.closeConversation(thread.id));
+    };
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-64 pt-24"><Loader2 className="animate-spin text-primary" /></div>;
+    }
+
+    return (
+        <div className="min-h-screen pt-24 px-6 max-w-6xl mx-auto">
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold">Messages</h1>
+                <p className="text-muted-foreground">Conversations open once the candidate accepts the contact request.</p>
+            </div>
+
+            {error && <p className="text-sm text-red-400 mb-6">{error}</p>}
+
+            {conversations.length === 0 ? (
+                <div className="text-center text-muted-foreground py-16 flex flex-col items-center gap-3">
+                    <Inbox className="w-8 h-8" />
+                    No conversations yet.
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
+                    <ul className="bg-card rounded-xl border border-border divide-y divide-border h-fit">
+                        {conversations.map(conversation => (
+                            <li key={conversation.id}>
+                                <button
+                                    type="button"
+                                    onClick={() => setSelectedId(conversation.id)}
+                                    className={`w-full text-left p-4 text-sm hover:bg-secondary/50 ${conversation.id === selectedId ? 'bg-secondary' : ''}`}
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-medium">{conversation.counterpart.name}</span>
+                                        {conversation.unreadCount > 0 && (
+                                            <span className="text-xs px-2 py-0.5 rounded-full bg-primary text-primary-foreground">{conversation.unreadCount}</span>
+                                        )}
+                                    </div>
+                                    {conversation.counterpart.company && (
+                                        <p className="text-xs text-muted-foreground">{conversation.counterpart.company}</p>
+                                    )}
+                                    <p className="text-xs text-muted-foreground mt-1 truncate">
+                                        {statusLabels[conversation.status]}
+                                        {conversation.lastMessage && ` · ${conversation.lastMessage.body}`}
+                                    </p>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <div className="md:col-span-2 bg-card p-6 rounded-xl border border-border">
+                        {!thread ? (
+                            <p className="text-sm text-muted-foreground">Select a conversation.</p>
+                        ) : (
+                            <div className="space-y-4">
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h3 className="text-lg font-bold">{thread.counterpart.name}</h3>
+                                        <p className="text-xs text-muted-foreground">
+                                            {thread.counterpart.company ? `${thread.counterpart.company} · ` : ''}{statusLabels[thread.status]}
+                                        </p>
+                                    </div>
+                                    {(thread.status === 'ACCEPTED' || (thread.status === 'PENDING' && !thread.viewerIsCandidate)) && (
+                                        <Button variant="outline" size="sm" onClick={handleClose}>
+                                            {thread.status === 'PENDING' ? 'Withdraw' : 'Close'}
+                                        </Button>
+                                    )}
+                                </div>
+
+                                <ul className="space-y-3 max-h-[50vh] overflow-y-auto">
+                                    {thread.messages.map(message => (
+                                        <li key={message.id} className={`flex ${message.fromMe ? 'justify-end' : 'justify-start'}`}>
+                                            <div className={`max-w-[80%] px-4 py-2 rounded-xl text-sm ${message.fromMe ? 'bg-primary/20' : 'bg-secondary'}`}>
+                                                <p className="whitespace-pre-wrap">{message.body}</p>
+                                                <p className="text-xs text-muted-foreground mt-1">{new Date(message.createdAt).toLocaleString()}</p>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+
+                                {thread.status === 'PENDING' && thread.viewerIsCandidate && (
+                                    <div className="flex items-center justify-between gap-4 pt-2 border-t border-border">
+                                        <p className="text-sm text-muted-foreground">Accept to start a conversation. Declined requests cannot be sent again.</p>
+                                        <div className="flex gap-2">
+                                            <Button variant="outline" size="sm" onClick={() => run(() => api.respondToContactRequest(thread.id, false))}>
+                                                Decline
+                                            </Button>
+                                            <Button size="sm" onClick={() => run(() => api.respondToContactRequest(thread.id, true))}>
+                                                Accept
+                                            </Button>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {thread.status === 'ACCEPTED' && (
+                                    <form onSubmit={handleSend} className="flex gap-3 pt-2 border-t border-border">
+                                        <textarea
+                                            value={draft}
+                                            onChange={e => setDraft(e.target.value)}
+                                            placeholder="Write a message"
+                                            className="flex-1 px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                                            rows={2}
+                                        />
+                                        <Button type="submit" className="gap-2 self-end" disabled={!draft.trim()}>
+                                            <Send className="w-4 h-4" />
+                                            Send
+                                        </Button>
+                                    </form>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MessagesPage;
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, CheckCircle2, Loader2, ShieldCheck, XCircle } from 'lucide-react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardFooter } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { api } from '@/services/api';
+
+const OAuthCallbackPage = () => {
+    const [searchParams] = useSearchParams();
+    const { hash } = useLocation();
+    const navigate = useNavigate();
+
+    // The server puts tokens in the fragment so they stay out of logs and referrers
+    const fragment = new URLSearchParams(hash.replace(/^#/, ''));
+    const token = fragment.get('token');
+    const refreshToken = fragment.get('refreshToken');
+    // Accounts with two-factor authentication get a challenge instead of tokens
+    const twoFactorToken = fragment.get('twoFactorToken');
+    const error = searchParams.get('error');
+    const linked = searchParams.get('linked');
+    const [code, setCode] = useState('');
+    const [codeError, setCodeError] = useState<string | null>(null);
+    const [verifying, setVerifying] = useState(false);
+
+    const finishSignIn = (userType: string | null, isNewUser: boolean) => {
+        if (userType === 'RECRUITER') {
+            navigate('/recruiter', { replace: true });
+        } else if (isNewUser) {
+            navigate('/onboarding', { replace: true });
+        } else {
+            navigate('/dashboard', { replace: true });
+        }
+    };
+
+    useEffect(() => {
+        if (!token || !refreshToken) return;
+
+        localStorage.setItem('token', token);
+        localStorage.setItem('refreshToken', refreshToken);
+
+        finishSignIn(fragment.get('userType'), fragment.get('newUser') === 'true');
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [token, refreshToken]);
+
+    const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!twoFactorToken) return;
+
+        setVerifying(true);
+        setCodeError(null);
+        try {
+            const session = await api.completeTwoFactorLogin(twoFactorToken, code.trim());
+            finishSignIn(session.user.userType, fragment.get('newUser') === 'true');
+        } catch (err) {
+            setCodeError(err instanceof Error ? err.message : 'Verification failed');
+            setVerifying(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen pt-20 flex items-center justify-center p-6 relative overflow-hidden bg-background">
+            <div className="absolute top-0 left-0 w-full h-full bg-[radial-gradient(circle_at_center,rgba(var(--primary),0.05),transparent_60%)] pointer-events-none" />
+
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="w-full max-w-md relative z-10"
+            >
+                <div className="text-center mb-8">
+                    <h1 className="text-3xl font-bold tracking-tight mb-2">Signing In</h1>
+                    <p className="text-muted-foreground">Finishing up with your provider</p>
+                </div>
+
+                <Card className="glass-card bg-black/40 border-white/10">
+                    <CardContent className="pt-6">
+                        <div className="text-center space-y-4 py-4">
+                            {linked && (
+                                <>
+                                    <div className="p-3 bg-primary/10 rounded-full w-fit mx-auto text-primary">
+                                        <CheckCircle2 className="h-6 w-6" />
+                                    </div>
+                                    <h3 className="text-lg font-semibold">Account linked</h3>
+                                    <p className="text-muted-foreground text-sm">
+                                        Your {linked} account is now linked. You can use it to sign in from now on.
+                                    </p>
+                                </>
+                            )}
+                            {!linked && !error && twoFactorToken && (
+                                <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+                                    <div className="p-3 bg-primary/10 rounded-full w-fit mx-auto text-primary">
+                                        <ShieldCheck className="h-6 w-6" />
+                                    </div>
+                                    <h3 className="text-lg font-semibold">Two-factor authentication</h3>
+                                    <p className="text-muted-foreground text-sm">
+                                        Enter the code from your authenticator app, or one of your backup codes.
+                                    </p>
+                                    <Input
+                                        value={code}
+                                        onChange={(e) => setCode(e.target.value)}
+                                        placeholder="123456"
+                                        autoComplete="one-time-code"
+                                        autoFocus
+                                        required
+                                    />
+                                    {codeError && <p className="text-sm text-red-400">{codeError}</p>}
+                                    <Button type="submit" className="w-full" disabled={verifying || !code.trim()}>
+                                        {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                        Verify
+                                    </Button>
+                                </form>
+                            )}
+                            {!linked && (error || (!token && !twoFactorToken)) && (
+                                <>
+                                    <div className="p-3 bg-red-500/10 rounded-full w-fit mx-auto text-red-400">
+                                        <XCircle className="h-6 w-6" />
+                                    </div>
+                                    <h3 className="text-lg font-semibold">Sign-in failed</h3>
+                                    <p className="text-muted-foreground text-sm">
+                                        {error || 'The provider did not return a session.'} Please try again.
+                                    </p>
+                                </>
+                            )}
+                            {!linked && !error && token && (
+                                <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+                            )}
+                        </div>
+                    </CardContent>
+                    <CardFooter className="justify-center border-t border-white/5 pt-6">
+                        <Link
+                            to={linked ? '/dashboard' : '/login'}
+                            className="flex items-center text-sm text-muted-foreground hover:text-primary transition-colors"
+                        >
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            {linked ? 'Back to dashboard' : 'Back to login'}
+                        </Link>
+                    </CardFooter>
+                </Card>
+            </motion.div>
+        </div>
+    );
+};
+
+export default OAuthCallbackPage;
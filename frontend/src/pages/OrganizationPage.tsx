@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Building2, Loader2, Mail, Trash2, UserMinus } from 'lucide-react';
+import { api } from '@/services/api';
+import type { Organization, OrganizationRole } from '@/types';
+
+const roleLabels: Record<OrganizationRole, string> = {
+    OWNER: 'Owner',
+    ADMIN: 'Admin',
+    MEMBER: 'Member',
+};
+
+const OrganizationPage = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const invitationToken = searchParams.get('invitation');
+    const [organization, setOrganization] = useState<Organization | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [name, setName] = useState('');
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<OrganizationRole>('MEMBER');
+
+    useEffect(() => {
+        let cancelled = false;
+        const loadOrganization = async () => {
+            try {
+                const data = await api.getOrganization();
+                if (!cancelled) setOrganization(data);
+            } catch (err) {
+                console.error('Failed to load organization:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load organization');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        loadOrganization();
+        return () => {
+            cancelled = true;
+        };
+    }, [reloadKey]);
+
+    const reload = () => {
+        setLoading(true);
+        setReloadKey(prev => prev + 1);
+    };
+
+    // Run an action, then show the organization as the server returns it
+    const run = async (action: () => Promise<Organization | null | void>) => {
+        setError(null);
+        try {
+            const updated = await action();
+            if (updated !== undefined) {
+                setOrganization(updated);
+            } else {
+                reload();
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        }
+    };
+
+    const handleAcceptInvitation = () => run(async () => {
+        if (!invitationToken) return null;
+        const joined = await api.acceptOrganizationInvitation(invitationToken);
+        setSearchParams({});
+        return joined;
+    });
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(() => api.createOrganization(name.trim()));
+    };
+
+    const handleInvite = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            await api.inviteOrganizationMember(inviteEmail.trim(), inviteRole);
+            setInviteEmail('');
+        });
+    };
+
+    const handleLeave = () => {
+        if (!window.confirm('Leave this organization? You will lose access to its shared searches.')) return;
+        run(async () => {
+            await api.leaveOrganization();
+            return null;
+        });
+    };
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-64 pt-24"><Loader2 className="animate-spin text-primary" /></div>;
+    }
+
+    const canManage = organization?.role === 'OWNER' || organization?.role === 'ADMIN';
+
+    return (
+        <div className="min-h-screen pt-24 px-6 max-w-5xl mx-auto">
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold">Team</h1>
+                <p className="text-muted-foreground">Share saved searches and API quota with your hiring team.</p>
+            </div>
+
+            {invitationToken && (
+                <div className="bg-card p-6 rounded-xl border border-border mb-6 flex items-center justify-between gap-4">
+                    <p className="text-sm">You have been invited to join an organization.</p>
+                    <Button onClick={handleAcceptInvitation}>Accept invitation</Button>
+                </div>
+            )}
+
+            {error && <p className="text-sm text-red-400 mb-6">{error}</p>}
+
+            {!organization ? (
+                <form onSubmit={handleCreate} className="bg-card p-6 rounded-xl border border-border space-y-4">
+                    <div className="flex items-center gap-3">
+                        <Building2 className="w-6 h-6 text-primary" />
+                        <h3 className="text-lg font-bold">Create an organization</h3>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                        You are not part of an organization yet. Create one, or ask a teammate to invite you.
+                    </p>
+                    <div className="flex gap-3">
+                        <Input value={name} onChange={e => setName(e.target.value)} placeholder="Organization name" required />
+                        <Button type="submit" disabled={!name.trim()}>Create</Button>
+                    </div>
+                </form>
+            ) : (
+                <div className="space-y-6">
+                    <div className="bg-card p-6 rounded-xl border border-border">
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                                <Building2 className="w-6 h-6 text-primary" />
+                                <h3 className="text-lg font-bold">{organization.name}</h3>
+                                <span className="text-xs px-2 py-0.5 rounded-full bg-secondary text-muted-foreground">{organization.subscriptionTier}</span>
+                            </div>
+                            {organization.role !== 'OWNER' && (
+                                <Button variant="outline" size="sm" onClick={handleLeave}>Leave</Button>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-2 gap-4 mt-4 text-sm">
+                            <div>
+                                <p className="text-muted-foreground">Seats</p>
+                                <p className="font-semibold">{organization.seats.used} / {organization.seats.limit}</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">Shared API calls this month</p>
+                                <p className="font-semibold">{organization.apiCalls.used.toLocaleString()} / {organization.apiCalls.limit.toLocaleString()}</p>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="bg-card p-6 rounded-xl border border-border">
+                        <h3 className="text-lg font-bold mb-4">Members</h3>
+                        <ul className="divide-y divide-border">
+                            {organization.members.map(member => (
+                                <li key={member.id} className="flex items-center justify-between py-3 text-sm">
+                                    <div>
+                                        <p className="font-medium">{member.name}</p>
+                                        <p className="text-muted-foreground">{member.email}</p>
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        {organization.role === 'OWNER' && member.role !== 'OWNER' ? (
+                                            <select
+                                                value={member.role}
+                                                onChange={e => {
+                                                    const role = e.target.value as OrganizationRole;
+                                                    if (role === 'OWNER' && !window.confirm(`Make ${member.name} the owner? You will become an admin.`)) return;
+                                                    run(() => api.updateOrganizationMemberRole(member.id, role));
+                                                }}
+                                                className="px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                                            >
+                                                {(Object.keys(roleLabels) as OrganizationRole[]).map(role => (
+                                                    <option key={role} value={role}>{roleLabels[role]}</option>
+                                                ))}
+                                            </select>
+                                        ) : (
+                                            <span className="text-muted-foreground">{roleLabels[member.role]}</span>
+                                        )}
+                                        {canManage && member.role !== 'OWNER' && (
+                                            <button
+                                                type="button"
+                                                className="text-muted-foreground hover:text-red-400"
+                                                onClick={() => run(() => api.removeOrganizationMember(member.id))}
+                                                aria-label={`Remove ${member.name}`}
+                                            >
+                                                <UserMinus className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+
+                    {canManage && (
+                        <div className="bg-card p-6 rounded-xl border border-border">
+                            <h3 className="text-lg font-bold mb-4">Invitations</h3>
+                            <form onSubmit={handleInvite} className="flex flex-wrap gap-3 mb-4">
+                                <Input
+                                    type="email"
+                                    value={inviteEmail}
+                                    onChange={e => setInviteEmail(e.target.value)}
+                                    placeholder="colleague@company.com"
+                                    className="flex-1 min-w-[220px]"
+                                    required
+                                />
+                                <select
+                                    value={inviteRole}
+                                    onChange={e => setInviteRole(e.target.value as OrganizationRole)}
+                                    className="px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                                >
+                                    <option value="MEMBER">Member</option>
+                                    {organization.role === 'OWNER' && <option value="ADMIN">Admin</option>}
+                                </select>
+                                <Button type="submit" className="gap-2" disabled={organization.seats.used >= organization.seats.limit}>
+                                    <Mail className="w-4 h-4" />
+                                    Invite
+                                </Button>
+                            </form>
+                            <ul className="space-y-2 text-sm">
+                                {organization.invitations.length === 0 && <li className="text-muted-foreground">No pending invitations.</li>}
+                                {organization.invitations.map(invitation => (
+                                    <li key={invitation.id} className="flex items-center justify-between">
+                                        <span>
+                                            {invitation.email}
+                                            <span className="text-muted-foreground"> · {roleLabels[invitation.role]} · expires {new Date(invitation.expiresAt).toLocaleDateString()}</span>
+                                        </span>
+                                        <button
+                                            type="button"
+                                            className="text-muted-foreground hover:text-red-400"
+                                            onClick={() => run(() => api.revokeOrganizationInvitation(invitation.id))}
+                                            aria-label={`Revoke invitation for ${invitation.email}`}
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OrganizationPage;
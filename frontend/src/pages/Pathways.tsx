@@ -4,7 +4,6 @@ import { motion } from 'framer-motion';
 import { Map, ArrowRight, BookOpen, Clock, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { api } from '@/services/api';
-import { supabase } from '@/lib/supabase';
 
 
 const Pathways = () => {
@@ -27,10 +26,7 @@ const Pathways = () => {
 
     const handleJoin = async (pathwayId: string) => {
         try {
-            const { data: { user } } = await supabase.auth.getUser();
-            const userId = user?.id || 'demo-user';
-
-            await api.joinPathway(userId, pathwayId);
+            await api.joinPathway(pathwayId);
             alert('Joined pathway successfully!');
             // Refresh pathways or state if needed
         } catch (error) {
@@ -1,19 +1,24 @@
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Github, Linkedin, TrendingUp } from 'lucide-react';
+import { Download, Eye, Github, Linkedin, PenSquare, ShieldAlert, TrendingUp } from 'lucide-react';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import ContactSettings from '@/components/ContactSettings';
+import ScoreSimulator from '@/components/ScoreSimulator';
 import { api } from '@/services/api';
-import { supabase } from '@/lib/supabase';
+import type { AccountDeletionStatus, AuditTrailEntry, CompositeScore } from '@/types';
 
 const ProfessionalDashboard = () => {
-    const [score, setScore] = useState<any>(null);
+    const [score, setScore] = useState<CompositeScore | null>(null);
+    const [profileViews, setProfileViews] = useState<AuditTrailEntry[]>([]);
+    const [deletion, setDeletion] = useState<AccountDeletionStatus | null>(null);
+    const [deletionPassword, setDeletionPassword] = useState('');
+    const [accountError, setAccountError] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
         const loadScore = async () => {
             try {
-                const { data: { user } } = await supabase.auth.getUser();
-                const userId = user?.id || 'demo-user';
-                const data = await api.getUserScore(userId);
+                const data = await api.getMyScore();
                 setScore(data);
             } catch (error) {
                 console.error('Failed to load score:', error);
@@ -21,12 +26,67 @@ const ProfessionalDashboard = () => {
                 setLoading(false);
             }
         };
+        const loadProfileViews = async () => {
+            try {
+                const trail = await api.getAuditTrail({ action: 'candidate.viewed', limit: 5 });
+                setProfileViews(trail.entries);
+            } catch (error) {
+                console.error('Failed to load profile views:', error);
+            }
+        };
+        const loadDeletion = async () => {
+            try {
+                setDeletion(await api.getAccountDeletion());
+            } catch (error) {
+                console.error('Failed to load deletion status:', error);
+            }
+        };
         loadScore();
+        loadProfileViews();
+        loadDeletion();
     }, []);
 
+    const handleExport = async () => {
+        setAccountError(null);
+        try {
+            const blob = await api.exportMyData();
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `dare-dreamers-export-${new Date().toISOString().slice(0, 10)}.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            setAccountError(error instanceof Error ? error.message : 'Failed to export data');
+        }
+    };
+
+    const handleRequestDeletion = async () => {
+        setAccountError(null);
+        try {
+            setDeletion(await api.requestAccountDeletion(deletionPassword));
+            setDeletionPassword('');
+        } catch (error) {
+            setAccountError(error instanceof Error ? error.message : 'Failed to request deletion');
+        }
+    };
+
+    const handleCancelDeletion = async () => {
+        setAccountError(null);
+        try {
+            await api.cancelAccountDeletion();
+            setDeletion({ deletionRequestedAt: null, deletionScheduledFor: null });
+        } catch (error) {
+            setAccountError(error instanceof Error ? error.message : 'Failed to cancel deletion');
+        }
+    };
+
     if (loading) return <div className="pt-24 text-center">Calculating your potential...</div>;
     if (!score) return <div className="pt-24 text-center">Failed to load score. Please complete onboarding.</div>;
 
+    const overallRank = score.breakdown.percentiles?.find(rank => rank.type === 'all');
+    const cohortRanks = score.breakdown.percentiles?.filter(rank => rank.type !== 'all') ?? [];
+
     return (
         <div className="min-h-screen pt-24 px-6 max-w-7xl mx-auto">
             <h1 className="text-3xl font-bold mb-2">Your Professional Standing</h1>
@@ -40,11 +100,22 @@ const ProfessionalDashboard = () => {
                     className="col-span-1 md:col-span-3 bg-gradient-to-r from-primary/20 to-purple-500/20 p-8 rounded-2xl border border-primary/20 text-center"
                 >
                     <h2 className="text-xl font-medium mb-4">Dare Score</h2>
-                    <div className="text-6xl font-black text-primary mb-2">{score.totalScore}</div>
-                    <div className="flex justify-center items-center gap-2 text-green-400">
-                        <TrendingUp size={20} />
-                        <span>Top 5% of developers</span>
-                    </div>
+                    <div className="text-6xl font-black text-primary mb-2">{score.overallScore}</div>
+                    {overallRank && (
+                        <div className="flex justify-center items-center gap-2 text-green-400">
+                            <TrendingUp size={20} />
+                            <span>Top {Math.max(1, 100 - overallRank.percentile)}% of developers</span>
+                        </div>
+                    )}
+                    {cohortRanks.length > 0 && (
+                        <div className="flex flex-wrap justify-center gap-4 mt-3 text-sm text-muted-foreground">
+                            {cohortRanks.map(rank => (
+                                <span key={`${rank.type}:${rank.key}`}>
+                                    Top {Math.max(1, 100 - rank.percentile)}% · {rank.label} ({rank.sampleSize} peers, avg {rank.averageScore})
+                                </span>
+                            ))}
+                        </div>
+                    )}
                 </motion.div>
 
                 {/* GitHub Stats */}
@@ -55,16 +126,12 @@ const ProfessionalDashboard = () => {
                     </div>
                     <div className="space-y-2">
                         <div className="flex justify-between">
-                            <span>Repos</span>
-                            <span className="font-bold">{score.breakdown.github?.public_repos}</span>
-                        </div>
-                        <div className="flex justify-between">
-                            <span>Followers</span>
-                            <span className="font-bold">{score.breakdown.github?.followers}</span>
+                            <span>Weight</span>
+                            <span className="font-bold">{Math.round(score.breakdown.weights.github * 100)}%</span>
                         </div>
                         <div className="pt-4 border-t border-border mt-2">
                             <span className="text-sm text-muted-foreground">Contribution Score: </span>
-                            <span className="text-primary font-bold">{score.breakdown.github?.score}</span>
+                            <span className="text-primary font-bold">{score.githubScore ?? 'Not connected'}</span>
                         </div>
                     </div>
                 </div>
@@ -77,15 +144,126 @@ const ProfessionalDashboard = () => {
                     </div>
                     <div className="space-y-2">
                         <div className="flex justify-between">
-                            <span>Network</span>
-                            <span className="font-bold">{score.breakdown.linkedin?.followers}+</span>
+                            <span>Weight</span>
+                            <span className="font-bold">{Math.round(score.breakdown.weights.linkedin * 100)}%</span>
                         </div>
                         <div className="pt-4 border-t border-border mt-2">
                             <span className="text-sm text-muted-foreground">Influence Score: </span>
-                            <span className="text-primary font-bold">{score.breakdown.linkedin?.score}</span>
+                            <span className="text-primary font-bold">{score.linkedinScore ?? 'Not connected'}</span>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Content & Social Stats */}
+                <div className="bg-card p-6 rounded-xl border border-border">
+                    <div className="flex items-center gap-3 mb-4">
+                        <PenSquare className="w-8 h-8 text-purple-400" />
+                        <h3 className="text-xl font-bold">Content & Social</h3>
+                    </div>
+                    <div className="space-y-2">
+                        <div className="flex justify-between">
+                            <span>Blog</span>
+                            <span className="font-bold">{score.blogScore ?? '-'}</span>
                         </div>
+                        <div className="flex justify-between">
+                            <span>Social</span>
+                            <span className="font-bold">{score.socialScore ?? '-'}</span>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Strengths & Improvements */}
+                <div className="col-span-1 md:col-span-3 grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="bg-card p-6 rounded-xl border border-border">
+                        <h3 className="text-lg font-bold mb-3">Strengths</h3>
+                        <ul className="space-y-1 text-sm text-muted-foreground">
+                            {score.strengths.length === 0 && <li>Connect more platforms to surface your strengths.</li>}
+                            {score.strengths.map(strength => <li key={strength}>{strength}</li>)}
+                        </ul>
+                    </div>
+                    <div className="bg-card p-6 rounded-xl border border-border">
+                        <h3 className="text-lg font-bold mb-3">Where to improve</h3>
+                        <ul className="space-y-1 text-sm text-muted-foreground">
+                            {[...score.improvements, ...score.recommendations].slice(0, 5).map(item => <li key={item}>{item}</li>)}
+                        </ul>
                     </div>
                 </div>
+
+                <ScoreSimulator score={score} className="col-span-1 md:col-span-3" />
+
+                {/* Recent Profile Views */}
+                <div className="col-span-1 md:col-span-3 bg-card p-6 rounded-xl border border-border">
+                    <div className="flex items-center gap-3 mb-3">
+                        <Eye className="w-6 h-6 text-primary" />
+                        <h3 className="text-lg font-bold">Who viewed your profile</h3>
+                    </div>
+                    <ul className="space-y-2 text-sm">
+                        {profileViews.length === 0 && <li className="text-muted-foreground">No recruiter has viewed your profile yet.</li>}
+                        {profileViews.map(view => (
+                            <li key={view.id} className="flex justify-between">
+                                <span>
+                                    {view.actor?.name ?? 'A recruiter'}
+                                    {view.actor?.company && <span className="text-muted-foreground"> · {view.actor.company}</span>}
+                                </span>
+                                <span className="text-muted-foreground">{new Date(view.timestamp).toLocaleDateString()}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+
+                {/* Data Export & Account Deletion */}
+                <div className="col-span-1 md:col-span-3 bg-card p-6 rounded-xl border border-border">
+                    <div className="flex items-center gap-3 mb-3">
+                        <ShieldAlert className="w-6 h-6 text-primary" />
+                        <h3 className="text-lg font-bold">Your data</h3>
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-4">
+                        Download everything we store about you, or delete your account. Deletion hides your profile from recruiters immediately and becomes permanent after a grace period.
+                    </p>
+                    <div className="flex flex-wrap items-center gap-3">
+                        <button
+                            onClick={handleExport}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-border hover:bg-secondary text-sm"
+                        >
+                            <Download size={16} /> Export my data
+                        </button>
+                        {deletion?.deletionScheduledFor ? (
+                            <>
+                                <span className="text-sm text-red-400">
+                                    Account will be deleted on {new Date(deletion.deletionScheduledFor).toLocaleDateString()}
+                                </span>
+                                <button
+                                    onClick={handleCancelDeletion}
+                                    className="px-4 py-2 rounded-lg border border-border hover:bg-secondary text-sm"
+                                >
+                                    Cancel deletion
+                                </button>
+                            </>
+                        ) : (
+                            <>
+                                <input
+                                    type="password"
+                                    value={deletionPassword}
+                                    onChange={e => setDeletionPassword(e.target.value)}
+                                    placeholder="Confirm your password"
+                                    className="px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                                />
+                                <button
+                                    onClick={handleRequestDeletion}
+                                    disabled={!deletionPassword}
+                                    className="px-4 py-2 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 text-sm disabled:opacity-50"
+                                >
+                                    Delete my account
+                                </button>
+                            </>
+                        )}
+                    </div>
+                    {accountError && <p className="text-sm text-red-400 mt-3">{accountError}</p>}
+                </div>
+
+                <ContactSettings className="col-span-1 md:col-span-3" />
+
+                <TwoFactorSettings className="col-span-1 md:col-span-3" />
             </div>
         </div>
     );
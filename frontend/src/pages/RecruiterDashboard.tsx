@@ -1,13 +1,313 @@
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/Button';
-import { Search, Lock } from 'lucide-react';
+import { Input } from '@/components/ui/Input';
+import { Search, SlidersHorizontal, Bookmark, Trash2, ChevronLeft, ChevronRight, MapPin, BadgeCheck, Loader2, Users, ListPlus, Send, Plus } from 'lucide-react';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import RoleProfileForm from '@/components/RoleProfileForm';
+import { api } from '@/services/api';
+import type { CandidateSearchFilters, RoleProfile, SavedSearch, SearchResult, SearchResultCandidate, SearchSortBy, Shortlist } from '@/types';
 
-const users = [
-    { id: 1, name: 'Alice Chen', role: 'Frontend Architect', score: 920, skills: ['React', 'Three.js'] },
-    { id: 2, name: 'Bob Smith', role: 'Backend Lead', score: 880, skills: ['Node.js', 'Postgres'] },
-    { id: 3, name: 'Charlie Kim', role: 'Full Stack Dev', score: 850, skills: ['Next.js', 'Supabase'] },
+const PAGE_SIZE = 10;
+
+const sortOptions: { value: SearchSortBy; label: string }[] = [
+    { value: 'score_desc', label: 'Highest score' },
+    { value: 'score_asc', label: 'Lowest score' },
+    { value: 'github_desc', label: 'GitHub score' },
+    { value: 'linkedin_desc', label: 'LinkedIn score' },
+    { value: 'blog_desc', label: 'Blog score' },
+    { value: 'social_desc', label: 'Social score' },
+    { value: 'name_asc', label: 'Name (A-Z)' },
+    { value: 'recent', label: 'Recently joined' },
+];
+
+const platformScoreFields: { key: 'minGithubScore' | 'minLinkedinScore' | 'minBlogScore' | 'minSocialScore'; label: string }[] = [
+    { key: 'minGithubScore', label: 'GitHub' },
+    { key: 'minLinkedinScore', label: 'LinkedIn' },
+    { key: 'minBlogScore', label: 'Blog' },
+    { key: 'minSocialScore', label: 'Social' },
+];
+
+const presenceFields: { key: 'hasGithub' | 'hasLinkedin' | 'hasTwitter' | 'hasBlog'; label: string }[] = [
+    { key: 'hasGithub', label: 'GitHub' },
+    { key: 'hasLinkedin', label: 'LinkedIn' },
+    { key: 'hasTwitter', label: 'Twitter' },
+    { key: 'hasBlog', label: 'Blog' },
 ];
 
+// Raw form values; converted to CandidateSearchFilters when a search is applied
+interface FilterForm {
+    skills: string;
+    languages: string;
+    minScore: string;
+    maxScore: string;
+    minGithubScore: string;
+    minLinkedinScore: string;
+    minBlogScore: string;
+    minSocialScore: string;
+    location: string;
+    hasGithub: boolean;
+    hasLinkedin: boolean;
+    hasTwitter: boolean;
+    hasBlog: boolean;
+}
+
+const emptyForm: FilterForm = {
+    skills: '',
+    languages: '',
+    minScore: '',
+    maxScore: '',
+    minGithubScore: '',
+    minLinkedinScore: '',
+    minBlogScore: '',
+    minSocialScore: '',
+    location: '',
+    hasGithub: false,
+    hasLinkedin: false,
+    hasTwitter: false,
+    hasBlog: false,
+};
+
+const toList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const formToFilters = (form: FilterForm): CandidateSearchFilters => ({
+    skills: toList(form.skills),
+    languages: toList(form.languages),
+    minScore: toNumber(form.minScore),
+    maxScore: toNumber(form.maxScore),
+    minGithubScore: toNumber(form.minGithubScore),
+    minLinkedinScore: toNumber(form.minLinkedinScore),
+    minBlogScore: toNumber(form.minBlogScore),
+    minSocialScore: toNumber(form.minSocialScore),
+    location: form.location.trim() || undefined,
+    hasGithub: form.hasGithub || undefined,
+    hasLinkedin: form.hasLinkedin || undefined,
+    hasTwitter: form.hasTwitter || undefined,
+    hasBlog: form.hasBlog || undefined,
+});
+
+const filtersToForm = (filters: CandidateSearchFilters): FilterForm => ({
+    skills: filters.skills?.join(', ') ?? '',
+    languages: filters.languages?.join(', ') ?? '',
+    minScore: filters.minScore?.toString() ?? '',
+    maxScore: filters.maxScore?.toString() ?? '',
+    minGithubScore: filters.minGithubScore?.toString() ?? '',
+    minLinkedinScore: filters.minLinkedinScore?.toString() ?? '',
+    minBlogScore: filters.minBlogScore?.toString() ?? '',
+    minSocialScore: filters.minSocialScore?.toString() ?? '',
+    location: filters.location ?? '',
+    hasGithub: !!filters.hasGithub,
+    hasLinkedin: !!filters.hasLinkedin,
+    hasTwitter: !!filters.hasTwitter,
+    hasBlog: !!filters.hasBlog,
+});
+
+// Drop empty values so saved searches only store what was actually set
+const compactFilters = (filters: CandidateSearchFilters): CandidateSearchFilters =>
+    Object.fromEntries(
+        Object.entries(filters).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+    );
+
 const RecruiterDashboard = () => {
+    const [form, setForm] = useState<FilterForm>(emptyForm);
+    const [filters, setFilters] = useState<CandidateSearchFilters>({});
+    const [sortBy, setSortBy] = useState<SearchSortBy>('score_desc');
+    const [page, setPage] = useState(1);
+    const [showFilters, setShowFilters] = useState(false);
+    const [result, setResult] = useState<SearchResult | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+    const [shortlists, setShortlists] = useState<Shortlist[]>([]);
+    const [shortlistedIds, setShortlistedIds] = useState<Record<string, string>>({});
+    const [contactedIds, setContactedIds] = useState<Record<string, boolean>>({});
+    const [roleProfiles, setRoleProfiles] = useState<RoleProfile[]>([]);
+    // Empty ranks by the composite score
+    const [roleProfileId, setRoleProfileId] = useState('');
+    const [showRoleForm, setShowRoleForm] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        const runSearch = async () => {
+            try {
+                const data = await api.searchCandidates(filters, sortBy, page, PAGE_SIZE, roleProfileId || undefined);
+                if (!cancelled) {
+                    setResult(data);
+                    setError(null);
+                }
+            } catch (err) {
+                console.error('Failed to search candidates:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to search candidates');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        runSearch();
+        return () => {
+            cancelled = true;
+        };
+    }, [filters, sortBy, page, roleProfileId]);
+
+    useEffect(() => {
+        const loadSavedSearches = async () => {
+            try {
+                setSavedSearches(await api.getSavedSearches());
+            } catch (err) {
+                console.error('Failed to load saved searches:', err);
+            }
+        };
+        loadSavedSearches();
+    }, []);
+
+    useEffect(() => {
+        const loadShortlists = async () => {
+            try {
+                setShortlists(await api.getShortlists());
+            } catch (err) {
+                console.error('Failed to load shortlists:', err);
+            }
+        };
+        loadShortlists();
+    }, []);
+
+    useEffect(() => {
+        const loadRoleProfiles = async () => {
+            try {
+                setRoleProfiles(await api.getRoleProfiles());
+            } catch (err) {
+                console.error('Failed to load role profiles:', err);
+            }
+        };
+        loadRoleProfiles();
+    }, []);
+
+    const updateForm = <K extends keyof FilterForm>(key: K, value: FilterForm[K]) => {
+        setForm(prev => ({ ...prev, [key]: value }));
+    };
+
+    const applyFilters = (next: CandidateSearchFilters, nextSort: SearchSortBy = sortBy) => {
+        setLoading(true);
+        setFilters(compactFilters(next));
+        setSortBy(nextSort);
+        setPage(1);
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        applyFilters(formToFilters(form));
+    };
+
+    const handleReset = () => {
+        setForm(emptyForm);
+        applyFilters({});
+    };
+
+    const handleSortChange = (value: SearchSortBy) => {
+        applyFilters(filters, value);
+    };
+
+    const handleRoleChange = (value: string) => {
+        setLoading(true);
+        setRoleProfileId(value);
+        setPage(1);
+    };
+
+    const handleRoleCreated = (profile: RoleProfile) => {
+        setRoleProfiles(prev => [...prev, profile]);
+        setShowRoleForm(false);
+        handleRoleChange(profile.id);
+    };
+
+    const handleDeleteRole = async (profile: RoleProfile) => {
+        if (!window.confirm(`Delete the ${profile.name} role profile?`)) return;
+
+        try {
+            await api.deleteRoleProfile(profile.id);
+            setRoleProfiles(prev => prev.filter(p => p.id !== profile.id));
+            handleRoleChange('');
+        } catch (err) {
+            console.error('Failed to delete role profile:', err);
+            alert(err instanceof Error ? err.message : 'Failed to delete role profile.');
+        }
+    };
+
+    const handlePageChange = (nextPage: number) => {
+        setLoading(true);
+        setPage(nextPage);
+    };
+
+    const handleSaveSearch = async () => {
+        const name = window.prompt('Name this search');
+        if (!name?.trim()) return;
+
+        try {
+            const saved = await api.saveSearch(name.trim(), filters, sortBy);
+            setSavedSearches(prev => [saved, ...prev]);
+        } catch (err) {
+            console.error('Failed to save search:', err);
+            alert('Failed to save search.');
+        }
+    };
+
+    const handleRunSavedSearch = (search: SavedSearch) => {
+        setForm(filtersToForm(search.filters));
+        applyFilters(search.filters, search.sortBy);
+    };
+
+    const handleToggleShared = async (search: SavedSearch) => {
+        try {
+            const updated = await api.setSavedSearchShared(search.id, !search.shared);
+            setSavedSearches(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+        } catch (err) {
+            console.error('Failed to share saved search:', err);
+            alert('Failed to share saved search.');
+        }
+    };
+
+    const handleDeleteSavedSearch = async (searchId: string) => {
+        try {
+            await api.deleteSavedSearch(searchId);
+            setSavedSearches(prev => prev.filter(s => s.id !== searchId));
+        } catch (err) {
+            console.error('Failed to delete saved search:', err);
+            alert('Failed to delete saved search.');
+        }
+    };
+
+    const handleAddToShortlist = async (candidateId: string, shortlistId: string) => {
+        try {
+            let target = shortlists.find(s => s.id === shortlistId);
+            if (!target) {
+                // The last option creates a new pipeline with the default stages
+                const name = window.prompt('Name the new shortlist');
+                if (!name?.trim()) return;
+                const created = await api.createShortlist(name.trim());
+                setShortlists(prev => [created, ...prev]);
+                target = created;
+            }
+            await api.addToShortlist(target.id, candidateId);
+            setShortlistedIds(prev => ({ ...prev, [candidateId]: target.name }));
+        } catch (err) {
+            console.error('Failed to add candidate to shortlist:', err);
+            alert(err instanceof Error ? err.message : 'Failed to add candidate to shortlist.');
+        }
+    };
+
+    const handleContact = async (candidate: SearchResultCandidate) => {
+        const message = window.prompt(`Introduce yourself to ${candidate.name}. They will see this with your request.`);
+        if (!message?.trim()) return;
+
+        try {
+            await api.sendContactRequest(candidate.id, message.trim());
+            setContactedIds(prev => ({ ...prev, [candidate.id]: true }));
+        } catch (err) {
+            console.error('Failed to send contact request:', err);
+            alert(err instanceof Error ? err.message : 'Failed to send contact request.');
+        }
+    };
+
+    const selectedRole = roleProfiles.find(p => p.id === roleProfileId);
+
     return (
         <div className="min-h-screen pt-24 px-6 max-w-7xl mx-auto">
             <div className="flex justify-between items-center mb-8">
@@ -18,48 +318,302 @@ const RecruiterDashboard = () => {
                 <Button>Post a Job</Button>
             </div>
 
-            <div className="flex gap-4 mb-8">
-                <div className="relative flex-1">
-                    <Search className="absolute left-3 top-3 text-muted-foreground w-5 h-5" />
-                    <input
-                        type="text"
-                        placeholder="Search by skill, role, or score..."
-                        className="w-full pl-10 p-3 rounded-lg bg-card border border-border"
-                    />
+            <TwoFactorSettings className="mb-8" />
+
+            <form onSubmit={handleSearch} className="mb-8 space-y-4">
+                <div className="flex gap-4">
+                    <div className="relative flex-1">
+                        <Search className="absolute left-3 top-3 text-muted-foreground w-5 h-5" />
+                        <input
+                            type="text"
+                            value={form.skills}
+                            onChange={e => updateForm('skills', e.target.value)}
+                            placeholder="Search by skills, e.g. react, graphql..."
+                            className="w-full pl-10 p-3 rounded-lg bg-card border border-border"
+                        />
+                    </div>
+                    <select
+                        value={sortBy}
+                        onChange={e => handleSortChange(e.target.value as SearchSortBy)}
+                        className="p-3 rounded-lg bg-card border border-border"
+                    >
+                        {sortOptions.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={roleProfileId}
+                        onChange={e => handleRoleChange(e.target.value)}
+                        className="p-3 rounded-lg bg-card border border-border"
+                        aria-label="Rank for a role"
+                    >
+                        <option value="">Any role</option>
+                        {roleProfiles.map(profile => (
+                            <option key={profile.id} value={profile.id}>
+                                {profile.name}{profile.shared && !profile.isOwner ? ' (team)' : ''}
+                            </option>
+                        ))}
+                    </select>
+                    <Button type="button" variant="outline" className="h-auto gap-2" onClick={() => setShowFilters(prev => !prev)}>
+                        <SlidersHorizontal className="w-4 h-4" />
+                        Filters
+                    </Button>
+                    <Button type="submit" className="h-auto">Search</Button>
                 </div>
-                <select className="p-3 rounded-lg bg-card border border-border">
-                    <option>Score &gt; 800</option>
-                    <option>Score &gt; 900</option>
-                </select>
-            </div>
 
-            <div className="grid grid-cols-1 gap-4">
-                {users.map(user => (
-                    <div key={user.id} className="bg-card p-6 rounded-xl border border-border flex items-center justify-between hover:border-primary/50 transition-colors cursor-pointer">
-                        <div className="flex gap-4 items-center">
-                            <div className="w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center font-bold text-primary text-xl">
-                                {user.score}
+                {showFilters && (
+                    <div className="bg-card p-6 rounded-xl border border-border grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Languages</label>
+                            <Input
+                                value={form.languages}
+                                onChange={e => updateForm('languages', e.target.value)}
+                                placeholder="TypeScript, Go"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Location</label>
+                            <Input
+                                value={form.location}
+                                onChange={e => updateForm('location', e.target.value)}
+                                placeholder="Berlin"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Composite score</label>
+                            <div className="flex gap-2">
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={form.minScore}
+                                    onChange={e => updateForm('minScore', e.target.value)}
+                                    placeholder="Min"
+                                />
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={form.maxScore}
+                                    onChange={e => updateForm('maxScore', e.target.value)}
+                                    placeholder="Max"
+                                />
                             </div>
-                            <div>
-                                <h3 className="text-xl font-bold">{user.name}</h3>
-                                <p className="text-muted-foreground">{user.role}</p>
-                                <div className="flex gap-2 mt-2">
-                                    {user.skills.map(skill => (
-                                        <span key={skill} className="text-xs px-2 py-1 rounded-full bg-secondary text-secondary-foreground">
-                                            {skill}
-                                        </span>
-                                    ))}
-                                </div>
+                        </div>
+                        <div className="space-y-2 md:col-span-2">
+                            <label className="text-sm font-medium">Minimum platform scores</label>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                                {platformScoreFields.map(field => (
+                                    <Input
+                                        key={field.key}
+                                        type="number"
+                                        min={0}
+                                        max={100}
+                                        value={form[field.key]}
+                                        onChange={e => updateForm(field.key, e.target.value)}
+                                        placeholder={field.label}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Must have</label>
+                            <div className="flex flex-wrap gap-4">
+                                {presenceFields.map(field => (
+                                    <label key={field.key} className="flex items-center gap-2 text-sm">
+                                        <input
+                                            type="checkbox"
+                                            checked={form[field.key]}
+                                            onChange={e => updateForm(field.key, e.target.checked)}
+                                        />
+                                        {field.label}
+                                    </label>
+                                ))}
                             </div>
                         </div>
+                        <div className="md:col-span-3 flex justify-end gap-2">
+                            <Button type="button" variant="ghost" onClick={handleReset}>Reset</Button>
+                            <Button type="submit">Apply Filters</Button>
+                        </div>
+                    </div>
+                )}
+            </form>
 
-                        <Button variant="outline" className="gap-2">
-                            <Lock className="w-4 h-4" />
-                            Unlock Profile
-                        </Button>
+            <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-muted-foreground">
+                {selectedRole ? (
+                    <>
+                        <span>
+                            Ranking for {selectedRole.name}
+                            {selectedRole.requiredLanguages.length > 0 && ` · requires ${selectedRole.requiredLanguages.join(', ')}`}
+                        </span>
+                        {selectedRole.isOwner && (
+                            <button
+                                type="button"
+                                className="text-muted-foreground hover:text-red-400"
+                                onClick={() => handleDeleteRole(selectedRole)}
+                                aria-label={`Delete role profile ${selectedRole.name}`}
+                            >
+                                <Trash2 className="w-3 h-3" />
+                            </button>
+                        )}
+                    </>
+                ) : (
+                    <span>Pick a role to rank candidates by role fit.</span>
+                )}
+                <Button variant="ghost" size="sm" className="gap-2" onClick={() => setShowRoleForm(prev => !prev)}>
+                    <Plus className="w-4 h-4" />
+                    New Role
+                </Button>
+            </div>
+
+            {showRoleForm && (
+                <RoleProfileForm className="mb-6" onCreated={handleRoleCreated} onCancel={() => setShowRoleForm(false)} />
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+                <Button variant="outline" size="sm" className="gap-2" onClick={handleSaveSearch}>
+                    <Bookmark className="w-4 h-4" />
+                    Save Search
+                </Button>
+                {savedSearches.map(search => (
+                    <div key={search.id} className="flex items-center rounded-full bg-secondary text-secondary-foreground text-xs">
+                        <button type="button" className="px-3 py-1" onClick={() => handleRunSavedSearch(search)}>
+                            {search.name}
+                        </button>
+                        {search.isOwner ? (
+                            <>
+                                <button
+                                    type="button"
+                                    className={`pr-2 hover:text-primary ${search.shared ? 'text-primary' : 'text-muted-foreground'}`}
+                                    onClick={() => handleToggleShared(search)}
+                                    aria-label={search.shared ? `Stop sharing ${search.name} with your team` : `Share ${search.name} with your team`}
+                                >
+                                    <Users className="w-3 h-3" />
+                                </button>
+                                <button
+                                    type="button"
+                                    className="pr-2 text-muted-foreground hover:text-red-400"
+                                    onClick={() => handleDeleteSavedSearch(search.id)}
+                                    aria-label={`Delete saved search ${search.name}`}
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </>
+                        ) : (
+                            <Users className="w-3 h-3 mr-2 text-primary" aria-label="Shared by your team" />
+                        )}
                     </div>
                 ))}
             </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center h-64"><Loader2 className="animate-spin text-primary" /></div>
+            ) : error ? (
+                <div className="text-center text-red-400 py-16">{error}</div>
+            ) : !result || result.candidates.length === 0 ? (
+                <div className="text-center text-muted-foreground py-16">No candidates match these filters.</div>
+            ) : (
+                <>
+                    <p className="text-sm text-muted-foreground mb-4">{result.total} candidates found</p>
+                    <div className="grid grid-cols-1 gap-4">
+                        {result.candidates.map(candidate => (
+                            <div key={candidate.id} className="bg-card p-6 rounded-xl border border-border flex items-center justify-between hover:border-primary/50 transition-colors cursor-pointer">
+                                <div className="flex gap-4 items-center">
+                                    <div className="w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center font-bold text-primary text-xl">
+                                        {candidate.roleScore ?? candidate.score.composite}
+                                    </div>
+                                    <div>
+                                        <div className="flex items-center gap-2">
+                                            <h3 className="text-xl font-bold">{candidate.name}</h3>
+                                            {candidate.matchScore !== undefined && (
+                                                <span className="text-xs text-primary">{candidate.matchScore}% match</span>
+                                            )}
+                                            {candidate.roleScore !== undefined && (
+                                                <span className="text-xs text-muted-foreground">role fit · composite {candidate.score.composite}</span>
+                                            )}
+                                        </div>
+                                        {candidate.percentiles && candidate.percentiles.length > 0 && (
+                                            <p className="text-xs text-muted-foreground">
+                                                {candidate.percentiles
+                                                    .map(rank => `Top ${Math.max(1, 100 - rank.percentile)}% ${rank.type === 'all' ? 'overall' : `in ${rank.label}`}`)
+                                                    .join(' · ')}
+                                            </p>
+                                        )}
+                                        {candidate.location && (
+                                            <p className="text-muted-foreground flex items-center gap-1 text-sm">
+                                                <MapPin className="w-3 h-3" />
+                                                {candidate.location}
+                                            </p>
+                                        )}
+                                        <div className="flex flex-wrap gap-2 mt-2">
+                                            {[...candidate.languages, ...candidate.skills].slice(0, 6).map(skill => (
+                                                <span key={skill} className="text-xs px-2 py-1 rounded-full bg-secondary text-secondary-foreground">
+                                                    {skill}
+                                                </span>
+                                            ))}
+                                        </div>
+                                        <div className="flex flex-wrap gap-3 mt-2 text-xs text-muted-foreground">
+                                            {candidate.platforms.map(p => (
+                                                <span key={p.platform} className="flex items-center gap-1">
+                                                    {p.platform.toLowerCase()}
+                                                    {p.isVerified && <BadgeCheck className="w-3 h-3 text-primary" />}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </div>
+
+                                <div className="flex items-center gap-3">
+                                    {candidate.openToOpportunities && (
+                                        <Button
+                                            variant="outline"
+                                            className="gap-2"
+                                            disabled={contactedIds[candidate.id]}
+                                            onClick={() => handleContact(candidate)}
+                                        >
+                                            <Send className="w-4 h-4" />
+                                            {contactedIds[candidate.id] ? 'Request sent' : 'Contact'}
+                                        </Button>
+                                    )}
+                                    {shortlistedIds[candidate.id] ? (
+                                        <span className="text-sm text-muted-foreground flex items-center gap-2">
+                                            <ListPlus className="w-4 h-4 text-primary" />
+                                            Added to {shortlistedIds[candidate.id]}
+                                        </span>
+                                    ) : (
+                                        <select
+                                            value=""
+                                            onChange={e => handleAddToShortlist(candidate.id, e.target.value)}
+                                            className="px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                                            aria-label={`Add ${candidate.name} to a shortlist`}
+                                        >
+                                            <option value="" disabled>Add to shortlist</option>
+                                            {shortlists.map(shortlist => (
+                                                <option key={shortlist.id} value={shortlist.id}>{shortlist.name}</option>
+                                            ))}
+                                            <option value="new">New shortlist…</option>
+                                        </select>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex items-center justify-center gap-4 mt-8 mb-12">
+                        <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => handlePageChange(page - 1)}>
+                            <ChevronLeft className="w-4 h-4" />
+                            Previous
+                        </Button>
+                        <span className="text-sm text-muted-foreground">
+                            Page {result.page} of {Math.max(result.totalPages, 1)}
+                        </span>
+                        <Button variant="outline" size="sm" disabled={page >= result.totalPages} onClick={() => handlePageChange(page + 1)}>
+                            Next
+                            <ChevronRight className="w-4 h-4" />
+                        </Button>
+                    </div>
+                </>
+            )}
         </div>
     );
 };
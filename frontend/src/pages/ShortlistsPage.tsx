@@ -0,0 +1,417 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { GripVertical, History, KanbanSquare, Loader2, MapPin, StickyNote, Tag, Trash2, Users, X } from 'lucide-react';
+import { api } from '@/services/api';
+import type { CandidateNote, Shortlist, ShortlistDetails, ShortlistEntry, StageChange } from '@/types';
+
+const stageLabel = (stage: string) => stage.charAt(0).toUpperCase() + stage.slice(1);
+
+// Reorder locally so the card lands immediately; the server renumbers both columns the same way
+const moveLocally = (entries: ShortlistEntry[], entryId: string, stage: string, position: number) => {
+    const moving = entries.find(e => e.id === entryId);
+    if (!moving) return entries;
+
+    const column = entries.filter(e => e.stage === stage && e.id !== entryId);
+    column.splice(Math.min(position, column.length), 0, { ...moving, stage });
+
+    const rest = entries.filter(e => e.stage !== stage && e.id !== entryId);
+    const previous = rest.filter(e => e.stage === moving.stage).map((e, index) => ({ ...e, position: index }));
+
+    return [
+        ...rest.filter(e => e.stage !== moving.stage),
+        ...previous,
+        ...column.map((e, index) => ({ ...e, position: index })),
+    ];
+};
+
+const ShortlistsPage = () => {
+    const [shortlists, setShortlists] = useState<Shortlist[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [board, setBoard] = useState<ShortlistDetails | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [newName, setNewName] = useState('');
+    const [dragging, setDragging] = useState<string | null>(null);
+    const [activeEntry, setActiveEntry] = useState<ShortlistEntry | null>(null);
+    const [tagsInput, setTagsInput] = useState('');
+    const [notes, setNotes] = useState<CandidateNote[]>([]);
+    const [history, setHistory] = useState<StageChange[]>([]);
+    const [noteBody, setNoteBody] = useState('');
+    const [noteShared, setNoteShared] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        const loadShortlists = async () => {
+            try {
+                const data = await api.getShortlists();
+                if (!cancelled) {
+                    setShortlists(data);
+                    setSelectedId(prev => prev ?? data[0]?.id ?? null);
+                }
+            } catch (err) {
+                console.error('Failed to load shortlists:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load shortlists');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        loadShortlists();
+        return () => {
+            cancelled = true;
+        };
+    }, [reloadKey]);
+
+    useEffect(() => {
+        if (!selectedId) {
+            setBoard(null);
+            return;
+        }
+        let cancelled = false;
+        const loadBoard = async () => {
+            try {
+                const data = await api.getShortlist(selectedId);
+                if (!cancelled) setBoard(data);
+            } catch (err) {
+                console.error('Failed to load shortlist:', err);
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load shortlist');
+            }
+        };
+        loadBoard();
+        return () => {
+            cancelled = true;
+        };
+    }, [selectedId, reloadKey]);
+
+    useEffect(() => {
+        if (!activeEntry || !selectedId) return;
+        let cancelled = false;
+        const loadDetails = async () => {
+            try {
+                const [candidateNotes, stageHistory] = await Promise.all([
+                    api.getCandidateNotes(activeEntry.candidate.id),
+                    api.getShortlistEntryHistory(selectedId, activeEntry.id),
+                ]);
+                if (!cancelled) {
+                    setNotes(candidateNotes);
+                    setHistory(stageHistory);
+                }
+            } catch (err) {
+                console.error('Failed to load candidate details:', err);
+            }
+        };
+        loadDetails();
+        return () => {
+            cancelled = true;
+        };
+    }, [activeEntry, selectedId, reloadKey]);
+
+    const reload = () => setReloadKey(prev => prev + 1);
+
+    const run = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        }
+        reload();
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            const created = await api.createShortlist(newName.trim());
+            setNewName('');
+            setSelectedId(created.id);
+        });
+    };
+
+    const handleEditStages = () => {
+        if (!board) return;
+        const input = window.prompt('Stages, in order, separated by commas', board.stages.join(', '));
+        if (input === null) return;
+        run(async () => {
+            await api.updateShortlist(board.id, { stages: input.split(',').map(stage => stage.trim()).filter(Boolean) });
+        });
+    };
+
+    const handleDelete = () => {
+        if (!board || !window.confirm(`Delete ${board.name}? Its stage history and tags are deleted with it.`)) return;
+        run(async () => {
+            await api.deleteShortlist(board.id);
+            setSelectedId(null);
+            setActiveEntry(null);
+        });
+    };
+
+    const handleDrop = (stage: string, position: number) => {
+        if (!board || !dragging) return;
+        const entryId = dragging;
+        setDragging(null);
+        setBoard({ ...board, entries: moveLocally(board.entries, entryId, stage, position) });
+        api.moveShortlistEntry(board.id, entryId, stage, position).catch(err => {
+            console.error('Failed to move candidate:', err);
+            setError(err instanceof Error ? err.message : 'Failed to move candidate');
+            reload();
+        });
+    };
+
+    const openEntry = (entry: ShortlistEntry) => {
+        setActiveEntry(entry);
+        setTagsInput(entry.tags.join(', '));
+        setNoteBody('');
+        setNoteShared(false);
+    };
+
+    const handleSaveTags = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!board || !activeEntry) return;
+        const tags = tagsInput.split(',').map(tag => tag.trim()).filter(Boolean);
+        run(() => api.setShortlistEntryTags(board.id, activeEntry.id, tags));
+    };
+
+    const handleAddNote = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!activeEntry) return;
+        run(async () => {
+            await api.addCandidateNote(activeEntry.candidate.id, noteBody.trim(), noteShared);
+            setNoteBody('');
+        });
+    };
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-64 pt-24"><Loader2 className="animate-spin text-primary" /></div>;
+    }
+
+    return (
+        <div className="min-h-screen pt-24 px-6 max-w-7xl mx-auto">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+                <div>
+                    <h1 className="text-3xl font-bold">Pipelines</h1>
+                    <p className="text-muted-foreground">Track shortlisted candidates through your hiring stages.</p>
+                </div>
+                <form onSubmit={handleCreate} className="flex gap-3">
+                    <Input value={newName} onChange={e => setNewName(e.target.value)} placeholder="New shortlist" required />
+                    <Button type="submit" disabled={!newName.trim()}>Create</Button>
+                </form>
+            </div>
+
+            {error && <p className="text-sm text-red-400 mb-6">{error}</p>}
+
+            {shortlists.length === 0 ? (
+                <div className="text-center text-muted-foreground py-16">
+                    No shortlists yet. Create one here or add candidates from Talent Search.
+                </div>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-2 mb-6">
+                        {shortlists.map(shortlist => (
+                            <Button
+                                key={shortlist.id}
+                                variant={shortlist.id === selectedId ? 'secondary' : 'ghost'}
+                                size="sm"
+                                className="gap-2"
+                                onClick={() => {
+                                    setSelectedId(shortlist.id);
+                                    setActiveEntry(null);
+                                }}
+                            >
+                                {shortlist.shared && <Users className="w-3 h-3" />}
+                                {shortlist.name}
+                                <span className="text-muted-foreground">{shortlist.entryCount}</span>
+                            </Button>
+                        ))}
+                    </div>
+
+                    {board && (
+                        <>
+                            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                                <div className="flex items-center gap-3">
+                                    <KanbanSquare className="w-6 h-6 text-primary" />
+                                    <h3 className="text-lg font-bold">{board.name}</h3>
+                                    {!board.isOwner && <span className="text-xs text-muted-foreground">Shared by a teammate</span>}
+                                </div>
+                                {board.isOwner && (
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="gap-2"
+                                            onClick={() => run(async () => {
+                                                await api.updateShortlist(board.id, { shared: !board.shared });
+                                            })}
+                                        >
+                                            <Users className="w-4 h-4" />
+                                            {board.shared ? 'Stop sharing' : 'Share with team'}
+                                        </Button>
+                                        <Button variant="outline" size="sm" onClick={handleEditStages}>Edit stages</Button>
+                                        <Button variant="outline" size="sm" className="gap-2" onClick={handleDelete}>
+                                            <Trash2 className="w-4 h-4" />
+                                            Delete
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="flex gap-4 overflow-x-auto pb-6">
+                                {board.stages.map(stage => {
+                                    const column = board.entries
+                                        .filter(entry => entry.stage === stage)
+                                        .sort((a, b) => a.position - b.position);
+                                    return (
+                                        <div
+                                            key={stage}
+                                            className="bg-card rounded-xl border border-border w-64 shrink-0 p-3"
+                                            onDragOver={e => e.preventDefault()}
+                                            onDrop={() => handleDrop(stage, column.length)}
+                                        >
+                                            <div className="flex items-center justify-between mb-3 px-1">
+                                                <h4 className="text-sm font-semibold">{stageLabel(stage)}</h4>
+                                                <span className="text-xs text-muted-foreground">{column.length}</span>
+                                            </div>
+                                            <div className="space-y-2 min-h-[80px]">
+                                                {column.map((entry, index) => (
+                                                    <div
+                                                        key={entry.id}
+                                                        draggable
+                                                        onDragStart={() => setDragging(entry.id)}
+                                                        onDragEnd={() => setDragging(null)}
+                                                        onDragOver={e => e.preventDefault()}
+                                                        onDrop={e => {
+                                                            e.stopPropagation();
+                                                            handleDrop(stage, index);
+                                                        }}
+                                                        onClick={() => openEntry(entry)}
+                                                        className={`p-3 rounded-lg border bg-background cursor-grab text-sm ${activeEntry?.id === entry.id ? 'border-primary' : 'border-border'} ${dragging === entry.id ? 'opacity-50' : ''}`}
+                                                    >
+                                                        <div className="flex items-center gap-2">
+                                                            <GripVertical className="w-4 h-4 text-muted-foreground" />
+                                                            <span className="font-medium flex-1">{entry.candidate.name}</span>
+                                                            {entry.candidate.compositeScore !== null && (
+                                                                <span className="text-xs text-primary">{Math.round(entry.candidate.compositeScore)}</span>
+                                                            )}
+                                                        </div>
+                                                        {entry.candidate.location && (
+                                                            <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                                                                <MapPin className="w-3 h-3" />
+                                                                {entry.candidate.location}
+                                                            </p>
+                                                        )}
+                                                        {entry.tags.length > 0 && (
+                                                            <div className="flex flex-wrap gap-1 mt-2">
+                                                                {entry.tags.map(tag => (
+                                                                    <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-secondary text-secondary-foreground">{tag}</span>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </>
+                    )}
+
+                    {board && activeEntry && (
+                        <div className="bg-card p-6 rounded-xl border border-border mb-12 space-y-6">
+                            <div className="flex items-center justify-between">
+                                <h3 className="text-lg font-bold">{activeEntry.candidate.name}</h3>
+                                <div className="flex items-center gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => run(async () => {
+                                            await api.removeShortlistEntry(board.id, activeEntry.id);
+                                            setActiveEntry(null);
+                                        })}
+                                    >
+                                        Remove from shortlist
+                                    </Button>
+                                    <button type="button" className="text-muted-foreground" onClick={() => setActiveEntry(null)} aria-label="Close">
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+
+                            <form onSubmit={handleSaveTags} className="space-y-2">
+                                <h4 className="text-sm font-semibold flex items-center gap-2"><Tag className="w-4 h-4" /> Tags</h4>
+                                <div className="flex gap-3">
+                                    <Input value={tagsInput} onChange={e => setTagsInput(e.target.value)} placeholder="referral, senior, remote" />
+                                    <Button type="submit" variant="outline">Save</Button>
+                                </div>
+                            </form>
+
+                            <div className="space-y-3">
+                                <h4 className="text-sm font-semibold flex items-center gap-2"><StickyNote className="w-4 h-4" /> Notes</h4>
+                                <form onSubmit={handleAddNote} className="space-y-2">
+                                    <textarea
+                                        value={noteBody}
+                                        onChange={e => setNoteBody(e.target.value)}
+                                        placeholder="Only you can see this note unless you share it"
+                                        className="w-full px-3 py-2 rounded-lg bg-background border border-border text-sm"
+                                        rows={3}
+                                    />
+                                    <div className="flex items-center justify-between">
+                                        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                                            <input type="checkbox" checked={noteShared} onChange={e => setNoteShared(e.target.checked)} />
+                                            Share with my team
+                                        </label>
+                                        <Button type="submit" size="sm" disabled={!noteBody.trim()}>Add note</Button>
+                                    </div>
+                                </form>
+                                <ul className="space-y-2 text-sm">
+                                    {notes.length === 0 && <li className="text-muted-foreground">No notes yet.</li>}
+                                    {notes.map(note => (
+                                        <li key={note.id} className="p-3 rounded-lg border border-border">
+                                            <p className="whitespace-pre-wrap">{note.body}</p>
+                                            <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+                                                <span>
+                                                    {note.author} · {new Date(note.createdAt).toLocaleDateString()}
+                                                    {note.shared && ' · shared'}
+                                                </span>
+                                                {note.isOwner && (
+                                                    <span className="flex items-center gap-3">
+                                                        <button type="button" onClick={() => run(() => api.setCandidateNoteShared(note.id, !note.shared))}>
+                                                            {note.shared ? 'Make private' : 'Share'}
+                                                        </button>
+                                                        <button
+                                                            type="button"
+                                                            className="hover:text-red-400"
+                                                            onClick={() => run(() => api.deleteCandidateNote(note.id))}
+                                                            aria-label="Delete note"
+                                                        >
+                                                            <Trash2 className="w-3 h-3" />
+                                                        </button>
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+
+                            <div className="space-y-2">
+                                <h4 className="text-sm font-semibold flex items-center gap-2"><History className="w-4 h-4" /> Stage history</h4>
+                                <ul className="space-y-1 text-sm text-muted-foreground">
+                                    {history.map(change => (
+                                        <li key={change.id}>
+                                            {new Date(change.createdAt).toLocaleString()} · {change.fromStage ? `${stageLabel(change.fromStage)} → ` : 'Added to '}
+                                            {stageLabel(change.toStage)}
+                                            {change.changedBy && ` by ${change.changedBy}`}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ShortlistsPage;
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardFooter } from '@/components/ui/Card';
+import { api } from '@/services/api';
+
+type VerificationState = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmailPage = () => {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get('token');
+
+    const [state, setState] = useState<VerificationState>(token ? 'verifying' : 'failed');
+    const [error, setError] = useState<string | null>(token ? null : 'This verification link is missing its token.');
+
+    useEffect(() => {
+        if (!token) return;
+
+        api.verifyEmail(token)
+            .then(() => setState('verified'))
+            .catch((err) => {
+                setState('failed');
+                setError(err instanceof Error ? err.message : 'Verification failed');
+            });
+    }, [token]);
+
+    return (
+        <div className="min-h-screen pt-20 flex items-center justify-center p-6 relative overflow-hidden bg-background">
+            <div className="absolute top-0 left-0 w-full h-full bg-[radial-gradient(circle_at_center,rgba(var(--primary),0.05),transparent_60%)] pointer-events-none" />
+
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="w-full max-w-md relative z-10"
+            >
+                <div className="text-center mb-8">
+                    <h1 className="text-3xl font-bold tracking-tight mb-2">Verify Email</h1>
+                    <p className="text-muted-foreground">Confirming your email address</p>
+                </div>
+
+                <Card className="glass-card bg-black/40 border-white/10">
+                    <CardContent className="pt-6">
+                        <div className="text-center space-y-4 py-4">
+                            {state === 'verifying' && (
+                                <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+                            )}
+                            {state === 'verified' && (
+                                <>
+                                    <div className="p-3 bg-primary/10 rounded-full w-fit mx-auto text-primary">
+                                        <CheckCircle2 className="h-6 w-6" />
+                                    </div>
+                                    <h3 className="text-lg font-semibold">Email verified</h3>
+                                    <p className="text-muted-foreground text-sm">
+                                        Thanks for confirming your address. Your account is fully activated.
+                                    </p>
+                                </>
+                            )}
+                            {state === 'failed' && (
+                                <>
+                                    <div className="p-3 bg-red-500/10 rounded-full w-fit mx-auto text-red-400">
+                                        <XCircle className="h-6 w-6" />
+                                    </div>
+                                    <h3 className="text-lg font-semibold">Verification failed</h3>
+                                    <p className="text-muted-foreground text-sm">
+                                        {error} Log in and request a new link if this one has expired.
+                                    </p>
+                                </>
+                            )}
+                        </div>
+                    </CardContent>
+                    <CardFooter className="justify-center border-t border-white/5 pt-6">
+                        <Link to="/login" className="flex items-center text-sm text-muted-foreground hover:text-primary transition-colors">
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back to login
+                        </Link>
+                    </CardFooter>
+                </Card>
+            </motion.div>
+        </div>
+    );
+};
+
+export default VerifyEmailPage;
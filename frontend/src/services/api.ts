@@ -1,22 +1,135 @@
+import type {
+    AccountDeletionStatus,
+    AdminUserList,
+    AuditAction,
+    AuditTrail,
+    CandidateNote,
+    CandidatePlatformData,
+    CompositeScore,
+    ContactPreferences,
+    Conversation,
+    ConversationDetails,
+    ConversationStatus,
+    DirectMessage,
+    Organization,
+    OrganizationInvitation,
+    OrganizationRole,
+    CandidateSearchFilters,
+    RoleProfile,
+    RoleProfileInput,
+    SavedSearch,
+    ScoreDispute,
+    ScoreSimulation,
+    ScoreSimulationDeltas,
+    ScoreDisputeStatus,
+    ScoreAnomaly,
+    ScoreAnomalyStatus,
+    ScoreThresholds,
+    ScoringModel,
+    ScoringWeights,
+    SearchResult,
+    SearchSortBy,
+    SessionInfo,
+    Shortlist,
+    ShortlistDetails,
+    ShortlistEntry,
+    StageChange,
+    TwoFactorStatus,
+    UserRole
+} from '@/types';
+
 const API_URL = '/api';
 
+// Server-issued JWT for authenticated endpoints
+const authHeaders = (): Record<string, string> => {
+    const token = localStorage.getItem('token');
+    return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+const handleResponse = async <T>(res: Response): Promise<T> => {
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+        throw new Error(body?.error || `Request failed with status ${res.status}`);
+    }
+    return body as T;
+};
+
+const clearStoredSession = () => {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+};
+
+// Concurrent requests that hit an expired token all wait for the same refresh
+let refreshInFlight: Promise<{ token: string; refreshToken: string }> | null = null;
+
+const refreshTokens = () => {
+    if (!refreshInFlight) {
+        refreshInFlight = (async () => {
+            const res = await fetch(`${API_URL}/auth/refresh`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ refreshToken: localStorage.getItem('refreshToken') })
+            });
+            const body = await handleResponse<{ token: string; refreshToken: string }>(res);
+            localStorage.setItem('token', body.token);
+            localStorage.setItem('refreshToken', body.refreshToken);
+            return body;
+        })().finally(() => {
+            refreshInFlight = null;
+        });
+    }
+    return refreshInFlight;
+};
+
+// fetch for authenticated endpoints: an expired access token is renewed once and the request retried
+const authFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const res = await fetch(url, init);
+    const headers = new Headers(init.headers);
+
+    if (res.status !== 401 || !headers.has('Authorization') || !localStorage.getItem('refreshToken')) {
+        return res;
+    }
+
+    try {
+        const { token } = await refreshTokens();
+        headers.set('Authorization', `Bearer ${token}`);
+    } catch {
+        // The refresh token was revoked or has expired: the user has to log in again
+        clearStoredSession();
+        window.location.assign('/login');
+        return res;
+    }
+
+    return fetch(url, { ...init, headers });
+};
+
+const toSearchParams = (filters: CandidateSearchFilters, extra: Record<string, string | number>) => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+        params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    });
+    Object.entries(extra).forEach(([key, value]) => params.set(key, String(value)));
+    return params;
+};
+
 export const api = {
     // AI Assistant
     crawlPapers: async (query: string) => {
-        const res = await fetch(`${API_URL}/ai/crawl`, {
+        const res = await authFetch(`${API_URL}/ai/crawl`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
             body: JSON.stringify({ query })
         });
-        return await res.json();
+        return handleResponse<{ id: string; title: string; abstract: string; url: string }[]>(res);
     },
-    chatWithAI: async (userId: string, message: string, contextPapersIds: string[]) => {
-        const res = await fetch(`${API_URL}/ai/chat`, {
+    chatWithAI: async (message: string, contextPapersIds: string[]) => {
+        const res = await authFetch(`${API_URL}/ai/chat`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ userId, message, contextPapersIds })
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ message, contextPapersIds })
         });
-        return await res.json();
+        return handleResponse<{ response: string; sessionId: string }>(res);
     },
 
     // Pathways
@@ -24,26 +137,603 @@ export const api = {
         const res = await fetch(`${API_URL}/pathways`);
         return await res.json();
     },
-    joinPathway: async (userId: string, pathwayId: string) => {
-        const res = await fetch(`${API_URL}/pathways/${pathwayId}/join`, {
+    joinPathway: async (pathwayId: string) => {
+        const res = await authFetch(`${API_URL}/pathways/${pathwayId}/join`, {
+            method: 'POST',
+            headers: authHeaders()
+        });
+        return handleResponse(res);
+    },
+    updateProgress: async (pathwayId: string, progress: number) => {
+        const res = await authFetch(`${API_URL}/pathways/${pathwayId}/progress`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ progress })
+        });
+        return handleResponse(res);
+    },
+
+    // User / Score
+    getMyScore: async () => {
+        const res = await authFetch(`${API_URL}/users/me/score`, {
+            headers: authHeaders()
+        });
+        return handleResponse<CompositeScore>(res);
+    },
+    simulateScore: async (deltas: ScoreSimulationDeltas) => {
+        const res = await authFetch(`${API_URL}/scores/simulate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify(deltas)
+        });
+        const body = await handleResponse<{ simulation: ScoreSimulation }>(res);
+        return body.simulation;
+    },
+
+    // Audit trail of the current candidate's data
+    getAuditTrail: async (filters: { action?: AuditAction; limit?: number } = {}) => {
+        const params = new URLSearchParams();
+        if (filters.action) params.set('action', filters.action);
+        if (filters.limit) params.set('limit', String(filters.limit));
+        const res = await authFetch(`${API_URL}/audit?${params.toString()}`, {
+            headers: authHeaders()
+        });
+        return handleResponse<AuditTrail>(res);
+    },
+
+    // Password reset and email verification
+    requestPasswordReset: async (email: string) => {
+        const res = await fetch(`${API_URL}/auth/password/forgot`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ userId })
+            body: JSON.stringify({ email })
         });
-        return await res.json();
+        return handleResponse<{ message: string }>(res);
     },
-    updateProgress: async (userId: string, pathwayId: string, progress: number) => {
-        const res = await fetch(`${API_URL}/pathways/${pathwayId}/progress`, {
+    resetPassword: async (token: string, password: string) => {
+        const res = await fetch(`${API_URL}/auth/password/reset`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ userId, progress })
+            body: JSON.stringify({ token, password })
         });
-        return await res.json();
+        return handleResponse<{ message: string }>(res);
+    },
+    verifyEmail: async (token: string) => {
+        const res = await fetch(`${API_URL}/auth/verify-email`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ token })
+        });
+        return handleResponse<{ message: string }>(res);
+    },
+    resendVerificationEmail: async () => {
+        const res = await authFetch(`${API_URL}/auth/verify-email/resend`, {
+            method: 'POST',
+            headers: authHeaders()
+        });
+        return handleResponse<{ message: string }>(res);
     },
 
-    // User / Score
-    getUserScore: async (userId: string) => {
-        const res = await fetch(`${API_URL}/users/${userId}/score`);
-        return await res.json();
+    // Sessions: access tokens are short-lived and renewed with the stored refresh token
+    refreshSession: () => refreshTokens(),
+    getSessions: async () => {
+        const res = await authFetch(`${API_URL}/sessions`, {
+            headers: authHeaders()
+        });
+        return handleResponse<{ sessions: SessionInfo[] }>(res);
+    },
+    revokeSession: async (sessionId: string) => {
+        const res = await authFetch(`${API_URL}/sessions/${sessionId}`, {
+            method: 'DELETE',
+            headers: authHeaders()
+        });
+        return handleResponse<{ message: string }>(res);
+    },
+    logout: async () => {
+        const res = await authFetch(`${API_URL}/sessions/logout`, {
+            method: 'POST',
+            headers: authHeaders()
+        });
+        clearStoredSession();
+        return handleResponse<{ message: string }>(res);
+    },
+    logoutAllDevices: async () => {
+        const res = await authFetch(`${API_URL}/sessions/logout-all`, {
+            method: 'POST',
+            headers: authHeaders()
+        });
+        clearStoredSession();
+        return handleResponse<{ message: string; revoked: number }>(res);
+    },
+
+    // Two-factor authentication
+    completeTwoFactorLogin: async (challengeToken: string, code: string) => {
+        const res = await fetch(`${API_URL}/auth/login/2fa`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ challengeToken, code })
+        });
+        const body = await handleResponse<{ token: string; refreshToken: string; user: { userType: UserRole } }>(res);
+        localStorage.setItem('token', body.token);
+        localStorage.setItem('refreshToken', body.refreshToken);
+        return body;
+    },
+    getTwoFactorStatus: async () => {
+        const res = await authFetch(`${API_URL}/auth/2fa`, {
+            headers: authHeaders()
+        });
+        return handleResponse<TwoFactorStatus>(res);
+    },
+    startTwoFactorEnrollment: async () => {
+        const res = await authFetch(`${API_URL}/auth/2fa/enroll`, {
+            method: 'POST',
+            headers: authHeaders()
+        });
+        return handleResponse<{ secret: string; otpauthUri: string }>(res);
+    },
+    confirmTwoFactor: async (code: string) => {
+        const res = await authFetch(`${API_URL}/auth/2fa/confirm`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ code })
+        });
+        return handleResponse<{ message: string; backupCodes: string[] }>(res);
+    },
+    regenerateBackupCodes: async (code: string) => {
+        const res = await authFetch(`${API_URL}/auth/2fa/backup-codes`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ code })
+        });
+        return handleResponse<{ message: string; backupCodes: string[] }>(res);
+    },
+    disableTwoFactor: async (code: string) => {
+        const res = await authFetch(`${API_URL}/auth/2fa/disable`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ code })
+        });
+        return handleResponse<{ message: string }>(res);
+    },
+
+    // Personal data export and account deletion
+    exportMyData: async () => {
+        const res = await authFetch(`${API_URL}/profile/export`, {
+            headers: authHeaders()
+        });
+        if (!res.ok) {
+            await handleResponse(res);
+        }
+        return res.blob();
+    },
+    getAccountDeletion: async () => {
+        const res = await authFetch(`${API_URL}/profile/deletion`, {
+            headers: authHeaders()
+        });
+        return handleResponse<AccountDeletionStatus>(res);
+    },
+    requestAccountDeletion: async (password: string) => {
+        const res = await authFetch(`${API_URL}/profile/deletion`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ password })
+        });
+        return handleResponse<AccountDeletionStatus & { message: string }>(res);
+    },
+    cancelAccountDeletion: async () => {
+        const res = await authFetch(`${API_URL}/profile/deletion`, {
+            method: 'DELETE',
+            headers: authHeaders()
+        });
+        return handleResponse<{ message: string }>(res);
+    },
+
+    // Candidate Search (recruiters)
+    searchCandidates: async (filters: CandidateSearchFilters, sortBy: SearchSortBy, page: number, pageSize: number, roleProfile?: string) => {
+        const params = toSearchParams(filters, roleProfile ? { sortBy, page, pageSize, roleProfile } : { sortBy, page, pageSize });
+        const res = await authFetch(`${API_URL}/search?${params.toString()}`, {
+            headers: authHeaders()
+        });
+        return handleResponse<SearchResult>(res);
+    },
+    getSavedSearches: async () => {
+        const res = await authFetch(`${API_URL}/search/saved`, {
+            headers: authHeaders()
+        });
+        const body = await handleResponse<{ searches: SavedSearch[] }>(res);
+        return body.searches;
+    },
+    saveSearch: async (name: string, filters: CandidateSearchFilters, sortBy: SearchSortBy, shared = false) => {
+        const res = await authFetch(`${API_URL}/search/saved`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ name, filters, sortBy, shared })
+        });
+        const body = await handleResponse<{ search: SavedSearch }>(res);
+        return body.search;
+    },
+    setSavedSearchShared: async (searchId: string, shared: boolean) => {
+        const res = await authFetch(`${API_URL}/search/saved/${searchId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ shared })
+        });
+        const body = await handleResponse<{ search: SavedSearch }>(res);
+        return body.search;
+    },
+    deleteSavedSearch: async (searchId: string) => {
+        const res = await authFetch(`${API_URL}/search/saved/${searchId}`, {
+            method: 'DELETE',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+
+    // Role profiles
+    getRoleProfiles: async () => {
+        const res = await authFetch(`${API_URL}/role-profiles`, {
+            headers: authHeaders()
+        });
+        const body = await handleResponse<{ roleProfiles: RoleProfile[] }>(res);
+        return body.roleProfiles;
+    },
+    createRoleProfile: async (input: RoleProfileInput) => {
+        const res = await authFetch(`${API_URL}/role-profiles`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify(input)
+        });
+        const body = await handleResponse<{ roleProfile: RoleProfile }>(res);
+        return body.roleProfile;
+    },
+    deleteRoleProfile: async (profileId: string) => {
+        const res = await authFetch(`${API_URL}/role-profiles/${profileId}`, {
+            method: 'DELETE',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+
+    // Candidate contact preferences
+    getContactPreferences: async () => {
+        const res = await authFetch(`${API_URL}/profile`, {
+            headers: authHeaders()
+        });
+        const body = await handleResponse<{ profile: ContactPreferences }>(res);
+        return { isPublic: body.profile.isPublic, openToOpportunities: body.profile.openToOpportunities };
+    },
+    updateContactPreferences: async (preferences: Partial<ContactPreferences>) => {
+        const res = await authFetch(`${API_URL}/profile/candidate`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify(preferences)
+        });
+        const body = await handleResponse<{ profile: ContactPreferences }>(res);
+        return { isPublic: body.profile.isPublic, openToOpportunities: body.profile.openToOpportunities };
+    },
+
+    // Candidate-recruiter messaging
+    getConversations: async () => {
+        const res = await authFetch(`${API_URL}/messages/conversations`, {
+            headers: authHeaders()
+        });
+        const body = await handleResponse<{ conversations: Conversation[] }>(res);
+        return body.conversations;
+    },
+    getConversation: async (conversationId: string) => {
+        const res = await authFetch(`${API_URL}/messages/conversations/${conversationId}`, {
+            headers: authHeaders()
+        });
+        return handleResponse<ConversationDetails>(res);
+    },
+    sendContactRequest: async (candidateId: string, message: string) => {
+        const res = await authFetch(`${API_URL}/messages/requests`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ candidateId, message })
+        });
+        const body = await handleResponse<{ conversation: ConversationDetails }>(res);
+        return body.conversation;
+    },
+    respondToContactRequest: async (conversationId: string, accept: boolean) => {
+        const res = await authFetch(`${API_URL}/messages/conversations/${conversationId}/respond`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ accept })
+        });
+        const body = await handleResponse<{ status: ConversationStatus }>(res);
+        return body.status;
+    },
+    sendMessage: async (conversationId: string, messageBody: string) => {
+        const res = await authFetch(`${API_URL}/messages/conversations/${conversationId}/messages`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ body: messageBody })
+        });
+        const body = await handleResponse<{ directMessage: DirectMessage }>(res);
+        return body.directMessage;
+    },
+    closeConversation: async (conversationId: string) => {
+        const res = await authFetch(`${API_URL}/messages/conversations/${conversationId}/close`, {
+            method: 'POST',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+
+    // Shortlists and hiring pipelines
+    getShortlists: async () => {
+        const res = await authFetch(`${API_URL}/shortlists`, {
+            headers: authHeaders()
+        });
+        const body = await handleResponse<{ shortlists: Shortlist[] }>(res);
+        return body.shortlists;
+    },
+    createShortlist: async (name: string, shared = false) => {
+        const res = await authFetch(`${API_URL}/shortlists`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ name, shared })
+        });
+        const body = await handleResponse<{ shortlist: Shortlist }>(res);
+        return body.shortlist;
+    },
+    getShortlist: async (shortlistId: string) => {
+        const res = await authFetch(`${API_URL}/shortlists/${shortlistId}`, {
+            headers: authHeaders()
+        });
+        return handleResponse<ShortlistDetails>(res);
+    },
+    updateShortlist: async (shortlistId: string, updates: { name?: string; stages?: string[]; shared?: boolean }) => {
+        const res = await authFetch(`${API_URL}/shortlists/${shortlistId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify(updates)
+        });
+        const body = await handleResponse<{ shortlist: Shortlist }>(res);
+        return body.shortlist;
+    },
+    deleteShortlist: async (shortlistId: string) => {
+        const res = await authFetch(`${API_URL}/shortlists/${shortlistId}`, {
+            method: 'DELETE',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+    addToShortlist: async (shortlistId: string, candidateId: string) => {
+        const res = await authFetch(`${API_URL}/shortlists/${shortlistId}/entries`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ candidateId })
+        });
+        const body = await handleResponse<{ entry: ShortlistEntry }>(res);
+        return body.entry;
+    },
+    moveShortlistEntry: async (shortlistId: string, entryId: string, stage: string, position: number) => {
+        const res = await authFetch(`${API_URL}/shortlists/${shortlistId}/entries/${entryId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ stage, position })
+        });
+        await handleResponse(res);
+    },
+    setShortlistEntryTags: async (shortlistId: string, entryId: string, tags: string[]) => {
+        const res = await authFetch(`${API_URL}/shortlists/${shortlistId}/entries/${entryId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ tags })
+        });
+        await handleResponse(res);
+    },
+    removeShortlistEntry: async (shortlistId: string, entryId: string) => {
+        const res = await authFetch(`${API_URL}/shortlists/${shortlistId}/entries/${entryId}`, {
+            method: 'DELETE',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+    getShortlistEntryHistory: async (shortlistId: string, entryId: string) => {
+        const res = await authFetch(`${API_URL}/shortlists/${shortlistId}/entries/${entryId}/history`, {
+            headers: authHeaders()
+        });
+        const body = await handleResponse<{ history: StageChange[] }>(res);
+        return body.history;
+    },
+    getCandidateNotes: async (candidateId: string) => {
+        const res = await authFetch(`${API_URL}/shortlists/candidates/${candidateId}/notes`, {
+            headers: authHeaders()
+        });
+        const body = await handleResponse<{ notes: CandidateNote[] }>(res);
+        return body.notes;
+    },
+    addCandidateNote: async (candidateId: string, noteBody: string, shared = false) => {
+        const res = await authFetch(`${API_URL}/shortlists/candidates/${candidateId}/notes`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ body: noteBody, shared })
+        });
+        const body = await handleResponse<{ note: CandidateNote }>(res);
+        return body.note;
+    },
+    setCandidateNoteShared: async (noteId: string, shared: boolean) => {
+        const res = await authFetch(`${API_URL}/shortlists/notes/${noteId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ shared })
+        });
+        await handleResponse(res);
+    },
+    deleteCandidateNote: async (noteId: string) => {
+        const res = await authFetch(`${API_URL}/shortlists/notes/${noteId}`, {
+            method: 'DELETE',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+
+    // Recruiter organizations
+    getOrganization: async () => {
+        const res = await authFetch(`${API_URL}/organizations/me`, {
+            headers: authHeaders()
+        });
+        if (res.status === 404) return null;
+        return handleResponse<Organization>(res);
+    },
+    createOrganization: async (name: string) => {
+        const res = await authFetch(`${API_URL}/organizations`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ name })
+        });
+        const body = await handleResponse<{ organization: Organization }>(res);
+        return body.organization;
+    },
+    inviteOrganizationMember: async (email: string, role: OrganizationRole) => {
+        const res = await authFetch(`${API_URL}/organizations/me/invitations`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ email, role })
+        });
+        const body = await handleResponse<{ invitation: OrganizationInvitation }>(res);
+        return body.invitation;
+    },
+    revokeOrganizationInvitation: async (invitationId: string) => {
+        const res = await authFetch(`${API_URL}/organizations/me/invitations/${invitationId}`, {
+            method: 'DELETE',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+    acceptOrganizationInvitation: async (token: string) => {
+        const res = await authFetch(`${API_URL}/organizations/invitations/accept`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ token })
+        });
+        const body = await handleResponse<{ organization: Organization }>(res);
+        return body.organization;
+    },
+    updateOrganizationMemberRole: async (memberId: string, role: OrganizationRole) => {
+        const res = await authFetch(`${API_URL}/organizations/me/members/${memberId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ role })
+        });
+        const body = await handleResponse<{ organization: Organization }>(res);
+        return body.organization;
+    },
+    removeOrganizationMember: async (memberId: string) => {
+        const res = await authFetch(`${API_URL}/organizations/me/members/${memberId}`, {
+            method: 'DELETE',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+    leaveOrganization: async () => {
+        const res = await authFetch(`${API_URL}/organizations/me/leave`, {
+            method: 'POST',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+
+    // Admin console
+    getAdminUsers: async (filters: { userType?: UserRole; suspended?: boolean; query?: string }, page: number, pageSize: number) => {
+        const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+        if (filters.userType) params.set('userType', filters.userType);
+        if (filters.suspended !== undefined) params.set('suspended', String(filters.suspended));
+        if (filters.query) params.set('query', filters.query);
+        const res = await authFetch(`${API_URL}/admin/users?${params.toString()}`, {
+            headers: authHeaders()
+        });
+        return handleResponse<AdminUserList>(res);
+    },
+    suspendUser: async (userId: string, reason: string) => {
+        const res = await authFetch(`${API_URL}/admin/users/${userId}/suspend`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ reason })
+        });
+        await handleResponse(res);
+    },
+    reinstateUser: async (userId: string) => {
+        const res = await authFetch(`${API_URL}/admin/users/${userId}/reinstate`, {
+            method: 'POST',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+    recalculateUserScore: async (userId: string, refreshData = false) => {
+        const res = await authFetch(`${API_URL}/admin/users/${userId}/recalculate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ refreshData })
+        });
+        return handleResponse<{ changed: boolean; changeAmount: number; current: { overallScore: number } }>(res);
+    },
+    getUserPlatformData: async (userId: string) => {
+        const res = await authFetch(`${API_URL}/admin/users/${userId}/platform-data`, {
+            headers: authHeaders()
+        });
+        return handleResponse<CandidatePlatformData>(res);
+    },
+    deletePlatformData: async (platformDataId: string) => {
+        const res = await authFetch(`${API_URL}/admin/platform-data/${platformDataId}`, {
+            method: 'DELETE',
+            headers: authHeaders()
+        });
+        await handleResponse(res);
+    },
+    getDisputes: async (status?: ScoreDisputeStatus) => {
+        const params = new URLSearchParams(status ? { status } : {});
+        const res = await authFetch(`${API_URL}/admin/disputes?${params.toString()}`, {
+            headers: authHeaders()
+        });
+        return handleResponse<{ disputes: ScoreDispute[]; total: number }>(res);
+    },
+    reviewDispute: async (
+        disputeId: string,
+        review: { status: Exclude<ScoreDisputeStatus, 'pending'>; resolution?: string; adminNotes?: string; recalculate?: boolean }
+    ) => {
+        const res = await authFetch(`${API_URL}/admin/disputes/${disputeId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify(review)
+        });
+        const body = await handleResponse<{ dispute: ScoreDispute }>(res);
+        return body.dispute;
+    },
+    getAnomalies: async (status?: ScoreAnomalyStatus) => {
+        const params = new URLSearchParams(status ? { status } : {});
+        const res = await authFetch(`${API_URL}/admin/anomalies?${params.toString()}`, {
+            headers: authHeaders()
+        });
+        return handleResponse<{ anomalies: ScoreAnomaly[]; total: number }>(res);
+    },
+    reviewAnomaly: async (
+        anomalyId: string,
+        review: { status: Exclude<ScoreAnomalyStatus, 'open'>; dampening?: number }
+    ) => {
+        const res = await authFetch(`${API_URL}/admin/anomalies/${anomalyId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify(review)
+        });
+        const body = await handleResponse<{ anomaly: ScoreAnomaly }>(res);
+        return body.anomaly;
+    },
+    getScoringModels: async () => {
+        const res = await authFetch(`${API_URL}/admin/scoring-models`, {
+            headers: authHeaders()
+        });
+        return handleResponse<ScoringModel[]>(res);
+    },
+    publishScoringModel: async (model: { weights?: Partial<ScoringWeights>; thresholds?: Partial<ScoreThresholds>; notes?: string }) => {
+        const res = await authFetch(`${API_URL}/admin/scoring-models`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify(model)
+        });
+        return handleResponse<{ model: ScoringModel; jobId: string }>(res);
     }
 };
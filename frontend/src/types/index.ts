@@ -50,3 +50,448 @@ export interface Integration {
     name: string;
     logo: string;
 }
+
+// Composite score (mirrors server/src/services/aggregation.service.ts)
+export interface ScoringWeights {
+    github: number;
+    linkedin: number;
+    twitter: number;
+    blog: number;
+}
+
+export interface CompositeScore {
+    overallScore: number;
+    githubScore: number | null;
+    linkedinScore: number | null;
+    blogScore: number | null;
+    socialScore: number | null;
+    breakdown: {
+        platformScores: Record<string, number>;
+        weights: ScoringWeights;
+        platformsConnected: string[];
+        platformsMissing: string[];
+        platformsUnverified: string[];
+        modelVersion: number | null;
+        percentiles?: CohortPercentile[];
+    };
+    strengths: string[];
+    improvements: string[];
+    recommendations: string[];
+    calculatedAt: string;
+}
+
+// Percentile rank within a peer cohort (mirrors server/src/services/cohort.service.ts)
+export interface CohortPercentile {
+    type: 'all' | 'language' | 'location' | 'experience';
+    key: string;
+    label: string;
+    // Share of the cohort scoring below the candidate
+    percentile: number;
+    sampleSize: number;
+    averageScore: number;
+}
+
+// Score what-if simulator (mirrors server/src/services/score-simulator.service.ts)
+export type SimulatedPlatform = 'github' | 'linkedin' | 'twitter' | 'devto' | 'hashnode' | 'medium';
+
+export interface ScoreSimulationDeltas {
+    github?: { repos?: number; stars?: number; followers?: number };
+    twitter?: { tweets?: number; followers?: number };
+    blog?: { posts?: number };
+    newPlatform?: { platform: SimulatedPlatform; score: number };
+}
+
+export interface PlatformScoreChange {
+    platform: string;
+    current: number | null;
+    projected: number | null;
+    change: number;
+}
+
+export interface ScoreSimulation {
+    current: CompositeScore;
+    projected: CompositeScore;
+    overallChange: number;
+    platformChanges: PlatformScoreChange[];
+}
+
+// Candidate search (mirrors server/src/services/search.service.ts)
+export type SearchSortBy =
+    | 'score_desc'
+    | 'score_asc'
+    | 'github_desc'
+    | 'linkedin_desc'
+    | 'blog_desc'
+    | 'social_desc'
+    | 'recent'
+    | 'name_asc';
+
+export type CandidatePlatform = 'GITHUB' | 'LINKEDIN' | 'TWITTER' | 'MEDIUM' | 'HASHNODE' | 'DEVTO';
+
+export interface CandidateSearchFilters {
+    skills?: string[];
+    languages?: string[];
+    minScore?: number;
+    maxScore?: number;
+    minGithubScore?: number;
+    minLinkedinScore?: number;
+    minBlogScore?: number;
+    minSocialScore?: number;
+    location?: string;
+    hasGithub?: boolean;
+    hasLinkedin?: boolean;
+    hasTwitter?: boolean;
+    hasBlog?: boolean;
+}
+
+export interface SearchResultCandidate {
+    id: string;
+    userId: string;
+    name: string;
+    location: string | null;
+    bio: string | null;
+    isPublic: boolean;
+    // Only candidates open to opportunities accept contact requests
+    openToOpportunities: boolean;
+    score: {
+        composite: number;
+        github: number | null;
+        linkedin: number | null;
+        blog: number | null;
+        social: number | null;
+    };
+    platforms: {
+        platform: CandidatePlatform;
+        username: string;
+        isVerified: boolean;
+    }[];
+    skills: string[];
+    languages: string[];
+    strengths: string[];
+    matchScore?: number;
+    // Score under the searched role profile's weights
+    roleScore?: number;
+    percentiles?: CohortPercentile[];
+}
+
+export interface SearchResult {
+    candidates: SearchResultCandidate[];
+    total: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+    filters: CandidateSearchFilters;
+    sortBy: SearchSortBy;
+    roleProfile?: RoleProfile;
+}
+
+// Role profiles (mirrors server/src/services/role-profile.service.ts)
+export interface MinPlatformScores {
+    github?: number;
+    linkedin?: number;
+    blog?: number;
+    social?: number;
+}
+
+export interface RoleProfile {
+    // Built-in profiles use their key, e.g. `backend`
+    id: string;
+    name: string;
+    weights: ScoringWeights;
+    requiredLanguages: string[];
+    minPlatformScores: MinPlatformScores;
+    builtIn: boolean;
+    shared: boolean;
+    isOwner: boolean;
+    createdAt: string | null;
+    updatedAt: string | null;
+}
+
+export interface RoleProfileInput {
+    name: string;
+    weights: ScoringWeights;
+    requiredLanguages: string[];
+    minPlatformScores: MinPlatformScores;
+    shared: boolean;
+}
+
+export interface SavedSearch {
+    id: string;
+    name: string;
+    filters: CandidateSearchFilters;
+    sortBy: SearchSortBy;
+    createdAt: string;
+    lastRunAt: string | null;
+    notifyOnNewMatches: boolean;
+    // Shared with the recruiter's organization; only the owner can change it
+    shared: boolean;
+    isOwner: boolean;
+}
+
+// Shortlists and hiring pipelines
+export interface Shortlist {
+    id: string;
+    name: string;
+    stages: string[];
+    // Shared with the recruiter's organization; only the owner can rename, reconfigure or delete it
+    shared: boolean;
+    isOwner: boolean;
+    entryCount: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ShortlistEntry {
+    id: string;
+    stage: string;
+    position: number;
+    tags: string[];
+    candidate: {
+        id: string;
+        name: string;
+        location: string | null;
+        compositeScore: number | null;
+    };
+    updatedAt: string;
+}
+
+export interface ShortlistDetails extends Shortlist {
+    entries: ShortlistEntry[];
+}
+
+export interface StageChange {
+    id: string;
+    fromStage: string | null;
+    toStage: string;
+    changedBy: string | null;
+    createdAt: string;
+}
+
+export interface CandidateNote {
+    id: string;
+    body: string;
+    shared: boolean;
+    isOwner: boolean;
+    author: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Candidate-recruiter messaging
+export type ConversationStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CLOSED';
+
+export interface DirectMessage {
+    id: string;
+    body: string;
+    fromMe: boolean;
+    readAt: string | null;
+    createdAt: string;
+}
+
+export interface Conversation {
+    id: string;
+    status: ConversationStatus;
+    candidateId: string;
+    // Whether the viewer is the candidate, who answers the contact request
+    viewerIsCandidate: boolean;
+    counterpart: {
+        name: string;
+        company: string | null;
+    };
+    lastMessage: DirectMessage | null;
+    unreadCount: number;
+    createdAt: string;
+    lastMessageAt: string;
+}
+
+export interface ConversationDetails extends Conversation {
+    messages: DirectMessage[];
+}
+
+export interface ContactPreferences {
+    isPublic: boolean;
+    openToOpportunities: boolean;
+}
+
+// Recruiter organizations
+export type OrganizationRole = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+export interface OrganizationMember {
+    id: string;
+    recruiterId: string;
+    name: string;
+    email: string;
+    role: OrganizationRole;
+    joinedAt: string;
+}
+
+export interface OrganizationInvitation {
+    id: string;
+    email: string;
+    role: OrganizationRole;
+    expiresAt: string;
+    createdAt: string;
+}
+
+export interface Organization {
+    id: string;
+    name: string;
+    subscriptionTier: 'BASIC' | 'PREMIUM' | 'ENTERPRISE';
+    role: OrganizationRole;
+    seats: { used: number; limit: number };
+    apiCalls: { used: number; limit: number };
+    members: OrganizationMember[];
+    invitations: OrganizationInvitation[];
+}
+
+// Admin console
+export type UserRole = 'CANDIDATE' | 'RECRUITER' | 'ADMIN';
+
+export interface AdminUser {
+    id: string;
+    email: string;
+    name: string;
+    userType: UserRole;
+    suspendedAt: string | null;
+    suspensionReason: string | null;
+    createdAt: string;
+    candidateProfileId: string | null;
+    recruiterProfileId: string | null;
+}
+
+export interface AdminUserList {
+    users: AdminUser[];
+    total: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+}
+
+export interface PlatformDataRow {
+    id: string;
+    platform: CandidatePlatform;
+    dataType: string;
+    rawData: unknown;
+    processedData: unknown;
+    fetchedAt: string;
+    expiresAt: string | null;
+}
+
+export interface CandidatePlatformData {
+    candidateId: string;
+    connections: { id: string; platform: CandidatePlatform; username: string; isVerified: boolean; lastSynced: string | null }[];
+    platformData: PlatformDataRow[];
+}
+
+export type ScoreDisputeType = 'data-inaccuracy' | 'calculation-error' | 'platform-missing' | 'other';
+
+export type ScoreDisputeStatus = 'pending' | 'in-review' | 'resolved' | 'rejected';
+
+export interface ScoreDispute {
+    id: string;
+    candidateId: string;
+    type: ScoreDisputeType;
+    description: string;
+    status: ScoreDisputeStatus;
+    submittedAt: string;
+    reviewedAt?: string;
+    reviewedBy?: string;
+    resolution?: string;
+    adminNotes?: string;
+}
+
+// Score anomaly flags (mirrors server/src/services/anomaly.service.ts)
+export type ScoreAnomalyType = 'follower-spike' | 'empty-repositories' | 'engagement-ratio' | 'duplicate-posts';
+
+export type ScoreAnomalyStatus = 'open' | 'confirmed' | 'dismissed';
+
+export interface ScoreAnomaly {
+    id: string;
+    candidateId: string;
+    candidateName?: string;
+    candidateUserId?: string;
+    platform: CandidatePlatform;
+    type: ScoreAnomalyType;
+    summary: string;
+    details: Record<string, unknown>;
+    // Multiplier applied to the platform score while the flag is open or confirmed
+    dampening: number;
+    status: ScoreAnomalyStatus;
+    reviewedBy: string | null;
+    reviewedAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Scoring model versions (mirrors server/src/services/scoring-model.service.ts)
+export interface ScoreThresholds {
+    strength: number;
+    improvement: number;
+}
+
+export interface ScoringModel {
+    version: number;
+    weights: ScoringWeights;
+    coefficients: Record<'github' | 'linkedin' | 'twitter' | 'blog', Record<string, number>>;
+    thresholds: ScoreThresholds;
+    notes: string | null;
+    publishedBy: string | null;
+    createdAt: string;
+    active: boolean;
+    scoredCandidates: number;
+}
+
+// Audit trail (GET /api/audit)
+export type AuditAction =
+    | 'candidate.viewed'
+    | 'score.calculated'
+    | 'api.call'
+    | 'data.exported'
+    | 'account.deletion_requested'
+    | 'account.deletion_cancelled'
+    | 'account.deleted';
+
+export interface AuditTrailEntry {
+    id: string;
+    userId: string;
+    actorType: string;
+    subjectUserId: string | null;
+    action: AuditAction;
+    resource: string;
+    metadata?: Record<string, unknown>;
+    timestamp: string;
+    ipAddress?: string;
+    userAgent?: string;
+    actor: {
+        name: string;
+        userType: UserRole;
+        company: string | null;
+    } | null;
+}
+
+export interface AuditTrail {
+    entries: AuditTrailEntry[];
+    total: number;
+}
+
+export interface SessionInfo {
+    id: string;
+    deviceName: string | null;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: string;
+    lastUsedAt: string;
+    expiresAt: string;
+    current: boolean;
+}
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    required: boolean;
+    backupCodesRemaining: number;
+}
+
+export interface AccountDeletionStatus {
+    deletionRequestedAt: string | null;
+    deletionScheduledFor: string | null;
+}
@@ -0,0 +1,48 @@
+import { PrismaClient, UserType } from '@prisma/client';
+import * as bcrypt from 'bcryptjs';
+
+const prisma = new PrismaClient();
+
+// Usage: npx ts-node scripts/create-admin.ts <email> [name] [password]
+// Promotes an existing account, or creates a new admin account.
+async function main() {
+    const [email, name, password] = process.argv.slice(2);
+
+    if (!email) {
+        throw new Error('Usage: create-admin.ts <email> [name] [password]');
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email } });
+
+    if (existing) {
+        await prisma.user.update({
+            where: { id: existing.id },
+            data: { userType: UserType.ADMIN, suspendedAt: null, suspensionReason: null }
+        });
+        console.log(`Promoted ${email} to admin`);
+        return;
+    }
+
+    if (!name || !password) {
+        throw new Error('Name and password are required to create a new admin');
+    }
+
+    await prisma.user.create({
+        data: {
+            email,
+            name,
+            passwordHash: await bcrypt.hash(password, 12),
+            userType: UserType.ADMIN
+        }
+    });
+    console.log(`Created admin ${email}`);
+}
+
+main()
+    .catch((e) => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
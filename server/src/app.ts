@@ -9,12 +9,34 @@ import analyticsRoutes from './routes/analytics.routes';
 import aiRoutes from './routes/ai.routes';
 import pathwayRoutes from './routes/pathway.routes';
 import authRoutes from './routes/auth.routes';
+import oauthRoutes from './routes/oauth.routes';
+import twoFactorRoutes from './routes/two-factor.routes';
 import profileRoutes from './routes/profile.routes';
+import searchRoutes from './routes/search.routes';
+import notificationRoutes from './routes/notification.routes';
+import scoreRoutes from './routes/score.routes';
+import adminRoutes from './routes/admin.routes';
+import jobRoutes from './routes/job.routes';
+import webhookRoutes from './routes/webhook.routes';
+import apiKeyRoutes from './routes/api-key.routes';
+import organizationRoutes from './routes/organization.routes';
+import shortlistRoutes from './routes/shortlist.routes';
+import roleProfileRoutes from './routes/role-profile.routes';
+import messageRoutes from './routes/message.routes';
+import v1Routes from './routes/v1.routes';
+import auditRoutes from './routes/audit.routes';
+import { apiRateLimit } from './middleware/rate-limit.middleware';
 
 dotenv.config();
 
 const app = express();
 
+// Behind a load balancer, set TRUST_PROXY (hop count or subnets) so per-IP limits see the client address
+if (process.env.TRUST_PROXY) {
+    const hops = Number(process.env.TRUST_PROXY);
+    app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 app.use(helmet());
 app.use(cors());
 app.use(express.json());
@@ -25,8 +47,24 @@ app.get('/api/health', (req: express.Request, res: express.Response) => {
 });
 
 // API Routes
+app.use('/api', apiRateLimit);
+app.use('/api/auth/oauth', oauthRoutes);
+app.use('/api/auth/2fa', twoFactorRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/profile', profileRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/shortlists', shortlistRoutes);
+app.use('/api/role-profiles', roleProfileRoutes);
+app.use('/api/messages', messageRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/scores', scoreRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/api-key', apiKeyRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/v1', v1Routes);
+app.use('/api/audit', auditRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/sessions', sessionRoutes);
 app.use('/api/analytics', analyticsRoutes);
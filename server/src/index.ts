@@ -1,4 +1,5 @@
 import app from './app';
+import { jobWorker, jobScheduler } from './services/job.worker';
 
 const port = process.env.PORT || 3001;
 
@@ -6,3 +7,8 @@ app.listen(port, () => {
     console.log(`[server]: Server is running at http://localhost:${port}`);
 });
 
+// Background jobs: platform refreshes, score recalculation and housekeeping
+if (process.env.JOB_WORKER_ENABLED !== 'false') {
+    jobWorker.start();
+    jobScheduler.start();
+}
@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for Audit Logging Middleware
+ * Tests: Candidate view entries, public API call entries, no entries for failed requests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { RecruiterProfile, UserType } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { auditCandidateView } from '../audit.middleware';
+import { requireApiKey } from '../api-key.middleware';
+import { optionalAuth } from '../auth.middleware';
+import { AuditAction } from '../../services/audit.service';
+import { apiKeyService } from '../../services/api-key.service';
+import { AuthService } from '../../services/auth.service';
+import { sessionService } from '../../services/session.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    auditLog: { create: jest.fn() },
+    candidateProfile: { findUnique: jest.fn() }
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  auditLog: { create: jest.Mock };
+  candidateProfile: { findUnique: jest.Mock };
+};
+
+const app = express();
+app.get('/api/candidates/:id', optionalAuth, auditCandidateView('profile'), (req, res) => {
+  if (req.params.id === 'missing') {
+    return res.status(404).json({ error: 'Candidate not found' });
+  }
+  res.json({ id: req.params.id });
+});
+app.get('/api/v1/candidates', requireApiKey, (req, res) => {
+  res.json({ candidates: [] });
+});
+
+const recruiterToken = AuthService.generateToken('recruiter-user-id', 'recruiter@example.com', UserType.RECRUITER, 'recruiter-session');
+
+const rateLimit = { limit: 1000, remaining: 999, resetTime: new Date(Date.now() + 60 * 1000), windowMs: 60 * 1000 };
+
+// Candidate views are written once the response has finished
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Audit Middleware', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(AuthService, 'isAccountActive').mockResolvedValue(true);
+    jest.spyOn(sessionService, 'isSessionActive').mockResolvedValue(true);
+    mockedPrisma.auditLog.create.mockResolvedValue({});
+    mockedPrisma.candidateProfile.findUnique.mockResolvedValue({ userId: 'candidate-user-id' });
+  });
+
+  describe('auditCandidateView', () => {
+    test('should record who viewed which candidate', async () => {
+      await request(app)
+        .get('/api/candidates/candidate-1')
+        .set('Authorization', `Bearer ${recruiterToken}`)
+        .set('User-Agent', 'jest')
+        .expect(200);
+      await flush();
+
+      expect(mockedPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          actorId: 'recruiter-user-id',
+          actorType: UserType.RECRUITER,
+          subjectUserId: 'candidate-user-id',
+          action: AuditAction.CANDIDATE_VIEWED,
+          resource: 'candidate:candidate-1',
+          metadata: { source: 'profile' },
+          userAgent: 'jest'
+        })
+      });
+    });
+
+    test('should not record reads that did not return the profile', async () => {
+      await request(app).get('/api/candidates/missing').expect(404);
+      await flush();
+
+      expect(mockedPrisma.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireApiKey', () => {
+    test('should record each public API call against the key owner', async () => {
+      jest.spyOn(apiKeyService, 'validateApiKey').mockResolvedValue({ userId: 'recruiter-user-id' } as RecruiterProfile);
+      jest.spyOn(apiKeyService, 'consumeApiCall').mockResolvedValue({ allowed: true, rateLimit });
+
+      await request(app).get('/api/v1/candidates?skills=rust').set('X-API-Key', 'dd_live_key').expect(200);
+      await flush();
+
+      expect(mockedPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          actorId: 'recruiter-user-id',
+          actorType: UserType.RECRUITER,
+          action: AuditAction.API_CALL,
+          resource: '/api/v1/candidates',
+          metadata: { parameters: { skills: 'rust' } }
+        })
+      });
+    });
+
+    test('should not record calls refused for quota or a bad key', async () => {
+      jest.spyOn(apiKeyService, 'validateApiKey').mockResolvedValueOnce(null);
+      await request(app).get('/api/v1/candidates').set('X-API-Key', 'dd_live_bad').expect(401);
+
+      jest.spyOn(apiKeyService, 'validateApiKey').mockResolvedValue({ userId: 'recruiter-user-id' } as RecruiterProfile);
+      jest.spyOn(apiKeyService, 'consumeApiCall').mockResolvedValue({ allowed: false, rateLimit: { ...rateLimit, remaining: 0 } });
+      await request(app).get('/api/v1/candidates').set('X-API-Key', 'dd_live_key').expect(429);
+      await flush();
+
+      expect(mockedPrisma.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+});
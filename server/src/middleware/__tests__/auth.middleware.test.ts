@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for Optional Authentication
+ * Tests: Anonymous fallback for missing, revoked, suspended and session-less tokens
+ */
+
+import express from 'express';
+import request from 'supertest';
+import * as jwt from 'jsonwebtoken';
+import { UserType } from '@prisma/client';
+import { optionalAuth, AuthenticatedRequest } from '../auth.middleware';
+import { AuthService } from '../../services/auth.service';
+import { sessionService } from '../../services/session.service';
+
+jest.mock('../../lib/prisma', () => ({ prisma: {} }));
+
+const app = express();
+app.get('/whoami', optionalAuth, (req: AuthenticatedRequest, res) => {
+  res.json({ userId: req.user?.userId ?? null });
+});
+
+const token = AuthService.generateToken('user-1', 'user@example.com', UserType.CANDIDATE, 'session-1');
+
+const whoami = (authorization?: string) => {
+  const req = request(app).get('/whoami');
+  return (authorization ? req.set('Authorization', authorization) : req).then(res => res.body.userId);
+};
+
+describe('optionalAuth', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(AuthService, 'isAccountActive').mockResolvedValue(true);
+    jest.spyOn(sessionService, 'isSessionActive').mockResolvedValue(true);
+  });
+
+  test('should attach the user of an active session', async () => {
+    expect(await whoami(`Bearer ${token}`)).toBe('user-1');
+    expect(sessionService.isSessionActive).toHaveBeenCalledWith('user-1', 'session-1');
+  });
+
+  test('should continue anonymously without a valid token', async () => {
+    expect(await whoami()).toBeNull();
+    expect(await whoami('Bearer not-a-token')).toBeNull();
+  });
+
+  test('should treat logged-out and suspended users as anonymous', async () => {
+    jest.spyOn(sessionService, 'isSessionActive').mockResolvedValue(false);
+    expect(await whoami(`Bearer ${token}`)).toBeNull();
+
+    jest.spyOn(sessionService, 'isSessionActive').mockResolvedValue(true);
+    jest.spyOn(AuthService, 'isAccountActive').mockResolvedValue(false);
+    expect(await whoami(`Bearer ${token}`)).toBeNull();
+  });
+
+  test('should ignore tokens issued without a session', async () => {
+    const legacy = jwt.sign(
+      { userId: 'user-1', email: 'user@example.com', userType: UserType.CANDIDATE },
+      process.env.JWT_SECRET || 'your-secret-key'
+    );
+
+    expect(await whoami(`Bearer ${legacy}`)).toBeNull();
+  });
+});
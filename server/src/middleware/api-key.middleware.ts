@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from 'express';
+import { RecruiterProfile } from '@prisma/client';
+import { apiKeyService } from '../services/api-key.service';
+import { auditService } from '../services/audit.service';
+import { RateLimit } from '../types';
+
+export interface ApiKeyRequest extends Request {
+  recruiter?: RecruiterProfile;
+}
+
+/**
+ * Set the IETF draft RateLimit headers (reset is in seconds)
+ */
+export const setRateLimitHeaders = (res: Response, rateLimit: RateLimit) => {
+  const resetSeconds = Math.max(Math.ceil((rateLimit.resetTime.getTime() - Date.now()) / 1000), 0);
+
+  res.setHeader('RateLimit-Limit', rateLimit.limit);
+  res.setHeader('RateLimit-Remaining', rateLimit.remaining);
+  res.setHeader('RateLimit-Reset', resetSeconds);
+
+  return resetSeconds;
+};
+
+/**
+ * Middleware to authenticate public API calls with an X-API-Key header
+ * Each call is charged against the recruiter's quota
+ */
+export const requireApiKey = async (req: ApiKeyRequest, res: Response, next: NextFunction) => {
+  try {
+    const apiKey = req.header('X-API-Key');
+
+    if (!apiKey) {
+      return res.status(401).json({ error: 'No API key provided' });
+    }
+
+    const recruiter = await apiKeyService.validateApiKey(apiKey);
+
+    if (!recruiter) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+
+    const { allowed, rateLimit } = await apiKeyService.consumeApiCall(recruiter);
+    const resetSeconds = setRateLimitHeaders(res, rateLimit);
+
+    if (!allowed) {
+      res.setHeader('Retry-After', resetSeconds);
+      return res.status(429).json({
+        error: 'API quota exceeded',
+        resetTime: rateLimit.resetTime
+      });
+    }
+
+    req.recruiter = recruiter;
+
+    void auditService.logApiCall(recruiter.userId, `${req.baseUrl}${req.path}`, req.query, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    next();
+  } catch (error) {
+    console.error('API Key Middleware Error:', error);
+    return res.status(500).json({ error: 'Failed to validate API key' });
+  }
+};
@@ -0,0 +1,43 @@
+import { Response, NextFunction } from 'express';
+import { UserType } from '@prisma/client';
+import { auditService, AuditContext } from '../services/audit.service';
+import { AuthenticatedRequest } from './auth.middleware';
+import { ApiKeyRequest } from './api-key.middleware';
+
+type AuditableRequest = AuthenticatedRequest & ApiKeyRequest;
+
+/**
+ * Build the audit context (actor, IP and user-agent) for a request
+ * Works for JWT users and API key callers
+ */
+export const getAuditContext = (req: AuditableRequest): AuditContext => {
+  const actor = req.user
+    ? { actorId: req.user.userId, actorType: req.user.userType }
+    : req.recruiter
+      ? { actorId: req.recruiter.userId, actorType: UserType.RECRUITER }
+      : {};
+
+  return {
+    ...actor,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent')
+  };
+};
+
+/**
+ * Middleware to record reads of a candidate profile (`:id` route param)
+ * Logged after the response is sent, and only for successful reads
+ */
+export const auditCandidateView = (source: string) =>
+  (req: AuditableRequest, res: Response, next: NextFunction) => {
+    const candidateId = req.params.id;
+
+    res.on('finish', () => {
+      if (res.statusCode !== 200) return;
+
+      auditService.logCandidateView(getAuditContext(req), candidateId, source)
+        .catch(error => console.error('Audit Log Error:', error));
+    });
+
+    next();
+  };
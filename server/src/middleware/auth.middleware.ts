@@ -1,13 +1,24 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../services/auth.service';
+import { sessionService } from '../services/session.service';
+import { twoFactorService } from '../services/two-factor.service';
 import { UserType } from '@prisma/client';
 
+// Passport declares req.user as an empty Express.User; describe the JWT payload we attach
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface User {
+      userId: string;
+      email: string;
+      userType: UserType;
+      sessionId?: string;
+    }
+  }
+}
+
 export interface AuthenticatedRequest extends Request {
-  user?: {
-    userId: string;
-    email: string;
-    userType: UserType;
-  };
+  user?: Express.User;
 }
 
 /**
@@ -30,15 +41,26 @@ export const requireAuth = async (req: AuthenticatedRequest, res: Response, next
     // Verify JWT token
     const decoded = AuthService.verifyToken(token);
     
-    if (!decoded || !decoded.userId) {
+    if (!decoded || !decoded.userId || !decoded.sessionId) {
       return res.status(401).json({ error: 'Invalid token payload' });
     }
 
+    // Reject tokens of suspended or deleted accounts
+    if (!(await AuthService.isAccountActive(decoded.userId))) {
+      return res.status(403).json({ error: 'Account suspended or not found' });
+    }
+
+    // Reject tokens whose session was logged out
+    if (!(await sessionService.isSessionActive(decoded.userId, decoded.sessionId))) {
+      return res.status(401).json({ error: 'Session revoked or expired' });
+    }
+
     // Attach user info to request
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
-      userType: decoded.userType
+      userType: decoded.userType,
+      sessionId: decoded.sessionId
     };
 
     next();
@@ -78,6 +100,66 @@ export const requireRecruiter = (req: AuthenticatedRequest, res: Response, next:
   next();
 };
 
+/**
+ * Middleware to require a verified email address
+ */
+export const requireVerifiedEmail = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    if (!(await AuthService.isEmailVerified(req.user.userId))) {
+      return res.status(403).json({ error: 'Email verification required' });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Email Verification Check Error:', error);
+    return res.status(500).json({ error: 'Failed to check email verification' });
+  }
+};
+
+/**
+ * Middleware to require two-factor authentication when the user's company enforces it
+ */
+export const requireCompanyTwoFactor = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    const [required, enabled] = await Promise.all([
+      twoFactorService.isRequired(req.user.userId),
+      twoFactorService.isEnabled(req.user.userId)
+    ]);
+
+    if (required && !enabled) {
+      return res.status(403).json({ error: 'Two-factor authentication required by your company' });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Two-Factor Check Error:', error);
+    return res.status(500).json({ error: 'Failed to check two-factor authentication' });
+  }
+};
+
+/**
+ * Middleware to require admin role
+ */
+export const requireAdmin = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  if (req.user.userType !== UserType.ADMIN) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+
+  next();
+};
+
 /**
  * Optional authentication middleware - doesn't fail if no token provided
  */
@@ -98,15 +180,21 @@ export const optionalAuth = async (req: AuthenticatedRequest, res: Response, nex
     // Try to verify token, but don't fail if invalid
     try {
       const decoded = AuthService.verifyToken(token);
-      
-      if (decoded && decoded.userId) {
+
+      // Same checks as requireAuth; a logged-out or suspended user is treated as anonymous
+      if (
+        decoded && decoded.userId && decoded.sessionId &&
+        await AuthService.isAccountActive(decoded.userId) &&
+        await sessionService.isSessionActive(decoded.userId, decoded.sessionId)
+      ) {
         req.user = {
           userId: decoded.userId,
           email: decoded.email,
-          userType: decoded.userType
+          userType: decoded.userType,
+          sessionId: decoded.sessionId
         };
       }
-    } catch (error) {
+    } catch {
       // Token invalid, but continue without user
     }
 
@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction } from 'express';
+import { rateLimitService } from '../services/rate-limit.service';
+import { setRateLimitHeaders } from './api-key.middleware';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface RateLimitOptions {
+  // Budget name, used as the key prefix so budgets do not share counters
+  name: string;
+  limit: number;
+  windowMs: number;
+  // Bucket for the request; null skips the limit
+  key?: (req: Request) => string | null;
+}
+
+const ipKey = (req: Request) => `ip:${req.ip}`;
+
+// Authenticated requests are limited per user, anonymous ones per IP
+const userOrIpKey = (req: Request) => (req.user ? `user:${req.user.userId}` : ipKey(req));
+
+// Login attempts against one account, whichever IPs they come from
+const loginAccountKey = (req: Request) =>
+  typeof req.body?.email === 'string' ? `account:${req.body.email.trim().toLowerCase()}` : null;
+
+/**
+ * Middleware factory limiting requests to `limit` per `windowMs`
+ * Store failures let the request through rather than taking the API down
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  const getKey = options.key ?? ipKey;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = getKey(req);
+    if (!key) {
+      return next();
+    }
+
+    try {
+      const { allowed, rateLimit: state } = await rateLimitService.consume(
+        `${options.name}:${key}`,
+        options.limit,
+        options.windowMs
+      );
+      const resetSeconds = setRateLimitHeaders(res, state);
+
+      if (!allowed) {
+        res.setHeader('Retry-After', resetSeconds);
+        return res.status(429).json({
+          error: 'Too many requests',
+          resetTime: state.resetTime
+        });
+      }
+    } catch (error) {
+      console.error('Rate Limit Error:', error);
+    }
+
+    next();
+  };
+};
+
+// Every API request, per IP
+export const apiRateLimit = rateLimit({ name: 'api', limit: 300, windowMs: 15 * MINUTE_MS });
+
+// Login, registration and account recovery, per IP
+export const authRateLimit = rateLimit({ name: 'auth', limit: 20, windowMs: 15 * MINUTE_MS });
+
+// Login attempts per account; lockout after repeated failures is handled by AuthService
+export const loginAccountRateLimit = rateLimit({
+  name: 'login',
+  limit: 10,
+  windowMs: 15 * MINUTE_MS,
+  key: loginAccountKey
+});
+
+// AI crawls and chat are expensive, per user
+export const aiRateLimit = rateLimit({ name: 'ai', limit: 30, windowMs: 60 * MINUTE_MS, key: userOrIpKey });
+
+// Candidate search, per recruiter
+export const searchRateLimit = rateLimit({ name: 'search', limit: 60, windowMs: MINUTE_MS, key: userOrIpKey });
+
+// Contact requests to candidates, per recruiter
+export const contactRequestRateLimit = rateLimit({ name: 'contact', limit: 25, windowMs: 24 * 60 * MINUTE_MS, key: userOrIpKey });
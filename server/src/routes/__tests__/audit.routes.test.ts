@@ -0,0 +1,135 @@
+/**
+ * Route Tests for Audit API
+ * Tests: Read-only trail, candidate scoping, admin filters
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { UserType } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import auditRoutes from '../audit.routes';
+import { AuditAction } from '../../services/audit.service';
+import { AuthService } from '../../services/auth.service';
+import { sessionService } from '../../services/session.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    auditLog: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn()
+    },
+    user: { findMany: jest.fn() }
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  auditLog: {
+    findMany: jest.Mock;
+    count: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+    updateMany: jest.Mock;
+    delete: jest.Mock;
+    deleteMany: jest.Mock;
+  };
+  user: { findMany: jest.Mock };
+};
+
+const app = express();
+app.use(express.json());
+app.use('/api/audit', auditRoutes);
+
+const candidateToken = AuthService.generateToken('candidate-user-id', 'candidate@example.com', UserType.CANDIDATE, 'candidate-session');
+const adminToken = AuthService.generateToken('admin-user-id', 'admin@example.com', UserType.ADMIN, 'admin-session');
+
+const viewEntry = {
+  id: 'entry-1',
+  actorId: 'recruiter-user-id',
+  actorType: UserType.RECRUITER,
+  subjectUserId: 'candidate-user-id',
+  action: AuditAction.CANDIDATE_VIEWED,
+  resource: 'candidate:candidate-1',
+  metadata: { source: 'search' },
+  ipAddress: '203.0.113.7',
+  userAgent: 'Mozilla/5.0',
+  createdAt: new Date('2026-10-01T00:00:00Z')
+};
+
+describe('Audit Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(AuthService, 'isAccountActive').mockResolvedValue(true);
+    jest.spyOn(sessionService, 'isSessionActive').mockResolvedValue(true);
+    mockedPrisma.auditLog.findMany.mockResolvedValue([viewEntry]);
+    mockedPrisma.auditLog.count.mockResolvedValue(1);
+    mockedPrisma.user.findMany.mockResolvedValue([
+      { id: 'recruiter-user-id', name: 'Rita', userType: UserType.RECRUITER, recruiterProfile: { company: 'Acme' } }
+    ]);
+  });
+
+  describe('Immutability', () => {
+    test.each([
+      ['post', '/api/audit'],
+      ['put', '/api/audit/entry-1'],
+      ['patch', '/api/audit/entry-1'],
+      ['delete', '/api/audit/entry-1'],
+      ['delete', '/api/audit']
+    ] as const)('should not expose %s %s', async (method, path) => {
+      for (const token of [candidateToken, adminToken]) {
+        const res = await request(app)[method](path).set('Authorization', `Bearer ${token}`).send({ action: 'changed' });
+
+        expect(res.status).toBe(404);
+      }
+
+      expect(mockedPrisma.auditLog.create).not.toHaveBeenCalled();
+      expect(mockedPrisma.auditLog.update).not.toHaveBeenCalled();
+      expect(mockedPrisma.auditLog.updateMany).not.toHaveBeenCalled();
+      expect(mockedPrisma.auditLog.delete).not.toHaveBeenCalled();
+      expect(mockedPrisma.auditLog.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/audit', () => {
+    test('should show candidates who viewed their data without the viewer network details', async () => {
+      const res = await request(app)
+        .get('/api/audit?userId=someone-else')
+        .set('Authorization', `Bearer ${candidateToken}`);
+
+      expect(res.status).toBe(200);
+      expect(mockedPrisma.auditLog.findMany.mock.calls[0][0].where).toMatchObject({
+        subjectUserId: 'candidate-user-id',
+        actorId: undefined
+      });
+      expect(res.body.entries[0]).toMatchObject({ action: AuditAction.CANDIDATE_VIEWED, actor: { name: 'Rita', company: 'Acme' } });
+      expect(res.body.entries[0]).not.toHaveProperty('ipAddress');
+      expect(res.body.entries[0]).not.toHaveProperty('userAgent');
+    });
+
+    test('should let admins filter the full trail', async () => {
+      const res = await request(app)
+        .get('/api/audit?userId=candidate-user-id&actorId=recruiter-user-id')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.status).toBe(200);
+      expect(mockedPrisma.auditLog.findMany.mock.calls[0][0].where).toMatchObject({
+        subjectUserId: 'candidate-user-id',
+        actorId: 'recruiter-user-id'
+      });
+      expect(res.body.entries[0].ipAddress).toBe('203.0.113.7');
+    });
+
+    test('should reject recruiters', async () => {
+      const recruiterToken = AuthService.generateToken('recruiter-user-id', 'recruiter@example.com', UserType.RECRUITER, 'recruiter-session');
+
+      const res = await request(app).get('/api/audit').set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(403);
+      expect(mockedPrisma.auditLog.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Route Tests for OAuth Sign-In
+ * Tests: Provider redirect, callback login and linking, state binding and replay, provider failures
+ */
+
+import express from 'express';
+import request from 'supertest';
+import passport from 'passport';
+import { UserType } from '@prisma/client';
+import oauthRoutes from '../oauth.routes';
+import { oauthService, OAuthProfile, OAuthProvider } from '../../services/oauth.service';
+import { registerOAuthStrategy } from '../../services/oauth.strategies';
+
+// In-memory nonce table so states can be issued and consumed
+const nonces = new Map<string, Date>();
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    oAuthStateNonce: {
+      create: jest.fn(({ data }: { data: { nonce: string; expiresAt: Date } }) => {
+        nonces.set(data.nonce, data.expiresAt);
+        return Promise.resolve(data);
+      }),
+      deleteMany: jest.fn(({ where }: { where: { nonce?: string } }) => {
+        const count = where.nonce && nonces.delete(where.nonce) ? 1 : 0;
+        return Promise.resolve({ count });
+      })
+    }
+  }
+}));
+
+jest.mock('../../services/oauth.service', () => {
+  const actual = jest.requireActual('../../services/oauth.service');
+  return {
+    ...actual,
+    oauthService: {
+      createState: actual.oauthService.createState.bind(actual.oauthService),
+      verifyState: actual.oauthService.verifyState.bind(actual.oauthService),
+      signIn: jest.fn(),
+      linkIdentity: jest.fn()
+    }
+  };
+});
+
+const mockedOAuthService = oauthService as jest.Mocked<typeof oauthService>;
+
+const githubProfile: OAuthProfile = {
+  provider: OAuthProvider.GITHUB,
+  providerUserId: '583231',
+  email: 'octocat@example.com',
+  emailVerified: true,
+  name: 'The Octocat',
+  username: 'octocat',
+  profileUrl: 'https://github.com/octocat'
+};
+
+/**
+ * Stand-in for the provider: redirects to a fake consent screen, then
+ * returns the profile when called back with a code
+ */
+class MockProviderStrategy extends passport.Strategy {
+  constructor(public name: string, private profile: OAuthProfile | null) {
+    super();
+  }
+
+  authenticate(req: express.Request, options?: { state?: string }) {
+    if (req.query.error) {
+      return this.fail({ message: 'access_denied' }, 401);
+    }
+
+    if (!req.query.code) {
+      return this.redirect(`https://provider.test/authorize?state=${encodeURIComponent(options?.state ?? '')}`);
+    }
+
+    this.success(this.profile as unknown as Express.User);
+  }
+}
+
+const app = express();
+app.use('/api/auth/oauth', oauthRoutes);
+
+const stateCookie = (nonce: string) => `oauth_state_nonce=${nonce}`;
+
+const fragmentOf = (location: string) => new URLSearchParams(location.split('#')[1] ?? '');
+const queryOf = (location: string) => new URL(location.split('#')[0]).searchParams;
+
+describe('OAuth Routes', () => {
+  beforeAll(() => {
+    registerOAuthStrategy(OAuthProvider.GITHUB, new MockProviderStrategy(OAuthProvider.GITHUB, githubProfile));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should redirect to the provider with a login state bound to a cookie', async () => {
+    const res = await request(app).get('/api/auth/oauth/github');
+
+    expect(res.status).toBe(302);
+    const cookie = (res.headers['set-cookie'] as unknown as string[])[0];
+    expect(cookie).toMatch(/HttpOnly/);
+    expect(cookie).toMatch(/SameSite=Lax/);
+
+    const nonce = cookie.split(';')[0].split('=')[1];
+    const state = new URL(res.headers.location).searchParams.get('state');
+    expect((await oauthService.verifyState(state ?? undefined, nonce)).intent).toBe('login');
+  });
+
+  test('should reject unknown providers and unconfigured ones', async () => {
+    expect((await request(app).get('/api/auth/oauth/myspace')).status).toBe(400);
+    expect((await request(app).get('/api/auth/oauth/google')).status).toBe(404);
+  });
+
+  test('should log in on callback and hand tokens to the frontend', async () => {
+    mockedOAuthService.signIn.mockResolvedValue({
+      user: { id: 'user-1', email: githubProfile.email!, name: 'The Octocat', userType: UserType.CANDIDATE, emailVerified: true },
+      token: 'access-token',
+      refreshToken: 'refresh-token',
+      refreshTokenExpiresAt: new Date(),
+      isNewUser: true
+    });
+    const { state, nonce } = await oauthService.createState('login');
+
+    const res = await request(app)
+      .get(`/api/auth/oauth/github/callback?code=abc&state=${encodeURIComponent(state)}`)
+      .set('Cookie', stateCookie(nonce))
+      .set('User-Agent', 'jest');
+
+    expect(res.status).toBe(302);
+    expect(mockedOAuthService.signIn).toHaveBeenCalledWith(githubProfile, expect.objectContaining({ userAgent: 'jest' }));
+
+    const fragment = fragmentOf(res.headers.location);
+    expect(fragment.get('token')).toBe('access-token');
+    expect(fragment.get('refreshToken')).toBe('refresh-token');
+    expect(fragment.get('newUser')).toBe('true');
+    expect(queryOf(res.headers.location).get('token')).toBeNull();
+  });
+
+  test('should link the identity when the state carries a user', async () => {
+    mockedOAuthService.linkIdentity.mockResolvedValue({
+      provider: 'github',
+      email: githubProfile.email,
+      username: 'octocat',
+      profileUrl: githubProfile.profileUrl,
+      lastLoginAt: new Date(),
+      createdAt: new Date()
+    });
+    const { state, nonce } = await oauthService.createState('link', 'user-42');
+
+    const res = await request(app)
+      .get(`/api/auth/oauth/github/callback?code=abc&state=${encodeURIComponent(state)}`)
+      .set('Cookie', stateCookie(nonce));
+
+    expect(mockedOAuthService.linkIdentity).toHaveBeenCalledWith('user-42', githubProfile);
+    expect(mockedOAuthService.signIn).not.toHaveBeenCalled();
+    expect(queryOf(res.headers.location).get('linked')).toBe('github');
+  });
+
+  test('should refuse callbacks with a missing or forged state', async () => {
+    const res = await request(app).get('/api/auth/oauth/github/callback?code=abc&state=forged');
+
+    expect(queryOf(res.headers.location).get('error')).toBe('Invalid OAuth state');
+    expect(mockedOAuthService.signIn).not.toHaveBeenCalled();
+  });
+
+  test('should refuse a state started in another browser', async () => {
+    // An attacker's link state handed to a victim whose browser holds a different nonce, or none
+    const { state } = await oauthService.createState('link', 'attacker');
+    const { nonce: victimNonce } = await oauthService.createState('login');
+
+    for (const cookie of [stateCookie(victimNonce), '']) {
+      const res = await request(app)
+        .get(`/api/auth/oauth/github/callback?code=abc&state=${encodeURIComponent(state)}`)
+        .set('Cookie', cookie);
+
+      expect(queryOf(res.headers.location).get('error')).toBe('Invalid OAuth state');
+    }
+    expect(mockedOAuthService.linkIdentity).not.toHaveBeenCalled();
+  });
+
+  test('should accept a state only once', async () => {
+    mockedOAuthService.signIn.mockResolvedValue({
+      user: { id: 'user-1', email: githubProfile.email!, name: 'The Octocat', userType: UserType.CANDIDATE, emailVerified: true },
+      token: 'access-token',
+      refreshToken: 'refresh-token',
+      refreshTokenExpiresAt: new Date(),
+      isNewUser: false
+    });
+    const { state, nonce } = await oauthService.createState('login');
+    const callback = () => request(app)
+      .get(`/api/auth/oauth/github/callback?code=abc&state=${encodeURIComponent(state)}`)
+      .set('Cookie', stateCookie(nonce));
+
+    const first = await callback();
+    const replay = await callback();
+
+    expect(fragmentOf(first.headers.location).get('token')).toBe('access-token');
+    expect(first.headers['set-cookie']?.[0]).toMatch(/^oauth_state_nonce=;/);
+    expect(queryOf(replay.headers.location).get('error')).toBe('Invalid OAuth state');
+    expect(mockedOAuthService.signIn).toHaveBeenCalledTimes(1);
+  });
+
+  test('should report sign-in errors to the frontend', async () => {
+    mockedOAuthService.signIn.mockRejectedValue(new Error('Email already registered'));
+    const { state, nonce } = await oauthService.createState('login');
+
+    const res = await request(app)
+      .get(`/api/auth/oauth/github/callback?code=abc&state=${encodeURIComponent(state)}`)
+      .set('Cookie', stateCookie(nonce));
+
+    expect(queryOf(res.headers.location).get('error')).toBe('Email already registered');
+  });
+
+  test('should handle a denied consent screen', async () => {
+    const res = await request(app).get('/api/auth/oauth/github/callback?error=access_denied');
+
+    expect(res.status).toBe(302);
+    expect(queryOf(res.headers.location).get('error')).toBe('OAuth sign-in was cancelled or failed');
+  });
+});
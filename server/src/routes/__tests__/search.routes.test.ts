@@ -0,0 +1,411 @@
+/**
+ * Route Tests for Search API
+ * Tests: Recruiter-only access, email verification, session revocation, query string parsing, pagination, role profiles, saved search CRUD
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { UserType } from '@prisma/client';
+import searchRoutes from '../search.routes';
+import { AuthService } from '../../services/auth.service';
+import { searchService, SortBy } from '../../services/search.service';
+import { auditService } from '../../services/audit.service';
+import { sessionService } from '../../services/session.service';
+import { twoFactorService } from '../../services/two-factor.service';
+import { roleProfileService, BUILT_IN_ROLE_PROFILES } from '../../services/role-profile.service';
+
+jest.mock('../../services/search.service', () => {
+  const actual = jest.requireActual('../../services/search.service');
+  return {
+    ...actual,
+    searchService: {
+      searchCandidates: jest.fn(),
+      getCandidateById: jest.fn(),
+      saveSearch: jest.fn(),
+      getSavedSearches: jest.fn(),
+      updateSavedSearch: jest.fn(),
+      runSavedSearch: jest.fn(),
+      deleteSavedSearch: jest.fn()
+    }
+  };
+});
+
+jest.mock('../../services/audit.service', () => {
+  const actual = jest.requireActual('../../services/audit.service');
+  return {
+    ...actual,
+    auditService: {
+      logCandidateView: jest.fn().mockResolvedValue(undefined)
+    }
+  };
+});
+
+const mockedSearchService = searchService as jest.Mocked<typeof searchService>;
+const mockedAuditService = auditService as jest.Mocked<typeof auditService>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/search', searchRoutes);
+
+const recruiterToken = AuthService.generateToken('recruiter-user-id', 'recruiter@example.com', UserType.RECRUITER, 'recruiter-session');
+const candidateToken = AuthService.generateToken('candidate-user-id', 'candidate@example.com', UserType.CANDIDATE, 'candidate-session');
+
+const emptyResult = (page = 1, pageSize = 20) => ({
+  candidates: [],
+  total: 0,
+  page,
+  pageSize,
+  totalPages: 0,
+  filters: {},
+  sortBy: SortBy.SCORE_DESC
+});
+
+describe('Search Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(AuthService, 'isAccountActive').mockResolvedValue(true);
+    jest.spyOn(sessionService, 'isSessionActive').mockResolvedValue(true);
+    jest.spyOn(AuthService, 'isEmailVerified').mockResolvedValue(true);
+    jest.spyOn(twoFactorService, 'isRequired').mockResolvedValue(false);
+    jest.spyOn(twoFactorService, 'isEnabled').mockResolvedValue(false);
+  });
+
+  describe('Access control', () => {
+    test('should reject requests without a token', async () => {
+      const res = await request(app).get('/api/search');
+
+      expect(res.status).toBe(401);
+      expect(mockedSearchService.searchCandidates).not.toHaveBeenCalled();
+    });
+
+    test('should reject candidates', async () => {
+      const res = await request(app)
+        .get('/api/search')
+        .set('Authorization', `Bearer ${candidateToken}`);
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Recruiter access required');
+    });
+
+    test('should reject recruiters who have not verified their email', async () => {
+      jest.spyOn(AuthService, 'isEmailVerified').mockResolvedValue(false);
+
+      const res = await request(app)
+        .get('/api/search')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Email verification required');
+      expect(mockedSearchService.searchCandidates).not.toHaveBeenCalled();
+    });
+
+    test('should reject recruiters without 2FA when their company requires it', async () => {
+      jest.spyOn(twoFactorService, 'isRequired').mockResolvedValue(true);
+
+      const res = await request(app)
+        .get('/api/search')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Two-factor authentication required by your company');
+      expect(mockedSearchService.searchCandidates).not.toHaveBeenCalled();
+    });
+
+    test('should reject tokens of revoked sessions', async () => {
+      jest.spyOn(sessionService, 'isSessionActive').mockResolvedValue(false);
+
+      const res = await request(app)
+        .get('/api/search')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(401);
+      expect(res.body.error).toBe('Session revoked or expired');
+      expect(sessionService.isSessionActive).toHaveBeenCalledWith('recruiter-user-id', 'recruiter-session');
+      expect(mockedSearchService.searchCandidates).not.toHaveBeenCalled();
+    });
+
+    test('should reject tokens issued without a session', async () => {
+      const legacyToken = AuthService.generateToken('recruiter-user-id', 'recruiter@example.com', UserType.RECRUITER);
+
+      const res = await request(app)
+        .get('/api/search')
+        .set('Authorization', `Bearer ${legacyToken}`);
+
+      expect(res.status).toBe(401);
+      expect(mockedSearchService.searchCandidates).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/search', () => {
+    test('should apply defaults when no query is given', async () => {
+      mockedSearchService.searchCandidates.mockResolvedValue(emptyResult());
+
+      const res = await request(app)
+        .get('/api/search')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(200);
+      expect(mockedSearchService.searchCandidates).toHaveBeenCalledWith({}, SortBy.SCORE_DESC, 1, 20, undefined);
+    });
+
+    test('should parse filters, sorting and pagination from the query string', async () => {
+      mockedSearchService.searchCandidates.mockResolvedValue(emptyResult(2, 10));
+
+      const res = await request(app)
+        .get('/api/search')
+        .query('skills=react,node&languages=TypeScript&languages=Go&minScore=60&maxScore=90')
+        .query({
+          minGithubScore: '50',
+          location: 'Berlin',
+          hasGithub: 'true',
+          hasBlog: 'false',
+          sortBy: SortBy.GITHUB_DESC,
+          page: '2',
+          pageSize: '10'
+        })
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(200);
+      expect(mockedSearchService.searchCandidates).toHaveBeenCalledWith(
+        {
+          skills: ['react', 'node'],
+          languages: ['TypeScript', 'Go'],
+          minScore: 60,
+          maxScore: 90,
+          minGithubScore: 50,
+          location: 'Berlin',
+          hasGithub: true,
+          hasBlog: false
+        },
+        SortBy.GITHUB_DESC,
+        2,
+        10,
+        undefined
+      );
+    });
+
+    test('should rank by a built-in role profile', async () => {
+      mockedSearchService.searchCandidates.mockResolvedValue(emptyResult());
+
+      const res = await request(app)
+        .get('/api/search?roleProfile=devrel')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(200);
+      expect(mockedSearchService.searchCandidates).toHaveBeenCalledWith(
+        {},
+        SortBy.SCORE_DESC,
+        1,
+        20,
+        expect.objectContaining({ id: 'devrel', builtIn: true, weights: BUILT_IN_ROLE_PROFILES.devrel.weights })
+      );
+    });
+
+    test('should return 404 for a role profile the recruiter cannot use', async () => {
+      jest.spyOn(roleProfileService, 'getRoleProfile').mockRejectedValueOnce(new Error('Role profile not found'));
+
+      const res = await request(app)
+        .get('/api/search?roleProfile=someone-elses-profile')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(404);
+      expect(mockedSearchService.searchCandidates).not.toHaveBeenCalled();
+    });
+
+    test('should reject an unknown sort option', async () => {
+      const res = await request(app)
+        .get('/api/search?sortBy=random')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Validation failed');
+    });
+
+    test('should reject non-numeric scores and oversized pages', async () => {
+      const badScore = await request(app)
+        .get('/api/search?minScore=high')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+      const badPage = await request(app)
+        .get('/api/search?pageSize=500')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(badScore.status).toBe(400);
+      expect(badPage.status).toBe(400);
+      expect(mockedSearchService.searchCandidates).not.toHaveBeenCalled();
+    });
+
+    test('should reject an inverted score range', async () => {
+      const res = await request(app)
+        .get('/api/search?minScore=80&maxScore=20')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('minScore cannot be greater than maxScore');
+    });
+  });
+
+  describe('GET /api/search/candidates/:id', () => {
+    test('should return 404 for an unknown candidate', async () => {
+      mockedSearchService.getCandidateById.mockResolvedValue(null);
+
+      const res = await request(app)
+        .get('/api/search/candidates/missing')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(404);
+      expect(mockedSearchService.getCandidateById).toHaveBeenCalledWith('missing');
+      expect(mockedAuditService.logCandidateView).not.toHaveBeenCalled();
+    });
+
+    test('should return 404 for a private candidate without recording a view', async () => {
+      // The service only finds public profiles; the recruiter's identity does not widen that
+      mockedSearchService.getCandidateById.mockResolvedValue(null);
+
+      const res = await request(app)
+        .get('/api/search/candidates/private-candidate')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(404);
+      expect(mockedSearchService.getCandidateById).toHaveBeenCalledWith('private-candidate');
+      expect(mockedAuditService.logCandidateView).not.toHaveBeenCalled();
+    });
+
+    test('should record the view in the audit trail', async () => {
+      mockedSearchService.getCandidateById.mockResolvedValue({
+        id: 'candidate-1',
+        userId: 'candidate-user-id',
+        name: 'Ada',
+        location: null,
+        bio: null,
+        isPublic: true,
+        openToOpportunities: false,
+        score: { composite: 80, github: 85, linkedin: null, blog: null, social: null },
+        platforms: [],
+        skills: [],
+        languages: [],
+        strengths: []
+      });
+
+      const res = await request(app)
+        .get('/api/search/candidates/candidate-1')
+        .set('Authorization', `Bearer ${recruiterToken}`)
+        .set('User-Agent', 'jest-agent');
+
+      expect(res.status).toBe(200);
+      expect(mockedAuditService.logCandidateView).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: 'recruiter-user-id',
+          actorType: UserType.RECRUITER,
+          userAgent: 'jest-agent'
+        }),
+        'candidate-1',
+        'search'
+      );
+    });
+  });
+
+  describe('Saved searches', () => {
+    const savedSearch = {
+      id: 'search-1',
+      name: 'Senior React',
+      filters: { skills: ['react'], minScore: 70 },
+      sortBy: SortBy.SCORE_DESC,
+      createdAt: new Date(),
+      lastRunAt: null,
+      notifyOnNewMatches: true,
+      shared: false,
+      isOwner: true
+    };
+
+    test('should create a saved search for the current recruiter', async () => {
+      mockedSearchService.saveSearch.mockResolvedValue(savedSearch);
+
+      const res = await request(app)
+        .post('/api/search/saved')
+        .set('Authorization', `Bearer ${recruiterToken}`)
+        .send({ name: 'Senior React', filters: { skills: ['react'], minScore: 70 }, notifyOnNewMatches: true });
+
+      expect(res.status).toBe(201);
+      expect(res.body.search.id).toBe('search-1');
+      expect(mockedSearchService.saveSearch).toHaveBeenCalledWith(
+        'recruiter-user-id',
+        'Senior React',
+        { skills: ['react'], minScore: 70 },
+        SortBy.SCORE_DESC,
+        true,
+        false
+      );
+    });
+
+    test('should reject unknown filter keys', async () => {
+      const res = await request(app)
+        .post('/api/search/saved')
+        .set('Authorization', `Bearer ${recruiterToken}`)
+        .send({ name: 'Private profiles', filters: { isPublic: false } });
+
+      expect(res.status).toBe(400);
+      expect(mockedSearchService.saveSearch).not.toHaveBeenCalled();
+    });
+
+    test('should list saved searches', async () => {
+      mockedSearchService.getSavedSearches.mockResolvedValue([savedSearch]);
+
+      const res = await request(app)
+        .get('/api/search/saved')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.searches).toHaveLength(1);
+    });
+
+    test('should update a saved search', async () => {
+      mockedSearchService.updateSavedSearch.mockResolvedValue({ ...savedSearch, name: 'Renamed' });
+
+      const res = await request(app)
+        .put('/api/search/saved/search-1')
+        .set('Authorization', `Bearer ${recruiterToken}`)
+        .send({ name: 'Renamed' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.search.name).toBe('Renamed');
+      expect(mockedSearchService.updateSavedSearch).toHaveBeenCalledWith('recruiter-user-id', 'search-1', { name: 'Renamed' });
+    });
+
+    test('should run a saved search with pagination', async () => {
+      mockedSearchService.runSavedSearch.mockResolvedValue(emptyResult(3, 5));
+
+      const res = await request(app)
+        .get('/api/search/saved/search-1/run?page=3&pageSize=5')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(200);
+      expect(mockedSearchService.runSavedSearch).toHaveBeenCalledWith('recruiter-user-id', 'search-1', 3, 5);
+    });
+
+    test('should return 404 when running or deleting a search the recruiter does not own', async () => {
+      mockedSearchService.runSavedSearch.mockResolvedValue(null);
+      mockedSearchService.deleteSavedSearch.mockResolvedValue(false);
+
+      const run = await request(app)
+        .get('/api/search/saved/other/run')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+      const del = await request(app)
+        .delete('/api/search/saved/other')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(run.status).toBe(404);
+      expect(del.status).toBe(404);
+    });
+
+    test('should delete a saved search', async () => {
+      mockedSearchService.deleteSavedSearch.mockResolvedValue(true);
+
+      const res = await request(app)
+        .delete('/api/search/saved/search-1')
+        .set('Authorization', `Bearer ${recruiterToken}`);
+
+      expect(res.status).toBe(200);
+      expect(mockedSearchService.deleteSavedSearch).toHaveBeenCalledWith('recruiter-user-id', 'search-1');
+    });
+  });
+});
@@ -0,0 +1,595 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { Platform, SubscriptionTier, UserType } from '@prisma/client';
+import { adminService } from '../services/admin.service';
+import { scoreTransparencyService } from '../services/score-transparency.service';
+import { twoFactorService } from '../services/two-factor.service';
+import { organizationService } from '../services/organization.service';
+import { scoringModelService } from '../services/scoring-model.service';
+import { anomalyService } from '../services/anomaly.service';
+import {
+  requireAuth,
+  requireAdmin,
+  AuthenticatedRequest
+} from '../middleware/auth.middleware';
+import { getAuditContext } from '../middleware/audit.middleware';
+
+const router = express.Router();
+
+// Every admin route is admin-only
+router.use(requireAuth, requireAdmin);
+
+// Validation schemas
+const userListQuerySchema = z.object({
+  userType: z.nativeEnum(UserType).optional(),
+  suspended: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  query: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+const suspendSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(500)
+});
+
+const recalculateSchema = z.object({
+  refreshData: z.boolean().default(false)
+});
+
+const platformDataQuerySchema = z.object({
+  platform: z.nativeEnum(Platform).optional()
+});
+
+const disputeListQuerySchema = z.object({
+  status: z.enum(['pending', 'in-review', 'resolved', 'rejected']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const anomalyListQuerySchema = z.object({
+  status: z.enum(['open', 'confirmed', 'dismissed']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const companySecuritySchema = z.object({
+  requireTwoFactor: z.boolean()
+});
+
+const organizationTierSchema = z.object({
+  subscriptionTier: z.nativeEnum(SubscriptionTier)
+});
+
+const weightSchema = z.number().min(0).max(1);
+
+const scoringModelSchema = z.object({
+  weights: z.object({
+    github: weightSchema,
+    linkedin: weightSchema,
+    twitter: weightSchema,
+    blog: weightSchema
+  }).partial().optional(),
+  coefficients: z.object({
+    github: z.object({
+      codeQualityScore: weightSchema,
+      languageDiversity: weightSchema,
+      commitFrequency: weightSchema,
+      collaborationScore: weightSchema,
+      projectImpactScore: weightSchema
+    }).partial(),
+    linkedin: z.object({
+      experienceScore: weightSchema,
+      educationScore: weightSchema,
+      skillsScore: weightSchema,
+      networkScore: weightSchema
+    }).partial(),
+    twitter: z.object({
+      engagementScore: weightSchema,
+      technicalContentScore: weightSchema,
+      influenceScore: weightSchema,
+      consistencyScore: weightSchema
+    }).partial(),
+    blog: z.object({
+      contentQualityScore: weightSchema,
+      consistencyScore: weightSchema,
+      engagementScore: weightSchema,
+      topicDiversityScore: weightSchema
+    }).partial()
+  }).partial().optional(),
+  thresholds: z.object({
+    strength: z.number().int().min(0).max(100),
+    improvement: z.number().int().min(0).max(100)
+  }).partial().optional(),
+  notes: z.string().trim().max(1000).optional()
+});
+
+const anomalyReviewSchema = z.object({
+  status: z.enum(['confirmed', 'dismissed']),
+  dampening: z.number().min(0).max(1).optional()
+});
+
+const disputeReviewSchema = z.object({
+  status: z.enum(['in-review', 'resolved', 'rejected']),
+  resolution: z.string().trim().min(1).max(2000).optional(),
+  adminNotes: z.string().trim().max(2000).optional(),
+  recalculate: z.boolean().default(false)
+}).refine(
+  review => review.status === 'in-review' || review.resolution !== undefined,
+  { message: 'A resolution is required to close a dispute', path: ['resolution'] }
+);
+
+/**
+ * GET /api/admin/users
+ * List users with optional type, suspension and text filters
+ */
+router.get('/users', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate query string
+    const validationResult = userListQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { page, pageSize, ...filters } = validationResult.data;
+
+    const result = await adminService.listUsers(filters, page, pageSize);
+
+    res.json(result);
+
+  } catch (error) {
+    console.error('Admin List Users Error:', error);
+    res.status(500).json({ error: 'Failed to list users' });
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/suspend
+ * Suspend an account
+ */
+router.post('/users/:id/suspend', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate request body
+    const validationResult = suspendSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const user = await adminService.suspendUser(req.user.userId, req.params.id, validationResult.data.reason);
+
+    res.json({
+      message: 'User suspended',
+      user
+    });
+
+  } catch (error: any) {
+    console.error('Admin Suspend User Error:', error);
+
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (
+      error.message === 'Admins cannot suspend themselves' ||
+      error.message === 'Admin accounts cannot be suspended'
+    ) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to suspend user' });
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/reinstate
+ * Lift a suspension
+ */
+router.post('/users/:id/reinstate', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await adminService.reinstateUser(req.params.id);
+
+    res.json({
+      message: 'User reinstated',
+      user
+    });
+
+  } catch (error: any) {
+    console.error('Admin Reinstate User Error:', error);
+
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to reinstate user' });
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/recalculate
+ * Force a score recalculation for a candidate
+ */
+router.post('/users/:id/recalculate', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate request body
+    const validationResult = recalculateSchema.safeParse(req.body ?? {});
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const result = await adminService.recalculateScore(
+      req.params.id,
+      validationResult.data.refreshData,
+      getAuditContext(req)
+    );
+
+    res.json({
+      message: 'Score recalculated',
+      ...result
+    });
+
+  } catch (error: any) {
+    console.error('Admin Recalculate Score Error:', error);
+
+    if (error.message === 'Candidate profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to recalculate score' });
+  }
+});
+
+/**
+ * GET /api/admin/users/:id/platform-data
+ * Inspect stored platform data for a candidate
+ */
+router.get('/users/:id/platform-data', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate query string
+    const validationResult = platformDataQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const result = await adminService.getPlatformData(req.params.id, validationResult.data.platform);
+
+    res.json(result);
+
+  } catch (error: any) {
+    console.error('Admin Get Platform Data Error:', error);
+
+    if (error.message === 'Candidate profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get platform data' });
+  }
+});
+
+/**
+ * DELETE /api/admin/platform-data/:id
+ * Remove a bad platform data row
+ */
+router.delete('/platform-data/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deleted = await adminService.deletePlatformData(req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Platform data not found' });
+    }
+
+    res.json({
+      message: 'Platform data deleted'
+    });
+
+  } catch (error) {
+    console.error('Admin Delete Platform Data Error:', error);
+    res.status(500).json({ error: 'Failed to delete platform data' });
+  }
+});
+
+/**
+ * GET /api/admin/disputes
+ * List score disputes awaiting or past review, oldest first
+ */
+router.get('/disputes', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate query string
+    const validationResult = disputeListQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { status, limit, offset } = validationResult.data;
+
+    const result = await scoreTransparencyService.listDisputesForReview(status, limit, offset);
+
+    res.json(result);
+
+  } catch (error) {
+    console.error('Admin List Disputes Error:', error);
+    res.status(500).json({ error: 'Failed to list disputes' });
+  }
+});
+
+/**
+ * PUT /api/admin/disputes/:id
+ * Review a score dispute
+ */
+router.put('/disputes/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate request body
+    const validationResult = disputeReviewSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const result = await scoreTransparencyService.reviewScoreDispute(
+      req.params.id,
+      req.user.userId,
+      validationResult.data
+    );
+
+    res.json({
+      message: 'Dispute updated',
+      ...result
+    });
+
+  } catch (error: any) {
+    console.error('Admin Review Dispute Error:', error);
+
+    if (error.message === 'Dispute not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message.startsWith('Cannot move dispute') || error.message.startsWith('Only disputes')) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to review dispute' });
+  }
+});
+
+/**
+ * GET /api/admin/anomalies
+ * List score anomaly flags, newest first
+ */
+router.get('/anomalies', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate query string
+    const validationResult = anomalyListQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { status, limit, offset } = validationResult.data;
+
+    const result = await anomalyService.listAnomalies(status, limit, offset);
+
+    res.json(result);
+
+  } catch (error) {
+    console.error('Admin List Anomalies Error:', error);
+    res.status(500).json({ error: 'Failed to list anomalies' });
+  }
+});
+
+/**
+ * PUT /api/admin/anomalies/:id
+ * Confirm or dismiss a score anomaly flag, rescoring the candidate if the dampening in effect changed
+ */
+router.put('/anomalies/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate request body
+    const validationResult = anomalyReviewSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { anomaly, userId, dampeningChanged } = await anomalyService.reviewAnomaly(
+      req.params.id,
+      req.user.userId,
+      validationResult.data
+    );
+
+    const recalculatedScore = dampeningChanged
+      ? (await adminService.recalculateScore(userId, false, getAuditContext(req))).current
+      : undefined;
+
+    res.json({
+      message: 'Anomaly updated',
+      anomaly,
+      recalculatedScore
+    });
+
+  } catch (error: any) {
+    console.error('Admin Review Anomaly Error:', error);
+
+    if (error.message === 'Dismissed anomalies cannot dampen a score') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Anomaly not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to review anomaly' });
+  }
+});
+
+/**
+ * PUT /api/admin/companies/:company/security
+ * Require (or stop requiring) two-factor authentication for a company's recruiters
+ */
+router.put('/companies/:company/security', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = companySecuritySchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const policy = await twoFactorService.setCompanyRequirement(
+      req.params.company,
+      validationResult.data.requireTwoFactor
+    );
+
+    res.json({
+      message: 'Company security policy updated',
+      policy
+    });
+
+  } catch (error) {
+    console.error('Admin Company Security Error:', error);
+    res.status(500).json({ error: 'Failed to update company security policy' });
+  }
+});
+
+/**
+ * PUT /api/admin/organizations/:id/tier
+ * Move an organization to another subscription tier, resizing its seats and pooled quota
+ */
+router.put('/organizations/:id/tier', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = organizationTierSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const organization = await organizationService.setSubscriptionTier(
+      req.params.id,
+      validationResult.data.subscriptionTier
+    );
+
+    res.json({
+      message: 'Organization tier updated',
+      organization
+    });
+
+  } catch (error: any) {
+    console.error('Admin Organization Tier Error:', error);
+
+    if (error.message === 'Organization not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to update organization tier' });
+  }
+});
+
+/**
+ * GET /api/admin/scoring-models
+ * List scoring model versions with how many candidates each has scored
+ */
+router.get('/scoring-models', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const models = await scoringModelService.listModels();
+    res.json(models);
+
+  } catch (error) {
+    console.error('Admin List Scoring Models Error:', error);
+    res.status(500).json({ error: 'Failed to list scoring models' });
+  }
+});
+
+/**
+ * POST /api/admin/scoring-models
+ * Publish a new scoring model version and queue the rescoring backfill
+ */
+router.post('/scoring-models', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = scoringModelSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { model, jobId } = await scoringModelService.publishModel(validationResult.data, req.user.userId);
+
+    res.status(201).json({
+      message: 'Scoring model published',
+      model,
+      jobId
+    });
+
+  } catch (error: any) {
+    console.error('Admin Publish Scoring Model Error:', error);
+
+    if (error.message === 'At least one platform weight must be positive'
+      || error.message === 'Improvement threshold cannot exceed strength threshold') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Scoring model was changed concurrently') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to publish scoring model' });
+  }
+});
+
+export default router;
@@ -1,47 +1,80 @@
-
-import express from 'express';
-import { chatWithGemini, crawlPapers } from '../services/ai.service';
-import { prisma } from '../lib/prisma';
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { chatWithGemini, crawlPapers, getChatHistory } from '../services/ai.service';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { aiRateLimit } from '../middleware/rate-limit.middleware';
 
 const router = express.Router();
 
+router.use(requireAuth, aiRateLimit);
+
+const crawlSchema = z.object({
+    query: z.string().trim().min(1, 'Query is required')
+});
+
+const chatSchema = z.object({
+    message: z.string().trim().min(1, 'Message is required'),
+    contextPapersIds: z.array(z.string()).default([])
+});
+
 // Crawl Papers
-router.post('/crawl', async (req, res) => {
+router.post('/crawl', async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { query } = req.body;
-        if (!query) return res.status(400).json({ error: 'Query is required' });
+        const validationResult = crawlSchema.safeParse(req.body);
 
-        const results = await crawlPapers(query);
+        if (!validationResult.success) {
+            return res.status(400).json({
+                error: 'Validation failed',
+                details: validationResult.error.errors
+            });
+        }
+
+        const results = await crawlPapers(validationResult.data.query);
         res.json(results);
-    } catch (error: any) {
-        res.status(500).json({ error: error.message });
+    } catch (error) {
+        console.error('Crawl Error:', error);
+        res.status(500).json({ error: 'Failed to crawl papers' });
     }
 });
 
 // Chat with AI
-router.post('/chat', async (req, res) => {
+router.post('/chat', async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { userId, message, contextPapersIds } = req.body;
-        if (!userId || !message) return res.status(400).json({ error: 'UserId and Message required' });
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
+        const validationResult = chatSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                error: 'Validation failed',
+                details: validationResult.error.errors
+            });
+        }
 
-        const result = await chatWithGemini(userId, message, contextPapersIds);
+        const { message, contextPapersIds } = validationResult.data;
+
+        const result = await chatWithGemini(req.user.userId, message, contextPapersIds);
         res.json(result);
-    } catch (error: any) {
-        res.status(500).json({ error: error.message });
+    } catch (error) {
+        console.error('Chat Error:', error);
+        res.status(500).json({ error: 'Failed to chat with assistant' });
     }
 });
 
 // Get Chat History
-router.get('/history/:userId', async (req, res) => {
+router.get('/history', async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const sessions = await prisma.chatSession.findMany({
-            where: { userId: req.params.userId },
-            include: { messages: true },
-            orderBy: { updatedAt: 'desc' }
-        });
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
+        const sessions = await getChatHistory(req.user.userId);
         res.json(sessions);
-    } catch (error: any) {
-        res.status(500).json({ error: error.message });
+    } catch (error) {
+        console.error('Chat History Error:', error);
+        res.status(500).json({ error: 'Failed to get chat history' });
     }
 });
 
@@ -1,31 +1,62 @@
-import express from 'express';
-import { calculateUserScore } from '../services/scoring.service';
-import { prisma } from '../lib/prisma';
+import express, { Response } from 'express';
+import { UserType } from '@prisma/client';
+import { calculateUserScore, canViewScore, getUserScore } from '../services/scoring.service';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { getAuditContext } from '../middleware/audit.middleware';
 
 const router = express.Router();
 
-// Trigger Analysis
-router.post('/analyze/:userId', async (req, res) => {
+router.use(requireAuth);
+
+// Trigger Analysis (own score, or any score for admins)
+router.post('/analyze/:userId', async (req: AuthenticatedRequest, res: Response) => {
     try {
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
         const { userId } = req.params;
-        const result = await calculateUserScore(userId);
+
+        if (req.user.userId !== userId && req.user.userType !== UserType.ADMIN) {
+            return res.status(403).json({ error: 'Not allowed to analyze this user' });
+        }
+
+        const result = await calculateUserScore(userId, { ...getAuditContext(req), trigger: 'analyze' });
         res.json(result);
     } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        console.error('Analyze Error:', error);
+
+        if (error.message === 'Candidate profile not found') {
+            return res.status(404).json({ error: error.message });
+        }
+
+        res.status(500).json({ error: 'Failed to analyze user' });
     }
 });
 
 // Get Latest Score
-router.get('/score/:userId', async (req, res) => {
+router.get('/score/:userId', async (req: AuthenticatedRequest, res: Response) => {
     try {
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
         const { userId } = req.params;
-        const score = await prisma.score.findFirst({
-            where: { userId },
-            orderBy: { createdAt: 'desc' }
-        });
+
+        if (!(await canViewScore(req.user, userId))) {
+            return res.status(403).json({ error: 'Not allowed to view this score' });
+        }
+
+        const score = await getUserScore(userId);
+
+        if (!score) {
+            return res.status(404).json({ error: 'Score not found' });
+        }
+
         res.json(score);
-    } catch (error: any) {
-        res.status(500).json({ error: error.message });
+    } catch (error) {
+        console.error('Score Fetch Error:', error);
+        res.status(500).json({ error: 'Failed to get score' });
     }
 });
 
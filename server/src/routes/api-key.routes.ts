@@ -0,0 +1,126 @@
+import express, { Response } from 'express';
+import { apiKeyService } from '../services/api-key.service';
+import {
+  requireAuth,
+  requireRecruiter,
+  AuthenticatedRequest
+} from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// API keys belong to recruiter profiles
+router.use(requireAuth, requireRecruiter);
+
+/**
+ * GET /api/api-key
+ * Get the recruiter's key details and quota usage
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const status = await apiKeyService.getApiKeyStatus(req.user.userId);
+
+    res.json(status);
+
+  } catch (error: any) {
+    console.error('Get API Key Error:', error);
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get API key' });
+  }
+});
+
+/**
+ * POST /api/api-key
+ * Generate an API key; the key is only shown in this response
+ */
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const issued = await apiKeyService.generateApiKey(req.user.userId);
+
+    res.status(201).json({
+      message: 'API key generated successfully',
+      ...issued
+    });
+
+  } catch (error: any) {
+    console.error('Generate API Key Error:', error);
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'API key already exists') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to generate API key' });
+  }
+});
+
+/**
+ * POST /api/api-key/rotate
+ * Replace the API key; the old key stops working immediately
+ */
+router.post('/rotate', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const issued = await apiKeyService.rotateApiKey(req.user.userId);
+
+    res.json({
+      message: 'API key rotated successfully',
+      ...issued
+    });
+
+  } catch (error: any) {
+    console.error('Rotate API Key Error:', error);
+
+    if (error.message === 'Recruiter profile not found' || error.message === 'API key not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to rotate API key' });
+  }
+});
+
+/**
+ * DELETE /api/api-key
+ * Revoke the API key
+ */
+router.delete('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await apiKeyService.revokeApiKey(req.user.userId);
+
+    res.json({
+      message: 'API key revoked successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Revoke API Key Error:', error);
+
+    if (error.message === 'Recruiter profile not found' || error.message === 'API key not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+export default router;
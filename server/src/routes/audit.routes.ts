@@ -0,0 +1,80 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { UserType } from '@prisma/client';
+import { auditService, AuditAction } from '../services/audit.service';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// Validation schemas
+const auditQuerySchema = z.object({
+  action: z.nativeEnum(AuditAction).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  // Admin-only filters
+  userId: z.string().min(1).optional(),
+  actorId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * GET /api/audit
+ * Candidates get the trail of their own data (e.g. which recruiters viewed their profile)
+ * Admins can filter the full trail by subject user and actor
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const isAdmin = req.user.userType === UserType.ADMIN;
+
+    if (!isAdmin && req.user.userType !== UserType.CANDIDATE) {
+      return res.status(403).json({ error: 'Candidate or admin access required' });
+    }
+
+    // Validate query string
+    const validationResult = auditQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { action, startDate, endDate, userId, actorId, limit, offset } = validationResult.data;
+
+    if (startDate && endDate && startDate > endDate) {
+      return res.status(400).json({ error: 'startDate cannot be after endDate' });
+    }
+
+    const trail = await auditService.getAuditTrail(
+      {
+        subjectUserId: isAdmin ? userId : req.user.userId,
+        actorId: isAdmin ? actorId : undefined,
+        action,
+        startDate,
+        endDate
+      },
+      limit,
+      offset
+    );
+
+    // Candidates see who accessed their data, not the viewer's network details
+    res.json(isAdmin ? trail : {
+      ...trail,
+      entries: trail.entries.map(entry => ({ ...entry, ipAddress: undefined, userAgent: undefined }))
+    });
+
+  } catch (error) {
+    console.error('Get Audit Trail Error:', error);
+    res.status(500).json({ error: 'Failed to get audit trail' });
+  }
+});
+
+export default router;
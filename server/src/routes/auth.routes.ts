@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { AuthService } from '../services/auth.service';
 import { Platform, SubscriptionTier } from '@prisma/client';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { authRateLimit, loginAccountRateLimit } from '../middleware/rate-limit.middleware';
 
 const router = express.Router();
 
@@ -33,11 +34,39 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required')
 });
 
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().min(1, 'Code is required')
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format')
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters')
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token is required')
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required')
+});
+
+// Device details stored with a new or refreshed session
+const getSessionMetadata = (req: Request) => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
 /**
  * POST /api/auth/register/candidate
  * Register a new candidate
  */
-router.post('/register/candidate', async (req: Request, res: Response) => {
+router.post('/register/candidate', authRateLimit, async (req: Request, res: Response) => {
   try {
     // Validate request body
     const validationResult = candidateRegistrationSchema.safeParse(req.body);
@@ -61,7 +90,7 @@ router.post('/register/candidate', async (req: Request, res: Response) => {
     }
 
     // Register candidate
-    const result = await AuthService.registerCandidate(data);
+    const result = await AuthService.registerCandidate(data, getSessionMetadata(req));
 
     res.status(201).json({
       message: 'Candidate registered successfully',
@@ -83,7 +112,7 @@ router.post('/register/candidate', async (req: Request, res: Response) => {
  * POST /api/auth/register/recruiter
  * Register a new recruiter
  */
-router.post('/register/recruiter', async (req: Request, res: Response) => {
+router.post('/register/recruiter', authRateLimit, async (req: Request, res: Response) => {
   try {
     // Validate request body
     const validationResult = recruiterRegistrationSchema.safeParse(req.body);
@@ -107,7 +136,7 @@ router.post('/register/recruiter', async (req: Request, res: Response) => {
     }
 
     // Register recruiter
-    const result = await AuthService.registerRecruiter(data);
+    const result = await AuthService.registerRecruiter(data, getSessionMetadata(req));
 
     res.status(201).json({
       message: 'Recruiter registered successfully',
@@ -129,7 +158,7 @@ router.post('/register/recruiter', async (req: Request, res: Response) => {
  * POST /api/auth/login
  * Login with email and password
  */
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', authRateLimit, loginAccountRateLimit, async (req: Request, res: Response) => {
   try {
     // Validate request body
     const validationResult = loginSchema.safeParse(req.body);
@@ -144,7 +173,14 @@ router.post('/login', async (req: Request, res: Response) => {
     const credentials = validationResult.data;
 
     // Login user
-    const result = await AuthService.login(credentials);
+    const result = await AuthService.login(credentials, getSessionMetadata(req));
+
+    if ('challengeToken' in result) {
+      return res.json({
+        message: 'Two-factor code required',
+        ...result
+      });
+    }
 
     res.json({
       message: 'Login successful',
@@ -158,10 +194,236 @@ router.post('/login', async (req: Request, res: Response) => {
       return res.status(401).json({ error: error.message });
     }
 
+    if (error.message === 'Account suspended') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Account temporarily locked') {
+      const lockedUntil = await AuthService.getLoginLockout(req.body.email);
+      if (lockedUntil) {
+        res.setHeader('Retry-After', Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+      }
+      return res.status(429).json({
+        error: 'Too many failed login attempts. Try again later.',
+        lockedUntil
+      });
+    }
+
     res.status(500).json({ error: 'Failed to login' });
   }
 });
 
+/**
+ * POST /api/auth/login/2fa
+ * Second login step for accounts with two-factor authentication
+ */
+router.post('/login/2fa', authRateLimit, async (req: Request, res: Response) => {
+  try {
+    const validationResult = twoFactorLoginSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { challengeToken, code } = validationResult.data;
+    const result = await AuthService.completeTwoFactorLogin(challengeToken, code, getSessionMetadata(req));
+
+    res.json({
+      message: 'Login successful',
+      ...result
+    });
+
+  } catch (error: any) {
+    console.error('Two-Factor Login Error:', error);
+
+    if (error.message === 'Invalid or expired challenge' || error.message === 'Invalid two-factor code') {
+      return res.status(401).json({ error: error.message });
+    }
+
+    if (error.message === 'Account suspended') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Account temporarily locked') {
+      return res.status(429).json({ error: 'Too many failed login attempts. Try again later.' });
+    }
+
+    res.status(500).json({ error: 'Failed to login' });
+  }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token; the refresh token is rotated
+ */
+router.post('/refresh', authRateLimit, async (req: Request, res: Response) => {
+  try {
+    const validationResult = refreshSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const result = await AuthService.refresh(validationResult.data.refreshToken, getSessionMetadata(req));
+
+    res.json({
+      message: 'Token refreshed',
+      ...result
+    });
+
+  } catch (error: any) {
+    console.error('Token Refresh Error:', error);
+
+    if (error.message === 'Invalid refresh token') {
+      return res.status(401).json({ error: error.message });
+    }
+
+    if (error.message === 'Account suspended') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to refresh token' });
+  }
+});
+
+/**
+ * POST /api/auth/password/forgot
+ * Email a password reset link; responds the same whether or not the account exists
+ */
+router.post('/password/forgot', authRateLimit, async (req: Request, res: Response) => {
+  try {
+    const validationResult = forgotPasswordSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    await AuthService.requestPasswordReset(validationResult.data.email);
+
+    res.json({
+      message: 'If an account exists for this email, a reset link has been sent'
+    });
+
+  } catch (error) {
+    console.error('Forgot Password Error:', error);
+    res.status(500).json({ error: 'Failed to send reset link' });
+  }
+});
+
+/**
+ * POST /api/auth/password/reset
+ * Set a new password with a reset token; every session is logged out
+ */
+router.post('/password/reset', authRateLimit, async (req: Request, res: Response) => {
+  try {
+    const validationResult = resetPasswordSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { token, password } = validationResult.data;
+
+    const passwordValidation = AuthService.validatePassword(password);
+    if (!passwordValidation.isValid) {
+      return res.status(400).json({
+        error: 'Password validation failed',
+        details: passwordValidation.errors
+      });
+    }
+
+    await AuthService.resetPassword(token, password);
+
+    res.json({
+      message: 'Password reset successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Reset Password Error:', error);
+
+    if (error.message === 'Invalid or expired token') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm the email address with a verification token
+ */
+router.post('/verify-email', authRateLimit, async (req: Request, res: Response) => {
+  try {
+    const validationResult = verifyEmailSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    await AuthService.verifyEmail(validationResult.data.token);
+
+    res.json({
+      message: 'Email verified successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Verify Email Error:', error);
+
+    if (error.message === 'Invalid or expired token') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email/resend
+ * Send a new verification link to the current user
+ */
+router.post('/verify-email/resend', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await AuthService.sendVerificationEmail(req.user.userId);
+
+    res.json({
+      message: 'Verification email sent'
+    });
+
+  } catch (error: any) {
+    console.error('Resend Verification Error:', error);
+
+    if (error.message === 'Email already verified') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
 /**
  * GET /api/auth/me
  * Get current user profile
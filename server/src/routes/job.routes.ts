@@ -0,0 +1,73 @@
+import express, { Response } from 'express';
+import { UserType } from '@prisma/client';
+import { jobQueue } from '../services/job.service';
+import {
+  requireAuth,
+  requireAdmin,
+  AuthenticatedRequest
+} from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+/**
+ * GET /api/jobs/:id
+ * Get the status of a background job owned by the current user
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Other users' jobs are reported as missing
+    const job = await jobQueue.getJobForUser(
+      req.params.id,
+      req.user.userId,
+      req.user.userType === UserType.ADMIN
+    );
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({
+      job
+    });
+
+  } catch (error: any) {
+    console.error('Get Job Error:', error);
+    res.status(500).json({ error: 'Failed to get job status' });
+  }
+});
+
+/**
+ * POST /api/jobs/:id/retry
+ * Requeue a failed job (admin only)
+ */
+router.post('/:id/retry', requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await jobQueue.retryFailedJob(req.params.id);
+
+    res.json({
+      message: 'Job requeued successfully',
+      job: await jobQueue.getJobStatus(req.params.id)
+    });
+
+  } catch (error: any) {
+    console.error('Retry Job Error:', error);
+
+    if (error.message === 'Job not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Only failed jobs can be retried') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to retry job' });
+  }
+});
+
+export default router;
@@ -0,0 +1,252 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { messagingService } from '../services/messaging.service';
+import {
+  requireAuth,
+  requireCandidate,
+  requireRecruiter,
+  requireVerifiedEmail,
+  AuthenticatedRequest
+} from '../middleware/auth.middleware';
+import { contactRequestRateLimit } from '../middleware/rate-limit.middleware';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// Validation schemas
+const contactRequestSchema = z.object({
+  candidateId: z.string().min(1, 'Candidate is required'),
+  message: z.string().trim().min(1, 'Message is required').max(2000)
+});
+
+const responseSchema = z.object({
+  accept: z.boolean()
+});
+
+const messageSchema = z.object({
+  body: z.string().trim().min(1, 'Message is required').max(5000)
+});
+
+/**
+ * GET /api/messages/conversations
+ * List the user's conversations and contact requests
+ */
+router.get('/conversations', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const conversations = await messagingService.listConversations(req.user.userId);
+
+    res.json({ conversations });
+
+  } catch (error: any) {
+    console.error('Get Conversations Error:', error);
+
+    if (error.message === 'Profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get conversations' });
+  }
+});
+
+/**
+ * POST /api/messages/requests
+ * Send a contact request to a candidate who is open to opportunities
+ */
+router.post('/requests', requireRecruiter, requireVerifiedEmail, contactRequestRateLimit, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = contactRequestSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { candidateId, message } = validationResult.data;
+    const conversation = await messagingService.sendContactRequest(req.user.userId, candidateId, message);
+
+    res.status(201).json({
+      message: 'Contact request sent',
+      conversation
+    });
+
+  } catch (error: any) {
+    console.error('Send Contact Request Error:', error);
+
+    if (error.message === 'Candidate is not accepting contact requests') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Contact request already sent') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to send contact request' });
+  }
+});
+
+/**
+ * GET /api/messages/conversations/:id
+ * Get a conversation; marks the messages received in it as read
+ */
+router.get('/conversations/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const conversation = await messagingService.getConversation(req.user.userId, req.params.id);
+
+    res.json(conversation);
+
+  } catch (error: any) {
+    console.error('Get Conversation Error:', error);
+
+    if (error.message === 'Profile not found'
+      || error.message === 'Conversation not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get conversation' });
+  }
+});
+
+/**
+ * POST /api/messages/conversations/:id/respond
+ * Accept or decline a contact request
+ */
+router.post('/conversations/:id/respond', requireCandidate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = responseSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const status = await messagingService.respondToRequest(req.user.userId, req.params.id, validationResult.data.accept);
+
+    res.json({
+      message: validationResult.data.accept ? 'Contact request accepted' : 'Contact request declined',
+      status
+    });
+
+  } catch (error: any) {
+    console.error('Respond To Contact Request Error:', error);
+
+    if (error.message === 'Only the candidate can answer a contact request') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Profile not found'
+      || error.message === 'Conversation not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Contact request already answered') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to answer contact request' });
+  }
+});
+
+/**
+ * POST /api/messages/conversations/:id/messages
+ * Send a message in an accepted conversation
+ */
+router.post('/conversations/:id/messages', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = messageSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const message = await messagingService.sendMessage(req.user.userId, req.params.id, validationResult.data.body);
+
+    res.status(201).json({
+      message: 'Message sent',
+      directMessage: message
+    });
+
+  } catch (error: any) {
+    console.error('Send Message Error:', error);
+
+    if (error.message === 'Profile not found'
+      || error.message === 'Conversation not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Candidate is not accepting messages') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Conversation is not open') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to send message' });
+  }
+});
+
+/**
+ * POST /api/messages/conversations/:id/close
+ * Close a conversation or withdraw a pending contact request
+ */
+router.post('/conversations/:id/close', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await messagingService.closeConversation(req.user.userId, req.params.id);
+
+    res.json({
+      message: 'Conversation closed'
+    });
+
+  } catch (error: any) {
+    console.error('Close Conversation Error:', error);
+
+    if (error.message === 'Profile not found'
+      || error.message === 'Conversation not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Conversation is not open') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to close conversation' });
+  }
+});
+
+export default router;
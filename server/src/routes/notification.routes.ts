@@ -0,0 +1,172 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { notificationService } from '../services/notification.service';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// Validation schemas
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  unreadOnly: z.enum(['true', 'false']).transform(value => value === 'true').default('false')
+});
+
+/**
+ * GET /api/notifications
+ * List the current user's notifications, newest first
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate query string
+    const validationResult = listQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { limit, offset, unreadOnly } = validationResult.data;
+
+    const [notifications, unreadCount] = await Promise.all([
+      notificationService.getNotifications(req.user.userId, limit, unreadOnly, offset),
+      notificationService.getUnreadCount(req.user.userId)
+    ]);
+
+    res.json({
+      notifications,
+      unreadCount
+    });
+
+  } catch (error) {
+    console.error('Get Notifications Error:', error);
+    res.status(500).json({ error: 'Failed to get notifications' });
+  }
+});
+
+/**
+ * GET /api/notifications/unread-count
+ * Get the number of unread notifications
+ */
+router.get('/unread-count', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const unreadCount = await notificationService.getUnreadCount(req.user.userId);
+
+    res.json({ unreadCount });
+
+  } catch (error) {
+    console.error('Get Unread Count Error:', error);
+    res.status(500).json({ error: 'Failed to get unread count' });
+  }
+});
+
+/**
+ * POST /api/notifications/read-all
+ * Mark every notification as read
+ */
+router.post('/read-all', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const updated = await notificationService.markAllAsRead(req.user.userId);
+
+    res.json({
+      message: 'All notifications marked as read',
+      updated
+    });
+
+  } catch (error) {
+    console.error('Mark All Read Error:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+/**
+ * POST /api/notifications/:id/read
+ * Mark a single notification as read
+ */
+router.post('/:id/read', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const updated = await notificationService.markAsRead(req.user.userId, req.params.id);
+
+    if (!updated) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    res.json({
+      message: 'Notification marked as read'
+    });
+
+  } catch (error) {
+    console.error('Mark Read Error:', error);
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+});
+
+/**
+ * DELETE /api/notifications/:id
+ * Delete a single notification
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const deleted = await notificationService.deleteNotification(req.user.userId, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    res.json({
+      message: 'Notification deleted'
+    });
+
+  } catch (error) {
+    console.error('Delete Notification Error:', error);
+    res.status(500).json({ error: 'Failed to delete notification' });
+  }
+});
+
+/**
+ * DELETE /api/notifications
+ * Clear all notifications
+ */
+router.delete('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await notificationService.clearAllNotifications(req.user.userId);
+
+    res.json({
+      message: 'All notifications cleared'
+    });
+
+  } catch (error) {
+    console.error('Clear Notifications Error:', error);
+    res.status(500).json({ error: 'Failed to clear notifications' });
+  }
+});
+
+export default router;
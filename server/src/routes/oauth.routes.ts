@@ -0,0 +1,240 @@
+import express, { Request, Response, NextFunction } from 'express';
+import passport from 'passport';
+import { z } from 'zod';
+import { oauthService, OAuthProfile, OAuthProvider, OAuthStateGrant } from '../services/oauth.service';
+import { ensureOAuthStrategy } from '../services/oauth.strategies';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+const providerSchema = z.nativeEnum(OAuthProvider);
+
+// Holds the nonce of the flow this browser started; the callback only accepts a state carrying it
+const STATE_COOKIE = 'oauth_state_nonce';
+const STATE_COOKIE_PATH = '/api/auth/oauth';
+
+// Errors shown to the user on the frontend callback page
+const USER_FACING_ERRORS = [
+  'Email already registered',
+  'OAuth provider did not share an email address',
+  'Account suspended',
+  'OAuth account linked to another user',
+  'Provider already linked',
+  'Invalid OAuth state'
+];
+
+const redirectToFrontend = (res: Response, params: Record<string, string>, fragment?: Record<string, string>) => {
+  const query = new URLSearchParams(params).toString();
+  // Tokens go in the fragment so they never reach server logs or referrers
+  const hash = fragment ? `#${new URLSearchParams(fragment).toString()}` : '';
+  res.redirect(`${FRONTEND_URL}/oauth/callback?${query}${hash}`);
+};
+
+const setStateCookie = (res: Response, grant: OAuthStateGrant) => {
+  res.cookie(STATE_COOKIE, grant.nonce, {
+    httpOnly: true,
+    // Lax still sends the cookie on the provider's top-level redirect back to the callback
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: STATE_COOKIE_PATH,
+    expires: grant.expiresAt
+  });
+};
+
+const readStateCookie = (req: Request): string | undefined => {
+  const cookie = (req.headers.cookie ?? '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${STATE_COOKIE}=`));
+
+  return cookie ? decodeURIComponent(cookie.slice(STATE_COOKIE.length + 1)) : undefined;
+};
+
+/**
+ * GET /api/auth/oauth/identities
+ * List the OAuth providers linked to the current user
+ */
+router.get('/identities', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const identities = await oauthService.listIdentities(req.user.userId);
+
+    res.json({ identities });
+
+  } catch (error) {
+    console.error('List OAuth Identities Error:', error);
+    res.status(500).json({ error: 'Failed to list linked accounts' });
+  }
+});
+
+/**
+ * DELETE /api/auth/oauth/identities/:provider
+ * Unlink an OAuth provider from the current user
+ */
+router.delete('/identities/:provider', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const provider = providerSchema.safeParse(req.params.provider);
+    if (!provider.success) {
+      return res.status(400).json({ error: 'Invalid provider' });
+    }
+
+    await oauthService.unlinkIdentity(req.user.userId, provider.data);
+
+    res.json({
+      message: 'Account unlinked successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Unlink OAuth Identity Error:', error);
+
+    if (error.message === 'Identity not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to unlink account' });
+  }
+});
+
+/**
+ * POST /api/auth/oauth/:provider/link
+ * Get the URL that links a provider account to the current user
+ */
+router.post('/:provider/link', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const provider = providerSchema.safeParse(req.params.provider);
+    if (!provider.success) {
+      return res.status(400).json({ error: 'Invalid provider' });
+    }
+
+    if (!ensureOAuthStrategy(provider.data)) {
+      return res.status(404).json({ error: 'OAuth provider not configured' });
+    }
+
+    const grant = await oauthService.createState('link', req.user.userId);
+    setStateCookie(res, grant);
+
+    res.json({
+      url: `${req.baseUrl}/${provider.data}?state=${encodeURIComponent(grant.state)}`
+    });
+
+  } catch (error) {
+    console.error('OAuth Link Error:', error);
+    res.status(500).json({ error: 'Failed to start linking' });
+  }
+});
+
+/**
+ * GET /api/auth/oauth/:provider
+ * Redirect to the provider's consent screen
+ */
+router.get('/:provider', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = providerSchema.safeParse(req.params.provider);
+    if (!provider.success) {
+      return res.status(400).json({ error: 'Invalid provider' });
+    }
+
+    if (!ensureOAuthStrategy(provider.data)) {
+      return res.status(404).json({ error: 'OAuth provider not configured' });
+    }
+
+    // Link requests arrive with a state issued by POST /:provider/link, which already set the cookie
+    let state = typeof req.query.state === 'string' ? req.query.state : undefined;
+    if (!state) {
+      const grant = await oauthService.createState('login');
+      setStateCookie(res, grant);
+      state = grant.state;
+    }
+
+    passport.authenticate(provider.data, { session: false, state })(req, res, next);
+
+  } catch (error) {
+    console.error('OAuth Start Error:', error);
+    redirectToFrontend(res, { error: 'OAuth sign-in failed' });
+  }
+});
+
+/**
+ * GET /api/auth/oauth/:provider/callback
+ * Finish the provider round trip: log in, register or link, then return to the frontend
+ */
+router.get('/:provider/callback', (req: Request, res: Response, next: NextFunction) => {
+  const provider = providerSchema.safeParse(req.params.provider);
+  if (!provider.success || !ensureOAuthStrategy(provider.data)) {
+    return res.status(404).json({ error: 'OAuth provider not configured' });
+  }
+
+  const authenticate = passport.authenticate(
+    provider.data,
+    { session: false },
+    async (error: Error | null, profile: OAuthProfile | false) => {
+      try {
+        if (error || !profile) {
+          console.error('OAuth Provider Error:', error);
+          return redirectToFrontend(res, { error: 'OAuth sign-in was cancelled or failed' });
+        }
+
+        // The nonce is single-use whatever the outcome
+        const browserNonce = readStateCookie(req);
+        res.clearCookie(STATE_COOKIE, { path: STATE_COOKIE_PATH });
+
+        const state = await oauthService.verifyState(
+          typeof req.query.state === 'string' ? req.query.state : undefined,
+          browserNonce
+        );
+
+        if (state.intent === 'link' && state.userId) {
+          await oauthService.linkIdentity(state.userId, profile);
+          return redirectToFrontend(res, { linked: profile.provider });
+        }
+
+        const result = await oauthService.signIn(profile, {
+          userAgent: req.get('user-agent'),
+          ipAddress: req.ip
+        });
+
+        if ('challengeToken' in result) {
+          return redirectToFrontend(
+            res,
+            { provider: profile.provider },
+            { twoFactorToken: result.challengeToken }
+          );
+        }
+
+        redirectToFrontend(
+          res,
+          { provider: profile.provider },
+          {
+            token: result.token,
+            refreshToken: result.refreshToken,
+            userType: result.user.userType,
+            newUser: String(result.isNewUser)
+          }
+        );
+
+      } catch (error: any) {
+        console.error('OAuth Callback Error:', error);
+
+        const message = USER_FACING_ERRORS.includes(error.message) ? error.message : 'OAuth sign-in failed';
+        redirectToFrontend(res, { error: message });
+      }
+    }
+  );
+
+  authenticate(req, res, next);
+});
+
+export default router;
@@ -0,0 +1,420 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { OrganizationRole } from '@prisma/client';
+import { organizationService } from '../services/organization.service';
+import {
+  requireAuth,
+  requireRecruiter,
+  AuthenticatedRequest
+} from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Organizations group recruiter profiles
+router.use(requireAuth, requireRecruiter);
+
+// Validation schemas
+const organizationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100)
+});
+
+const invitationSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  role: z.enum([OrganizationRole.ADMIN, OrganizationRole.MEMBER]).default(OrganizationRole.MEMBER)
+});
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Token is required')
+});
+
+const memberRoleSchema = z.object({
+  role: z.nativeEnum(OrganizationRole)
+});
+
+/**
+ * GET /api/organizations/me
+ * Get the recruiter's organization, members and seat usage
+ */
+router.get('/me', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const organization = await organizationService.getOrganization(req.user.userId);
+
+    res.json(organization);
+
+  } catch (error: any) {
+    console.error('Get Organization Error:', error);
+
+    if (error.message === 'Not a member of an organization') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get organization' });
+  }
+});
+
+/**
+ * POST /api/organizations
+ * Create an organization owned by the recruiter
+ */
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = organizationSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const organization = await organizationService.createOrganization(req.user.userId, validationResult.data.name);
+
+    res.status(201).json({
+      message: 'Organization created successfully',
+      organization
+    });
+
+  } catch (error: any) {
+    console.error('Create Organization Error:', error);
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Already a member of an organization') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to create organization' });
+  }
+});
+
+/**
+ * PUT /api/organizations/me
+ * Rename the organization (owners and admins)
+ */
+router.put('/me', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = organizationSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const organization = await organizationService.updateOrganization(req.user.userId, validationResult.data.name);
+
+    res.json({
+      message: 'Organization updated successfully',
+      organization
+    });
+
+  } catch (error: any) {
+    console.error('Update Organization Error:', error);
+
+    if (error.message === 'Insufficient organization permissions') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Not a member of an organization') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to update organization' });
+  }
+});
+
+/**
+ * DELETE /api/organizations/me
+ * Delete the organization (owner only)
+ */
+router.delete('/me', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await organizationService.deleteOrganization(req.user.userId);
+
+    res.json({
+      message: 'Organization deleted successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Delete Organization Error:', error);
+
+    if (error.message === 'Insufficient organization permissions') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Not a member of an organization') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to delete organization' });
+  }
+});
+
+/**
+ * POST /api/organizations/me/leave
+ * Leave the organization
+ */
+router.post('/me/leave', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await organizationService.leaveOrganization(req.user.userId);
+
+    res.json({
+      message: 'Left organization successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Leave Organization Error:', error);
+
+    if (error.message === 'Not a member of an organization') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Transfer ownership before leaving') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to leave organization' });
+  }
+});
+
+/**
+ * POST /api/organizations/me/invitations
+ * Invite a recruiter by email; the invitation holds a seat
+ */
+router.post('/me/invitations', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = invitationSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { email, role } = validationResult.data;
+    const invitation = await organizationService.inviteMember(req.user.userId, email, role);
+
+    res.status(201).json({
+      message: 'Invitation sent',
+      invitation
+    });
+
+  } catch (error: any) {
+    console.error('Invite Member Error:', error);
+
+    if (error.message === 'Insufficient organization permissions') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Not a member of an organization') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Already a member of this organization'
+      || error.message === 'Invitation already pending'
+      || error.message === 'No seats available') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to send invitation' });
+  }
+});
+
+/**
+ * DELETE /api/organizations/me/invitations/:id
+ * Revoke a pending invitation
+ */
+router.delete('/me/invitations/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await organizationService.revokeInvitation(req.user.userId, req.params.id);
+
+    res.json({
+      message: 'Invitation revoked'
+    });
+
+  } catch (error: any) {
+    console.error('Revoke Invitation Error:', error);
+
+    if (error.message === 'Insufficient organization permissions') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Not a member of an organization'
+      || error.message === 'Invitation not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to revoke invitation' });
+  }
+});
+
+/**
+ * POST /api/organizations/invitations/accept
+ * Join an organization with an emailed invitation token
+ */
+router.post('/invitations/accept', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = acceptInvitationSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const organization = await organizationService.acceptInvitation(req.user.userId, validationResult.data.token);
+
+    res.json({
+      message: 'Joined organization successfully',
+      organization
+    });
+
+  } catch (error: any) {
+    console.error('Accept Invitation Error:', error);
+
+    if (error.message === 'Invalid or expired invitation') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Invitation was sent to a different email') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Already a member of an organization'
+      || error.message === 'No seats available') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  }
+});
+
+/**
+ * PUT /api/organizations/me/members/:id
+ * Change a member's role (owner only); assigning OWNER transfers ownership
+ */
+router.put('/me/members/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = memberRoleSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const organization = await organizationService.updateMemberRole(
+      req.user.userId,
+      req.params.id,
+      validationResult.data.role
+    );
+
+    res.json({
+      message: 'Member role updated',
+      organization
+    });
+
+  } catch (error: any) {
+    console.error('Update Member Role Error:', error);
+
+    if (error.message === 'Cannot change your own role') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Insufficient organization permissions') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Not a member of an organization'
+      || error.message === 'Member not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to update member role' });
+  }
+});
+
+/**
+ * DELETE /api/organizations/me/members/:id
+ * Remove a member from the organization
+ */
+router.delete('/me/members/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await organizationService.removeMember(req.user.userId, req.params.id);
+
+    res.json({
+      message: 'Member removed'
+    });
+
+  } catch (error: any) {
+    console.error('Remove Member Error:', error);
+
+    if (error.message === 'Use leave to remove yourself') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Insufficient organization permissions'
+      || error.message === 'Cannot remove the organization owner') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Not a member of an organization'
+      || error.message === 'Member not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
+export default router;
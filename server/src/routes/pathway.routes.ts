@@ -1,68 +1,104 @@
-
-import express from 'express';
-import { prisma } from '../lib/prisma';
+import express, { Response } from 'express';
+import { z } from 'zod';
+import {
+    getAllPathways,
+    getPathwayById,
+    getUserPathwayProgress,
+    joinPathway,
+    updatePathwayProgress
+} from '../services/pathway.service';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
 
 const router = express.Router();
 
+const progressSchema = z.object({
+    progress: z.number().int().min(0).max(100) // 0-100
+});
+
 // List All Pathways
 router.get('/', async (req, res) => {
     try {
-        const pathways = await prisma.pathway.findMany();
+        const pathways = await getAllPathways();
         res.json(pathways);
-    } catch (error: any) {
-        res.status(500).json({ error: error.message });
+    } catch (error) {
+        console.error('List Pathways Error:', error);
+        res.status(500).json({ error: 'Failed to list pathways' });
+    }
+});
+
+// Get Current User's Progress
+router.get('/me', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
+        const progress = await getUserPathwayProgress(req.user.userId);
+        res.json(progress);
+    } catch (error) {
+        console.error('Pathway Progress Error:', error);
+        res.status(500).json({ error: 'Failed to get pathway progress' });
     }
 });
 
 // Get Pathway Detail
 router.get('/:id', async (req, res) => {
     try {
-        const pathway = await prisma.pathway.findUnique({ where: { id: req.params.id } });
+        const pathway = await getPathwayById(req.params.id);
         if (!pathway) return res.status(404).json({ error: 'Pathway not found' });
         res.json(pathway);
-    } catch (error: any) {
-        res.status(500).json({ error: error.message });
+    } catch (error) {
+        console.error('Get Pathway Error:', error);
+        res.status(500).json({ error: 'Failed to get pathway' });
     }
 });
 
 // Join Pathway
-router.post('/:id/join', async (req, res) => {
+router.post('/:id/join', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { userId } = req.body;
-        const { id } = req.params;
-
-        const progress = await prisma.userPathwayProgress.create({
-            data: {
-                userId,
-                pathwayId: id,
-                status: 'STARTED',
-                progress: 0
-            }
-        });
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
+        const progress = await joinPathway(req.user.userId, req.params.id);
         res.json(progress);
     } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        console.error('Join Pathway Error:', error);
+
+        if (error.message === 'Pathway not found') {
+            return res.status(404).json({ error: error.message });
+        }
+
+        res.status(500).json({ error: 'Failed to join pathway' });
     }
 });
 
 // Update Progress
-router.post('/:id/progress', async (req, res) => {
+router.post('/:id/progress', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { userId, progress: progressValue } = req.body; // 0-100
-        const { id } = req.params;
-
-        const updated = await prisma.userPathwayProgress.update({
-            where: {
-                userId_pathwayId: { userId, pathwayId: id }
-            },
-            data: {
-                progress: progressValue,
-                status: progressValue >= 100 ? 'COMPLETED' : 'STARTED'
-            }
-        });
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
+        const validationResult = progressSchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                error: 'Validation failed',
+                details: validationResult.error.errors
+            });
+        }
+
+        const updated = await updatePathwayProgress(req.user.userId, req.params.id, validationResult.data.progress);
         res.json(updated);
     } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        console.error('Update Progress Error:', error);
+
+        if (error.message === 'Pathway not joined') {
+            return res.status(404).json({ error: error.message });
+        }
+
+        res.status(500).json({ error: 'Failed to update progress' });
     }
 });
 
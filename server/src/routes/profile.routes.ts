@@ -2,6 +2,10 @@ import express, { Request, Response } from 'express';
 import { z } from 'zod';
 import { ProfileService, PlatformConnectionUpdate } from '../services/profile.service';
 import { Platform, UserType } from '@prisma/client';
+import { jobQueue } from '../services/job.service';
+import { webhookService } from '../services/webhook.service';
+import { accountService } from '../services/account.service';
+import { platformVerificationService } from '../services/platform-verification.service';
 import { 
   requireAuth, 
   requireCandidate, 
@@ -17,7 +21,8 @@ const candidateProfileUpdateSchema = z.object({
   location: z.string().optional(),
   bio: z.string().optional(),
   website: z.string().url().optional().or(z.literal('')),
-  isPublic: z.boolean().optional()
+  isPublic: z.boolean().optional(),
+  openToOpportunities: z.boolean().optional()
 });
 
 const recruiterProfileUpdateSchema = z.object({
@@ -34,6 +39,10 @@ const platformConnectionsUpdateSchema = z.object({
   connections: z.array(platformConnectionSchema)
 });
 
+const deletionRequestSchema = z.object({
+  password: z.string().min(1, 'Password is required')
+});
+
 /**
  * GET /api/profile
  * Get current user's profile
@@ -103,6 +112,10 @@ router.put('/candidate', requireAuth, requireCandidate, async (req: Authenticate
     // Update profile
     const updatedProfile = await ProfileService.updateCandidateProfile(req.user.userId, updates);
 
+    await webhookService.emitCandidateEvent('profile_updated', updatedProfile.id, {
+      updatedFields: Object.keys(updates)
+    });
+
     res.json({
       message: 'Profile updated successfully',
       profile: updatedProfile
@@ -250,9 +263,15 @@ router.put('/platforms', requireAuth, requireCandidate, async (req: Authenticate
     // Update connections
     const updatedConnections = await ProfileService.updatePlatformConnections(req.user.userId, connections);
 
+    // Fetch the new platform data in the background
+    const jobId = updatedConnections.length > 0
+      ? await jobQueue.scheduleDataRefresh(updatedConnections[0].candidateId)
+      : null;
+
     res.json({
       message: 'Platform connections updated successfully',
-      connections: updatedConnections
+      connections: updatedConnections,
+      jobId
     });
 
   } catch (error: any) {
@@ -305,9 +324,13 @@ router.post('/platforms/:platform', requireAuth, requireCandidate, async (req: A
       username.trim()
     );
 
+    // Fetch the new platform data in the background
+    const jobId = await jobQueue.scheduleDataRefresh(connection.candidateId);
+
     res.json({
       message: 'Platform connection updated successfully',
-      connection
+      connection,
+      jobId
     });
 
   } catch (error: any) {
@@ -358,4 +381,195 @@ router.delete('/platforms/:platform', requireAuth, requireCandidate, async (req:
   }
 });
 
+/**
+ * GET /api/profile/platforms/verification
+ * Get the verification token and the verification status of each platform
+ */
+router.get('/platforms/verification', requireAuth, requireCandidate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const challenge = await platformVerificationService.getChallenge(req.user.userId);
+
+    res.json(challenge);
+
+  } catch (error: any) {
+    console.error('Get Verification Challenge Error:', error);
+
+    if (error.message === 'Candidate profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get verification challenge' });
+  }
+});
+
+/**
+ * POST /api/profile/platforms/:platform/verify
+ * Check the platform for the verification token and mark the connection verified
+ */
+router.post('/platforms/:platform/verify', requireAuth, requireCandidate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { platform } = req.params;
+
+    // Validate platform
+    if (!Object.values(Platform).includes(platform as Platform)) {
+      return res.status(400).json({ error: 'Invalid platform' });
+    }
+
+    const connection = await platformVerificationService.verifyPlatform(req.user.userId, platform as Platform);
+
+    res.json({
+      message: 'Platform verified successfully',
+      connection
+    });
+
+  } catch (error: any) {
+    console.error('Verify Platform Error:', error);
+
+    if (error.message === 'Candidate profile not found' || error.message === 'Platform not connected') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (
+      error.message === 'Verification token not found' ||
+      error.message === 'No verification challenge issued' ||
+      error.message === 'Verification not supported for this platform'
+    ) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to verify platform' });
+  }
+});
+
+/**
+ * GET /api/profile/export
+ * Download everything stored about the current user as JSON
+ */
+router.get('/export', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const data = await accountService.exportData(req.user.userId);
+    const date = data.exportedAt.toISOString().slice(0, 10);
+
+    res.setHeader('Content-Disposition', `attachment; filename="dare-dreamers-export-${date}.json"`);
+    res.json(data);
+
+  } catch (error: any) {
+    console.error('Export Data Error:', error);
+
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to export data' });
+  }
+});
+
+/**
+ * GET /api/profile/deletion
+ * Get the account deletion schedule
+ */
+router.get('/deletion', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const status = await accountService.getDeletionStatus(req.user.userId);
+
+    res.json(status);
+
+  } catch (error: any) {
+    console.error('Get Deletion Status Error:', error);
+
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get deletion status' });
+  }
+});
+
+/**
+ * POST /api/profile/deletion
+ * Schedule the account for deletion after the grace period
+ */
+router.post('/deletion', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = deletionRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const status = await accountService.requestDeletion(req.user.userId, validationResult.data.password);
+
+    res.json({
+      message: 'Account scheduled for deletion',
+      ...status
+    });
+
+  } catch (error: any) {
+    console.error('Request Deletion Error:', error);
+
+    if (error.message === 'Invalid password') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Deletion already requested') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to request account deletion' });
+  }
+});
+
+/**
+ * DELETE /api/profile/deletion
+ * Cancel a pending account deletion
+ */
+router.delete('/deletion', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await accountService.cancelDeletion(req.user.userId);
+
+    res.json({
+      message: 'Account deletion cancelled'
+    });
+
+  } catch (error: any) {
+    console.error('Cancel Deletion Error:', error);
+
+    if (error.message === 'No deletion pending') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to cancel account deletion' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,198 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { roleProfileService } from '../services/role-profile.service';
+import {
+  requireAuth,
+  requireRecruiter,
+  requireVerifiedEmail,
+  requireCompanyTwoFactor,
+  AuthenticatedRequest
+} from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Role profiles are part of search, so they sit behind the same checks
+router.use(requireAuth, requireRecruiter, requireVerifiedEmail, requireCompanyTwoFactor);
+
+// Validation schemas
+const weightSchema = z.number().min(0).max(1);
+const platformScoreSchema = z.number().int().min(0).max(100);
+
+const roleProfileFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  weights: z.object({
+    github: weightSchema,
+    linkedin: weightSchema,
+    twitter: weightSchema,
+    blog: weightSchema
+  }),
+  requiredLanguages: z.array(z.string().trim().min(1).max(40)).max(10),
+  minPlatformScores: z.object({
+    github: platformScoreSchema,
+    linkedin: platformScoreSchema,
+    blog: platformScoreSchema,
+    social: platformScoreSchema
+  }).partial(),
+  shared: z.boolean()
+};
+
+const roleProfileSchema = z.object({
+  ...roleProfileFields,
+  requiredLanguages: roleProfileFields.requiredLanguages.default([]),
+  minPlatformScores: roleProfileFields.minPlatformScores.default({}),
+  shared: roleProfileFields.shared.default(false)
+});
+
+const roleProfileUpdateSchema = z.object(roleProfileFields).partial();
+
+/**
+ * GET /api/role-profiles
+ * List built-in role profiles, the recruiter's own and those shared by their organization
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const roleProfiles = await roleProfileService.listRoleProfiles(req.user.userId);
+
+    res.json({ roleProfiles });
+
+  } catch (error: any) {
+    console.error('Get Role Profiles Error:', error);
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get role profiles' });
+  }
+});
+
+/**
+ * POST /api/role-profiles
+ * Create a role profile
+ */
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = roleProfileSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const roleProfile = await roleProfileService.createRoleProfile(req.user.userId, validationResult.data);
+
+    res.status(201).json({
+      message: 'Role profile created',
+      roleProfile
+    });
+
+  } catch (error: any) {
+    console.error('Create Role Profile Error:', error);
+
+    if (error.message === 'At least one platform weight must be positive') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'A role profile with this name already exists') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to create role profile' });
+  }
+});
+
+/**
+ * PUT /api/role-profiles/:id
+ * Update a role profile (owner only)
+ */
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = roleProfileUpdateSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const roleProfile = await roleProfileService.updateRoleProfile(req.user.userId, req.params.id, validationResult.data);
+
+    res.json({
+      message: 'Role profile updated',
+      roleProfile
+    });
+
+  } catch (error: any) {
+    console.error('Update Role Profile Error:', error);
+
+    if (error.message === 'At least one platform weight must be positive') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Only the owner can change this role profile') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Role profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'A role profile with this name already exists') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to update role profile' });
+  }
+});
+
+/**
+ * DELETE /api/role-profiles/:id
+ * Delete a role profile (owner only)
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await roleProfileService.deleteRoleProfile(req.user.userId, req.params.id);
+
+    res.json({ message: 'Role profile deleted' });
+
+  } catch (error: any) {
+    console.error('Delete Role Profile Error:', error);
+
+    if (error.message === 'Only the owner can change this role profile') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Role profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to delete role profile' });
+  }
+});
+
+export default router;
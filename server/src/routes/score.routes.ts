@@ -0,0 +1,166 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { scoreTransparencyService } from '../services/score-transparency.service';
+import { scoreSimulatorService } from '../services/score-simulator.service';
+import {
+  requireAuth,
+  requireCandidate,
+  AuthenticatedRequest
+} from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+router.use(requireAuth, requireCandidate);
+
+// Validation schemas
+const disputeSchema = z.object({
+  type: z.enum(['data-inaccuracy', 'calculation-error', 'platform-missing', 'other']),
+  description: z.string().trim().min(10, 'Please describe the issue').max(2000)
+});
+
+const count = (max: number) => z.number().int().min(0).max(max).optional();
+
+const simulationSchema = z.object({
+  github: z.object({
+    repos: count(100),
+    stars: count(100000),
+    followers: count(1000000)
+  }).optional(),
+  twitter: z.object({
+    tweets: count(1000),
+    followers: count(1000000)
+  }).optional(),
+  blog: z.object({
+    posts: count(100)
+  }).optional(),
+  newPlatform: z.object({
+    platform: z.enum(['github', 'linkedin', 'twitter', 'devto', 'hashnode', 'medium']),
+    score: z.number().min(0).max(100)
+  }).optional()
+});
+
+/**
+ * POST /api/scores/simulate
+ * Project the score under hypothetical changes without saving anything
+ */
+router.post('/simulate', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate request body
+    const validationResult = simulationSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const simulation = await scoreSimulatorService.simulate(req.user.userId, validationResult.data);
+
+    res.json({ simulation });
+
+  } catch (error: any) {
+    console.error('Simulate Score Error:', error);
+
+    if (error.message === 'Simulated platform is not connected'
+      || error.message === 'Simulated platform is already connected') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Candidate profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to simulate score' });
+  }
+});
+
+/**
+ * POST /api/scores/disputes
+ * File a dispute against the current score
+ */
+router.post('/disputes', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate request body
+    const validationResult = disputeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { type, description } = validationResult.data;
+
+    const dispute = await scoreTransparencyService.submitScoreDispute(req.user.userId, type, description);
+
+    res.status(201).json({
+      message: 'Dispute submitted successfully',
+      dispute
+    });
+
+  } catch (error: any) {
+    console.error('Submit Dispute Error:', error);
+
+    if (error.message === 'Candidate profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to submit dispute' });
+  }
+});
+
+/**
+ * GET /api/scores/disputes
+ * List the candidate's disputes
+ */
+router.get('/disputes', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const disputes = await scoreTransparencyService.getScoreDisputes(req.user.userId);
+
+    res.json({ disputes });
+
+  } catch (error) {
+    console.error('Get Disputes Error:', error);
+    res.status(500).json({ error: 'Failed to get disputes' });
+  }
+});
+
+/**
+ * GET /api/scores/disputes/:id
+ * Get a single dispute and its review outcome
+ */
+router.get('/disputes/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const dispute = await scoreTransparencyService.getScoreDispute(req.user.userId, req.params.id);
+
+    if (!dispute) {
+      return res.status(404).json({ error: 'Dispute not found' });
+    }
+
+    res.json({ dispute });
+
+  } catch (error) {
+    console.error('Get Dispute Error:', error);
+    res.status(500).json({ error: 'Failed to get dispute' });
+  }
+});
+
+export default router;
@@ -0,0 +1,343 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { searchService, SortBy } from '../services/search.service';
+import { roleProfileService } from '../services/role-profile.service';
+import {
+  requireAuth,
+  requireRecruiter,
+  requireVerifiedEmail,
+  requireCompanyTwoFactor,
+  AuthenticatedRequest
+} from '../middleware/auth.middleware';
+import { auditCandidateView } from '../middleware/audit.middleware';
+import { searchRateLimit } from '../middleware/rate-limit.middleware';
+
+const router = express.Router();
+
+// Every search route is limited to recruiters with a verified email and, where their company requires it, 2FA
+router.use(requireAuth, requireRecruiter, requireVerifiedEmail, requireCompanyTwoFactor, searchRateLimit);
+
+// Query string helpers: lists accept `a,b` or repeated keys, flags accept `true`/`false`
+const queryList = z.preprocess(
+  value => {
+    const values = Array.isArray(value) ? value : [value];
+    return values
+      .flatMap(v => (typeof v === 'string' ? v.split(',') : []))
+      .map(v => v.trim())
+      .filter(v => v.length > 0);
+  },
+  z.array(z.string())
+).optional();
+
+const queryFlag = z.enum(['true', 'false']).transform(value => value === 'true').optional();
+
+const queryScore = z.coerce.number().int().min(0).optional();
+
+// Validation schemas
+export const searchQuerySchema = z.object({
+  skills: queryList,
+  languages: queryList,
+  minScore: queryScore,
+  maxScore: queryScore,
+  minGithubScore: queryScore,
+  minLinkedinScore: queryScore,
+  minBlogScore: queryScore,
+  minSocialScore: queryScore,
+  location: z.string().trim().min(1).optional(),
+  hasGithub: queryFlag,
+  hasLinkedin: queryFlag,
+  hasTwitter: queryFlag,
+  hasBlog: queryFlag,
+  // Built-in role key (e.g. `backend`) or role profile id
+  roleProfile: z.string().trim().min(1).optional(),
+  sortBy: z.nativeEnum(SortBy).default(SortBy.SCORE_DESC),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+const paginationQuerySchema = searchQuerySchema.pick({ page: true, pageSize: true });
+
+const searchFiltersSchema = z.object({
+  skills: z.array(z.string().min(1)).optional(),
+  languages: z.array(z.string().min(1)).optional(),
+  minScore: z.number().int().min(0).optional(),
+  maxScore: z.number().int().min(0).optional(),
+  minGithubScore: z.number().int().min(0).optional(),
+  minLinkedinScore: z.number().int().min(0).optional(),
+  minBlogScore: z.number().int().min(0).optional(),
+  minSocialScore: z.number().int().min(0).optional(),
+  location: z.string().min(1).optional(),
+  hasGithub: z.boolean().optional(),
+  hasLinkedin: z.boolean().optional(),
+  hasTwitter: z.boolean().optional(),
+  hasBlog: z.boolean().optional()
+}).strict();
+
+const savedSearchSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  filters: searchFiltersSchema.default({}),
+  sortBy: z.nativeEnum(SortBy).default(SortBy.SCORE_DESC),
+  notifyOnNewMatches: z.boolean().default(false),
+  shared: z.boolean().default(false)
+});
+
+const savedSearchUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  filters: searchFiltersSchema.optional(),
+  sortBy: z.nativeEnum(SortBy).optional(),
+  notifyOnNewMatches: z.boolean().optional(),
+  shared: z.boolean().optional()
+});
+
+/**
+ * GET /api/search
+ * Search public candidates with filters, sorting and pagination
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate query string
+    const validationResult = searchQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { sortBy, page, pageSize, roleProfile, ...filters } = validationResult.data;
+
+    if (
+      filters.minScore !== undefined &&
+      filters.maxScore !== undefined &&
+      filters.minScore > filters.maxScore
+    ) {
+      return res.status(400).json({ error: 'minScore cannot be greater than maxScore' });
+    }
+
+    const role = roleProfile
+      ? await roleProfileService.getRoleProfile(req.user.userId, roleProfile)
+      : undefined;
+
+    const result = await searchService.searchCandidates(
+      filters,
+      sortBy,
+      page,
+      pageSize,
+      role
+    );
+
+    res.json(result);
+
+  } catch (error: any) {
+    console.error('Search Candidates Error:', error);
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Role profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to search candidates' });
+  }
+});
+
+/**
+ * GET /api/search/candidates/:id
+ * Get a single candidate from search results
+ */
+router.get('/candidates/:id', auditCandidateView('search'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Recruiters only see profiles their candidates have made public
+    const candidate = await searchService.getCandidateById(req.params.id);
+
+    if (!candidate) {
+      return res.status(404).json({ error: 'Candidate not found' });
+    }
+
+    res.json({ candidate });
+
+  } catch (error) {
+    console.error('Get Candidate Error:', error);
+    res.status(500).json({ error: 'Failed to get candidate' });
+  }
+});
+
+/**
+ * GET /api/search/saved
+ * List the recruiter's saved searches and those shared by their organization
+ */
+router.get('/saved', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const searches = await searchService.getSavedSearches(req.user.userId);
+
+    res.json({ searches });
+
+  } catch (error) {
+    console.error('Get Saved Searches Error:', error);
+    res.status(500).json({ error: 'Failed to get saved searches' });
+  }
+});
+
+/**
+ * POST /api/search/saved
+ * Save a search
+ */
+router.post('/saved', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate request body
+    const validationResult = savedSearchSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { name, filters, sortBy, notifyOnNewMatches, shared } = validationResult.data;
+
+    const search = await searchService.saveSearch(
+      req.user.userId,
+      name,
+      filters,
+      sortBy,
+      notifyOnNewMatches,
+      shared
+    );
+
+    res.status(201).json({
+      message: 'Search saved successfully',
+      search
+    });
+
+  } catch (error: any) {
+    console.error('Save Search Error:', error);
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to save search' });
+  }
+});
+
+/**
+ * PUT /api/search/saved/:id
+ * Update a saved search
+ */
+router.put('/saved/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate request body
+    const validationResult = savedSearchUpdateSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const search = await searchService.updateSavedSearch(
+      req.user.userId,
+      req.params.id,
+      validationResult.data
+    );
+
+    if (!search) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+
+    res.json({
+      message: 'Saved search updated successfully',
+      search
+    });
+
+  } catch (error) {
+    console.error('Update Saved Search Error:', error);
+    res.status(500).json({ error: 'Failed to update saved search' });
+  }
+});
+
+/**
+ * GET /api/search/saved/:id/run
+ * Run a saved search
+ */
+router.get('/saved/:id/run', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate query string
+    const validationResult = paginationQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { page, pageSize } = validationResult.data;
+
+    const result = await searchService.runSavedSearch(req.user.userId, req.params.id, page, pageSize);
+
+    if (!result) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+
+    res.json(result);
+
+  } catch (error) {
+    console.error('Run Saved Search Error:', error);
+    res.status(500).json({ error: 'Failed to run saved search' });
+  }
+});
+
+/**
+ * DELETE /api/search/saved/:id
+ * Delete a saved search
+ */
+router.delete('/saved/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const deleted = await searchService.deleteSavedSearch(req.user.userId, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+
+    res.json({
+      message: 'Saved search deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete Saved Search Error:', error);
+    res.status(500).json({ error: 'Failed to delete saved search' });
+  }
+});
+
+export default router;
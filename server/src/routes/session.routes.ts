@@ -1,22 +1,97 @@
 import express, { Response } from 'express';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
-// Note: Since we are using Supabase Auth, "clearing sessions" is mostly a client-side action (killing the token).
-// However, if we track active sessions in our DB or want to revoke tokens universally, we'd use Supabase Admin API.
-// For now, consistent with the requirements, we'll implement a simple endpoint that could be expanded.
+import { sessionService } from '../services/session.service';
 
 const router = express.Router();
 
-router.post('/clear', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+/**
+ * GET /api/sessions
+ * List the devices the current user is logged in on
+ */
+router.get('/', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-        // In a stateless JWT/Supabase world, backend can't easily "invalidate" a token without RLS or Admin API.
-        // But we can return success to let frontend know to clear local storage.
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
 
-        // Optional: If we had a Session in our DB, we would delete it here.
+        const sessions = await sessionService.listSessions(req.user.userId, req.user.sessionId);
 
-        res.json({ status: 'cleared', message: 'Session cleared successfully' });
+        res.json({ sessions });
     } catch (error) {
-        console.error('Session Clear Error:', error);
-        res.status(500).json({ error: 'Failed to clear session' });
+        console.error('List Sessions Error:', error);
+        res.status(500).json({ error: 'Failed to list sessions' });
+    }
+});
+
+/**
+ * POST /api/sessions/logout
+ * Revoke the current session; its refresh token and access tokens stop working
+ */
+const logout = async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user || !req.user.sessionId) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
+        await sessionService.revokeSession(req.user.userId, req.user.sessionId);
+
+        res.json({ status: 'cleared', message: 'Logged out successfully' });
+    } catch (error: any) {
+        console.error('Logout Error:', error);
+
+        if (error.message === 'Session not found') {
+            return res.status(404).json({ error: error.message });
+        }
+
+        res.status(500).json({ error: 'Failed to log out' });
+    }
+};
+
+router.post('/logout', requireAuth, logout);
+
+// Kept for clients written before sessions were tracked
+router.post('/clear', requireAuth, logout);
+
+/**
+ * POST /api/sessions/logout-all
+ * Revoke every session of the current user, including this one
+ */
+router.post('/logout-all', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
+        const revoked = await sessionService.revokeAllSessions(req.user.userId);
+
+        res.json({ message: 'Logged out of all devices', revoked });
+    } catch (error) {
+        console.error('Logout All Error:', error);
+        res.status(500).json({ error: 'Failed to log out of all devices' });
+    }
+});
+
+/**
+ * DELETE /api/sessions/:id
+ * Log out a single device
+ */
+router.delete('/:id', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ error: 'User not authenticated' });
+        }
+
+        await sessionService.revokeSession(req.user.userId, req.params.id);
+
+        res.json({ message: 'Session revoked' });
+    } catch (error: any) {
+        console.error('Revoke Session Error:', error);
+
+        if (error.message === 'Session not found') {
+            return res.status(404).json({ error: error.message });
+        }
+
+        res.status(500).json({ error: 'Failed to revoke session' });
     }
 });
 
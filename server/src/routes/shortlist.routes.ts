@@ -0,0 +1,513 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { shortlistService } from '../services/shortlist.service';
+import {
+  requireAuth,
+  requireRecruiter,
+  requireVerifiedEmail,
+  requireCompanyTwoFactor,
+  AuthenticatedRequest
+} from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Shortlists hold candidate data, so they sit behind the same checks as search
+router.use(requireAuth, requireRecruiter, requireVerifiedEmail, requireCompanyTwoFactor);
+
+// Validation schemas
+const stagesSchema = z.array(z.string().trim().min(1).max(40)).min(1).max(20);
+
+const shortlistSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  stages: stagesSchema.optional(),
+  shared: z.boolean().default(false)
+});
+
+const shortlistUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  stages: stagesSchema.optional(),
+  shared: z.boolean().optional()
+});
+
+const entrySchema = z.object({
+  candidateId: z.string().min(1, 'Candidate is required'),
+  stage: z.string().trim().min(1).optional()
+});
+
+const entryUpdateSchema = z.object({
+  stage: z.string().trim().min(1).optional(),
+  position: z.number().int().min(0).optional(),
+  tags: z.array(z.string().trim().min(1).max(40)).max(20).optional()
+}).refine(
+  update => update.stage !== undefined || update.tags !== undefined,
+  { message: 'Provide a stage or tags' }
+);
+
+const noteSchema = z.object({
+  body: z.string().trim().min(1, 'Note is required').max(5000),
+  shared: z.boolean().default(false)
+});
+
+const noteUpdateSchema = z.object({
+  body: z.string().trim().min(1).max(5000).optional(),
+  shared: z.boolean().optional()
+});
+
+/**
+ * GET /api/shortlists
+ * List the recruiter's shortlists and those shared by their organization
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const shortlists = await shortlistService.listShortlists(req.user.userId);
+
+    res.json({ shortlists });
+
+  } catch (error: any) {
+    console.error('Get Shortlists Error:', error);
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get shortlists' });
+  }
+});
+
+/**
+ * POST /api/shortlists
+ * Create a shortlist; stages default to sourced, contacted, interviewing, offer, hired, rejected
+ */
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = shortlistSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const shortlist = await shortlistService.createShortlist(req.user.userId, validationResult.data);
+
+    res.status(201).json({
+      message: 'Shortlist created successfully',
+      shortlist
+    });
+
+  } catch (error: any) {
+    console.error('Create Shortlist Error:', error);
+
+    if (error.message === 'A shortlist needs at least one stage') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to create shortlist' });
+  }
+});
+
+/**
+ * GET /api/shortlists/candidates/:candidateId/notes
+ * List the recruiter's notes on a candidate and those shared by their organization
+ */
+router.get('/candidates/:candidateId/notes', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const notes = await shortlistService.listNotes(req.user.userId, req.params.candidateId);
+
+    res.json({ notes });
+
+  } catch (error: any) {
+    console.error('Get Candidate Notes Error:', error);
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get notes' });
+  }
+});
+
+/**
+ * POST /api/shortlists/candidates/:candidateId/notes
+ * Add a note on a candidate; private unless shared
+ */
+router.post('/candidates/:candidateId/notes', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = noteSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { body, shared } = validationResult.data;
+    const note = await shortlistService.addNote(req.user.userId, req.params.candidateId, body, shared);
+
+    res.status(201).json({
+      message: 'Note added',
+      note
+    });
+
+  } catch (error: any) {
+    console.error('Add Candidate Note Error:', error);
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Candidate not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to add note' });
+  }
+});
+
+/**
+ * PUT /api/shortlists/notes/:noteId
+ * Edit or share one of the recruiter's notes
+ */
+router.put('/notes/:noteId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = noteUpdateSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    await shortlistService.updateNote(req.user.userId, req.params.noteId, validationResult.data);
+
+    res.json({
+      message: 'Note updated'
+    });
+
+  } catch (error: any) {
+    console.error('Update Candidate Note Error:', error);
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Note not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to update note' });
+  }
+});
+
+/**
+ * DELETE /api/shortlists/notes/:noteId
+ * Delete one of the recruiter's notes
+ */
+router.delete('/notes/:noteId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await shortlistService.deleteNote(req.user.userId, req.params.noteId);
+
+    res.json({
+      message: 'Note deleted'
+    });
+
+  } catch (error: any) {
+    console.error('Delete Candidate Note Error:', error);
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Note not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to delete note' });
+  }
+});
+
+/**
+ * GET /api/shortlists/:id
+ * Get a shortlist with its candidates
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const shortlist = await shortlistService.getShortlist(req.user.userId, req.params.id);
+
+    res.json(shortlist);
+
+  } catch (error: any) {
+    console.error('Get Shortlist Error:', error);
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Shortlist not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get shortlist' });
+  }
+});
+
+/**
+ * PUT /api/shortlists/:id
+ * Rename, reconfigure the stages of, or share a shortlist (owner only)
+ */
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = shortlistUpdateSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const shortlist = await shortlistService.updateShortlist(req.user.userId, req.params.id, validationResult.data);
+
+    res.json({
+      message: 'Shortlist updated successfully',
+      shortlist
+    });
+
+  } catch (error: any) {
+    console.error('Update Shortlist Error:', error);
+
+    if (error.message === 'A shortlist needs at least one stage') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Only the owner can change this shortlist') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Shortlist not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Move candidates out of a stage before removing it') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to update shortlist' });
+  }
+});
+
+/**
+ * DELETE /api/shortlists/:id
+ * Delete a shortlist (owner only)
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await shortlistService.deleteShortlist(req.user.userId, req.params.id);
+
+    res.json({
+      message: 'Shortlist deleted successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Delete Shortlist Error:', error);
+
+    if (error.message === 'Only the owner can change this shortlist') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Shortlist not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to delete shortlist' });
+  }
+});
+
+/**
+ * POST /api/shortlists/:id/entries
+ * Add a candidate to a shortlist
+ */
+router.post('/:id/entries', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = entrySchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { candidateId, stage } = validationResult.data;
+    const entry = await shortlistService.addCandidate(req.user.userId, req.params.id, candidateId, stage);
+
+    res.status(201).json({
+      message: 'Candidate added to shortlist',
+      entry
+    });
+
+  } catch (error: any) {
+    console.error('Add Shortlist Entry Error:', error);
+
+    if (error.message === 'Unknown stage') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Shortlist not found'
+      || error.message === 'Candidate not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Candidate already on shortlist') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to add candidate' });
+  }
+});
+
+/**
+ * PUT /api/shortlists/:id/entries/:entryId
+ * Move a candidate to a stage and position, or replace their tags
+ */
+router.put('/:id/entries/:entryId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = entryUpdateSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { stage, position, tags } = validationResult.data;
+
+    if (stage) {
+      await shortlistService.moveEntry(req.user.userId, req.params.id, req.params.entryId, stage, position);
+    }
+
+    if (tags) {
+      await shortlistService.updateEntryTags(req.user.userId, req.params.id, req.params.entryId, tags);
+    }
+
+    res.json({
+      message: 'Entry updated'
+    });
+
+  } catch (error: any) {
+    console.error('Update Shortlist Entry Error:', error);
+
+    if (error.message === 'Unknown stage') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Shortlist not found'
+      || error.message === 'Entry not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to update entry' });
+  }
+});
+
+/**
+ * DELETE /api/shortlists/:id/entries/:entryId
+ * Remove a candidate from a shortlist
+ */
+router.delete('/:id/entries/:entryId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await shortlistService.removeEntry(req.user.userId, req.params.id, req.params.entryId);
+
+    res.json({
+      message: 'Candidate removed from shortlist'
+    });
+
+  } catch (error: any) {
+    console.error('Remove Shortlist Entry Error:', error);
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Shortlist not found'
+      || error.message === 'Entry not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to remove candidate' });
+  }
+});
+
+/**
+ * GET /api/shortlists/:id/entries/:entryId/history
+ * Get a candidate's stage changes on a shortlist
+ */
+router.get('/:id/entries/:entryId/history', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const history = await shortlistService.getEntryHistory(req.user.userId, req.params.id, req.params.entryId);
+
+    res.json({ history });
+
+  } catch (error: any) {
+    console.error('Get Shortlist Entry History Error:', error);
+
+    if (error.message === 'Recruiter profile not found'
+      || error.message === 'Shortlist not found'
+      || error.message === 'Entry not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get stage history' });
+  }
+});
+
+export default router;
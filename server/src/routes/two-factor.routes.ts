@@ -0,0 +1,188 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { twoFactorService } from '../services/two-factor.service';
+import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const codeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required')
+});
+
+/**
+ * GET /api/auth/2fa
+ * Get the current user's two-factor status
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const status = await twoFactorService.getStatus(req.user.userId);
+
+    res.json(status);
+
+  } catch (error) {
+    console.error('Get Two-Factor Status Error:', error);
+    res.status(500).json({ error: 'Failed to get two-factor status' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/enroll
+ * Start enrollment; returns the secret and otpauth URI for the authenticator app
+ */
+router.post('/enroll', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const enrollment = await twoFactorService.beginEnrollment(req.user.userId);
+
+    res.json({
+      message: 'Scan the code with your authenticator app, then confirm with a code',
+      ...enrollment
+    });
+
+  } catch (error: any) {
+    console.error('Two-Factor Enrollment Error:', error);
+
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Two-factor authentication already enabled') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to start two-factor enrollment' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/confirm
+ * Finish enrollment with a code; returns the backup codes, shown only once
+ */
+router.post('/confirm', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = codeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const backupCodes = await twoFactorService.confirmEnrollment(req.user.userId, validationResult.data.code);
+
+    res.json({
+      message: 'Two-factor authentication enabled',
+      backupCodes
+    });
+
+  } catch (error: any) {
+    console.error('Two-Factor Confirmation Error:', error);
+
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Invalid two-factor code' || error.message === 'Two-factor enrollment not started') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Two-factor authentication already enabled') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to confirm two-factor enrollment' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/backup-codes
+ * Replace the backup codes; requires a current code
+ */
+router.post('/backup-codes', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = codeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const backupCodes = await twoFactorService.regenerateBackupCodes(req.user.userId, validationResult.data.code);
+
+    res.json({
+      message: 'Backup codes regenerated',
+      backupCodes
+    });
+
+  } catch (error: any) {
+    console.error('Regenerate Backup Codes Error:', error);
+
+    if (error.message === 'Invalid two-factor code' || error.message === 'Two-factor authentication not enabled') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to regenerate backup codes' });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn two-factor authentication off; requires a current code
+ */
+router.post('/disable', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validationResult = codeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    await twoFactorService.disable(req.user.userId, validationResult.data.code);
+
+    res.json({
+      message: 'Two-factor authentication disabled'
+    });
+
+  } catch (error: any) {
+    console.error('Disable Two-Factor Error:', error);
+
+    if (error.message === 'Two-factor authentication is required by your company') {
+      return res.status(403).json({ error: error.message });
+    }
+
+    if (error.message === 'Invalid two-factor code' || error.message === 'Two-factor authentication not enabled') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+export default router;
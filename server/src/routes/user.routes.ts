@@ -1,79 +1,103 @@
 import express, { Response } from 'express';
 import { prisma } from '../lib/prisma';
 import { requireAuth, AuthenticatedRequest } from '../middleware/auth.middleware';
+import { canViewScore, getUserScore } from '../services/scoring.service';
+import { recruiterProfileSelect } from '../services/profile.service';
 
 const router = express.Router();
 
-// Sync user from Supabase to local DB
-router.post('/sync', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+// Get current user profile with latest score and pathway progress
+router.get('/profile', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
         const user = req.user;
-
         if (!user) {
             return res.status(401).json({ error: 'Unauthorized' });
         }
 
-        // Upsert user in local database
-        const localUser = await prisma.user.upsert({
-            where: { id: user.id },
-            update: {
-                email: user.email!,
-                updatedAt: new Date(),
-                // Add other fields to sync if needed
-            },
-            create: {
-                id: user.id,
-                email: user.email!,
-                createdAt: new Date(),
-                updatedAt: new Date(),
-            },
+        const localUser = await prisma.user.findUnique({
+            where: { id: user.userId },
+            select: {
+                id: true,
+                email: true,
+                name: true,
+                userType: true,
+                createdAt: true,
+                candidateProfile: {
+                    include: {
+                        candidateScores: {
+                            orderBy: { createdAt: 'desc' },
+                            take: 1
+                        }
+                    }
+                },
+                recruiterProfile: { select: recruiterProfileSelect },
+                pathwayProgress: {
+                    include: { pathway: { select: { id: true, title: true } } }
+                }
+            }
         });
 
-        res.json({ status: 'synced', user: localUser });
+        if (!localUser) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        res.json(localUser);
     } catch (error) {
-        console.error('Sync Error:', error);
-        res.status(500).json({ error: 'Failed to sync user' });
+        console.error('Profile Error:', error);
+        res.status(500).json({ error: 'Failed to fetch profile' });
     }
 });
 
-// Get current user profile
-router.get('/profile', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+// Get the current candidate's score, calculating it on first request
+router.get('/me/score', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
         const user = req.user;
         if (!user) {
             return res.status(401).json({ error: 'Unauthorized' });
         }
 
-        const localUser = await prisma.user.findUnique({
-            where: { id: user.id },
-            include: {
-                scores: true,
-                progress: true
-            }
-        });
+        const score = await getUserScore(user.userId, true);
+        res.json(score);
+    } catch (error: any) {
+        console.error('Score Fetch Error:', error);
 
-        if (!localUser) {
-            return res.status(404).json({ error: 'User not found in local database' });
+        if (error.message === 'Candidate profile not found') {
+            return res.status(404).json({ error: error.message });
         }
 
-        res.json(localUser);
-    } catch (error) {
-        console.error('Profile Error:', error);
-        res.status(500).json({ error: 'Failed to fetch profile' });
+        res.status(500).json({ error: 'Failed to fetch score' });
     }
 });
 
-import { calculateUserScore } from '../services/scoring.service';
-
-// Get user score
-router.get('/:id/score', async (req, res) => {
+// Get a user's score (calculated on first request by the candidate themselves)
+router.get('/:id/score', requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
+        const user = req.user;
+        if (!user) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+
         const { id } = req.params;
-        const score = await calculateUserScore(id);
+
+        if (!(await canViewScore(user, id))) {
+            return res.status(403).json({ error: 'Not allowed to view this score' });
+        }
+
+        const score = await getUserScore(id, user.userId === id);
+
+        if (!score) {
+            return res.status(404).json({ error: 'Score not found' });
+        }
+
         res.json(score);
     } catch (error: any) {
         console.error('Score Fetch Error:', error);
-        res.status(500).json({ error: error.message });
+
+        if (error.message === 'Candidate profile not found') {
+            return res.status(404).json({ error: error.message });
+        }
+
+        res.status(500).json({ error: 'Failed to fetch score' });
     }
 });
 
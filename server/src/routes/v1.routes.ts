@@ -0,0 +1,85 @@
+import express, { Response } from 'express';
+import { searchService } from '../services/search.service';
+import { roleProfileService } from '../services/role-profile.service';
+import { requireApiKey, ApiKeyRequest } from '../middleware/api-key.middleware';
+import { auditCandidateView } from '../middleware/audit.middleware';
+import { searchQuerySchema } from './search.routes';
+
+const router = express.Router();
+
+// Read-only public API, metered per API key
+router.use(requireApiKey);
+
+/**
+ * GET /api/v1/candidates
+ * Search public candidates with the same filters as /api/search
+ */
+router.get('/candidates', async (req: ApiKeyRequest, res: Response) => {
+  try {
+    // Validate query string
+    const validationResult = searchQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { sortBy, page, pageSize, roleProfile, ...filters } = validationResult.data;
+
+    if (
+      filters.minScore !== undefined &&
+      filters.maxScore !== undefined &&
+      filters.minScore > filters.maxScore
+    ) {
+      return res.status(400).json({ error: 'minScore cannot be greater than maxScore' });
+    }
+
+    // Role profiles resolve against the API key's recruiter
+    const role = roleProfile && req.recruiter
+      ? await roleProfileService.getRoleProfile(req.recruiter.userId, roleProfile)
+      : undefined;
+
+    const result = await searchService.searchCandidates(
+      { ...filters, isPublic: true },
+      sortBy,
+      page,
+      pageSize,
+      role
+    );
+
+    res.json(result);
+
+  } catch (error: any) {
+    console.error('API Search Candidates Error:', error);
+
+    if (error.message === 'Role profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to search candidates' });
+  }
+});
+
+/**
+ * GET /api/v1/candidates/:id
+ * Get a public candidate profile with scores
+ */
+router.get('/candidates/:id', auditCandidateView('api'), async (req: ApiKeyRequest, res: Response) => {
+  try {
+    const candidate = await searchService.getCandidateById(req.params.id);
+
+    if (!candidate) {
+      return res.status(404).json({ error: 'Candidate not found' });
+    }
+
+    res.json({ candidate });
+
+  } catch (error) {
+    console.error('API Get Candidate Error:', error);
+    res.status(500).json({ error: 'Failed to get candidate' });
+  }
+});
+
+export default router;
@@ -0,0 +1,284 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { webhookService, isAllowedWebhookScheme, WEBHOOK_EVENTS, WebhookEventType } from '../services/webhook.service';
+import {
+  requireAuth,
+  requireRecruiter,
+  AuthenticatedRequest
+} from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// Webhooks belong to recruiter profiles
+router.use(requireAuth, requireRecruiter);
+
+// Validation schemas
+const webhookUrlSchema = z.string().url().refine(
+  url => isAllowedWebhookScheme(url),
+  { message: 'Webhook URL must use https' }
+);
+
+const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENTS as [WebhookEventType, ...WebhookEventType[]]))
+  .min(1, 'Subscribe to at least one event');
+
+const webhookCreateSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema
+});
+
+const webhookUpdateSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: webhookEventsSchema.optional(),
+  isActive: z.boolean().optional()
+});
+
+const deliveryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * GET /api/webhooks
+ * List the recruiter's webhooks
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const webhooks = await webhookService.listWebhooks(req.user.userId);
+
+    res.json({
+      webhooks
+    });
+
+  } catch (error: any) {
+    console.error('List Webhooks Error:', error);
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to list webhooks' });
+  }
+});
+
+/**
+ * POST /api/webhooks
+ * Register a webhook; the signing secret is only shown in this response
+ */
+router.post('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate request body
+    const validationResult = webhookCreateSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { url, events } = validationResult.data;
+
+    const webhook = await webhookService.registerWebhook(req.user.userId, url, events);
+
+    res.status(201).json({
+      message: 'Webhook registered successfully',
+      webhook
+    });
+
+  } catch (error: any) {
+    console.error('Register Webhook Error:', error);
+
+    if (error.message === 'Webhook URL must use https'
+      || error.message === 'Webhook URL must point to a public address'
+      || error.message === 'Webhook URL host could not be resolved') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    if (error.message === 'Webhook limit reached') {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to register webhook' });
+  }
+});
+
+/**
+ * PUT /api/webhooks/:id
+ * Update a webhook's URL, events or active state
+ */
+router.put('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate request body
+    const validationResult = webhookUpdateSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const webhook = await webhookService.updateWebhook(req.user.userId, req.params.id, validationResult.data);
+
+    res.json({
+      message: 'Webhook updated successfully',
+      webhook
+    });
+
+  } catch (error: any) {
+    console.error('Update Webhook Error:', error);
+
+    if (error.message === 'Webhook URL must use https'
+      || error.message === 'Webhook URL must point to a public address'
+      || error.message === 'Webhook URL host could not be resolved') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (error.message === 'Webhook not found' || error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Delete a webhook and its delivery log
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await webhookService.unregisterWebhook(req.user.userId, req.params.id);
+
+    res.json({
+      message: 'Webhook deleted successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Delete Webhook Error:', error);
+
+    if (error.message === 'Webhook not found' || error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/rotate-secret
+ * Replace the signing secret
+ */
+router.post('/:id/rotate-secret', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const webhook = await webhookService.rotateSecret(req.user.userId, req.params.id);
+
+    res.json({
+      message: 'Webhook secret rotated successfully',
+      webhook
+    });
+
+  } catch (error: any) {
+    console.error('Rotate Webhook Secret Error:', error);
+
+    if (error.message === 'Webhook not found' || error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to rotate webhook secret' });
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/test
+ * Send a signed ping to the endpoint and return the delivery result
+ */
+router.post('/:id/test', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const delivery = await webhookService.sendTestPing(req.user.userId, req.params.id);
+
+    res.json({
+      message: delivery.status === 'success' ? 'Test ping delivered' : 'Test ping failed',
+      delivery
+    });
+
+  } catch (error: any) {
+    console.error('Test Webhook Error:', error);
+
+    if (error.message === 'Webhook not found' || error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to send test ping' });
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Get the delivery log for a webhook
+ */
+router.get('/:id/deliveries', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Validate query string
+    const validationResult = deliveryQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors
+      });
+    }
+
+    const { limit, offset } = validationResult.data;
+
+    const deliveries = await webhookService.getDeliveries(req.user.userId, req.params.id, limit, offset);
+
+    res.json({
+      deliveries
+    });
+
+  } catch (error: any) {
+    console.error('Get Webhook Deliveries Error:', error);
+
+    if (error.message === 'Webhook not found' || error.message === 'Recruiter profile not found') {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to get webhook deliveries' });
+  }
+});
+
+export default router;
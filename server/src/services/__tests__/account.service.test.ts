@@ -0,0 +1,228 @@
+/**
+ * Unit Tests for Account Data Export and Deletion
+ * Tests: Candidate and recruiter exports, deletion grace period, purge of due accounts
+ */
+
+import { UserType } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { AccountService } from '../account.service';
+import { AuthService } from '../auth.service';
+import { auditService, AuditAction } from '../audit.service';
+import { organizationService } from '../organization.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn(), delete: jest.fn() },
+    auditLog: { findMany: jest.fn(), deleteMany: jest.fn() },
+    job: { deleteMany: jest.fn() },
+    candidateProfile: { updateMany: jest.fn() },
+    recruiterProfile: { updateMany: jest.fn() },
+    webhook: { updateMany: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; findMany: jest.Mock; update: jest.Mock; updateMany: jest.Mock; delete: jest.Mock };
+  auditLog: { findMany: jest.Mock; deleteMany: jest.Mock };
+  job: { deleteMany: jest.Mock };
+  candidateProfile: { updateMany: jest.Mock };
+  recruiterProfile: { updateMany: jest.Mock };
+  webhook: { updateMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const account = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  userType: UserType.CANDIDATE,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+describe('AccountService', () => {
+  let service: AccountService;
+  let logDataAccess: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AccountService();
+    logDataAccess = jest.spyOn(auditService, 'logDataAccess').mockResolvedValue();
+    mockedPrisma.$transaction.mockImplementation((operations: Promise<unknown>[]) => Promise.all(operations));
+  });
+
+  describe('exportData', () => {
+    test('should export a candidate profile with platform data, score history and audit entries', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        ...account,
+        candidateProfile: {
+          id: 'candidate-1',
+          bio: 'Engineer',
+          platformConnections: [{ platform: 'GITHUB' }],
+          platformData: [{ dataType: 'raw', rawData: { repos: 3 } }, { dataType: 'metrics', processedData: { overallScore: 80 } }],
+          candidateScores: [{ overallScore: 70 }, { overallScore: 80 }],
+          scoreDisputes: [],
+          conversations: []
+        },
+        recruiterProfile: null,
+        notifications: [],
+        pathwayProgress: [],
+        chatSessions: []
+      });
+      mockedPrisma.auditLog.findMany.mockResolvedValue([{ action: AuditAction.CANDIDATE_VIEWED }]);
+
+      const exported = await service.exportData('user-1');
+
+      expect(exported).toMatchObject({
+        user: account,
+        profile: { id: 'candidate-1', bio: 'Engineer' },
+        platformConnections: [{ platform: 'GITHUB' }],
+        scores: [{ overallScore: 70 }, { overallScore: 80 }],
+        auditEntries: [{ action: AuditAction.CANDIDATE_VIEWED }]
+      });
+      expect(exported.platformData).toHaveLength(2);
+      // Both the entries about the user and the ones they produced are included
+      expect(mockedPrisma.auditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { OR: [{ subjectUserId: 'user-1' }, { actorId: 'user-1' }] }
+      }));
+      expect(logDataAccess).toHaveBeenCalledWith(
+        { actorId: 'user-1', actorType: UserType.CANDIDATE },
+        AuditAction.DATA_EXPORTED,
+        'user:user-1',
+        'user-1'
+      );
+    });
+
+    test('should export recruiter workspaces without the API key hash', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        ...account,
+        userType: UserType.RECRUITER,
+        candidateProfile: null,
+        recruiterProfile: {
+          id: 'recruiter-1',
+          company: 'Acme',
+          savedSearches: [{ name: 'Rust' }],
+          roleProfiles: [],
+          webhooks: [],
+          shortlists: [],
+          candidateNotes: [],
+          conversations: []
+        },
+        notifications: [],
+        pathwayProgress: [],
+        chatSessions: []
+      });
+      mockedPrisma.auditLog.findMany.mockResolvedValue([]);
+
+      const exported = await service.exportData('user-1');
+
+      expect(exported).toMatchObject({ profile: { id: 'recruiter-1', company: 'Acme' }, savedSearches: [{ name: 'Rust' }] });
+      expect(mockedPrisma.user.findUnique.mock.calls[0][0].select.recruiterProfile.select).not.toHaveProperty('apiKeyHash');
+    });
+
+    test('should reject unknown users', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.exportData('missing')).rejects.toThrow('User not found');
+    });
+  });
+
+  describe('requestDeletion', () => {
+    beforeEach(() => {
+      mockedPrisma.user.findUnique.mockResolvedValue({ ...account, passwordHash: 'hash', deletionScheduledFor: null });
+      mockedPrisma.user.update.mockImplementation(({ data }) => Promise.resolve({ ...account, ...data }));
+    });
+
+    test('should schedule the purge after the grace period and revoke recruiter access at once', async () => {
+      jest.spyOn(AuthService, 'verifyPassword').mockResolvedValue(true);
+
+      const status = await service.requestDeletion('user-1', 'password');
+
+      const scheduled = status.deletionScheduledFor!.getTime() - status.deletionRequestedAt!.getTime();
+      expect(scheduled).toBe(30 * DAY_MS);
+      expect(mockedPrisma.candidateProfile.updateMany).toHaveBeenCalledWith({ where: { userId: 'user-1' }, data: { isPublic: false } });
+      expect(mockedPrisma.recruiterProfile.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ apiKeyHash: null })
+      }));
+      expect(mockedPrisma.webhook.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ isActive: false })
+      }));
+      // Nothing is deleted until the grace period ends
+      expect(mockedPrisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    test('should require the current password', async () => {
+      jest.spyOn(AuthService, 'verifyPassword').mockResolvedValue(false);
+
+      await expect(service.requestDeletion('user-1', 'wrong')).rejects.toThrow('Invalid password');
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    test('should refuse a second request while one is pending', async () => {
+      jest.spyOn(AuthService, 'verifyPassword').mockResolvedValue(true);
+      mockedPrisma.user.findUnique.mockResolvedValue({ ...account, passwordHash: 'hash', deletionScheduledFor: new Date() });
+
+      await expect(service.requestDeletion('user-1', 'password')).rejects.toThrow('Deletion already requested');
+    });
+  });
+
+  describe('cancelDeletion', () => {
+    test('should clear a pending deletion', async () => {
+      mockedPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.cancelDeletion('user-1');
+
+      expect(mockedPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', deletionScheduledFor: { not: null } },
+        data: { deletionRequestedAt: null, deletionScheduledFor: null }
+      });
+    });
+
+    test('should reject when no deletion is pending', async () => {
+      mockedPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.cancelDeletion('user-1')).rejects.toThrow('No deletion pending');
+    });
+  });
+
+  describe('purgeDueAccounts', () => {
+    test('should delete due accounts and the audit entries about them', async () => {
+      jest.spyOn(organizationService, 'handOverOwnership').mockResolvedValue();
+      mockedPrisma.user.findMany.mockResolvedValue([{ id: 'user-1' }]);
+
+      expect(await service.purgeDueAccounts()).toBe(1);
+
+      expect(mockedPrisma.user.findMany).toHaveBeenCalledWith({
+        where: { deletionScheduledFor: { lte: expect.any(Date) } },
+        select: { id: true }
+      });
+      expect(organizationService.handOverOwnership).toHaveBeenCalledWith('user-1');
+      // Profile data cascades from the user row; jobs and audit entries have no foreign key
+      expect(mockedPrisma.user.delete).toHaveBeenCalledWith({ where: { id: 'user-1' } });
+      expect(mockedPrisma.job.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      expect(mockedPrisma.auditLog.deleteMany).toHaveBeenCalledWith({ where: { subjectUserId: 'user-1' } });
+    });
+
+    test('should keep entries where the user viewed others and record the deletion without naming them', async () => {
+      jest.spyOn(organizationService, 'handOverOwnership').mockResolvedValue();
+      mockedPrisma.user.findMany.mockResolvedValue([{ id: 'user-1' }]);
+
+      await service.purgeDueAccounts();
+
+      // Only entries about the user are removed; other users' trails are untouched
+      expect(mockedPrisma.auditLog.deleteMany).toHaveBeenCalledTimes(1);
+      expect(mockedPrisma.auditLog.deleteMany.mock.calls[0][0].where).not.toHaveProperty('actorId');
+      expect(logDataAccess).toHaveBeenCalledWith({}, AuditAction.ACCOUNT_DELETED, 'user:user-1', null);
+    });
+
+    test('should do nothing when no account is due', async () => {
+      mockedPrisma.user.findMany.mockResolvedValue([]);
+
+      expect(await service.purgeDueAccounts()).toBe(0);
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
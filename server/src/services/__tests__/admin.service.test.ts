@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for Admin Moderation
+ * Tests: Suspension guards, suspension and reinstatement, user listing filters
+ */
+
+import { UserType } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { AdminService } from '../admin.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), findMany: jest.fn(), count: jest.fn(), update: jest.fn() }
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; findMany: jest.Mock; count: jest.Mock; update: jest.Mock };
+};
+
+const userRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  userType: UserType.CANDIDATE,
+  suspendedAt: null,
+  suspensionReason: null,
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+  candidateProfile: { id: 'candidate-1' },
+  recruiterProfile: null,
+  ...overrides
+});
+
+describe('AdminService', () => {
+  let service: AdminService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AdminService();
+    mockedPrisma.user.update.mockImplementation(({ data }) => Promise.resolve(userRow(data)));
+  });
+
+  describe('suspendUser', () => {
+    test('should suspend the account with the reason given', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(userRow());
+
+      const summary = await service.suspendUser('admin-1', 'user-1', 'Spam');
+
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'user-1' },
+        data: { suspendedAt: expect.any(Date), suspensionReason: 'Spam' }
+      }));
+      expect(summary).toMatchObject({ id: 'user-1', suspensionReason: 'Spam', candidateProfileId: 'candidate-1' });
+    });
+
+    test('should keep the original suspension time when the reason is updated', async () => {
+      const suspendedAt = new Date('2026-09-01T00:00:00Z');
+      mockedPrisma.user.findUnique.mockResolvedValue(userRow({ suspendedAt }));
+
+      await service.suspendUser('admin-1', 'user-1', 'Repeated spam');
+
+      expect(mockedPrisma.user.update.mock.calls[0][0].data.suspendedAt).toBe(suspendedAt);
+    });
+
+    test('should refuse to let admins suspend themselves', async () => {
+      await expect(service.suspendUser('admin-1', 'admin-1', 'Oops')).rejects.toThrow('Admins cannot suspend themselves');
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    test('should refuse to suspend other admins', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(userRow({ id: 'admin-2', userType: UserType.ADMIN }));
+
+      await expect(service.suspendUser('admin-1', 'admin-2', 'Rogue')).rejects.toThrow('Admin accounts cannot be suspended');
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    test('should reject unknown users', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.suspendUser('admin-1', 'missing', 'Spam')).rejects.toThrow('User not found');
+    });
+  });
+
+  describe('reinstateUser', () => {
+    test('should clear the suspension and its reason', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(userRow({ suspendedAt: new Date(), suspensionReason: 'Spam' }));
+
+      const summary = await service.reinstateUser('user-1');
+
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'user-1' },
+        data: { suspendedAt: null, suspensionReason: null }
+      }));
+      expect(summary).toMatchObject({ suspendedAt: null, suspensionReason: null });
+    });
+
+    test('should reject unknown users', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.reinstateUser('missing')).rejects.toThrow('User not found');
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listUsers', () => {
+    test('should filter suspended users by name or email and paginate', async () => {
+      mockedPrisma.user.findMany.mockResolvedValue([userRow({ suspendedAt: new Date() })]);
+      mockedPrisma.user.count.mockResolvedValue(21);
+
+      const list = await service.listUsers({ suspended: true, query: 'ada' }, 2, 20);
+
+      const { where, skip, take } = mockedPrisma.user.findMany.mock.calls[0][0];
+      expect(where).toMatchObject({
+        suspendedAt: { not: null },
+        OR: [
+          { name: { contains: 'ada', mode: 'insensitive' } },
+          { email: { contains: 'ada', mode: 'insensitive' } }
+        ]
+      });
+      expect({ skip, take }).toEqual({ skip: 20, take: 20 });
+      expect(list).toMatchObject({ total: 21, page: 2, totalPages: 2 });
+    });
+  });
+});
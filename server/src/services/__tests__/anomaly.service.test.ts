@@ -0,0 +1,174 @@
+/**
+ * Unit Tests for Score Anomaly Detection
+ * Tests: Gaming pattern detectors, flag deduplication, platform score dampening
+ */
+
+import { Platform } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import {
+  AnomalyService,
+  detectFollowerSpike,
+  detectEmptyRepositories,
+  detectEngagementRatio,
+  detectDuplicatePosts,
+  detectFindings
+} from '../anomaly.service';
+import { BlogData, GitHubData, GitHubRepository, TwitterData, TwitterTweet } from '../connectors';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    scoreAnomaly: { findMany: jest.fn(), findUnique: jest.fn(), create: jest.fn(), update: jest.fn() }
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  scoreAnomaly: { findMany: jest.Mock; findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+};
+
+const repo = (name: string, empty: boolean): GitHubRepository => ({
+  name,
+  fullName: `octocat/${name}`,
+  description: null,
+  url: '',
+  language: empty ? null : 'TypeScript',
+  languages: empty ? {} : { TypeScript: 1000 },
+  stargazersCount: 0,
+  forksCount: 0,
+  watchersCount: 0,
+  openIssuesCount: 0,
+  createdAt: '2026-05-01T00:00:00Z',
+  updatedAt: '2026-05-01T00:00:00Z',
+  pushedAt: empty ? '2026-05-01T00:00:00Z' : '2026-05-10T00:00:00Z',
+  isForked: false,
+  topics: [],
+  license: null,
+  defaultBranch: 'main'
+});
+
+const githubData = (followers: number, repositories: GitHubRepository[]) =>
+  ({ profile: { followers }, repositories } as unknown as GitHubData);
+
+const twitterData = (followers: number, likesPerTweet: number): TwitterData => {
+  const tweet: Partial<TwitterTweet> = { likes: likesPerTweet, retweets: 0, replies: 0, quotes: 0, isRetweet: false };
+  return { profile: { followers }, tweets: new Array(20).fill(tweet) } as unknown as TwitterData;
+};
+
+const blogData = (titles: string[]) => ({
+  posts: titles.map((title, index) => ({ id: `post-${index}`, title, excerpt: null }))
+} as unknown as BlogData);
+
+const anomalyRow = (overrides: Record<string, unknown>) => ({
+  id: 'anomaly-1',
+  candidateId: 'candidate-1',
+  platform: Platform.TWITTER,
+  type: 'follower-spike',
+  summary: '',
+  details: {},
+  dampening: 1,
+  status: 'open',
+  reviewedBy: null,
+  reviewedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+describe('Anomaly detectors', () => {
+  test('should flag follower jumps far beyond the previous snapshot', () => {
+    expect(detectFollowerSpike(Platform.GITHUB, 100, 2000)).toMatchObject({
+      platform: Platform.GITHUB,
+      type: 'follower-spike',
+      details: { previousFollowers: 100, currentFollowers: 2000, gain: 1900 }
+    });
+    // Steady growth of an established account and first snapshots are left alone
+    expect(detectFollowerSpike(Platform.GITHUB, 5000, 6000)).toBeNull();
+    expect(detectFollowerSpike(Platform.GITHUB, undefined, 2000)).toBeNull();
+  });
+
+  test('should flag accounts made up mostly of repositories without commits', () => {
+    const padded = githubData(10, [...['a', 'b', 'c', 'd', 'e'].map(name => repo(name, true)), repo('real', false)]);
+    const mostlyReal = githubData(10, [...['a', 'b', 'c', 'd', 'e'].map(name => repo(name, true)), ...['f', 'g', 'h', 'i', 'j', 'k'].map(name => repo(name, false))]);
+
+    expect(detectEmptyRepositories(padded)?.summary).toBe('5 of 6 repositories have no commits');
+    expect(detectEmptyRepositories(mostlyReal)).toBeNull();
+  });
+
+  test('should flag tweet engagement far outside the follower count', () => {
+    expect(detectEngagementRatio(twitterData(10000, 0))?.summary).toMatch(/almost no engagement/);
+    expect(detectEngagementRatio(twitterData(2000, 5000))?.summary).toMatch(/more engagement/);
+    expect(detectEngagementRatio(twitterData(10000, 50))).toBeNull();
+  });
+
+  test('should flag clusters of posts with the same title', () => {
+    const finding = detectDuplicatePosts(Platform.DEVTO, blogData(['Top 10 Tips!', 'top 10 tips', 'Top 10 tips.', 'Designing APIs']));
+
+    expect(finding).toMatchObject({ platform: Platform.DEVTO, details: { duplicatePosts: 3, totalPosts: 4, clusters: 1 } });
+    expect(detectDuplicatePosts(Platform.DEVTO, blogData(['One', 'Two', 'One']))).toBeNull();
+  });
+
+  test('should compare each connected platform with its previous snapshot', () => {
+    const findings = detectFindings(
+      { twitter: twitterData(100, 1) },
+      { twitter: twitterData(5000, 50), devto: blogData(['Same', 'Same', 'Same']) }
+    );
+
+    expect(findings.map(finding => `${finding.platform}:${finding.type}`)).toEqual([
+      'TWITTER:follower-spike',
+      'DEVTO:duplicate-posts'
+    ]);
+  });
+});
+
+describe('AnomalyService', () => {
+  let service: AnomalyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AnomalyService();
+  });
+
+  test('should update open flags, skip dismissed ones and raise new ones', async () => {
+    mockedPrisma.scoreAnomaly.findMany.mockResolvedValue([
+      anomalyRow({ id: 'open-spike' }),
+      anomalyRow({ id: 'dismissed-posts', platform: Platform.DEVTO, type: 'duplicate-posts', status: 'dismissed' })
+    ]);
+    mockedPrisma.scoreAnomaly.create.mockImplementation(({ data }) => Promise.resolve(anomalyRow({ id: 'new', ...data })));
+
+    const raised = await service.detectAnomalies(
+      'candidate-1',
+      { twitter: twitterData(100, 1), github: githubData(10, []) },
+      {
+        twitter: twitterData(5000, 50),
+        github: githubData(3000, []),
+        devto: blogData(['Same', 'Same', 'Same'])
+      }
+    );
+
+    expect(raised.map(anomaly => `${anomaly.platform}:${anomaly.type}`)).toEqual(['GITHUB:follower-spike']);
+    expect(mockedPrisma.scoreAnomaly.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'open-spike' } }));
+    expect(mockedPrisma.scoreAnomaly.create).toHaveBeenCalledTimes(1);
+  });
+
+  test('should dampen each platform by its strongest active flag', async () => {
+    mockedPrisma.scoreAnomaly.findMany.mockResolvedValue([
+      { platform: Platform.TWITTER, dampening: 0.8 },
+      { platform: Platform.TWITTER, dampening: 0.5 },
+      { platform: Platform.DEVTO, dampening: 0.9 }
+    ]);
+
+    expect(await service.getDampening('candidate-1')).toEqual({ twitter: 0.5, devto: 0.9 });
+  });
+
+  test('should report whether a review changed the dampening in effect', async () => {
+    mockedPrisma.scoreAnomaly.findUnique.mockResolvedValue({ ...anomalyRow({ dampening: 0.5 }), candidate: { userId: 'user-1' } });
+    mockedPrisma.scoreAnomaly.update.mockImplementation(({ data }) => Promise.resolve(anomalyRow(data)));
+
+    const dismissed = await service.reviewAnomaly('anomaly-1', 'admin-1', { status: 'dismissed' });
+    const confirmed = await service.reviewAnomaly('anomaly-1', 'admin-1', { status: 'confirmed' });
+
+    expect(dismissed).toMatchObject({ userId: 'user-1', dampeningChanged: true, anomaly: { status: 'dismissed' } });
+    expect(confirmed.dampeningChanged).toBe(false);
+    await expect(service.reviewAnomaly('anomaly-1', 'admin-1', { status: 'dismissed', dampening: 0.5 }))
+      .rejects.toThrow('Dismissed anomalies cannot dampen a score');
+  });
+});
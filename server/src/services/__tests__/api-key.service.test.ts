@@ -0,0 +1,205 @@
+/**
+ * Unit Tests for Recruiter API Keys
+ * Tests: Key validation, conditional quota charging, quota window rollover, pooled organization quotas
+ */
+
+import { Organization, RecruiterProfile, SubscriptionTier } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { ApiKeyService, TIER_API_LIMITS, hashApiKey, organizationApiLimit } from '../api-key.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    recruiterProfile: {
+      findFirst: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      fields: { apiCallsLimit: 'recruiterProfile.apiCallsLimit' }
+    },
+    organization: {
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn(),
+      fields: { apiCallsLimit: 'organization.apiCallsLimit' }
+    },
+    organizationMember: { findUnique: jest.fn() }
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  recruiterProfile: { findFirst: jest.Mock; findUniqueOrThrow: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+  organization: { findUniqueOrThrow: jest.Mock; updateMany: jest.Mock };
+  organizationMember: { findUnique: jest.Mock };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const recruiter = (overrides: Partial<RecruiterProfile> = {}): RecruiterProfile => ({
+  id: 'recruiter-1',
+  userId: 'user-1',
+  company: 'Acme',
+  subscriptionTier: SubscriptionTier.BASIC,
+  apiKeyHash: 'hash',
+  apiKeyPrefix: 'dd_live_abcdef',
+  apiKeyCreatedAt: new Date(),
+  apiKeyLastUsedAt: null,
+  apiCallsUsed: 10,
+  apiCallsLimit: 1000,
+  apiCallsResetAt: new Date(Date.now() - DAY_MS),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const organization = (overrides: Partial<Organization> = {}): Organization => ({
+  id: 'org-1',
+  name: 'Acme Talent',
+  subscriptionTier: SubscriptionTier.PREMIUM,
+  seatLimit: 3,
+  apiCallsUsed: 100,
+  apiCallsLimit: 30000,
+  apiCallsResetAt: new Date(Date.now() - DAY_MS),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ApiKeyService();
+    mockedPrisma.organizationMember.findUnique.mockResolvedValue(null);
+  });
+
+  describe('validateApiKey', () => {
+    test('should look keys up by hash for active, verified accounts only', async () => {
+      mockedPrisma.recruiterProfile.findFirst.mockResolvedValue(recruiter());
+
+      await service.validateApiKey('dd_live_secret');
+
+      expect(mockedPrisma.recruiterProfile.findFirst).toHaveBeenCalledWith({
+        where: {
+          apiKeyHash: hashApiKey('dd_live_secret'),
+          user: { suspendedAt: null, emailVerifiedAt: { not: null } }
+        }
+      });
+    });
+
+    test('should reject keys of suspended or unverified accounts', async () => {
+      // The account filter excludes the recruiter, so no row comes back
+      mockedPrisma.recruiterProfile.findFirst.mockResolvedValue(null);
+
+      expect(await service.validateApiKey('dd_live_secret')).toBeNull();
+    });
+
+    test('should reject keys without the live prefix without querying', async () => {
+      expect(await service.validateApiKey('not-a-key')).toBeNull();
+      expect(mockedPrisma.recruiterProfile.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consumeApiCall', () => {
+    test('should charge the call only while usage is below the limit column', async () => {
+      mockedPrisma.recruiterProfile.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.recruiterProfile.findUniqueOrThrow.mockResolvedValue(recruiter({ apiCallsUsed: 11 }));
+
+      const result = await service.consumeApiCall(recruiter());
+
+      expect(result.allowed).toBe(true);
+      expect(result.rateLimit).toMatchObject({ limit: 1000, remaining: 989 });
+      expect(mockedPrisma.recruiterProfile.updateMany).toHaveBeenCalledWith({
+        where: { id: 'recruiter-1', apiCallsUsed: { lt: 'recruiterProfile.apiCallsLimit' } },
+        data: { apiCallsUsed: { increment: 1 }, apiKeyLastUsedAt: expect.any(Date) }
+      });
+    });
+
+    test('should refuse the call once the quota is used up', async () => {
+      mockedPrisma.recruiterProfile.updateMany.mockResolvedValue({ count: 0 });
+      mockedPrisma.recruiterProfile.findUniqueOrThrow.mockResolvedValue(recruiter({ apiCallsUsed: 1000 }));
+
+      const result = await service.consumeApiCall(recruiter({ apiCallsUsed: 1000 }));
+
+      expect(result.allowed).toBe(false);
+      expect(result.rateLimit.remaining).toBe(0);
+    });
+
+    test('should start a new window at the tier allowance once the old one has ended', async () => {
+      const resetAt = new Date(Date.now() - 31 * DAY_MS);
+      const stale = recruiter({ apiCallsUsed: 1000, apiCallsLimit: 50, apiCallsResetAt: resetAt, subscriptionTier: SubscriptionTier.PREMIUM });
+      mockedPrisma.recruiterProfile.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.recruiterProfile.findUniqueOrThrow
+        .mockResolvedValueOnce(recruiter({ apiCallsUsed: 0, apiCallsLimit: 10000, apiCallsResetAt: new Date() }))
+        .mockResolvedValueOnce(recruiter({ apiCallsUsed: 1, apiCallsLimit: 10000, apiCallsResetAt: new Date() }));
+
+      const result = await service.consumeApiCall(stale);
+
+      // Reset only if no concurrent request rolled the window first
+      expect(mockedPrisma.recruiterProfile.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: 'recruiter-1', apiCallsResetAt: resetAt },
+        data: { apiCallsUsed: 0, apiCallsLimit: TIER_API_LIMITS[SubscriptionTier.PREMIUM], apiCallsResetAt: expect.any(Date) }
+      });
+      expect(result).toMatchObject({ allowed: true, rateLimit: { limit: 10000, remaining: 9999 } });
+    });
+
+    test('should keep the current window while it is still open', async () => {
+      mockedPrisma.recruiterProfile.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.recruiterProfile.findUniqueOrThrow.mockResolvedValue(recruiter());
+
+      await service.consumeApiCall(recruiter());
+
+      expect(mockedPrisma.recruiterProfile.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockedPrisma.recruiterProfile.updateMany.mock.calls[0][0].data).not.toHaveProperty('apiCallsResetAt');
+    });
+  });
+
+  describe('organization quota', () => {
+    test('should charge members against the pooled organization quota', async () => {
+      mockedPrisma.organizationMember.findUnique.mockResolvedValue({ organization: organization() });
+      mockedPrisma.organization.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.organization.findUniqueOrThrow.mockResolvedValue(organization({ apiCallsUsed: 101 }));
+
+      const result = await service.consumeApiCall(recruiter());
+
+      expect(mockedPrisma.organization.updateMany).toHaveBeenCalledWith({
+        where: { id: 'org-1', apiCallsUsed: { lt: 'organization.apiCallsLimit' } },
+        data: { apiCallsUsed: { increment: 1 } }
+      });
+      // The member's own counter is untouched; only the last-used time is recorded
+      expect(mockedPrisma.recruiterProfile.updateMany).not.toHaveBeenCalled();
+      expect(mockedPrisma.recruiterProfile.update).toHaveBeenCalledWith({
+        where: { id: 'recruiter-1' },
+        data: { apiKeyLastUsedAt: expect.any(Date) }
+      });
+      expect(result).toMatchObject({ allowed: true, rateLimit: { limit: 30000, remaining: 29899 } });
+    });
+
+    test('should refuse members once the pool is used up', async () => {
+      mockedPrisma.organizationMember.findUnique.mockResolvedValue({ organization: organization({ apiCallsUsed: 30000 }) });
+      mockedPrisma.organization.updateMany.mockResolvedValue({ count: 0 });
+      mockedPrisma.organization.findUniqueOrThrow.mockResolvedValue(organization({ apiCallsUsed: 30000 }));
+
+      expect((await service.consumeApiCall(recruiter({ apiCallsUsed: 0 }))).allowed).toBe(false);
+    });
+
+    test('should reset the pool to the allowance for every seat', async () => {
+      const resetAt = new Date(Date.now() - 31 * DAY_MS);
+      mockedPrisma.organizationMember.findUnique.mockResolvedValue({
+        organization: organization({ apiCallsResetAt: resetAt, seatLimit: 5 })
+      });
+      mockedPrisma.organization.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.organization.findUniqueOrThrow.mockResolvedValue(organization({ apiCallsUsed: 0 }));
+
+      await service.consumeApiCall(recruiter());
+
+      expect(mockedPrisma.organization.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: 'org-1', apiCallsResetAt: resetAt },
+        data: {
+          apiCallsUsed: 0,
+          apiCallsLimit: organizationApiLimit(SubscriptionTier.PREMIUM, 5),
+          apiCallsResetAt: expect.any(Date)
+        }
+      });
+    });
+  });
+});
@@ -5,7 +5,7 @@
  */
 
 import * as fc from 'fast-check';
-import { AuthService } from '../auth.service';
+import { AuthService, AuthResponse } from '../auth.service';
 import { ProfileService } from '../profile.service';
 import { prisma } from '../../lib/prisma';
 import { UserType, Platform } from '@prisma/client';
@@ -162,7 +162,7 @@ describe('AuthService Property Tests', () => {
             const loginResult = await AuthService.login({
               email: userData.email,
               password: userData.password
-            });
+            }) as AuthResponse;
             
             // Verify login returns same user data
             expect(loginResult.user.id).toBe(registrationResult.user.id);
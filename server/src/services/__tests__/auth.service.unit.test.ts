@@ -4,7 +4,7 @@
  * Tests: Registration validation, JWT token generation/validation, error cases
  */
 
-import { AuthService } from '../auth.service';
+import { AuthService, AuthResponse } from '../auth.service';
 import { prisma } from '../../lib/prisma';
 import { UserType, Platform } from '@prisma/client';
 
@@ -313,7 +313,7 @@ describe('AuthService Unit Tests', () => {
       const result = await AuthService.login({
         email: 'logintest@example.com',
         password: 'LoginP@ss1'
-      });
+      }) as AuthResponse;
 
       expect(result.user.email).toBe('logintest@example.com');
       expect(result.user.name).toBe('Login Test User');
@@ -342,7 +342,7 @@ describe('AuthService Unit Tests', () => {
       const result1 = await AuthService.login({
         email: 'logintest@example.com',
         password: 'LoginP@ss1'
-      });
+      }) as AuthResponse;
 
       // Small delay to ensure different token timestamp
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -350,10 +350,40 @@ describe('AuthService Unit Tests', () => {
       const result2 = await AuthService.login({
         email: 'logintest@example.com',
         password: 'LoginP@ss1'
-      });
+      }) as AuthResponse;
 
       expect(result1.token).not.toBe(result2.token);
     });
+
+    test('should lock the account after repeated failed logins', async () => {
+      for (let i = 0; i < 5; i++) {
+        await expect(
+          AuthService.login({ email: 'logintest@example.com', password: 'WrongP@ss1' })
+        ).rejects.toThrow('Invalid email or password');
+      }
+
+      // Even the correct password is refused while locked
+      await expect(
+        AuthService.login({ email: 'logintest@example.com', password: 'LoginP@ss1' })
+      ).rejects.toThrow('Account temporarily locked');
+
+      const lockedUntil = await AuthService.getLoginLockout('logintest@example.com');
+      expect(lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    test('should reset failed attempts after a successful login', async () => {
+      for (let i = 0; i < 3; i++) {
+        await expect(
+          AuthService.login({ email: 'logintest@example.com', password: 'WrongP@ss1' })
+        ).rejects.toThrow('Invalid email or password');
+      }
+
+      await AuthService.login({ email: 'logintest@example.com', password: 'LoginP@ss1' });
+
+      const user = await prisma.user.findUnique({ where: { email: 'logintest@example.com' } });
+      expect(user?.failedLoginAttempts).toBe(0);
+      expect(user?.lockedUntil).toBeNull();
+    });
   });
 
   describe('Get User By ID', () => {
@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for Score Cohorts
+ * Tests: Cohort membership, percentile ranks, materialized cohort refresh
+ */
+
+import { Platform } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { CohortService, cohortAttributes, cohortsFor, percentileOf } from '../cohort.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    candidateProfile: { findMany: jest.fn() },
+    scoreCohort: { findMany: jest.fn(), deleteMany: jest.fn(), createMany: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  candidateProfile: { findMany: jest.Mock };
+  scoreCohort: { findMany: jest.Mock; deleteMany: jest.Mock; createMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const histogramOf = (scores: number[]) => {
+  const histogram = new Array(101).fill(0);
+  scores.forEach(score => histogram[score]++);
+  return histogram;
+};
+
+const publicCandidate = (id: string, score: number, location: string | null, topLanguage: string) => ({
+  id,
+  location,
+  candidateScores: [{ compositeScore: score }],
+  platformData: [{ platform: Platform.GITHUB, rawData: { breakdown: { topLanguage } } }]
+});
+
+describe('Cohort membership', () => {
+  test('should place candidates by primary language, city and experience band', () => {
+    const attributes = cohortAttributes('Berlin, Germany', [
+      { platform: Platform.GITHUB, rawData: { breakdown: { topLanguage: 'TypeScript' } } },
+      { platform: Platform.LINKEDIN, rawData: { breakdown: { yearsOfExperience: 4.5 } } }
+    ]);
+
+    expect(cohortsFor(attributes)).toEqual([
+      { type: 'all', key: 'all', label: 'All candidates' },
+      { type: 'language', key: 'typescript', label: 'TypeScript' },
+      { type: 'location', key: 'berlin', label: 'Berlin' },
+      { type: 'experience', key: '3-5', label: '3-5 years' }
+    ]);
+  });
+
+  test('should only use the all-candidates cohort without metrics or location', () => {
+    expect(cohortsFor(cohortAttributes(null, []))).toEqual([{ type: 'all', key: 'all', label: 'All candidates' }]);
+  });
+
+  test('should rank a score against the share of the cohort below it', () => {
+    const histogram = histogramOf([40, 50, 60, 70]);
+
+    expect(percentileOf(histogram, 65)).toBe(75);
+    expect(percentileOf(histogram, 40)).toBe(0);
+    expect(percentileOf(new Array(101).fill(0), 50)).toBe(100);
+  });
+});
+
+describe('CohortService', () => {
+  let service: CohortService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new CohortService();
+  });
+
+  test('should look up percentiles for a page of candidates at once', async () => {
+    mockedPrisma.scoreCohort.findMany.mockResolvedValue([
+      { type: 'all', key: 'all', label: 'All candidates', sampleSize: 4, averageScore: 55, histogram: histogramOf([40, 50, 60, 70]) },
+      { type: 'language', key: 'go', label: 'Go', sampleSize: 2, averageScore: 65, histogram: histogramOf([60, 70]) }
+    ]);
+
+    const [first, second] = await service.getPercentilesForMany([
+      { attributes: { location: null, primaryLanguage: 'Go', yearsOfExperience: null }, score: 65 },
+      // Rust has too few candidates to be published
+      { attributes: { location: null, primaryLanguage: 'Rust', yearsOfExperience: null }, score: 45 }
+    ]);
+
+    expect(mockedPrisma.scoreCohort.findMany).toHaveBeenCalledTimes(1);
+    expect(first).toEqual([
+      { type: 'all', key: 'all', label: 'All candidates', percentile: 75, sampleSize: 4, averageScore: 55 },
+      { type: 'language', key: 'go', label: 'Go', percentile: 50, sampleSize: 2, averageScore: 65 }
+    ]);
+    expect(second.map(p => p.type)).toEqual(['all']);
+  });
+
+  test('should rebuild distributions and drop cohorts below the minimum size', async () => {
+    mockedPrisma.candidateProfile.findMany.mockResolvedValue([
+      ...[50, 60, 70, 80, 90].map((score, index) => publicCandidate(`ts-${index}`, score, 'Berlin', 'TypeScript')),
+      publicCandidate('go-1', 40, 'Berlin', 'Go')
+    ]);
+
+    const result = await service.refreshCohorts();
+    const data = mockedPrisma.scoreCohort.createMany.mock.calls[0][0].data as {
+      type: string; key: string; sampleSize: number; averageScore: number; histogram: number[]; topCandidateIds: string[];
+    }[];
+
+    expect(result).toEqual({ candidates: 6, cohorts: 3 });
+    expect(data.map(row => `${row.type}:${row.key}`)).toEqual(['all:all', 'language:typescript', 'location:berlin']);
+    expect(data[0]).toMatchObject({ sampleSize: 6, averageScore: 65, topCandidateIds: ['ts-4', 'ts-3', 'ts-2'] });
+    expect(data[1].histogram[70]).toBe(1);
+    expect(mockedPrisma.scoreCohort.deleteMany).toHaveBeenCalledWith({});
+    expect(mockedPrisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+});
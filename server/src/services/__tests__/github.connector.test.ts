@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for the GitHub Connector
+ * Tests: Verification token lookup in the bio and public gists
+ */
+
+import { GitHubConnector } from '../connectors/github.connector';
+
+jest.mock('../../lib/prisma', () => ({ prisma: {} }));
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+const profileResponse = (bio: string | null) => json({
+  login: 'octocat',
+  name: null,
+  bio,
+  avatar_url: '',
+  html_url: '',
+  public_repos: 0,
+  followers: 0,
+  following: 0,
+  created_at: '2020-01-01T00:00:00Z',
+  updated_at: '2020-01-01T00:00:00Z'
+});
+
+const gist = (files: Record<string, number>, description: string | null = null) => ({
+  description,
+  files: Object.fromEntries(Object.entries(files).map(([filename, size]) => [
+    filename,
+    { filename, size, raw_url: `https://gist.githubusercontent.com/octocat/${filename}` }
+  ]))
+});
+
+describe('GitHubConnector', () => {
+  let fetchMock: jest.SpyInstance;
+  let connector: GitHubConnector;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+    connector = new GitHubConnector();
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  describe('hasVerificationToken', () => {
+    test('should find the token in the bio without reading gists', async () => {
+      fetchMock.mockResolvedValueOnce(profileResponse('dd-verify-123'));
+
+      expect(await connector.hasVerificationToken('octocat', 'dd-verify-123')).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test('should escape the username in API paths', async () => {
+      fetchMock
+        .mockResolvedValueOnce(profileResponse(null))
+        .mockResolvedValueOnce(json([]));
+
+      await connector.hasVerificationToken('octo/../cat?x=1', 'dd-verify-123');
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.github.com/users/octo%2F..%2Fcat%3Fx%3D1',
+        'https://api.github.com/users/octo%2F..%2Fcat%3Fx%3D1/gists?per_page=10'
+      ]);
+    });
+
+    test('should only download small gist files, with a timeout', async () => {
+      fetchMock
+        .mockResolvedValueOnce(profileResponse(null))
+        .mockResolvedValueOnce(json([gist({ 'huge.bin': 50 * 1024 * 1024, 'verify.txt': 20 })]))
+        .mockResolvedValueOnce(new Response('token: dd-verify-123'));
+
+      expect(await connector.hasVerificationToken('octocat', 'dd-verify-123')).toBe(true);
+
+      const downloads = fetchMock.mock.calls.slice(2);
+      expect(downloads).toHaveLength(1);
+      expect(downloads[0][0]).toBe('https://gist.githubusercontent.com/octocat/verify.txt');
+      expect(downloads[0][1].signal).toBeInstanceOf(AbortSignal);
+    });
+
+    test('should stop reading a file whose reported size was wrong', async () => {
+      fetchMock
+        .mockResolvedValueOnce(profileResponse(null))
+        .mockResolvedValueOnce(json([gist({ 'notes.txt': 10 })]))
+        .mockResolvedValueOnce(new Response(`${'x'.repeat(64 * 1024)}dd-verify-123`));
+
+      expect(await connector.hasVerificationToken('octocat', 'dd-verify-123')).toBe(false);
+    });
+
+    test('should treat unreadable gist files as not containing the token', async () => {
+      fetchMock
+        .mockResolvedValueOnce(profileResponse(null))
+        .mockResolvedValueOnce(json([gist({ 'slow.txt': 10 })]))
+        .mockRejectedValueOnce(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+
+      expect(await connector.hasVerificationToken('octocat', 'dd-verify-123')).toBe(false);
+    });
+  });
+});
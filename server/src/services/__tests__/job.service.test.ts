@@ -0,0 +1,157 @@
+/**
+ * Unit Tests for the Background Job Queue
+ * Tests: Job claiming, retry backoff, lock-guarded completion, stale lock recovery
+ */
+
+import { Job as PrismaJob } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { JobQueueService, backoffDelay } from '../job.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    job: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      fields: { maxAttempts: 'maxAttempts' }
+    }
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  job: { findFirst: jest.Mock; findUnique: jest.Mock; updateMany: jest.Mock };
+};
+
+const jobRow = (overrides: Partial<PrismaJob> = {}): PrismaJob => ({
+  id: 'job-1',
+  type: 'data-refresh',
+  payload: { candidateId: 'candidate-1' },
+  status: 'processing',
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: new Date('2026-10-01T00:00:00Z'),
+  lockedAt: new Date(),
+  lockedBy: 'worker-a',
+  lastError: null,
+  result: null,
+  userId: null,
+  dedupeKey: null,
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+  updatedAt: new Date('2026-10-01T00:00:00Z'),
+  completedAt: null,
+  ...overrides
+});
+
+describe('backoffDelay', () => {
+  test('should double the delay after each failure up to an hour', () => {
+    expect(backoffDelay(1)).toBe(30 * 1000);
+    expect(backoffDelay(2)).toBe(60 * 1000);
+    expect(backoffDelay(3)).toBe(120 * 1000);
+    expect(backoffDelay(20)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe('JobQueueService', () => {
+  let service: JobQueueService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new JobQueueService();
+  });
+
+  describe('claimNextJob', () => {
+    test('should lock the next due job for the worker', async () => {
+      mockedPrisma.job.findFirst.mockResolvedValue(jobRow({ status: 'pending', attempts: 0, lockedBy: null }));
+      mockedPrisma.job.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.job.findUnique.mockResolvedValue(jobRow());
+
+      const job = await service.claimNextJob('worker-a');
+
+      expect(job?.lockedBy).toBe('worker-a');
+      expect(mockedPrisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'pending' },
+        data: expect.objectContaining({ status: 'processing', lockedBy: 'worker-a', attempts: { increment: 1 } })
+      });
+    });
+
+    test('should move on when another worker claims the row first', async () => {
+      mockedPrisma.job.findFirst
+        .mockResolvedValueOnce(jobRow({ id: 'job-1', status: 'pending' }))
+        .mockResolvedValueOnce(jobRow({ id: 'job-2', status: 'pending' }));
+      mockedPrisma.job.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+      mockedPrisma.job.findUnique.mockResolvedValue(jobRow({ id: 'job-2' }));
+
+      const job = await service.claimNextJob('worker-a');
+
+      expect(job?.id).toBe('job-2');
+      expect(mockedPrisma.job.findUnique).toHaveBeenCalledWith({ where: { id: 'job-2' } });
+    });
+
+    test('should return null when no job is due', async () => {
+      mockedPrisma.job.findFirst.mockResolvedValue(null);
+
+      expect(await service.claimNextJob('worker-a')).toBeNull();
+      expect(mockedPrisma.job.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('failJob', () => {
+    test('should requeue with backoff while attempts remain', async () => {
+      mockedPrisma.job.updateMany.mockResolvedValue({ count: 1 });
+      const before = Date.now();
+
+      await service.failJob(jobRow({ attempts: 2 }), 'worker-a', 'boom');
+
+      const { data } = mockedPrisma.job.updateMany.mock.calls[0][0];
+      expect(data).toMatchObject({ status: 'pending', completedAt: null, lockedBy: null, lastError: 'boom' });
+      expect(data.runAt.getTime()).toBeGreaterThanOrEqual(before + backoffDelay(2));
+    });
+
+    test('should fail the job once attempts run out', async () => {
+      mockedPrisma.job.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.failJob(jobRow({ attempts: 3 }), 'worker-a', 'boom');
+
+      expect(mockedPrisma.job.updateMany.mock.calls[0][0].data).toMatchObject({ status: 'failed', lastError: 'boom' });
+    });
+  });
+
+  describe('lock ownership', () => {
+    test('should only record outcomes for the worker holding the lock', async () => {
+      mockedPrisma.job.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.completeJob('job-1', 'worker-a', { ok: true });
+      await service.failJob(jobRow(), 'worker-a', 'boom');
+
+      for (const [args] of mockedPrisma.job.updateMany.mock.calls) {
+        expect(args.where).toEqual({ id: 'job-1', lockedBy: 'worker-a', status: 'processing' });
+      }
+    });
+
+    test('should report when a reclaimed lock discarded the outcome', async () => {
+      mockedPrisma.job.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await service.completeJob('job-1', 'worker-a', { ok: true })).toBe(false);
+      expect(await service.failJob(jobRow(), 'worker-a', 'boom')).toBe(false);
+    });
+  });
+
+  describe('releaseStaleLocks', () => {
+    test('should fail exhausted jobs and requeue the rest', async () => {
+      mockedPrisma.job.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 2 });
+
+      expect(await service.releaseStaleLocks()).toBe(3);
+
+      const [failed, released] = mockedPrisma.job.updateMany.mock.calls.map(([args]) => args);
+      expect(failed.where).toMatchObject({ status: 'processing', attempts: { gte: 'maxAttempts' } });
+      expect(failed.data).toMatchObject({ status: 'failed', lockedBy: null });
+      expect(released.where).toMatchObject({ status: 'processing', lockedAt: { lt: expect.any(Date) } });
+      expect(released.where.attempts).toBeUndefined();
+      expect(released.data).toMatchObject({ status: 'pending', lockedBy: null });
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for Candidate-Recruiter Messaging
+ * Tests: Contact consent, request answers, open threads, notifications
+ */
+
+import { ConversationStatus, Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { messagingService } from '../messaging.service';
+import { notificationService } from '../notification.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+    recruiterProfile: { findUnique: jest.fn() },
+    candidateProfile: { findFirst: jest.fn(), count: jest.fn() },
+    conversation: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    },
+    directMessage: { create: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock };
+  recruiterProfile: { findUnique: jest.Mock };
+  candidateProfile: { findFirst: jest.Mock; count: jest.Mock };
+  conversation: Record<'findUnique' | 'findFirst' | 'create' | 'update' | 'updateMany', jest.Mock>;
+  directMessage: { create: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const conversation = (status: ConversationStatus) => ({
+  id: 'conversation-1',
+  candidateId: 'candidate-1',
+  recruiterId: 'recruiter-1',
+  status,
+  createdAt: new Date(),
+  lastMessageAt: new Date(),
+  candidate: { userId: 'candidate-user', user: { name: 'Ada' } },
+  recruiter: { userId: 'recruiter-user', company: 'Acme', user: { name: 'Grace' } }
+});
+
+const asCandidate = () => mockedPrisma.user.findUnique.mockResolvedValue({
+  candidateProfile: { id: 'candidate-1' },
+  recruiterProfile: null
+});
+
+const asRecruiter = () => mockedPrisma.user.findUnique.mockResolvedValue({
+  candidateProfile: null,
+  recruiterProfile: { id: 'recruiter-1' }
+});
+
+describe('MessagingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(notificationService, 'notifyContactRequest').mockResolvedValue({} as never);
+    jest.spyOn(notificationService, 'notifyContactRequestAnswered').mockResolvedValue({} as never);
+    jest.spyOn(notificationService, 'notifyNewMessage').mockResolvedValue({} as never);
+    mockedPrisma.recruiterProfile.findUnique.mockResolvedValue({ id: 'recruiter-1', company: 'Acme', user: { name: 'Grace' } });
+  });
+
+  describe('Contact requests', () => {
+    test('should only reach public candidates who are open to opportunities', async () => {
+      mockedPrisma.candidateProfile.findFirst.mockResolvedValue(null);
+
+      await expect(messagingService.sendContactRequest('recruiter-user', 'candidate-1', 'Hello'))
+        .rejects.toThrow('Candidate is not accepting contact requests');
+      expect(mockedPrisma.candidateProfile.findFirst.mock.calls[0][0].where).toMatchObject({
+        isPublic: true,
+        openToOpportunities: true,
+        user: { suspendedAt: null, deletionScheduledFor: null }
+      });
+      expect(mockedPrisma.conversation.create).not.toHaveBeenCalled();
+    });
+
+    test('should not send a second request to the same candidate', async () => {
+      mockedPrisma.candidateProfile.findFirst.mockResolvedValue({ id: 'candidate-1', userId: 'candidate-user' });
+      mockedPrisma.conversation.findUnique.mockResolvedValue(conversation(ConversationStatus.DECLINED));
+
+      await expect(messagingService.sendContactRequest('recruiter-user', 'candidate-1', 'Hello again'))
+        .rejects.toThrow('Contact request already sent');
+    });
+
+    test('should report a request that raced another one for the same candidate as already sent', async () => {
+      mockedPrisma.candidateProfile.findFirst.mockResolvedValue({ id: 'candidate-1', userId: 'candidate-user' });
+      mockedPrisma.conversation.findUnique.mockResolvedValue(null);
+      mockedPrisma.conversation.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+
+      await expect(messagingService.sendContactRequest('recruiter-user', 'candidate-1', 'Hello'))
+        .rejects.toThrow('Contact request already sent');
+      expect(notificationService.notifyContactRequest).not.toHaveBeenCalled();
+    });
+
+    test('should open a pending conversation and notify the candidate', async () => {
+      mockedPrisma.candidateProfile.findFirst.mockResolvedValue({ id: 'candidate-1', userId: 'candidate-user' });
+      mockedPrisma.conversation.findUnique.mockResolvedValue(null);
+      mockedPrisma.conversation.create.mockResolvedValue({
+        ...conversation(ConversationStatus.PENDING),
+        messages: [{ id: 'message-1', senderId: 'recruiter-user', body: 'Hello', readAt: null, createdAt: new Date() }]
+      });
+
+      const result = await messagingService.sendContactRequest('recruiter-user', 'candidate-1', 'Hello');
+
+      expect(result.status).toBe(ConversationStatus.PENDING);
+      expect(result.counterpart).toEqual({ name: 'Ada', company: null });
+      expect(result.messages[0].fromMe).toBe(true);
+      expect(notificationService.notifyContactRequest).toHaveBeenCalledWith('candidate-user', 'conversation-1', 'Grace', 'Acme');
+    });
+  });
+
+  describe('Answering requests', () => {
+    test('should not let the recruiter answer their own request', async () => {
+      asRecruiter();
+      mockedPrisma.conversation.findFirst.mockResolvedValue(conversation(ConversationStatus.PENDING));
+
+      await expect(messagingService.respondToRequest('recruiter-user', 'conversation-1', true))
+        .rejects.toThrow('Only the candidate can answer a contact request');
+      expect(mockedPrisma.conversation.updateMany).not.toHaveBeenCalled();
+    });
+
+    test('should answer a request only once', async () => {
+      asCandidate();
+      mockedPrisma.conversation.findFirst.mockResolvedValue(conversation(ConversationStatus.PENDING));
+      mockedPrisma.conversation.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(messagingService.respondToRequest('candidate-user', 'conversation-1', true))
+        .rejects.toThrow('Contact request already answered');
+      expect(mockedPrisma.conversation.updateMany.mock.calls[0][0].where).toEqual({
+        id: 'conversation-1',
+        status: ConversationStatus.PENDING
+      });
+      expect(notificationService.notifyContactRequestAnswered).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Messages', () => {
+    test('should not allow messages before the candidate accepts', async () => {
+      asRecruiter();
+      mockedPrisma.conversation.findFirst.mockResolvedValue(conversation(ConversationStatus.PENDING));
+
+      await expect(messagingService.sendMessage('recruiter-user', 'conversation-1', 'Following up'))
+        .rejects.toThrow('Conversation is not open');
+      expect(mockedPrisma.directMessage.create).not.toHaveBeenCalled();
+    });
+
+    test('should stop recruiters writing once the candidate withdraws consent', async () => {
+      asRecruiter();
+      mockedPrisma.conversation.findFirst.mockResolvedValue(conversation(ConversationStatus.ACCEPTED));
+      mockedPrisma.candidateProfile.count.mockResolvedValue(0);
+
+      await expect(messagingService.sendMessage('recruiter-user', 'conversation-1', 'Still there?'))
+        .rejects.toThrow('Candidate is not accepting messages');
+      expect(mockedPrisma.candidateProfile.count.mock.calls[0][0].where).toEqual({
+        id: 'candidate-1',
+        isPublic: true,
+        openToOpportunities: true,
+        user: { suspendedAt: null, deletionScheduledFor: null }
+      });
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    test('should notify the other participant of each message', async () => {
+      asCandidate();
+      mockedPrisma.conversation.findFirst.mockResolvedValue(conversation(ConversationStatus.ACCEPTED));
+      mockedPrisma.$transaction.mockResolvedValue([
+        { id: 'message-2', senderId: 'candidate-user', body: 'Happy to chat', readAt: null, createdAt: new Date() },
+        {}
+      ]);
+
+      const message = await messagingService.sendMessage('candidate-user', 'conversation-1', 'Happy to chat');
+
+      expect(message.fromMe).toBe(true);
+      expect(notificationService.notifyNewMessage).toHaveBeenCalledWith('recruiter-user', 'conversation-1', 'Ada', 'Happy to chat');
+    });
+
+    test('should hide conversations with departing candidates from recruiters', async () => {
+      asRecruiter();
+      mockedPrisma.conversation.findFirst.mockResolvedValue(null);
+
+      await expect(messagingService.getConversation('recruiter-user', 'conversation-1'))
+        .rejects.toThrow('Conversation not found');
+      expect(mockedPrisma.conversation.findFirst.mock.calls[0][0].where).toEqual({
+        id: 'conversation-1',
+        recruiterId: 'recruiter-1',
+        candidate: { user: { deletionScheduledFor: null } }
+      });
+    });
+  });
+});
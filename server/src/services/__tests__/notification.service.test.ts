@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for Persisted Notifications
+ * Tests: Creation, per-user reads and updates, score update notifications, retention pruning
+ */
+
+import { prisma } from '../../lib/prisma';
+import { NotificationService, NotificationType } from '../notification.service';
+import { ScoreUpdateResult } from '../aggregation.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    notification: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+      count: jest.fn()
+    }
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  notification: { create: jest.Mock; findMany: jest.Mock; updateMany: jest.Mock; deleteMany: jest.Mock; count: jest.Mock };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const notificationRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'notification-1',
+  userId: 'user-1',
+  type: NotificationType.SCORE_UPDATE,
+  title: 'Title',
+  message: 'Message',
+  data: null,
+  read: false,
+  readAt: null,
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+  ...overrides
+});
+
+const scoreResult = (previousScore: number | null, currentScore: number): ScoreUpdateResult => ({
+  previous: previousScore === null ? null : { overallScore: previousScore },
+  current: {
+    overallScore: currentScore,
+    breakdown: { platformsConnected: ['github'] },
+    recommendations: ['a', 'b', 'c', 'd']
+  },
+  changed: previousScore !== currentScore,
+  changeAmount: currentScore - (previousScore ?? 0)
+} as unknown as ScoreUpdateResult);
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new NotificationService();
+    mockedPrisma.notification.create.mockImplementation(({ data }) => Promise.resolve(notificationRow(data)));
+  });
+
+  describe('createNotification', () => {
+    test('should store the notification and return the public shape', async () => {
+      const notification = await service.createNotification('user-1', NotificationType.NEW_MESSAGE, 'Hi', 'New message', {
+        conversationId: 'conversation-1'
+      });
+
+      expect(mockedPrisma.notification.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          type: NotificationType.NEW_MESSAGE,
+          title: 'Hi',
+          message: 'New message',
+          data: { conversationId: 'conversation-1' }
+        }
+      });
+      expect(notification).toMatchObject({ userId: 'user-1', read: false, data: { conversationId: 'conversation-1' } });
+      expect(notification).not.toHaveProperty('readAt');
+    });
+  });
+
+  describe('reading notifications', () => {
+    test('should list a user\'s notifications newest first', async () => {
+      mockedPrisma.notification.findMany.mockResolvedValue([notificationRow()]);
+
+      const notifications = await service.getNotifications('user-1', 10, true, 20);
+
+      expect(notifications).toHaveLength(1);
+      expect(mockedPrisma.notification.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', read: false },
+        orderBy: { createdAt: 'desc' },
+        skip: 20,
+        take: 10
+      });
+    });
+
+    test('should only mark or delete notifications owned by the user', async () => {
+      mockedPrisma.notification.updateMany.mockResolvedValue({ count: 0 });
+      mockedPrisma.notification.deleteMany.mockResolvedValue({ count: 0 });
+
+      expect(await service.markAsRead('user-2', 'notification-1')).toBe(false);
+      expect(await service.deleteNotification('user-2', 'notification-1')).toBe(false);
+
+      expect(mockedPrisma.notification.updateMany).toHaveBeenCalledWith({
+        where: { id: 'notification-1', userId: 'user-2' },
+        data: { read: true, readAt: expect.any(Date) }
+      });
+      expect(mockedPrisma.notification.deleteMany).toHaveBeenCalledWith({ where: { id: 'notification-1', userId: 'user-2' } });
+    });
+
+    test('should mark every unread notification as read', async () => {
+      mockedPrisma.notification.updateMany.mockResolvedValue({ count: 3 });
+
+      expect(await service.markAllAsRead('user-1')).toBe(3);
+      expect(mockedPrisma.notification.updateMany.mock.calls[0][0].where).toEqual({ userId: 'user-1', read: false });
+    });
+  });
+
+  describe('notifyScoreUpdate', () => {
+    test('should store an improvement with the top recommendations', async () => {
+      const notification = await service.notifyScoreUpdate('user-1', scoreResult(60, 72));
+
+      expect(notification).toMatchObject({
+        type: NotificationType.SCORE_IMPROVEMENT,
+        data: { previousScore: 60, currentScore: 72, changeAmount: 12, recommendations: ['a', 'b', 'c'] }
+      });
+    });
+
+    test('should store declines as their own type', async () => {
+      const notification = await service.notifyScoreUpdate('user-1', scoreResult(72, 60));
+
+      expect(notification?.type).toBe(NotificationType.SCORE_DECLINE);
+    });
+
+    test('should not notify when the score did not change', async () => {
+      expect(await service.notifyScoreUpdate('user-1', scoreResult(60, 60))).toBeNull();
+      expect(mockedPrisma.notification.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pruneNotifications', () => {
+    test('should drop read notifications sooner than unread ones', async () => {
+      mockedPrisma.notification.deleteMany.mockResolvedValue({ count: 5 });
+      const now = Date.now();
+
+      expect(await service.pruneNotifications(30, 90)).toBe(5);
+
+      const [readCutoff, unreadCutoff] = mockedPrisma.notification.deleteMany.mock.calls[0][0].where.OR;
+      expect(readCutoff.read).toBe(true);
+      expect(now - readCutoff.createdAt.lt.getTime()).toBeGreaterThanOrEqual(30 * DAY_MS);
+      expect(now - readCutoff.createdAt.lt.getTime()).toBeLessThan(31 * DAY_MS);
+      expect(unreadCutoff).not.toHaveProperty('read');
+      expect(now - unreadCutoff.createdAt.lt.getTime()).toBeGreaterThanOrEqual(90 * DAY_MS);
+    });
+  });
+});
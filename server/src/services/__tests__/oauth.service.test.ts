@@ -0,0 +1,194 @@
+/**
+ * Unit Tests for OAuth Service
+ * Tests: Identity lookup, registration, email-based linking, verified platform connections
+ */
+
+import { Platform, UserType } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { AuthService } from '../auth.service';
+import { jobQueue } from '../job.service';
+import { oauthService, OAuthProfile, OAuthProvider } from '../oauth.service';
+import { toOAuthProfile } from '../oauth.strategies';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+    oAuthIdentity: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+    candidateProfile: { findUnique: jest.fn() },
+    platformConnection: { upsert: jest.fn() },
+    twoFactorChallenge: { create: jest.fn(), deleteMany: jest.fn() }
+  }
+}));
+
+jest.mock('../job.service', () => ({
+  jobQueue: { scheduleDataRefresh: jest.fn() }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+  oAuthIdentity: { findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+  candidateProfile: { findUnique: jest.Mock };
+  platformConnection: { upsert: jest.Mock };
+  twoFactorChallenge: { create: jest.Mock; deleteMany: jest.Mock };
+};
+const mockedJobQueue = jobQueue as jest.Mocked<typeof jobQueue>;
+
+const githubProfile: OAuthProfile = {
+  provider: OAuthProvider.GITHUB,
+  providerUserId: '583231',
+  email: 'octocat@example.com',
+  emailVerified: true,
+  name: 'The Octocat',
+  username: 'octocat',
+  profileUrl: 'https://github.com/octocat'
+};
+
+const makeUser = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  email: 'octocat@example.com',
+  name: 'The Octocat',
+  userType: UserType.CANDIDATE,
+  emailVerifiedAt: new Date(),
+  suspendedAt: null,
+  ...overrides
+});
+
+describe('OAuthService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(AuthService, 'issueSession').mockImplementation(async user => ({
+      user: { id: user.id, email: user.email, name: user.name, userType: user.userType, emailVerified: true },
+      token: 'access-token',
+      refreshToken: 'refresh-token',
+      refreshTokenExpiresAt: new Date()
+    }));
+    mockedPrisma.candidateProfile.findUnique.mockResolvedValue({ id: 'candidate-1', platformConnections: [] });
+  });
+
+  test('should log in a user with a linked identity', async () => {
+    mockedPrisma.oAuthIdentity.findUnique.mockResolvedValue({ id: 'identity-1', user: makeUser() });
+
+    const result = await oauthService.signIn(githubProfile);
+
+    expect(result.isNewUser).toBe(false);
+    expect(result).toMatchObject({ user: { id: 'user-1' } });
+    expect(mockedPrisma.user.create).not.toHaveBeenCalled();
+    expect(mockedPrisma.oAuthIdentity.create).not.toHaveBeenCalled();
+  });
+
+  test('should register a candidate with a verified GitHub connection', async () => {
+    mockedPrisma.oAuthIdentity.findUnique.mockResolvedValue(null);
+    mockedPrisma.user.findUnique.mockResolvedValue(null);
+    mockedPrisma.user.create.mockResolvedValue(makeUser());
+
+    const result = await oauthService.signIn(githubProfile);
+
+    expect(result.isNewUser).toBe(true);
+    expect(mockedPrisma.user.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        email: 'octocat@example.com',
+        userType: UserType.CANDIDATE,
+        emailVerifiedAt: expect.any(Date),
+        candidateProfile: { create: { isPublic: false } }
+      })
+    });
+    expect(mockedPrisma.oAuthIdentity.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', provider: 'github', providerUserId: '583231' })
+    });
+    expect(mockedPrisma.platformConnection.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: { candidateId: 'candidate-1', platform: Platform.GITHUB, username: 'octocat', isVerified: true, verifiedAt: expect.any(Date) },
+      update: { username: 'octocat', isVerified: true, verifiedAt: expect.any(Date) }
+    }));
+    expect(mockedJobQueue.scheduleDataRefresh).toHaveBeenCalledWith('candidate-1');
+  });
+
+  test('should link to an existing account when the provider verified the email', async () => {
+    mockedPrisma.oAuthIdentity.findUnique.mockResolvedValue(null);
+    mockedPrisma.user.findUnique.mockResolvedValue(makeUser({ id: 'existing-user' }));
+
+    const result = await oauthService.signIn(githubProfile);
+
+    expect(result.isNewUser).toBe(false);
+    expect(mockedPrisma.user.create).not.toHaveBeenCalled();
+    expect(mockedPrisma.oAuthIdentity.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'existing-user' })
+    });
+  });
+
+  test('should not link on an email the provider has not verified', async () => {
+    mockedPrisma.oAuthIdentity.findUnique.mockResolvedValue(null);
+    mockedPrisma.user.findUnique.mockResolvedValue(makeUser());
+
+    await expect(oauthService.signIn({ ...githubProfile, emailVerified: false })).rejects.toThrow('Email already registered');
+    expect(mockedPrisma.oAuthIdentity.create).not.toHaveBeenCalled();
+  });
+
+  test('should not create platform connections for recruiters or Google', async () => {
+    mockedPrisma.oAuthIdentity.findUnique.mockResolvedValue({ id: 'identity-1', user: makeUser({ userType: UserType.RECRUITER }) });
+    await oauthService.signIn(githubProfile);
+
+    mockedPrisma.oAuthIdentity.findUnique.mockResolvedValue({ id: 'identity-2', user: makeUser() });
+    await oauthService.signIn({ ...githubProfile, provider: OAuthProvider.GOOGLE, username: null });
+
+    expect(mockedPrisma.platformConnection.upsert).not.toHaveBeenCalled();
+  });
+
+  test('should ask for the second factor when two-factor authentication is enabled', async () => {
+    mockedPrisma.oAuthIdentity.findUnique.mockResolvedValue({ id: 'identity-1', user: makeUser({ twoFactorEnabledAt: new Date() }) });
+
+    const result = await oauthService.signIn(githubProfile);
+
+    expect(result).toMatchObject({ twoFactorRequired: true, challengeToken: expect.any(String) });
+    expect(mockedPrisma.twoFactorChallenge.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: makeUser().id })
+    });
+    expect(AuthService.issueSession).not.toHaveBeenCalled();
+  });
+
+  test('should refuse suspended accounts', async () => {
+    mockedPrisma.oAuthIdentity.findUnique.mockResolvedValue({ id: 'identity-1', user: makeUser({ suspendedAt: new Date() }) });
+
+    await expect(oauthService.signIn(githubProfile)).rejects.toThrow('Account suspended');
+    expect(AuthService.issueSession).not.toHaveBeenCalled();
+    expect(mockedPrisma.oAuthIdentity.update).not.toHaveBeenCalled();
+  });
+
+  test('should not link a new identity to a suspended account', async () => {
+    mockedPrisma.oAuthIdentity.findUnique.mockResolvedValue(null);
+    mockedPrisma.user.findUnique.mockResolvedValue(makeUser({ suspendedAt: new Date() }));
+
+    await expect(oauthService.signIn(githubProfile)).rejects.toThrow('Account suspended');
+    expect(mockedPrisma.oAuthIdentity.create).not.toHaveBeenCalled();
+    expect(mockedPrisma.user.create).not.toHaveBeenCalled();
+    expect(mockedPrisma.platformConnection.upsert).not.toHaveBeenCalled();
+  });
+
+  test('should refuse to link an identity owned by another user', async () => {
+    mockedPrisma.user.findUnique.mockResolvedValue(makeUser({ id: 'user-2' }));
+    mockedPrisma.oAuthIdentity.findUnique
+      .mockResolvedValueOnce({ id: 'identity-1', userId: 'user-1', providerUserId: '583231' })
+      .mockResolvedValueOnce(null);
+
+    await expect(oauthService.linkIdentity('user-2', githubProfile)).rejects.toThrow('OAuth account linked to another user');
+  });
+
+  describe('toOAuthProfile', () => {
+    test('should use the primary GitHub email and its verification', () => {
+      const profile = toOAuthProfile(OAuthProvider.GITHUB, {
+        provider: 'github',
+        id: '583231',
+        displayName: 'The Octocat',
+        username: 'octocat',
+        profileUrl: 'https://github.com/octocat',
+        emails: [
+          { value: 'old@example.com', primary: false, verified: true },
+          { value: 'octocat@example.com', primary: true, verified: false }
+        ] as unknown as { value: string }[]
+      });
+
+      expect(profile.email).toBe('octocat@example.com');
+      expect(profile.emailVerified).toBe(false);
+      expect(profile.username).toBe('octocat');
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Unit Tests for Recruiter Organizations
+ * Tests: Roles, seat limits, invitations, ownership transfer, pooled API quota
+ */
+
+import { OrganizationRole, SubscriptionTier } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { organizationService } from '../organization.service';
+import { apiKeyService } from '../api-key.service';
+import { mailService } from '../mail.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    recruiterProfile: { findUnique: jest.fn(), update: jest.fn() },
+    organization: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      fields: { apiCallsLimit: 'apiCallsLimit' }
+    },
+    organizationMember: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    },
+    organizationInvitation: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn()
+    },
+    $transaction: jest.fn()
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  recruiterProfile: { findUnique: jest.Mock; update: jest.Mock };
+  organization: { create: jest.Mock; update: jest.Mock; updateMany: jest.Mock; findUniqueOrThrow: jest.Mock };
+  organizationMember: Record<'findUnique' | 'findFirst' | 'findMany' | 'count' | 'create' | 'update' | 'delete', jest.Mock>;
+  organizationInvitation: Record<'findUnique' | 'findFirst' | 'findMany' | 'count' | 'create' | 'updateMany', jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+const organization = {
+  id: 'org-1',
+  name: 'Acme Talent',
+  subscriptionTier: SubscriptionTier.BASIC,
+  seatLimit: 3,
+  apiCallsUsed: 0,
+  apiCallsLimit: 3000,
+  apiCallsResetAt: new Date()
+};
+
+const membership = (role: OrganizationRole, id = 'member-1') => ({
+  id,
+  organizationId: organization.id,
+  recruiterId: `recruiter-${id}`,
+  role,
+  organization
+});
+
+describe('OrganizationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(mailService, 'sendOrganizationInvitation').mockResolvedValue();
+    mockedPrisma.organizationMember.findMany.mockResolvedValue([]);
+    mockedPrisma.organizationInvitation.findMany.mockResolvedValue([]);
+    mockedPrisma.$transaction.mockImplementation(arg => (typeof arg === 'function' ? arg(prisma) : Promise.all(arg)));
+  });
+
+  describe('Creating', () => {
+    test('should create the organization with the tier seats and pooled quota', async () => {
+      mockedPrisma.recruiterProfile.findUnique.mockResolvedValue({
+        id: 'recruiter-1',
+        subscriptionTier: SubscriptionTier.PREMIUM,
+        user: { email: 'owner@acme.com' }
+      });
+      mockedPrisma.organizationMember.findUnique.mockResolvedValue(null);
+      mockedPrisma.organizationMember.findFirst.mockResolvedValue(membership(OrganizationRole.OWNER));
+
+      await organizationService.createOrganization('user-1', 'Acme Talent');
+
+      expect(mockedPrisma.organization.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Acme Talent',
+          subscriptionTier: SubscriptionTier.PREMIUM,
+          seatLimit: 10,
+          apiCallsLimit: 100000,
+          members: { create: { recruiterId: 'recruiter-1', role: OrganizationRole.OWNER } }
+        }
+      });
+    });
+
+    test('should refuse recruiters who already belong to one', async () => {
+      mockedPrisma.recruiterProfile.findUnique.mockResolvedValue({ id: 'recruiter-1', subscriptionTier: SubscriptionTier.BASIC });
+      mockedPrisma.organizationMember.findUnique.mockResolvedValue(membership(OrganizationRole.MEMBER));
+
+      await expect(organizationService.createOrganization('user-1', 'Second'))
+        .rejects.toThrow('Already a member of an organization');
+    });
+  });
+
+  describe('Invitations', () => {
+    test('should count pending invitations against the seat limit', async () => {
+      mockedPrisma.organizationMember.findFirst
+        .mockResolvedValueOnce(membership(OrganizationRole.OWNER))
+        .mockResolvedValueOnce(null);
+      mockedPrisma.organizationInvitation.findFirst.mockResolvedValue(null);
+      mockedPrisma.organizationMember.count.mockResolvedValue(2);
+      mockedPrisma.organizationInvitation.count.mockResolvedValue(1);
+
+      await expect(organizationService.inviteMember('user-1', 'new@acme.com', OrganizationRole.MEMBER))
+        .rejects.toThrow('No seats available');
+      expect(mockedPrisma.organizationInvitation.create).not.toHaveBeenCalled();
+    });
+
+    test('should store only the token hash and email the token', async () => {
+      mockedPrisma.organizationMember.findFirst
+        .mockResolvedValueOnce(membership(OrganizationRole.ADMIN))
+        .mockResolvedValueOnce(null);
+      mockedPrisma.organizationInvitation.findFirst.mockResolvedValue(null);
+      mockedPrisma.organizationMember.count.mockResolvedValue(1);
+      mockedPrisma.organizationInvitation.count.mockResolvedValue(0);
+      mockedPrisma.organizationInvitation.create.mockImplementation(({ data }) => Promise.resolve({ id: 'inv-1', createdAt: new Date(), ...data }));
+
+      const invitation = await organizationService.inviteMember('user-1', ' New@Acme.com ', OrganizationRole.MEMBER);
+
+      const token = (mailService.sendOrganizationInvitation as jest.Mock).mock.calls[0][2];
+      const stored = mockedPrisma.organizationInvitation.create.mock.calls[0][0].data;
+      expect(invitation.email).toBe('new@acme.com');
+      expect(stored.tokenHash).not.toBe(token);
+      expect(stored.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    test('should not let admins invite other admins', async () => {
+      mockedPrisma.organizationMember.findFirst.mockResolvedValueOnce(membership(OrganizationRole.ADMIN));
+
+      await expect(organizationService.inviteMember('user-1', 'new@acme.com', OrganizationRole.ADMIN))
+        .rejects.toThrow('Insufficient organization permissions');
+    });
+
+    test('should only accept invitations sent to the recruiter\'s email', async () => {
+      mockedPrisma.recruiterProfile.findUnique.mockResolvedValue({ id: 'recruiter-2', user: { email: 'other@acme.com' } });
+      mockedPrisma.organizationInvitation.findUnique.mockResolvedValue({
+        id: 'inv-1',
+        organizationId: organization.id,
+        email: 'new@acme.com',
+        role: OrganizationRole.MEMBER,
+        acceptedAt: null,
+        expiresAt: new Date(Date.now() + 60000),
+        organization
+      });
+
+      await expect(organizationService.acceptInvitation('user-2', 'token'))
+        .rejects.toThrow('Invitation was sent to a different email');
+      expect(mockedPrisma.organizationMember.create).not.toHaveBeenCalled();
+    });
+
+    test('should join the organization once with the invited role', async () => {
+      mockedPrisma.recruiterProfile.findUnique.mockResolvedValue({ id: 'recruiter-2', user: { email: 'New@acme.com' } });
+      mockedPrisma.organizationInvitation.findUnique.mockResolvedValue({
+        id: 'inv-1',
+        organizationId: organization.id,
+        email: 'new@acme.com',
+        role: OrganizationRole.ADMIN,
+        acceptedAt: null,
+        expiresAt: new Date(Date.now() + 60000),
+        organization
+      });
+      mockedPrisma.organizationMember.findUnique.mockResolvedValue(null);
+      mockedPrisma.organizationMember.count.mockResolvedValue(1);
+      mockedPrisma.organizationInvitation.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.organizationMember.findFirst.mockResolvedValue(membership(OrganizationRole.ADMIN, 'member-2'));
+
+      const details = await organizationService.acceptInvitation('user-2', 'token');
+
+      expect(details.role).toBe(OrganizationRole.ADMIN);
+      expect(mockedPrisma.organizationMember.create).toHaveBeenCalledWith({
+        data: { organizationId: organization.id, recruiterId: 'recruiter-2', role: OrganizationRole.ADMIN }
+      });
+    });
+  });
+
+  describe('Members', () => {
+    test('should transfer ownership by demoting the current owner to admin', async () => {
+      mockedPrisma.organizationMember.findFirst
+        .mockResolvedValueOnce(membership(OrganizationRole.OWNER))
+        .mockResolvedValueOnce(membership(OrganizationRole.MEMBER, 'member-2'))
+        .mockResolvedValueOnce(membership(OrganizationRole.ADMIN));
+
+      await organizationService.updateMemberRole('user-1', 'member-2', OrganizationRole.OWNER);
+
+      expect(mockedPrisma.organizationMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-2' },
+        data: { role: OrganizationRole.OWNER }
+      });
+      expect(mockedPrisma.organizationMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-1' },
+        data: { role: OrganizationRole.ADMIN }
+      });
+    });
+
+    test('should not let admins remove other admins or the owner', async () => {
+      mockedPrisma.organizationMember.findFirst
+        .mockResolvedValueOnce(membership(OrganizationRole.ADMIN))
+        .mockResolvedValueOnce(membership(OrganizationRole.ADMIN, 'member-2'));
+
+      await expect(organizationService.removeMember('user-1', 'member-2'))
+        .rejects.toThrow('Insufficient organization permissions');
+
+      mockedPrisma.organizationMember.findFirst
+        .mockResolvedValueOnce(membership(OrganizationRole.ADMIN))
+        .mockResolvedValueOnce(membership(OrganizationRole.OWNER, 'member-3'));
+
+      await expect(organizationService.removeMember('user-1', 'member-3'))
+        .rejects.toThrow('Cannot remove the organization owner');
+      expect(mockedPrisma.organizationMember.delete).not.toHaveBeenCalled();
+    });
+
+    test('should not let the owner leave without transferring ownership', async () => {
+      mockedPrisma.organizationMember.findFirst.mockResolvedValueOnce(membership(OrganizationRole.OWNER));
+
+      await expect(organizationService.leaveOrganization('user-1')).rejects.toThrow('Transfer ownership before leaving');
+    });
+  });
+
+  describe('Pooled API quota', () => {
+    test('should charge members\' API calls to the organization', async () => {
+      mockedPrisma.organizationMember.findUnique.mockResolvedValue(membership(OrganizationRole.MEMBER));
+      mockedPrisma.organization.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.organization.findUniqueOrThrow.mockResolvedValue({ ...organization, apiCallsUsed: 1 });
+
+      const result = await apiKeyService.consumeApiCall({ id: 'recruiter-member-1' } as never);
+
+      expect(result.allowed).toBe(true);
+      expect(result.rateLimit).toMatchObject({ limit: 3000, remaining: 2999 });
+      expect(mockedPrisma.organization.updateMany).toHaveBeenCalledWith({
+        where: { id: organization.id, apiCallsUsed: { lt: 'apiCallsLimit' } },
+        data: { apiCallsUsed: { increment: 1 } }
+      });
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit Tests for Platform Verification Service
+ * Tests: Challenge issuing, token checks through connectors, unverified platform weighting
+ */
+
+import { Platform } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { githubConnector } from '../connectors';
+import { jobQueue } from '../job.service';
+import { platformVerificationService } from '../platform-verification.service';
+import { AggregationService, DigitalProfile, UNVERIFIED_PLATFORM_FACTOR } from '../aggregation.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    candidateProfile: { findUnique: jest.fn(), update: jest.fn() },
+    platformConnection: { update: jest.fn() }
+  }
+}));
+
+jest.mock('../job.service', () => ({
+  jobQueue: { scheduleScoreRecalculation: jest.fn() }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  candidateProfile: { findUnique: jest.Mock; update: jest.Mock };
+  platformConnection: { update: jest.Mock };
+};
+
+const githubConnection = {
+  id: 'connection-1',
+  candidateId: 'candidate-1',
+  platform: Platform.GITHUB,
+  username: 'octocat',
+  isVerified: false,
+  verifiedAt: null
+};
+
+describe('PlatformVerificationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should issue a challenge token once and reuse it', async () => {
+    mockedPrisma.candidateProfile.findUnique.mockResolvedValueOnce({
+      id: 'candidate-1',
+      verificationToken: null,
+      platformConnections: [githubConnection]
+    });
+
+    const challenge = await platformVerificationService.getChallenge('user-1');
+
+    expect(challenge.token).toMatch(/^dare-dreamers-verify-[0-9a-f]{16}$/);
+    expect(challenge.platforms[0]).toMatchObject({ platform: Platform.GITHUB, isVerified: false });
+    expect(mockedPrisma.candidateProfile.update).toHaveBeenCalledWith({
+      where: { id: 'candidate-1' },
+      data: { verificationToken: challenge.token }
+    });
+
+    mockedPrisma.candidateProfile.findUnique.mockResolvedValueOnce({
+      id: 'candidate-1',
+      verificationToken: challenge.token,
+      platformConnections: []
+    });
+
+    expect((await platformVerificationService.getChallenge('user-1')).token).toBe(challenge.token);
+    expect(mockedPrisma.candidateProfile.update).toHaveBeenCalledTimes(1);
+  });
+
+  test('should verify a platform once the token is found', async () => {
+    mockedPrisma.candidateProfile.findUnique.mockResolvedValue({
+      id: 'candidate-1',
+      verificationToken: 'dare-dreamers-verify-abc',
+      platformConnections: [githubConnection]
+    });
+    mockedPrisma.platformConnection.update.mockResolvedValue({ ...githubConnection, isVerified: true });
+    const check = jest.spyOn(githubConnector, 'hasVerificationToken').mockResolvedValue(true);
+
+    const connection = await platformVerificationService.verifyPlatform('user-1', Platform.GITHUB);
+
+    expect(check).toHaveBeenCalledWith('octocat', 'dare-dreamers-verify-abc');
+    expect(connection.isVerified).toBe(true);
+    expect(mockedPrisma.platformConnection.update).toHaveBeenCalledWith({
+      where: { id: 'connection-1' },
+      data: { isVerified: true, verifiedAt: expect.any(Date) }
+    });
+    expect(jobQueue.scheduleScoreRecalculation).toHaveBeenCalledWith('candidate-1');
+  });
+
+  test('should leave the platform unverified when the token is missing', async () => {
+    mockedPrisma.candidateProfile.findUnique.mockResolvedValue({
+      id: 'candidate-1',
+      verificationToken: 'dare-dreamers-verify-abc',
+      platformConnections: [githubConnection]
+    });
+    jest.spyOn(githubConnector, 'hasVerificationToken').mockResolvedValue(false);
+
+    await expect(platformVerificationService.verifyPlatform('user-1', Platform.GITHUB))
+      .rejects.toThrow('Verification token not found');
+    expect(mockedPrisma.platformConnection.update).not.toHaveBeenCalled();
+  });
+
+  test('should refuse platforms that cannot be verified with a token', async () => {
+    mockedPrisma.candidateProfile.findUnique.mockResolvedValue({
+      id: 'candidate-1',
+      verificationToken: 'dare-dreamers-verify-abc',
+      platformConnections: [{ ...githubConnection, platform: Platform.MEDIUM }]
+    });
+
+    await expect(platformVerificationService.verifyPlatform('user-1', Platform.MEDIUM))
+      .rejects.toThrow('Verification not supported for this platform');
+  });
+
+  test('should down-weight unverified platforms in the composite score', () => {
+    const aggregation = new AggregationService();
+    const github = { metrics: { overallScore: 80, recommendations: [] } } as unknown as NonNullable<DigitalProfile['platforms']['github']>;
+    const profile: DigitalProfile = {
+      candidateId: 'candidate-1',
+      userId: 'user-1',
+      name: 'The Octocat',
+      platforms: { github },
+      verifiedPlatforms: [],
+      aggregatedAt: new Date()
+    };
+
+    const unverified = aggregation.calculateCompositeScore(profile);
+    const verified = aggregation.calculateCompositeScore({ ...profile, verifiedPlatforms: ['github'] });
+
+    expect(verified.overallScore).toBe(80);
+    expect(unverified.overallScore).toBe(Math.round(80 * UNVERIFIED_PLATFORM_FACTOR));
+    expect(unverified.breakdown.platformsUnverified).toEqual(['github']);
+    expect(verified.breakdown.platformsUnverified).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit Tests for Rate Limiting
+ * Tests: Memory store windows, budgets per key, RateLimit headers and 429 responses
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { MemoryRateLimitStore, RateLimitService, rateLimitService } from '../rate-limit.service';
+import { rateLimit } from '../../middleware/rate-limit.middleware';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {}
+}));
+
+describe('MemoryRateLimitStore', () => {
+  test('should count hits within a window and start over once it ends', async () => {
+    jest.useFakeTimers();
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.increment('key', 1000)).count).toBe(1);
+    expect((await store.increment('key', 1000)).count).toBe(2);
+
+    jest.advanceTimersByTime(1001);
+
+    expect((await store.increment('key', 1000)).count).toBe(1);
+    jest.useRealTimers();
+  });
+
+  test('should prune expired buckets when full', async () => {
+    jest.useFakeTimers();
+    const store = new MemoryRateLimitStore(2);
+
+    await store.increment('a', 1000);
+    await store.increment('b', 1000);
+    jest.advanceTimersByTime(1001);
+    await store.increment('c', 1000);
+
+    expect(await store.prune()).toBe(0);
+    jest.useRealTimers();
+  });
+});
+
+describe('RateLimitService', () => {
+  test('should allow requests up to the limit and report what remains', async () => {
+    const service = new RateLimitService();
+    service.setStore(new MemoryRateLimitStore());
+
+    const first = await service.consume('key', 2, 60000);
+    const second = await service.consume('key', 2, 60000);
+    const third = await service.consume('key', 2, 60000);
+
+    expect(first).toMatchObject({ allowed: true, rateLimit: { limit: 2, remaining: 1 } });
+    expect(second).toMatchObject({ allowed: true, rateLimit: { remaining: 0 } });
+    expect(third).toMatchObject({ allowed: false, rateLimit: { remaining: 0 } });
+    expect((await service.consume('other', 2, 60000)).allowed).toBe(true);
+  });
+});
+
+describe('rateLimit middleware', () => {
+  const app = express();
+  app.use(express.json());
+  app.get('/limited', rateLimit({ name: 'test', limit: 2, windowMs: 60000 }), (req, res) => res.json({ ok: true }));
+  app.post('/per-account', rateLimit({
+    name: 'account',
+    limit: 1,
+    windowMs: 60000,
+    key: req => (typeof req.body?.email === 'string' ? req.body.email : null)
+  }), (req, res) => res.json({ ok: true }));
+
+  beforeEach(() => {
+    rateLimitService.setStore(new MemoryRateLimitStore());
+  });
+
+  test('should set RateLimit headers and reject requests over the budget', async () => {
+    const first = await request(app).get('/limited');
+    expect(first.status).toBe(200);
+    expect(first.headers['ratelimit-limit']).toBe('2');
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+    expect(Number(first.headers['ratelimit-reset'])).toBeGreaterThan(0);
+
+    await request(app).get('/limited');
+    const blocked = await request(app).get('/limited');
+
+    expect(blocked.status).toBe(429);
+    expect(blocked.body.error).toBe('Too many requests');
+    expect(blocked.headers['retry-after']).toBeDefined();
+  });
+
+  test('should keep separate budgets per key and skip requests without one', async () => {
+    expect((await request(app).post('/per-account').send({ email: 'a@example.com' })).status).toBe(200);
+    expect((await request(app).post('/per-account').send({ email: 'a@example.com' })).status).toBe(429);
+    expect((await request(app).post('/per-account').send({ email: 'b@example.com' })).status).toBe(200);
+
+    const anonymous = await request(app).post('/per-account').send({});
+    expect(anonymous.status).toBe(200);
+    expect(anonymous.headers['ratelimit-limit']).toBeUndefined();
+  });
+
+  test('should let requests through when the store fails', async () => {
+    rateLimitService.setStore({
+      name: 'broken',
+      increment: () => Promise.reject(new Error('store down')),
+      reset: () => Promise.resolve(),
+      prune: () => Promise.resolve(0)
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect((await request(app).get('/limited')).status).toBe(200);
+  });
+});
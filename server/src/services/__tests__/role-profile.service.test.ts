@@ -0,0 +1,162 @@
+/**
+ * Unit Tests for Role Profiles
+ * Tests: Role-adjusted scores, requirements, built-in and shared profiles, role-ranked search
+ */
+
+import { Platform } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { organizationService } from '../organization.service';
+import {
+  roleProfileService,
+  calculateRoleScore,
+  meetsRoleRequirements,
+  verificationFactors,
+  BUILT_IN_ROLE_PROFILES
+} from '../role-profile.service';
+import { searchService } from '../search.service';
+import { UNVERIFIED_PLATFORM_FACTOR } from '../scoring-model.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    recruiterProfile: { findUnique: jest.fn() },
+    roleProfile: { findUnique: jest.fn(), create: jest.fn() },
+    candidateProfile: { findMany: jest.fn() },
+    scoreCohort: { findMany: jest.fn().mockResolvedValue([]) }
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  recruiterProfile: { findUnique: jest.Mock };
+  roleProfile: { findUnique: jest.Mock; create: jest.Mock };
+  candidateProfile: { findMany: jest.Mock };
+};
+
+const weights = { github: 0.5, linkedin: 0.5, twitter: 0, blog: 0 };
+
+const storedProfile = (recruiterId: string, shared: boolean) => ({
+  id: 'role-1',
+  recruiterId,
+  name: 'Platform team',
+  weights,
+  requiredLanguages: ['Go'],
+  minPlatformScores: { github: 60 },
+  shared,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const candidate = (id: string, scores: { github: number | null; linkedin: number | null }, composite: number) => ({
+  id,
+  userId: `user-${id}`,
+  user: { name: id },
+  location: null,
+  bio: null,
+  isPublic: true,
+  openToOpportunities: false,
+  platformConnections: [
+    { platform: Platform.GITHUB, username: id, isVerified: true },
+    { platform: Platform.LINKEDIN, username: id, isVerified: true }
+  ],
+  candidateScores: [{
+    compositeScore: composite,
+    githubScore: scores.github,
+    linkedinScore: scores.linkedin,
+    blogScore: null,
+    socialScore: null,
+    strengths: []
+  }],
+  platformData: []
+});
+
+describe('Role-adjusted scoring', () => {
+  test('should weight stored platform scores and skip missing platforms', () => {
+    const score = calculateRoleScore(
+      { github: 90, linkedin: 50, blog: null, social: null },
+      { github: 0.75, linkedin: 0.25, twitter: 0.5, blog: 0.5 }
+    );
+
+    expect(score).toBe(80);
+  });
+
+  test('should count unverified platforms like the composite score does', () => {
+    const factors = verificationFactors([
+      { platform: 'GITHUB', isVerified: false },
+      { platform: 'DEVTO', isVerified: true },
+      { platform: 'MEDIUM', isVerified: false }
+    ]);
+
+    expect(factors.github).toBe(UNVERIFIED_PLATFORM_FACTOR);
+    expect(factors.blog).toBe((1 + UNVERIFIED_PLATFORM_FACTOR) / 2);
+    expect(calculateRoleScore({ github: 80, linkedin: null, blog: null, social: null }, weights, factors))
+      .toBe(Math.round(80 * UNVERIFIED_PLATFORM_FACTOR));
+  });
+
+  test('should require every language and minimum platform score', () => {
+    const data = BUILT_IN_ROLE_PROFILES.data;
+
+    expect(meetsRoleRequirements(data, { github: 70, linkedin: null, blog: null, social: null }, ['python', 'SQL'])).toBe(true);
+    expect(meetsRoleRequirements(data, { github: 70, linkedin: null, blog: null, social: null }, ['Go'])).toBe(false);
+    expect(meetsRoleRequirements(
+      BUILT_IN_ROLE_PROFILES.devrel,
+      { github: 90, linkedin: 90, blog: 80, social: null },
+      []
+    )).toBe(false);
+  });
+});
+
+describe('RoleProfileService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.recruiterProfile.findUnique.mockResolvedValue({ id: 'recruiter-1' });
+    jest.spyOn(organizationService, 'getTeammateIds').mockResolvedValue(['recruiter-2']);
+  });
+
+  test('should resolve built-in roles without a lookup', async () => {
+    const role = await roleProfileService.getRoleProfile('user-1', 'backend');
+
+    expect(role).toMatchObject({ id: 'backend', builtIn: true, weights: BUILT_IN_ROLE_PROFILES.backend.weights });
+    expect(mockedPrisma.roleProfile.findUnique).not.toHaveBeenCalled();
+  });
+
+  test('should use profiles shared by teammates but hide private ones', async () => {
+    mockedPrisma.roleProfile.findUnique.mockResolvedValueOnce(storedProfile('recruiter-2', true));
+    const shared = await roleProfileService.getRoleProfile('user-1', 'role-1');
+
+    expect(shared.isOwner).toBe(false);
+    expect(shared.requiredLanguages).toEqual(['Go']);
+
+    mockedPrisma.roleProfile.findUnique.mockResolvedValueOnce(storedProfile('recruiter-2', false));
+    await expect(roleProfileService.getRoleProfile('user-1', 'role-1')).rejects.toThrow('Role profile not found');
+  });
+
+  test('should reject a duplicate name', async () => {
+    mockedPrisma.roleProfile.findUnique.mockResolvedValue(storedProfile('recruiter-1', false));
+
+    await expect(roleProfileService.createRoleProfile('user-1', { name: 'Platform team', weights }))
+      .rejects.toThrow('A role profile with this name already exists');
+    expect(mockedPrisma.roleProfile.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('Role-ranked search', () => {
+  test('should filter by role requirements and rank by role-adjusted score', async () => {
+    mockedPrisma.candidateProfile.findMany.mockResolvedValue([
+      // Below the backend GitHub minimum
+      candidate('generalist', { github: 45, linkedin: 95 }, 85),
+      // Highest composite, but the role weights GitHub over LinkedIn
+      candidate('networker', { github: 60, linkedin: 95 }, 90),
+      candidate('engineer', { github: 95, linkedin: 40 }, 70),
+      candidate('balanced', { github: 75, linkedin: 75 }, 75)
+    ]);
+
+    const role = await roleProfileService.getRoleProfile('user-1', 'backend');
+    const result = await searchService.searchCandidates({}, undefined, 1, 20, role);
+
+    expect(result.candidates.map(c => c.id)).toEqual(['engineer', 'balanced', 'networker']);
+    expect(result.candidates[0].roleScore).toBe(calculateRoleScore(
+      { github: 95, linkedin: 40, blog: null, social: null },
+      BUILT_IN_ROLE_PROFILES.backend.weights
+    ));
+    expect(result.roleProfile?.id).toBe('backend');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit Tests for the Score Simulator
+ * Tests: Recalculated connector metrics, new platforms, projected score changes
+ */
+
+import { Platform } from '@prisma/client';
+import { aggregationService, DigitalProfile } from '../aggregation.service';
+import { scoringModelService } from '../scoring-model.service';
+import { ScoreSimulatorService } from '../score-simulator.service';
+import { githubConnector, blogConnector, GitHubData, BlogData, GitHubRepository } from '../connectors';
+
+jest.mock('../../lib/prisma', () => ({ prisma: {} }));
+
+const now = new Date('2026-06-01T00:00:00Z');
+
+const repo: GitHubRepository = {
+  name: 'api',
+  fullName: 'octocat/api',
+  description: 'REST API',
+  url: 'https://github.com/octocat/api',
+  language: 'TypeScript',
+  languages: { TypeScript: 1000 },
+  stargazersCount: 10,
+  forksCount: 2,
+  watchersCount: 10,
+  openIssuesCount: 0,
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2026-05-01T00:00:00Z',
+  pushedAt: '2026-05-01T00:00:00Z',
+  isForked: false,
+  topics: ['api'],
+  license: 'MIT',
+  defaultBranch: 'main'
+};
+
+const githubData = (): GitHubData => {
+  const profile = {
+    login: 'octocat',
+    name: 'The Octocat',
+    bio: 'Building things',
+    avatarUrl: '',
+    url: '',
+    company: null,
+    location: null,
+    followers: 20,
+    following: 5,
+    createdAt: '2020-01-01T00:00:00Z',
+    publicRepos: 1,
+    publicGists: 0
+  };
+  const contributionStats = {
+    totalCommits: 200,
+    totalPRs: 10,
+    totalIssues: 5,
+    totalReviews: 5,
+    contributionsByDay: {},
+    currentStreak: 3,
+    longestStreak: 10
+  };
+
+  return {
+    profile,
+    repositories: [repo],
+    contributionStats,
+    metrics: githubConnector.calculateMetrics(profile, [repo], contributionStats),
+    fetchedAt: now
+  };
+};
+
+const blogData = (): BlogData => {
+  const profile = {
+    username: 'octocat',
+    name: 'The Octocat',
+    bio: null,
+    avatarUrl: null,
+    url: '',
+    followers: 10,
+    following: 0,
+    totalPosts: 1,
+    joinedAt: null
+  };
+  const posts = [{
+    id: 'post-1',
+    title: 'Designing APIs',
+    slug: 'designing-apis',
+    url: '',
+    excerpt: null,
+    content: null,
+    tags: ['api', 'typescript'],
+    publishedAt: '2026-05-20T00:00:00Z',
+    readingTime: 6,
+    reactions: 20,
+    comments: 4,
+    coverImage: null
+  }];
+
+  return {
+    platform: Platform.DEVTO,
+    profile,
+    posts,
+    metrics: blogConnector.calculateMetrics(profile, posts),
+    fetchedAt: now
+  };
+};
+
+const digitalProfile = (): DigitalProfile => ({
+  candidateId: 'candidate-1',
+  userId: 'user-1',
+  name: 'The Octocat',
+  platforms: { github: githubData(), devto: blogData() },
+  verifiedPlatforms: ['github', 'devto'],
+  aggregatedAt: now
+});
+
+describe('ScoreSimulatorService', () => {
+  const service = new ScoreSimulatorService();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should recalculate GitHub metrics from simulated repositories, stars and followers', () => {
+    const profile = digitalProfile();
+    const simulated = service.applyDeltas(profile, { github: { repos: 2, stars: 90, followers: 80 } }, now);
+    const github = simulated.platforms.github as GitHubData;
+
+    expect(github.repositories).toHaveLength(3);
+    expect(github.metrics.breakdown.stars).toBe(100);
+    expect(github.metrics.breakdown.followers).toBe(100);
+    expect(github.metrics.projectImpactScore).toBeGreaterThan(profile.platforms.github!.metrics.projectImpactScore);
+    // The candidate's own data is left untouched
+    expect(profile.platforms.github!.repositories).toHaveLength(1);
+  });
+
+  test('should add blog posts with the candidate\'s average engagement', () => {
+    const simulated = service.applyDeltas(digitalProfile(), { blog: { posts: 3 } }, now);
+    const devto = simulated.platforms.devto as BlogData;
+
+    expect(devto.posts).toHaveLength(4);
+    expect(devto.posts[0]).toMatchObject({ reactions: 20, comments: 4, readingTime: 6 });
+    expect(devto.metrics.breakdown.totalPosts).toBe(4);
+  });
+
+  test('should reject changes to platforms that are not connected', () => {
+    expect(() => service.applyDeltas(digitalProfile(), { twitter: { tweets: 5 } }, now))
+      .toThrow('Simulated platform is not connected');
+    expect(() => service.applyDeltas(digitalProfile(), { newPlatform: { platform: 'github', score: 80 } }, now))
+      .toThrow('Simulated platform is already connected');
+  });
+
+  test('should project the score with a newly connected platform', async () => {
+    jest.spyOn(aggregationService, 'aggregateProfile').mockResolvedValue(digitalProfile());
+    jest.spyOn(scoringModelService, 'getActiveModel').mockResolvedValue(aggregationService.getDefaultModel());
+
+    const simulation = await service.simulate('user-1', { newPlatform: { platform: 'linkedin', score: 90 } });
+
+    expect(simulation.projected.linkedinScore).toBe(90);
+    expect(simulation.projected.breakdown.platformsUnverified).not.toContain('linkedin');
+    expect(simulation.overallChange).toBe(simulation.projected.overallScore - simulation.current.overallScore);
+    expect(simulation.overallChange).toBeGreaterThan(0);
+    expect(simulation.platformChanges).toContainEqual({ platform: 'linkedin', current: null, projected: 90, change: 90 });
+    expect(simulation.platformChanges.find(change => change.platform === 'github')?.change).toBe(0);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for Scoring Models
+ * Tests: Version seeding, publishing, backfill batches, model-driven composite scores
+ */
+
+import { prisma } from '../../lib/prisma';
+import { jobQueue, JobType } from '../job.service';
+import {
+  ScoringModelService,
+  ScoringModelDefinition,
+  DEFAULT_COEFFICIENTS,
+  DEFAULT_THRESHOLDS,
+  DEFAULT_WEIGHTS
+} from '../scoring-model.service';
+import { AggregationService, DigitalProfile, applyCoefficients } from '../aggregation.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    scoringModel: { findFirst: jest.fn(), upsert: jest.fn(), create: jest.fn() },
+    candidateProfile: { findMany: jest.fn() }
+  }
+}));
+
+jest.mock('../job.service', () => ({
+  JobType: { SCORE_BACKFILL: 'score-backfill' },
+  jobQueue: { enqueue: jest.fn() }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  scoringModel: { findFirst: jest.Mock; upsert: jest.Mock; create: jest.Mock };
+  candidateProfile: { findMany: jest.Mock };
+};
+
+const storedModel = (version: number) => ({
+  id: `model-${version}`,
+  version,
+  weights: DEFAULT_WEIGHTS,
+  coefficients: DEFAULT_COEFFICIENTS,
+  thresholds: DEFAULT_THRESHOLDS,
+  notes: null,
+  publishedBy: null,
+  createdAt: new Date()
+});
+
+const githubMetrics = {
+  overallScore: 40,
+  codeQualityScore: 90,
+  languageDiversity: 90,
+  commitFrequency: 90,
+  collaborationScore: 90,
+  projectImpactScore: 90,
+  recommendations: []
+};
+
+const profileWith = (metrics: Record<string, unknown>): DigitalProfile => ({
+  candidateId: 'candidate-1',
+  userId: 'user-1',
+  name: 'The Octocat',
+  platforms: { github: { metrics } as unknown as NonNullable<DigitalProfile['platforms']['github']> },
+  verifiedPlatforms: ['github'],
+  aggregatedAt: new Date()
+});
+
+describe('ScoringModelService', () => {
+  let service: ScoringModelService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ScoringModelService();
+  });
+
+  test('should seed version 1 from the built-in formula', async () => {
+    mockedPrisma.scoringModel.findFirst.mockResolvedValue(null);
+    mockedPrisma.scoringModel.upsert.mockResolvedValue(storedModel(1));
+
+    const model = await service.getActiveModel();
+
+    expect(model.version).toBe(1);
+    expect(model.weights).toEqual(DEFAULT_WEIGHTS);
+    expect(mockedPrisma.scoringModel.upsert.mock.calls[0][0].create).toMatchObject({
+      version: 1,
+      weights: DEFAULT_WEIGHTS,
+      coefficients: DEFAULT_COEFFICIENTS,
+      thresholds: DEFAULT_THRESHOLDS
+    });
+  });
+
+  test('should publish the next version on top of the active one and queue a backfill', async () => {
+    mockedPrisma.scoringModel.findFirst.mockResolvedValue(storedModel(3));
+    mockedPrisma.scoringModel.create.mockImplementation(({ data }) => Promise.resolve({ ...storedModel(4), ...data }));
+    (jobQueue.enqueue as jest.Mock).mockResolvedValue('job-1');
+
+    const { model, jobId } = await service.publishModel({
+      weights: { github: 0.5 },
+      coefficients: { github: { commitFrequency: 0.4 } }
+    }, 'admin-1');
+
+    expect(jobId).toBe('job-1');
+    expect(model.version).toBe(4);
+    expect(model.weights).toEqual({ ...DEFAULT_WEIGHTS, github: 0.5 });
+    expect(model.coefficients.github).toEqual({ ...DEFAULT_COEFFICIENTS.github, commitFrequency: 0.4 });
+    expect(model.coefficients.linkedin).toEqual(DEFAULT_COEFFICIENTS.linkedin);
+    expect(jobQueue.enqueue).toHaveBeenCalledWith(JobType.SCORE_BACKFILL, { version: 4 }, {
+      dedupeKey: 'score-backfill:4'
+    });
+  });
+
+  test('should reject a model where no platform counts', async () => {
+    mockedPrisma.scoringModel.findFirst.mockResolvedValue(storedModel(1));
+
+    await expect(service.publishModel({
+      weights: { github: 0, linkedin: 0, twitter: 0, blog: 0 }
+    }, 'admin-1')).rejects.toThrow('At least one platform weight must be positive');
+    expect(mockedPrisma.scoringModel.create).not.toHaveBeenCalled();
+  });
+
+  test('should stop a backfill once a newer version is published', async () => {
+    mockedPrisma.scoringModel.findFirst.mockResolvedValue({ version: 5 });
+
+    await expect(service.getBackfillBatch(4)).resolves.toBeNull();
+    expect(mockedPrisma.candidateProfile.findMany).not.toHaveBeenCalled();
+  });
+
+  test('should page through candidates with connections', async () => {
+    mockedPrisma.scoringModel.findFirst.mockResolvedValue({ version: 4 });
+    mockedPrisma.candidateProfile.findMany.mockResolvedValue([{ id: 'candidate-9', userId: 'user-9' }]);
+
+    const batch = await service.getBackfillBatch(4, 'candidate-8');
+
+    expect(batch).toEqual({ userIds: ['user-9'], nextCursor: null });
+    expect(mockedPrisma.candidateProfile.findMany.mock.calls[0][0]).toMatchObject({
+      where: { platformConnections: { some: {} } },
+      cursor: { id: 'candidate-8' },
+      skip: 1
+    });
+  });
+});
+
+describe('Model-driven composite scores', () => {
+  const aggregation = new AggregationService();
+
+  test('should keep the stored platform score when sub-scores are missing', () => {
+    expect(applyCoefficients({ overallScore: 64 }, DEFAULT_COEFFICIENTS.github)).toBe(64);
+  });
+
+  test('should recombine sub-scores with the model coefficients and stamp the version', () => {
+    const model: ScoringModelDefinition = {
+      version: 2,
+      weights: DEFAULT_WEIGHTS,
+      coefficients: DEFAULT_COEFFICIENTS,
+      thresholds: { strength: 95, improvement: 50 }
+    };
+
+    const score = aggregation.calculateCompositeScore(profileWith(githubMetrics), model);
+
+    expect(score.githubScore).toBe(90);
+    expect(score.overallScore).toBe(90);
+    expect(score.breakdown.modelVersion).toBe(2);
+    // 90 is below this model's strength threshold
+    expect(score.strengths).toEqual([]);
+  });
+
+  test('should use the built-in formula when no model is given', () => {
+    const score = aggregation.calculateCompositeScore(profileWith(githubMetrics));
+
+    expect(score.breakdown.modelVersion).toBeNull();
+    expect(score.strengths).toContain('Strong GitHub presence with quality code');
+  });
+});
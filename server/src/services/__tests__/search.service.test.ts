@@ -0,0 +1,58 @@
+/**
+ * Unit Tests for Candidate Search
+ * Tests: Candidate visibility when opening a profile by id
+ */
+
+import { prisma } from '../../lib/prisma';
+import { SearchService } from '../search.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    candidateProfile: { findFirst: jest.fn() }
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  candidateProfile: { findFirst: jest.Mock };
+};
+
+describe('SearchService', () => {
+  let service: SearchService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SearchService();
+  });
+
+  describe('getCandidateById', () => {
+    test('should only find public candidates with active accounts', async () => {
+      mockedPrisma.candidateProfile.findFirst.mockResolvedValue(null);
+
+      expect(await service.getCandidateById('private-candidate')).toBeNull();
+      expect(mockedPrisma.candidateProfile.findFirst.mock.calls[0][0].where).toEqual({
+        id: 'private-candidate',
+        isPublic: true,
+        user: { suspendedAt: null, deletionScheduledFor: null }
+      });
+    });
+
+    test('should return the profile with its latest score', async () => {
+      mockedPrisma.candidateProfile.findFirst.mockResolvedValue({
+        id: 'candidate-1',
+        userId: 'candidate-user-id',
+        location: null,
+        bio: null,
+        isPublic: true,
+        openToOpportunities: true,
+        user: { name: 'Ada' },
+        platformConnections: [],
+        candidateScores: [{ overallScore: 80, githubScore: 85, linkedinScore: null, blogScore: null, socialScore: null }],
+        platformData: [{ rawData: { breakdown: { languages: ['Rust'] } } }]
+      });
+
+      const candidate = await service.getCandidateById('candidate-1');
+
+      expect(candidate).toMatchObject({ id: 'candidate-1', name: 'Ada', languages: ['Rust'] });
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Unit Tests for Session Service
+ * Tests: Refresh token rotation, reuse detection, revocation, device descriptions
+ */
+
+import { prisma } from '../../lib/prisma';
+import { sessionService, hashRefreshToken, describeDevice, SessionRevokedReason } from '../session.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    session: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn()
+    }
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  session: {
+    create: jest.Mock;
+    findUnique: jest.Mock;
+    findUniqueOrThrow: jest.Mock;
+    updateMany: jest.Mock;
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const makeUser = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  email: 'dev@example.com',
+  name: 'Dev',
+  userType: 'CANDIDATE',
+  suspendedAt: null,
+  ...overrides
+});
+
+const makeSession = (overrides: Record<string, unknown> = {}) => ({
+  id: 'session-1',
+  userId: 'user-1',
+  refreshTokenHash: hashRefreshToken('refresh-token'),
+  previousTokenHash: null,
+  deviceName: 'Firefox on Linux',
+  userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0',
+  ipAddress: '127.0.0.1',
+  lastUsedAt: new Date(),
+  expiresAt: new Date(Date.now() + 30 * DAY_MS),
+  revokedAt: null,
+  revokedReason: null,
+  createdAt: new Date(),
+  user: makeUser(),
+  ...overrides
+});
+
+describe('SessionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSession', () => {
+    test('should store only the hash of the refresh token', async () => {
+      mockedPrisma.session.create.mockImplementation(async ({ data }) => ({ id: 'session-1', ...data }));
+
+      const { refreshToken, session } = await sessionService.createSession('user-1', {
+        userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) Chrome/120.0 Safari/537.36'
+      });
+
+      expect(session.refreshTokenHash).toBe(hashRefreshToken(refreshToken));
+      expect(session.refreshTokenHash).not.toBe(refreshToken);
+      expect(session.deviceName).toBe('Chrome on macOS');
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    test('should issue a new token and remember the old hash', async () => {
+      mockedPrisma.session.findUnique.mockResolvedValueOnce(makeSession());
+      mockedPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+      mockedPrisma.session.findUniqueOrThrow.mockResolvedValue(makeSession());
+
+      const result = await sessionService.rotateRefreshToken('refresh-token');
+
+      expect(result.refreshToken).not.toBe('refresh-token');
+      expect(result.user.id).toBe('user-1');
+      expect(mockedPrisma.session.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'session-1', refreshTokenHash: hashRefreshToken('refresh-token'), revokedAt: null },
+        data: expect.objectContaining({
+          refreshTokenHash: hashRefreshToken(result.refreshToken),
+          previousTokenHash: hashRefreshToken('refresh-token')
+        })
+      }));
+    });
+
+    test('should revoke the session when a rotated token is reused', async () => {
+      mockedPrisma.session.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(makeSession({ previousTokenHash: hashRefreshToken('old-token') }));
+      mockedPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(sessionService.rotateRefreshToken('old-token')).rejects.toThrow('Invalid refresh token');
+
+      expect(mockedPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: SessionRevokedReason.REUSE_DETECTED }
+      });
+    });
+
+    test('should reject revoked and expired sessions', async () => {
+      mockedPrisma.session.findUnique.mockResolvedValueOnce(makeSession({ revokedAt: new Date() }));
+      await expect(sessionService.rotateRefreshToken('refresh-token')).rejects.toThrow('Invalid refresh token');
+
+      mockedPrisma.session.findUnique.mockResolvedValueOnce(makeSession({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(sessionService.rotateRefreshToken('refresh-token')).rejects.toThrow('Invalid refresh token');
+
+      expect(mockedPrisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    test('should reject sessions of suspended accounts', async () => {
+      mockedPrisma.session.findUnique.mockResolvedValueOnce(makeSession({ user: makeUser({ suspendedAt: new Date() }) }));
+
+      await expect(sessionService.rotateRefreshToken('refresh-token')).rejects.toThrow('Account suspended');
+    });
+
+    test('should let only one of two concurrent refreshes win', async () => {
+      mockedPrisma.session.findUnique.mockResolvedValueOnce(makeSession());
+      mockedPrisma.session.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(sessionService.rotateRefreshToken('refresh-token')).rejects.toThrow('Invalid refresh token');
+      expect(mockedPrisma.session.findUniqueOrThrow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revocation', () => {
+    test('should only revoke sessions owned by the user', async () => {
+      mockedPrisma.session.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(sessionService.revokeSession('user-2', 'session-1')).rejects.toThrow('Session not found');
+      expect(mockedPrisma.session.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'session-1', userId: 'user-2', revokedAt: null }
+      }));
+    });
+
+    test('should revoke every active session on logout-all', async () => {
+      mockedPrisma.session.updateMany.mockResolvedValue({ count: 3 });
+
+      await expect(sessionService.revokeAllSessions('user-1')).resolves.toBe(3);
+      expect(mockedPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', id: undefined, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: SessionRevokedReason.LOGOUT_ALL }
+      });
+    });
+  });
+
+  describe('describeDevice', () => {
+    test('should name the browser and operating system', () => {
+      expect(describeDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Version/17.0 Mobile Safari/604.1'))
+        .toBe('Safari on iOS');
+      expect(describeDevice('Mozilla/5.0 (Windows NT 10.0) Chrome/120.0 Safari/537.36 Edg/120.0')).toBe('Edge on Windows');
+      expect(describeDevice(undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit Tests for Shortlists
+ * Tests: Pipeline stages, shared access, stage moves and history, note privacy
+ */
+
+import { prisma } from '../../lib/prisma';
+import { shortlistService, DEFAULT_PIPELINE_STAGES } from '../shortlist.service';
+import { organizationService } from '../organization.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    recruiterProfile: { findUnique: jest.fn() },
+    candidateProfile: { findFirst: jest.fn(), findUnique: jest.fn() },
+    shortlist: { create: jest.fn(), findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() },
+    shortlistEntry: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn()
+    },
+    shortlistStageChange: { create: jest.fn() },
+    candidateNote: { findMany: jest.fn(), updateMany: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  recruiterProfile: { findUnique: jest.Mock };
+  candidateProfile: { findFirst: jest.Mock; findUnique: jest.Mock };
+  shortlist: Record<'create' | 'findUnique' | 'update' | 'delete', jest.Mock>;
+  shortlistEntry: Record<'findUnique' | 'findFirst' | 'findMany' | 'count' | 'create' | 'update', jest.Mock>;
+  shortlistStageChange: { create: jest.Mock };
+  candidateNote: { findMany: jest.Mock; updateMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const shortlist = (overrides: Record<string, unknown> = {}) => ({
+  id: 'shortlist-1',
+  recruiterId: 'recruiter-1',
+  name: 'Backend hires',
+  stages: DEFAULT_PIPELINE_STAGES,
+  shared: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+describe('ShortlistService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.recruiterProfile.findUnique.mockResolvedValue({ id: 'recruiter-1' });
+    jest.spyOn(organizationService, 'getTeammateIds').mockResolvedValue(['recruiter-1', 'recruiter-2']);
+    mockedPrisma.shortlistEntry.update.mockImplementation(args => args);
+    mockedPrisma.shortlistStageChange.create.mockImplementation(args => args);
+    mockedPrisma.$transaction.mockResolvedValue([]);
+  });
+
+  describe('Shortlists', () => {
+    test('should start new shortlists with the default pipeline stages', async () => {
+      mockedPrisma.shortlist.create.mockImplementation(({ data }) => Promise.resolve(shortlist({ ...data })));
+
+      const created = await shortlistService.createShortlist('user-1', { name: 'Backend hires' });
+
+      expect(created.stages).toEqual(['sourced', 'contacted', 'interviewing', 'offer', 'hired', 'rejected']);
+      expect(created.isOwner).toBe(true);
+    });
+
+    test('should let teammates open a shared shortlist but not reconfigure it', async () => {
+      mockedPrisma.shortlist.findUnique.mockResolvedValue(shortlist({ recruiterId: 'recruiter-2', shared: true }));
+
+      await expect(shortlistService.updateShortlist('user-1', 'shortlist-1', { name: 'Mine now' }))
+        .rejects.toThrow('Only the owner can change this shortlist');
+      expect(mockedPrisma.shortlist.update).not.toHaveBeenCalled();
+    });
+
+    test('should hide unshared shortlists from teammates', async () => {
+      mockedPrisma.shortlist.findUnique.mockResolvedValue(shortlist({ recruiterId: 'recruiter-2' }));
+
+      await expect(shortlistService.getShortlist('user-1', 'shortlist-1')).rejects.toThrow('Shortlist not found');
+    });
+
+    test('should not remove a stage that still holds candidates', async () => {
+      mockedPrisma.shortlist.findUnique.mockResolvedValue(shortlist());
+      mockedPrisma.shortlistEntry.count.mockResolvedValue(2);
+
+      await expect(shortlistService.updateShortlist('user-1', 'shortlist-1', { stages: ['sourced', 'hired'] }))
+        .rejects.toThrow('Move candidates out of a stage before removing it');
+      expect(mockedPrisma.shortlistEntry.count).toHaveBeenCalledWith({
+        where: { shortlistId: 'shortlist-1', stage: { in: ['contacted', 'interviewing', 'offer', 'rejected'] } }
+      });
+    });
+  });
+
+  describe('Entries', () => {
+    test('should only add public candidates', async () => {
+      mockedPrisma.shortlist.findUnique.mockResolvedValue(shortlist());
+      mockedPrisma.candidateProfile.findFirst.mockResolvedValue(null);
+
+      await expect(shortlistService.addCandidate('user-1', 'shortlist-1', 'candidate-1'))
+        .rejects.toThrow('Candidate not found');
+      expect(mockedPrisma.candidateProfile.findFirst.mock.calls[0][0].where).toMatchObject({ isPublic: true });
+      expect(mockedPrisma.shortlistEntry.create).not.toHaveBeenCalled();
+    });
+
+    test('should add candidates to the end of the first stage and record it', async () => {
+      mockedPrisma.shortlist.findUnique.mockResolvedValue(shortlist());
+      mockedPrisma.candidateProfile.findFirst.mockResolvedValue({
+        id: 'candidate-1',
+        location: null,
+        user: { name: 'Ada' },
+        candidateScores: []
+      });
+      mockedPrisma.shortlistEntry.findUnique.mockResolvedValue(null);
+      mockedPrisma.shortlistEntry.count.mockResolvedValue(3);
+      mockedPrisma.shortlistEntry.create.mockImplementation(({ data }) => Promise.resolve({ id: 'entry-1', tags: [], updatedAt: new Date(), ...data }));
+
+      const entry = await shortlistService.addCandidate('user-1', 'shortlist-1', 'candidate-1');
+
+      expect(entry).toMatchObject({ stage: 'sourced', position: 3 });
+      expect(mockedPrisma.shortlistEntry.create.mock.calls[0][0].data.stageChanges).toEqual({
+        create: { fromStage: null, toStage: 'sourced', changedById: 'recruiter-1' }
+      });
+    });
+
+    test('should renumber both stages and record the stage change on a move', async () => {
+      mockedPrisma.shortlist.findUnique.mockResolvedValue(shortlist({ recruiterId: 'recruiter-2', shared: true }));
+      mockedPrisma.shortlistEntry.findFirst.mockResolvedValue({ id: 'entry-1', stage: 'sourced' });
+      mockedPrisma.shortlistEntry.findMany
+        .mockResolvedValueOnce([{ id: 'entry-2' }, { id: 'entry-3' }])
+        .mockResolvedValueOnce([{ id: 'entry-4' }]);
+
+      await shortlistService.moveEntry('user-1', 'shortlist-1', 'entry-1', 'contacted', 1);
+
+      const operations = mockedPrisma.$transaction.mock.calls[0][0];
+      expect(operations).toEqual([
+        { where: { id: 'entry-2' }, data: { position: 0 } },
+        { where: { id: 'entry-1' }, data: { stage: 'contacted', position: 1 } },
+        { where: { id: 'entry-3' }, data: { position: 2 } },
+        { where: { id: 'entry-4' }, data: { position: 0 } },
+        { data: { entryId: 'entry-1', fromStage: 'sourced', toStage: 'contacted', changedById: 'recruiter-1' } }
+      ]);
+    });
+
+    test('should reject stages the shortlist does not have', async () => {
+      mockedPrisma.shortlist.findUnique.mockResolvedValue(shortlist());
+
+      await expect(shortlistService.moveEntry('user-1', 'shortlist-1', 'entry-1', 'phone-screen'))
+        .rejects.toThrow('Unknown stage');
+      expect(mockedPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Notes', () => {
+    test('should show teammates only the notes that were shared', async () => {
+      mockedPrisma.candidateNote.findMany.mockResolvedValue([]);
+
+      await shortlistService.listNotes('user-1', 'candidate-1');
+
+      expect(mockedPrisma.candidateNote.findMany.mock.calls[0][0].where).toEqual({
+        candidateId: 'candidate-1',
+        OR: [
+          { recruiterId: 'recruiter-1' },
+          { recruiterId: { in: ['recruiter-1', 'recruiter-2'] }, shared: true }
+        ]
+      });
+    });
+
+    test('should not let recruiters edit a teammate\'s note', async () => {
+      mockedPrisma.candidateNote.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(shortlistService.updateNote('user-1', 'note-1', { body: 'Edited' }))
+        .rejects.toThrow('Note not found');
+      expect(mockedPrisma.candidateNote.updateMany).toHaveBeenCalledWith({
+        where: { id: 'note-1', recruiterId: 'recruiter-1' },
+        data: { body: 'Edited' }
+      });
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Unit Tests for Two-Factor Authentication
+ * Tests: TOTP codes (RFC 6238 vectors), enrollment, replay protection, backup codes, single-use login step
+ */
+
+import { UserType } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { AuthService } from '../auth.service';
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  totpStep,
+  twoFactorService,
+  verifyTotp
+} from '../two-factor.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    twoFactorBackupCode: { deleteMany: jest.fn(), createMany: jest.fn(), updateMany: jest.fn(), count: jest.fn() },
+    twoFactorChallenge: { create: jest.fn(), deleteMany: jest.fn() },
+    companySecurityPolicy: { findUnique: jest.fn(), upsert: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+const mockedPrisma = prisma as unknown as {
+  user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+  twoFactorBackupCode: { deleteMany: jest.Mock; createMany: jest.Mock; updateMany: jest.Mock; count: jest.Mock };
+  twoFactorChallenge: { create: jest.Mock; deleteMany: jest.Mock };
+  companySecurityPolicy: { findUnique: jest.Mock; upsert: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+// The RFC 6238 SHA-1 test secret, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('Two-Factor Authentication', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPrisma.$transaction.mockResolvedValue([]);
+  });
+
+  describe('TOTP', () => {
+    test('should round-trip base32 secrets', () => {
+      const bytes = Buffer.from('12345678901234567890');
+
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+      expect(base32Decode(RFC_SECRET).equals(bytes)).toBe(true);
+    });
+
+    test('should match the RFC 6238 test vectors', () => {
+      expect(generateTotp(RFC_SECRET, totpStep(59 * 1000))).toBe('287082');
+      expect(generateTotp(RFC_SECRET, totpStep(1111111109 * 1000))).toBe('081804');
+      expect(generateTotp(RFC_SECRET, totpStep(2000000000 * 1000))).toBe('279037');
+    });
+
+    test('should accept codes from adjacent steps only', () => {
+      const time = 1111111109 * 1000;
+      const step = totpStep(time);
+
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), time)).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), time)).toBe(step + 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), time)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', time)).toBeNull();
+    });
+  });
+
+  describe('Enrollment', () => {
+    test('should issue a secret and otpauth URI, then enable with a valid code', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValueOnce({ id: 'user-1', email: 'recruiter@example.com', twoFactorEnabledAt: null });
+
+      const enrollment = await twoFactorService.beginEnrollment('user-1');
+
+      expect(enrollment.otpauthUri).toMatch(/^otpauth:\/\/totp\/DARE%20Dreamers%3Arecruiter%40example\.com\?secret=[A-Z2-7]+&issuer=DARE\+Dreamers/);
+
+      // The stored secret is encrypted, not the plain base32 value
+      const storedSecret = mockedPrisma.user.update.mock.calls[0][0].data.twoFactorSecret;
+      expect(storedSecret).not.toContain(enrollment.secret);
+
+      mockedPrisma.user.findUnique.mockResolvedValueOnce({ id: 'user-1', twoFactorEnabledAt: null, twoFactorSecret: storedSecret });
+
+      const backupCodes = await twoFactorService.confirmEnrollment('user-1', generateTotp(enrollment.secret, totpStep()));
+
+      expect(backupCodes).toHaveLength(10);
+      expect(backupCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(mockedPrisma.user.update).toHaveBeenLastCalledWith({
+        where: { id: 'user-1' },
+        data: { twoFactorEnabledAt: expect.any(Date), twoFactorLastStep: expect.any(Number) }
+      });
+      expect(mockedPrisma.twoFactorBackupCode.createMany).toHaveBeenCalled();
+    });
+
+    test('should refuse a wrong confirmation code', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValueOnce({ id: 'user-1', email: 'recruiter@example.com', twoFactorEnabledAt: null });
+      await twoFactorService.beginEnrollment('user-1');
+      const storedSecret = mockedPrisma.user.update.mock.calls[0][0].data.twoFactorSecret;
+
+      mockedPrisma.user.findUnique.mockResolvedValueOnce({ id: 'user-1', twoFactorEnabledAt: null, twoFactorSecret: storedSecret });
+
+      await expect(twoFactorService.confirmEnrollment('user-1', '000000')).rejects.toThrow('Invalid two-factor code');
+    });
+  });
+
+  describe('Code verification', () => {
+    let storedSecret: string;
+    let secret: string;
+
+    beforeEach(async () => {
+      mockedPrisma.user.findUnique.mockResolvedValueOnce({ id: 'user-1', email: 'recruiter@example.com', twoFactorEnabledAt: null });
+      secret = (await twoFactorService.beginEnrollment('user-1')).secret;
+      storedSecret = mockedPrisma.user.update.mock.calls[0][0].data.twoFactorSecret;
+      mockedPrisma.user.findUnique.mockResolvedValue({ id: 'user-1', twoFactorEnabledAt: new Date(), twoFactorSecret: storedSecret });
+    });
+
+    test('should accept a TOTP code only once', async () => {
+      mockedPrisma.user.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+      const code = generateTotp(secret, totpStep());
+
+      expect(await twoFactorService.verifyCode('user-1', code)).toBe(true);
+      expect(await twoFactorService.verifyCode('user-1', code)).toBe(false);
+      expect(mockedPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: totpStep() } }] },
+        data: { twoFactorLastStep: totpStep() }
+      });
+    });
+
+    test('should spend backup codes, with or without the dash', async () => {
+      mockedPrisma.twoFactorBackupCode.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 1 });
+
+      expect(await twoFactorService.verifyCode('user-1', 'abcde-12345')).toBe(true);
+      expect(await twoFactorService.verifyCode('user-1', 'ABCDE12345')).toBe(true);
+
+      const [first, second] = mockedPrisma.twoFactorBackupCode.updateMany.mock.calls;
+      expect(first[0].where.codeHash).toBe(second[0].where.codeHash);
+      expect(first[0].where.usedAt).toBeNull();
+    });
+
+    test('should not let recruiters disable 2FA their company requires', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValueOnce({ userType: UserType.RECRUITER, recruiterProfile: { company: ' Acme ' } });
+      mockedPrisma.companySecurityPolicy.findUnique.mockResolvedValue({ company: 'acme', requireTwoFactor: true });
+
+      await expect(twoFactorService.disable('user-1', generateTotp(secret, totpStep())))
+        .rejects.toThrow('Two-factor authentication is required by your company');
+      expect(mockedPrisma.companySecurityPolicy.findUnique).toHaveBeenCalledWith({ where: { company: 'acme' } });
+    });
+
+    test('should not require 2FA from candidates', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValueOnce({ userType: UserType.CANDIDATE, recruiterProfile: null });
+
+      expect(await twoFactorService.isRequired('user-1')).toBe(false);
+      expect(mockedPrisma.companySecurityPolicy.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Two-factor login step', () => {
+    const user = {
+      id: 'user-1',
+      email: 'recruiter@example.com',
+      name: 'Recruiter',
+      userType: UserType.RECRUITER,
+      emailVerifiedAt: new Date(),
+      suspendedAt: null,
+      lockedUntil: null,
+      failedLoginAttempts: 0,
+      twoFactorEnabledAt: new Date()
+    };
+
+    beforeEach(() => {
+      // Pending challenges kept in memory so consuming one twice can be observed
+      const challenges = new Map<string, { userId: string; expiresAt: Date }>();
+      mockedPrisma.twoFactorChallenge.create.mockImplementation(async ({ data }) => {
+        challenges.set(data.id, data);
+        return data;
+      });
+      mockedPrisma.twoFactorChallenge.deleteMany.mockImplementation(async ({ where }) => {
+        const challenge = where.id ? challenges.get(where.id) : undefined;
+        if (!challenge || challenge.userId !== where.userId || challenge.expiresAt <= where.expiresAt.gt) {
+          return { count: 0 };
+        }
+        challenges.delete(where.id);
+        return { count: 1 };
+      });
+
+      jest.spyOn(AuthService, 'issueSession').mockResolvedValue({
+        user: { id: user.id, email: user.email, name: user.name, userType: user.userType, emailVerified: true },
+        token: 'access-token',
+        refreshToken: 'refresh-token',
+        refreshTokenExpiresAt: new Date()
+      });
+    });
+
+    test('should issue tokens for a valid challenge and code', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(user);
+      jest.spyOn(twoFactorService, 'verifyCode').mockResolvedValue(true);
+      const { challengeToken } = await AuthService.createTwoFactorChallenge('user-1');
+
+      const result = await AuthService.completeTwoFactorLogin(challengeToken, '123456');
+
+      expect(result.token).toBe('access-token');
+      expect(twoFactorService.verifyCode).toHaveBeenCalledWith('user-1', '123456');
+    });
+
+    test('should accept a challenge only once', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(user);
+      jest.spyOn(twoFactorService, 'verifyCode').mockResolvedValue(true);
+      const { challengeToken } = await AuthService.createTwoFactorChallenge('user-1');
+
+      await AuthService.completeTwoFactorLogin(challengeToken, '123456');
+
+      await expect(AuthService.completeTwoFactorLogin(challengeToken, '654321')).rejects.toThrow('Invalid or expired challenge');
+      expect(AuthService.issueSession).toHaveBeenCalledTimes(1);
+    });
+
+    test('should keep the challenge usable after a wrong code', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(user);
+      mockedPrisma.user.update.mockResolvedValue({ failedLoginAttempts: 1 });
+      jest.spyOn(twoFactorService, 'verifyCode').mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+      const { challengeToken } = await AuthService.createTwoFactorChallenge('user-1');
+
+      await expect(AuthService.completeTwoFactorLogin(challengeToken, '000000')).rejects.toThrow('Invalid two-factor code');
+
+      expect((await AuthService.completeTwoFactorLogin(challengeToken, '123456')).token).toBe('access-token');
+    });
+
+    test('should count a wrong code as a failed login', async () => {
+      mockedPrisma.user.findUnique.mockResolvedValue(user);
+      mockedPrisma.user.update.mockResolvedValue({ failedLoginAttempts: 1 });
+      jest.spyOn(twoFactorService, 'verifyCode').mockResolvedValue(false);
+      const { challengeToken } = await AuthService.createTwoFactorChallenge('user-1');
+
+      await expect(AuthService.completeTwoFactorLogin(challengeToken, '000000')).rejects.toThrow('Invalid two-factor code');
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { failedLoginAttempts: { increment: 1 } }
+      }));
+      expect(AuthService.issueSession).not.toHaveBeenCalled();
+    });
+
+    test('should not accept an access token as a challenge', async () => {
+      const accessToken = AuthService.generateToken('user-1', user.email, user.userType, 'session-1');
+
+      await expect(AuthService.completeTwoFactorLogin(accessToken, '123456')).rejects.toThrow('Invalid or expired challenge');
+    });
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Unit Tests for Webhook Service
+ * Tests: Payload signing, endpoint address checks, delivery against a local HTTP endpoint, retries, auto-disabling, test pings
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { prisma } from '../../lib/prisma';
+import { jobQueue, JobType } from '../job.service';
+import {
+  webhookService,
+  signPayload,
+  verifySignature,
+  isPublicAddress,
+  assertDeliverableUrl,
+  SIGNATURE_HEADER,
+  EVENT_HEADER,
+  DELIVERY_HEADER
+} from '../webhook.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    recruiterProfile: { findUnique: jest.fn() },
+    webhook: { findFirst: jest.fn(), findMany: jest.fn(), update: jest.fn(), count: jest.fn(), create: jest.fn() },
+    webhookDelivery: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn() }
+  }
+}));
+
+jest.mock('../job.service', () => {
+  const actual = jest.requireActual('../job.service');
+  return {
+    ...actual,
+    jobQueue: { enqueue: jest.fn() }
+  };
+});
+
+const mockedPrisma = prisma as unknown as {
+  recruiterProfile: { findUnique: jest.Mock };
+  webhook: { findFirst: jest.Mock; findMany: jest.Mock; update: jest.Mock; count: jest.Mock; create: jest.Mock };
+  webhookDelivery: { findUnique: jest.Mock; create: jest.Mock; update: jest.Mock };
+};
+const mockedJobQueue = jobQueue as jest.Mocked<typeof jobQueue>;
+
+const SECRET = 'whsec_test_secret';
+
+// Local stand-in for a recruiter's endpoint
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let responseStatus = 200;
+let received: ReceivedRequest[] = [];
+
+const makeWebhook = (overrides: Record<string, unknown> = {}) => ({
+  id: 'webhook-1',
+  recruiterId: 'recruiter-1',
+  url: `${baseUrl}/hooks`,
+  secret: SECRET,
+  events: ['score_updated'],
+  isActive: true,
+  consecutiveFailures: 0,
+  disabledAt: null,
+  disabledReason: null,
+  lastDeliveryAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const makeDelivery = (webhook: ReturnType<typeof makeWebhook>) => ({
+  id: 'delivery-1',
+  webhookId: webhook.id,
+  eventId: 'event-1',
+  eventType: 'score_updated',
+  payload: { id: 'event-1', type: 'score_updated', data: { candidateId: 'candidate-1', currentScore: 72 } },
+  status: 'pending',
+  attempts: 0,
+  responseStatus: null,
+  responseBody: null,
+  error: null,
+  durationMs: null,
+  lastAttemptAt: null,
+  deliveredAt: null,
+  createdAt: new Date(),
+  webhook
+});
+
+describe('WebhookService', () => {
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end(responseStatus < 300 ? 'ok' : 'error');
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  // The stand-in endpoint listens on loopback, which only development setups may reach
+  beforeEach(() => {
+    process.env.WEBHOOK_ALLOW_LOCAL_URLS = 'true';
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_ALLOW_LOCAL_URLS;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    responseStatus = 200;
+    received = [];
+
+    // Updates echo back the changed row
+    mockedPrisma.webhook.update.mockImplementation(async ({ data }) => ({ ...makeWebhook(), ...data }));
+    mockedPrisma.webhookDelivery.update.mockImplementation(async ({ data }) => ({
+      ...makeDelivery(makeWebhook()),
+      ...data,
+      attempts: 1
+    }));
+  });
+
+  describe('Signatures', () => {
+    test('should verify a signature it produced', () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const body = JSON.stringify({ hello: 'world' });
+      const header = `t=${timestamp},v1=${signPayload(SECRET, timestamp, body)}`;
+
+      expect(verifySignature(SECRET, header, body)).toBe(true);
+    });
+
+    test('should reject a tampered body or wrong secret', () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const body = JSON.stringify({ hello: 'world' });
+      const header = `t=${timestamp},v1=${signPayload(SECRET, timestamp, body)}`;
+
+      expect(verifySignature(SECRET, header, JSON.stringify({ hello: 'there' }))).toBe(false);
+      expect(verifySignature('whsec_other', header, body)).toBe(false);
+    });
+
+    test('should reject stale timestamps', () => {
+      const timestamp = Math.floor(Date.now() / 1000) - 60 * 60;
+      const body = '{}';
+      const header = `t=${timestamp},v1=${signPayload(SECRET, timestamp, body)}`;
+
+      expect(verifySignature(SECRET, header, body)).toBe(false);
+    });
+  });
+
+  describe('Endpoint addresses', () => {
+    test('should tell public addresses from internal ones', () => {
+      expect(isPublicAddress('93.184.216.34')).toBe(true);
+      expect(isPublicAddress('2606:2800:220:1::1')).toBe(true);
+
+      ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']
+        .forEach(address => expect(isPublicAddress(address)).toBe(false));
+    });
+
+    test('should refuse plain http, internal hosts and cloud metadata', async () => {
+      delete process.env.WEBHOOK_ALLOW_LOCAL_URLS;
+
+      await expect(assertDeliverableUrl('http://93.184.216.34/hooks')).rejects.toThrow('Webhook URL must use https');
+      await expect(assertDeliverableUrl('https://169.254.169.254/latest/meta-data')).rejects.toThrow('Webhook URL must point to a public address');
+      await expect(assertDeliverableUrl('https://[::ffff:127.0.0.1]/hooks')).rejects.toThrow('Webhook URL must point to a public address');
+      await expect(assertDeliverableUrl('https://localhost/hooks')).rejects.toThrow('Webhook URL must point to a public address');
+      await expect(assertDeliverableUrl('https://93.184.216.34/hooks')).resolves.toBeUndefined();
+    });
+
+    test('should not register a webhook pointing at an internal address', async () => {
+      delete process.env.WEBHOOK_ALLOW_LOCAL_URLS;
+      mockedPrisma.recruiterProfile.findUnique.mockResolvedValue({ id: 'recruiter-1' });
+      mockedPrisma.webhook.count.mockResolvedValue(0);
+
+      await expect(webhookService.registerWebhook('recruiter-user-id', 'https://10.0.0.5/hooks', ['score_updated']))
+        .rejects.toThrow('Webhook URL must point to a public address');
+      expect(mockedPrisma.webhook.create).not.toHaveBeenCalled();
+    });
+
+    test('should check the address again at delivery time', async () => {
+      // A registered URL whose host now resolves internally is refused without a request
+      delete process.env.WEBHOOK_ALLOW_LOCAL_URLS;
+      mockedPrisma.webhookDelivery.findUnique.mockResolvedValue(makeDelivery(makeWebhook()));
+
+      await expect(webhookService.deliver('delivery-1')).rejects.toThrow('Webhook URL must use https');
+      mockedPrisma.webhookDelivery.findUnique.mockResolvedValue(
+        makeDelivery(makeWebhook({ url: 'https://localhost:1/hooks' }))
+      );
+      await expect(webhookService.deliver('delivery-1')).rejects.toThrow('Webhook URL must point to a public address');
+
+      expect(received).toHaveLength(0);
+    });
+  });
+
+  describe('deliver', () => {
+    test('should POST a signed payload and mark the delivery successful', async () => {
+      const webhook = makeWebhook();
+      mockedPrisma.webhookDelivery.findUnique.mockResolvedValue(makeDelivery(webhook));
+
+      const log = await webhookService.deliver('delivery-1');
+
+      expect(received).toHaveLength(1);
+      const [request] = received;
+      expect(request.headers[EVENT_HEADER.toLowerCase()]).toBe('score_updated');
+      expect(request.headers[DELIVERY_HEADER.toLowerCase()]).toBe('delivery-1');
+      expect(verifySignature(SECRET, request.headers[SIGNATURE_HEADER.toLowerCase()] as string, request.body)).toBe(true);
+      expect(JSON.parse(request.body).data.candidateId).toBe('candidate-1');
+
+      expect(log.status).toBe('success');
+      expect(mockedPrisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'success', responseStatus: 200 })
+      }));
+      // Response bodies are never stored
+      expect(mockedPrisma.webhookDelivery.update.mock.calls[0][0].data).not.toHaveProperty('responseBody');
+      expect(mockedPrisma.webhook.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ consecutiveFailures: 0 })
+      }));
+    });
+
+    test('should throw on a failed attempt so the job is retried', async () => {
+      responseStatus = 500;
+      mockedPrisma.webhookDelivery.findUnique.mockResolvedValue(makeDelivery(makeWebhook()));
+
+      await expect(webhookService.deliver('delivery-1')).rejects.toThrow('Webhook endpoint returned 500');
+
+      expect(mockedPrisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'pending', responseStatus: 500 })
+      }));
+      expect(mockedPrisma.webhook.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ consecutiveFailures: 1 })
+      }));
+    });
+
+    test('should mark the delivery failed on the final attempt', async () => {
+      responseStatus = 503;
+      mockedPrisma.webhookDelivery.findUnique.mockResolvedValue(makeDelivery(makeWebhook()));
+
+      await expect(webhookService.deliver('delivery-1', true)).rejects.toThrow();
+
+      expect(mockedPrisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'failed' })
+      }));
+    });
+
+    test('should record unreachable endpoints as failures', async () => {
+      mockedPrisma.webhookDelivery.findUnique.mockResolvedValue(
+        makeDelivery(makeWebhook({ url: 'http://127.0.0.1:1/hooks' }))
+      );
+
+      await expect(webhookService.deliver('delivery-1')).rejects.toThrow();
+
+      expect(mockedPrisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'pending', responseStatus: null })
+      }));
+    });
+
+    test('should disable an endpoint that keeps failing', async () => {
+      responseStatus = 500;
+      mockedPrisma.webhookDelivery.findUnique.mockResolvedValue(
+        makeDelivery(makeWebhook({ consecutiveFailures: 14 }))
+      );
+
+      // No retry once the endpoint is disabled
+      const log = await webhookService.deliver('delivery-1');
+
+      expect(mockedPrisma.webhook.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ isActive: false, consecutiveFailures: 15 })
+      }));
+      expect(log.status).toBe('failed');
+    });
+
+    test('should skip deliveries to disabled endpoints', async () => {
+      mockedPrisma.webhookDelivery.findUnique.mockResolvedValue(
+        makeDelivery(makeWebhook({ isActive: false }))
+      );
+
+      await webhookService.deliver('delivery-1');
+
+      expect(received).toHaveLength(0);
+      expect(mockedPrisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { status: 'failed', error: 'Webhook disabled' }
+      }));
+    });
+  });
+
+  describe('sendTestPing', () => {
+    test('should send a ping without touching endpoint health', async () => {
+      const webhook = makeWebhook({ isActive: false });
+      mockedPrisma.recruiterProfile.findUnique.mockResolvedValue({ id: 'recruiter-1' });
+      mockedPrisma.webhook.findFirst.mockResolvedValue(webhook);
+      mockedPrisma.webhookDelivery.create.mockImplementation(async ({ data }) => ({
+        ...makeDelivery(webhook),
+        ...data
+      }));
+
+      const log = await webhookService.sendTestPing('recruiter-user-id', 'webhook-1');
+
+      expect(received).toHaveLength(1);
+      expect(received[0].headers[EVENT_HEADER.toLowerCase()]).toBe('ping');
+      expect(log.status).toBe('success');
+      expect(mockedPrisma.webhook.update).not.toHaveBeenCalled();
+    });
+
+    test('should reject webhooks owned by another recruiter', async () => {
+      mockedPrisma.recruiterProfile.findUnique.mockResolvedValue({ id: 'recruiter-2' });
+      mockedPrisma.webhook.findFirst.mockResolvedValue(null);
+
+      await expect(webhookService.sendTestPing('other-user-id', 'webhook-1')).rejects.toThrow('Webhook not found');
+      expect(received).toHaveLength(0);
+    });
+  });
+
+  describe('dispatchEvent', () => {
+    test('should queue one delivery per subscribed webhook', async () => {
+      mockedPrisma.webhook.findMany.mockResolvedValue([
+        makeWebhook({ id: 'webhook-1', recruiterId: 'recruiter-1' }),
+        makeWebhook({ id: 'webhook-2', recruiterId: 'recruiter-2' })
+      ]);
+      mockedPrisma.webhookDelivery.create.mockImplementation(async ({ data }) => ({
+        ...makeDelivery(makeWebhook()),
+        ...data,
+        id: `delivery-${data.webhookId}`
+      }));
+
+      const count = await webhookService.dispatchEvent('score_updated', ['recruiter-1', 'recruiter-2'], recruiterId => ({
+        candidateId: 'candidate-1',
+        recruiterId
+      }));
+
+      expect(count).toBe(2);
+      expect(mockedPrisma.webhook.findMany).toHaveBeenCalledWith({
+        where: {
+          recruiterId: { in: ['recruiter-1', 'recruiter-2'] },
+          isActive: true,
+          events: { has: 'score_updated' }
+        }
+      });
+      expect(mockedJobQueue.enqueue).toHaveBeenCalledTimes(2);
+      expect(mockedJobQueue.enqueue).toHaveBeenCalledWith(
+        JobType.WEBHOOK_DELIVERY,
+        { deliveryId: 'delivery-webhook-1' },
+        expect.objectContaining({ maxAttempts: expect.any(Number) })
+      );
+      expect(received).toHaveLength(0);
+    });
+
+    test('should not query when no recruiters are watching', async () => {
+      const count = await webhookService.dispatchEvent('profile_updated', [], () => ({}));
+
+      expect(count).toBe(0);
+      expect(mockedPrisma.webhook.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Account Data Service
+ * - Full personal data export
+ * - Account deletion with a grace period
+ * - Purge of accounts whose grace period has ended
+ */
+
+import { prisma } from '../lib/prisma';
+import { UserDataExport } from '../types';
+import { AuthService } from './auth.service';
+import { auditService, AuditAction } from './audit.service';
+import { recruiterProfileSelect } from './profile.service';
+import { organizationService } from './organization.service';
+
+// Days between a deletion request and the purge
+const DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10);
+
+export interface DeletionStatus {
+  deletionRequestedAt: Date | null;
+  deletionScheduledFor: Date | null;
+}
+
+export class AccountService {
+  /**
+   * Collect everything stored about a user
+   */
+  async exportData(userId: string): Promise<UserDataExport> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        userType: true,
+        createdAt: true,
+        updatedAt: true,
+        candidateProfile: {
+          include: {
+            platformConnections: true,
+            platformData: true,
+            candidateScores: { orderBy: { createdAt: 'asc' } },
+            scoreDisputes: { orderBy: { submittedAt: 'asc' } },
+            conversations: { include: { messages: { orderBy: { createdAt: 'asc' } } } }
+          }
+        },
+        recruiterProfile: {
+          select: {
+            ...recruiterProfileSelect,
+            savedSearches: { orderBy: { createdAt: 'asc' } },
+            roleProfiles: { orderBy: { createdAt: 'asc' } },
+            webhooks: {
+              select: { id: true, url: true, events: true, isActive: true, createdAt: true }
+            },
+            shortlists: {
+              include: { entries: { include: { stageChanges: { orderBy: { createdAt: 'asc' } } } } },
+              orderBy: { createdAt: 'asc' }
+            },
+            candidateNotes: { orderBy: { createdAt: 'asc' } },
+            conversations: { include: { messages: { orderBy: { createdAt: 'asc' } } } }
+          }
+        },
+        notifications: { orderBy: { createdAt: 'asc' } },
+        pathwayProgress: { include: { pathway: { select: { id: true, title: true } } } },
+        chatSessions: { include: { messages: { orderBy: { createdAt: 'asc' } } } }
+      }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const auditTrail = await prisma.auditLog.findMany({
+      where: { OR: [{ subjectUserId: userId }, { actorId: userId }] },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const {
+      candidateProfile,
+      recruiterProfile,
+      notifications,
+      pathwayProgress,
+      chatSessions,
+      ...account
+    } = user;
+
+    await auditService.logDataAccess(
+      { actorId: userId, actorType: user.userType },
+      AuditAction.DATA_EXPORTED,
+      `user:${userId}`,
+      userId
+    );
+
+    if (candidateProfile) {
+      const { platformConnections, platformData, candidateScores, scoreDisputes, conversations, ...profile } = candidateProfile;
+
+      return {
+        user: account,
+        profile,
+        platformConnections,
+        platformData,
+        scores: candidateScores,
+        scoreDisputes,
+        conversations,
+        notifications,
+        pathwayProgress,
+        chatSessions,
+        auditEntries: auditTrail,
+        exportedAt: new Date()
+      };
+    }
+
+    const { savedSearches, roleProfiles, webhooks, shortlists, candidateNotes, conversations, ...profile } = recruiterProfile
+      ?? { savedSearches: [], roleProfiles: [], webhooks: [], shortlists: [], candidateNotes: [], conversations: [] };
+
+    return {
+      user: account,
+      profile: recruiterProfile ? profile : null,
+      savedSearches,
+      roleProfiles,
+      webhooks,
+      shortlists,
+      candidateNotes,
+      conversations,
+      notifications,
+      pathwayProgress,
+      chatSessions,
+      auditEntries: auditTrail,
+      exportedAt: new Date()
+    };
+  }
+
+  /**
+   * Schedule the account for deletion
+   * Recruiter access ends immediately: the candidate profile is hidden and API keys and webhooks are revoked
+   */
+  async requestDeletion(userId: string, password: string): Promise<DeletionStatus> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!(await AuthService.verifyPassword(password, user.passwordHash))) {
+      throw new Error('Invalid password');
+    }
+
+    if (user.deletionScheduledFor) {
+      throw new Error('Deletion already requested');
+    }
+
+    const now = new Date();
+    const scheduledFor = new Date(now.getTime() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+    const [updated] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { deletionRequestedAt: now, deletionScheduledFor: scheduledFor }
+      }),
+      prisma.candidateProfile.updateMany({
+        where: { userId },
+        data: { isPublic: false }
+      }),
+      prisma.recruiterProfile.updateMany({
+        where: { userId },
+        data: { apiKeyHash: null, apiKeyPrefix: null, apiKeyCreatedAt: null, apiKeyLastUsedAt: null }
+      }),
+      prisma.webhook.updateMany({
+        where: { recruiter: { userId } },
+        data: { isActive: false, disabledAt: now, disabledReason: 'Account deletion requested' }
+      })
+    ]);
+
+    await auditService.logDataAccess(
+      { actorId: userId, actorType: user.userType },
+      AuditAction.ACCOUNT_DELETION_REQUESTED,
+      `user:${userId}`,
+      userId,
+      { scheduledFor }
+    );
+
+    return {
+      deletionRequestedAt: updated.deletionRequestedAt,
+      deletionScheduledFor: updated.deletionScheduledFor
+    };
+  }
+
+  /**
+   * Cancel a pending deletion; the profile stays private until the user makes it public again
+   */
+  async cancelDeletion(userId: string): Promise<void> {
+    const result = await prisma.user.updateMany({
+      where: { id: userId, deletionScheduledFor: { not: null } },
+      data: { deletionRequestedAt: null, deletionScheduledFor: null }
+    });
+
+    if (result.count === 0) {
+      throw new Error('No deletion pending');
+    }
+
+    await auditService.logDataAccess(
+      { actorId: userId },
+      AuditAction.ACCOUNT_DELETION_CANCELLED,
+      `user:${userId}`,
+      userId
+    );
+  }
+
+  /**
+   * Get the deletion schedule for a user
+   */
+  async getDeletionStatus(userId: string): Promise<DeletionStatus> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { deletionRequestedAt: true, deletionScheduledFor: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Permanently delete accounts whose grace period has ended
+   * Profile, platform data, scores, disputes, searches, role profiles, shortlists, notes, conversations and webhooks cascade from the user row
+   */
+  async purgeDueAccounts(): Promise<number> {
+    const due = await prisma.user.findMany({
+      where: { deletionScheduledFor: { lte: new Date() } },
+      select: { id: true }
+    });
+
+    for (const { id } of due) {
+      await organizationService.handOverOwnership(id);
+
+      await prisma.$transaction([
+        // Entries about this user go; entries where they viewed others stay in those users' trails
+        prisma.auditLog.deleteMany({ where: { subjectUserId: id } }),
+        prisma.job.deleteMany({ where: { userId: id } }),
+        prisma.user.delete({ where: { id } })
+      ]);
+
+      await auditService.logDataAccess({}, AuditAction.ACCOUNT_DELETED, `user:${id}`, null);
+    }
+
+    return due.length;
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,227 @@
+/**
+ * Admin Moderation Service
+ * - List and inspect user accounts
+ * - Suspend and reinstate accounts
+ * - Force score recalculation
+ * - Inspect and clear stored platform data
+ */
+
+import { prisma } from '../lib/prisma';
+import { Platform, UserType } from '@prisma/client';
+import { aggregationService, ScoreUpdateResult } from './aggregation.service';
+import { AuditContext } from './audit.service';
+
+// User listing filters
+export interface AdminUserFilters {
+  userType?: UserType;
+  suspended?: boolean;
+  query?: string; // Matches name or email
+}
+
+// User summary for the moderation console
+export interface AdminUserSummary {
+  id: string;
+  email: string;
+  name: string;
+  userType: UserType;
+  suspendedAt: Date | null;
+  suspensionReason: string | null;
+  createdAt: Date;
+  candidateProfileId: string | null;
+  recruiterProfileId: string | null;
+}
+
+// Paginated user listing
+export interface AdminUserList {
+  users: AdminUserSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+const userSummarySelect = {
+  id: true,
+  email: true,
+  name: true,
+  userType: true,
+  suspendedAt: true,
+  suspensionReason: true,
+  createdAt: true,
+  candidateProfile: { select: { id: true } },
+  recruiterProfile: { select: { id: true } }
+} as const;
+
+export class AdminService {
+  /**
+   * List users with optional filters, newest first
+   */
+  async listUsers(filters: AdminUserFilters, page = 1, pageSize = 20): Promise<AdminUserList> {
+    const where = {
+      ...(filters.userType ? { userType: filters.userType } : {}),
+      ...(filters.suspended !== undefined
+        ? { suspendedAt: filters.suspended ? { not: null } : null }
+        : {}),
+      ...(filters.query
+        ? {
+            OR: [
+              { name: { contains: filters.query, mode: 'insensitive' as const } },
+              { email: { contains: filters.query, mode: 'insensitive' as const } }
+            ]
+          }
+        : {})
+    };
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: userSummarySelect,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize
+      }),
+      prisma.user.count({ where })
+    ]);
+
+    return {
+      users: users.map(user => this.toUserSummary(user)),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize)
+    };
+  }
+
+  /**
+   * Suspend an account. Admin accounts cannot be suspended from the console.
+   */
+  async suspendUser(adminId: string, userId: string, reason: string): Promise<AdminUserSummary> {
+    if (adminId === userId) {
+      throw new Error('Admins cannot suspend themselves');
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.userType === UserType.ADMIN) {
+      throw new Error('Admin accounts cannot be suspended');
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        suspendedAt: user.suspendedAt ?? new Date(),
+        suspensionReason: reason
+      },
+      select: userSummarySelect
+    });
+
+    return this.toUserSummary(updated);
+  }
+
+  /**
+   * Lift a suspension
+   */
+  async reinstateUser(userId: string): Promise<AdminUserSummary> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        suspendedAt: null,
+        suspensionReason: null
+      },
+      select: userSummarySelect
+    });
+
+    return this.toUserSummary(updated);
+  }
+
+  /**
+   * Recalculate a candidate's score, optionally refetching platform data first
+   */
+  async recalculateScore(userId: string, refreshData = false, audit: AuditContext = {}): Promise<ScoreUpdateResult> {
+    const candidateProfile = await prisma.candidateProfile.findUnique({
+      where: { userId }
+    });
+
+    if (!candidateProfile) {
+      throw new Error('Candidate profile not found');
+    }
+
+    return refreshData
+      ? aggregationService.refreshAndRecalculate(userId, { trigger: 'admin-recalculation', ...audit })
+      : aggregationService.calculateAndStoreScore(userId, { trigger: 'admin-recalculation', ...audit });
+  }
+
+  /**
+   * Get stored platform data rows for a candidate
+   */
+  async getPlatformData(userId: string, platform?: Platform) {
+    const candidateProfile = await prisma.candidateProfile.findUnique({
+      where: { userId },
+      include: { platformConnections: true }
+    });
+
+    if (!candidateProfile) {
+      throw new Error('Candidate profile not found');
+    }
+
+    const platformData = await prisma.platformData.findMany({
+      where: {
+        candidateId: candidateProfile.id,
+        ...(platform ? { platform } : {})
+      },
+      orderBy: [{ platform: 'asc' }, { dataType: 'asc' }]
+    });
+
+    return {
+      candidateId: candidateProfile.id,
+      connections: candidateProfile.platformConnections,
+      platformData
+    };
+  }
+
+  /**
+   * Delete a bad platform data row so it is refetched on the next sync
+   */
+  async deletePlatformData(platformDataId: string): Promise<boolean> {
+    const result = await prisma.platformData.deleteMany({
+      where: { id: platformDataId }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Flatten profile relations into a user summary
+   */
+  private toUserSummary(user: {
+    id: string;
+    email: string;
+    name: string;
+    userType: UserType;
+    suspendedAt: Date | null;
+    suspensionReason: string | null;
+    createdAt: Date;
+    candidateProfile: { id: string } | null;
+    recruiterProfile: { id: string } | null;
+  }): AdminUserSummary {
+    const { candidateProfile, recruiterProfile, ...rest } = user;
+
+    return {
+      ...rest,
+      candidateProfileId: candidateProfile?.id ?? null,
+      recruiterProfileId: recruiterProfile?.id ?? null
+    };
+  }
+}
+
+export const adminService = new AdminService();
@@ -16,6 +16,21 @@ import {
   twitterConnector, TwitterData,
   linkedInConnector, LinkedInData
 } from './connectors';
+import { webhookService } from './webhook.service';
+import { auditService, AuditContext } from './audit.service';
+import {
+  scoringModelService,
+  ScoringModelDefinition,
+  ScoringWeights,
+  DEFAULT_WEIGHTS,
+  DEFAULT_COEFFICIENTS,
+  DEFAULT_THRESHOLDS,
+  UNVERIFIED_PLATFORM_FACTOR
+} from './scoring-model.service';
+import { cohortService, CohortPercentile } from './cohort.service';
+import { anomalyService } from './anomaly.service';
+
+export { UNVERIFIED_PLATFORM_FACTOR };
 
 // Aggregated digital profile
 export interface DigitalProfile {
@@ -30,25 +45,13 @@ export interface DigitalProfile {
     hashnode?: BlogData;
     medium?: BlogData;
   };
+  // Platforms whose ownership the candidate has proven, e.g. 'github'
+  verifiedPlatforms: string[];
+  // Multiplier for platforms with open or confirmed anomaly flags, e.g. { twitter: 0.5 }
+  dampening?: Record<string, number>;
   aggregatedAt: Date;
 }
 
-// Scoring weights configuration
-export interface ScoringWeights {
-  github: number;
-  linkedin: number;
-  twitter: number;
-  blog: number;
-}
-
-// Default scoring weights
-export const DEFAULT_WEIGHTS: ScoringWeights = {
-  github: 0.35,
-  linkedin: 0.30,
-  twitter: 0.15,
-  blog: 0.20
-};
-
 // Composite score result
 export interface CompositeScore {
   overallScore: number;
@@ -61,6 +64,11 @@ export interface CompositeScore {
     weights: ScoringWeights;
     platformsConnected: string[];
     platformsMissing: string[];
+    platformsUnverified: string[];
+    // Scoring model version that produced the score, null for the built-in formula
+    modelVersion: number | null;
+    // Percentile ranks among public candidates; only set on stored scores
+    percentiles?: CohortPercentile[];
   };
   strengths: string[];
   improvements: string[];
@@ -76,6 +84,28 @@ export interface ScoreUpdateResult {
   changeAmount: number;
 }
 
+/**
+ * Recombine a platform's sub-scores with a model's coefficients; data stored
+ * without sub-scores keeps the overall score the connector calculated
+ */
+export function applyCoefficients(
+  metrics: { overallScore: number },
+  coefficients: Record<string, number>
+): number {
+  const values = metrics as unknown as Record<string, unknown>;
+  let score = 0;
+
+  for (const [metric, coefficient] of Object.entries(coefficients)) {
+    const value = values[metric];
+    if (typeof value !== 'number') {
+      return metrics.overallScore;
+    }
+    score += value * coefficient;
+  }
+
+  return Math.round(Math.min(Math.max(score, 0), 100));
+}
+
 export class AggregationService {
   private weights: ScoringWeights;
 
@@ -135,6 +165,10 @@ export class AggregationService {
       userId: candidateProfile.userId,
       name: candidateProfile.user.name,
       platforms,
+      verifiedPlatforms: candidateProfile.platformConnections
+        .filter(connection => connection.isVerified)
+        .map(connection => connection.platform.toLowerCase()),
+      dampening: await anomalyService.getDampening(candidateProfile.id),
       aggregatedAt: new Date()
     };
   }
@@ -209,32 +243,52 @@ export class AggregationService {
       userId: candidateProfile.userId,
       name: candidateProfile.user.name,
       platforms,
+      verifiedPlatforms: candidateProfile.platformConnections
+        .filter(connection => connection.isVerified)
+        .map(connection => connection.platform.toLowerCase()),
       aggregatedAt: new Date()
     };
   }
 
   /**
-   * Calculate composite score from aggregated profile
+   * Calculate composite score from aggregated profile under a scoring model
    */
-  calculateCompositeScore(profile: DigitalProfile): CompositeScore {
+  calculateCompositeScore(profile: DigitalProfile, model: ScoringModelDefinition = this.getDefaultModel()): CompositeScore {
+    const { weights, coefficients, thresholds } = model;
     const platformScores: Record<string, number> = {};
     const platformsConnected: string[] = [];
     const platformsMissing: string[] = [];
     const allRecommendations: string[] = [];
     const allStrengths: string[] = [];
     const allImprovements: string[] = [];
+    const platformsUnverified: string[] = [];
+
+    // Unverified platforms only count for a fraction of their score
+    const verificationFactor = (platform: string): number => {
+      if (profile.verifiedPlatforms.includes(platform)) {
+        return 1;
+      }
+      if (!platformsUnverified.includes(platform)) {
+        platformsUnverified.push(platform);
+      }
+      return UNVERIFIED_PLATFORM_FACTOR;
+    };
+
+    // Flagged platforms may be scored down until the flag is dismissed
+    const dampen = (platform: string, score: number): number =>
+      Math.round(score * (profile.dampening?.[platform] ?? 1));
 
     // Extract GitHub score
     let githubScore: number | null = null;
     if (profile.platforms.github) {
-      githubScore = profile.platforms.github.metrics.overallScore;
+      githubScore = dampen('github', applyCoefficients(profile.platforms.github.metrics, coefficients.github));
       platformScores['github'] = githubScore;
       platformsConnected.push('github');
       
       // Add recommendations and analyze strengths
       allRecommendations.push(...profile.platforms.github.metrics.recommendations);
-      if (githubScore >= 70) allStrengths.push('Strong GitHub presence with quality code');
-      if (githubScore < 50) allImprovements.push('Improve GitHub activity and project quality');
+      if (githubScore >= thresholds.strength) allStrengths.push('Strong GitHub presence with quality code');
+      if (githubScore < thresholds.improvement) allImprovements.push('Improve GitHub activity and project quality');
     } else {
       platformsMissing.push('github');
     }
@@ -242,13 +296,13 @@ export class AggregationService {
     // Extract LinkedIn score
     let linkedinScore: number | null = null;
     if (profile.platforms.linkedin) {
-      linkedinScore = profile.platforms.linkedin.metrics.overallScore;
+      linkedinScore = dampen('linkedin', applyCoefficients(profile.platforms.linkedin.metrics, coefficients.linkedin));
       platformScores['linkedin'] = linkedinScore;
       platformsConnected.push('linkedin');
       
       allRecommendations.push(...profile.platforms.linkedin.metrics.recommendations);
-      if (linkedinScore >= 70) allStrengths.push('Well-developed professional network');
-      if (linkedinScore < 50) allImprovements.push('Enhance LinkedIn profile and connections');
+      if (linkedinScore >= thresholds.strength) allStrengths.push('Well-developed professional network');
+      if (linkedinScore < thresholds.improvement) allImprovements.push('Enhance LinkedIn profile and connections');
     } else {
       platformsMissing.push('linkedin');
     }
@@ -256,13 +310,13 @@ export class AggregationService {
     // Extract Twitter score
     let socialScore: number | null = null;
     if (profile.platforms.twitter) {
-      socialScore = profile.platforms.twitter.metrics.overallScore;
+      socialScore = dampen('twitter', applyCoefficients(profile.platforms.twitter.metrics, coefficients.twitter));
       platformScores['twitter'] = socialScore;
       platformsConnected.push('twitter');
       
       allRecommendations.push(...profile.platforms.twitter.metrics.recommendations);
-      if (socialScore >= 70) allStrengths.push('Strong social media engagement');
-      if (socialScore < 50) allImprovements.push('Increase technical content on social media');
+      if (socialScore >= thresholds.strength) allStrengths.push('Strong social media engagement');
+      if (socialScore < thresholds.improvement) allImprovements.push('Increase technical content on social media');
     } else {
       platformsMissing.push('twitter');
     }
@@ -270,30 +324,34 @@ export class AggregationService {
     // Calculate combined blog score
     let blogScore: number | null = null;
     const blogScores: number[] = [];
+    const blogFactors: number[] = [];
     
     if (profile.platforms.devto) {
-      blogScores.push(profile.platforms.devto.metrics.overallScore);
-      platformScores['devto'] = profile.platforms.devto.metrics.overallScore;
+      platformScores['devto'] = dampen('devto', applyCoefficients(profile.platforms.devto.metrics, coefficients.blog));
+      blogScores.push(platformScores['devto']);
+      blogFactors.push(verificationFactor('devto'));
       platformsConnected.push('devto');
       allRecommendations.push(...profile.platforms.devto.metrics.recommendations);
     }
     if (profile.platforms.hashnode) {
-      blogScores.push(profile.platforms.hashnode.metrics.overallScore);
-      platformScores['hashnode'] = profile.platforms.hashnode.metrics.overallScore;
+      platformScores['hashnode'] = dampen('hashnode', applyCoefficients(profile.platforms.hashnode.metrics, coefficients.blog));
+      blogScores.push(platformScores['hashnode']);
+      blogFactors.push(verificationFactor('hashnode'));
       platformsConnected.push('hashnode');
       allRecommendations.push(...profile.platforms.hashnode.metrics.recommendations);
     }
     if (profile.platforms.medium) {
-      blogScores.push(profile.platforms.medium.metrics.overallScore);
-      platformScores['medium'] = profile.platforms.medium.metrics.overallScore;
+      platformScores['medium'] = dampen('medium', applyCoefficients(profile.platforms.medium.metrics, coefficients.blog));
+      blogScores.push(platformScores['medium']);
+      blogFactors.push(verificationFactor('medium'));
       platformsConnected.push('medium');
       allRecommendations.push(...profile.platforms.medium.metrics.recommendations);
     }
 
     if (blogScores.length > 0) {
       blogScore = Math.round(blogScores.reduce((a, b) => a + b, 0) / blogScores.length);
-      if (blogScore >= 70) allStrengths.push('Active content creator with quality blogs');
-      if (blogScore < 50) allImprovements.push('Write more technical blog content');
+      if (blogScore >= thresholds.strength) allStrengths.push('Active content creator with quality blogs');
+      if (blogScore < thresholds.improvement) allImprovements.push('Write more technical blog content');
     } else {
       platformsMissing.push('blog');
     }
@@ -303,20 +361,21 @@ export class AggregationService {
     let weightedSum = 0;
 
     if (githubScore !== null) {
-      weightedSum += githubScore * this.weights.github;
-      totalWeight += this.weights.github;
+      weightedSum += githubScore * weights.github * verificationFactor('github');
+      totalWeight += weights.github;
     }
     if (linkedinScore !== null) {
-      weightedSum += linkedinScore * this.weights.linkedin;
-      totalWeight += this.weights.linkedin;
+      weightedSum += linkedinScore * weights.linkedin * verificationFactor('linkedin');
+      totalWeight += weights.linkedin;
     }
     if (socialScore !== null) {
-      weightedSum += socialScore * this.weights.twitter;
-      totalWeight += this.weights.twitter;
+      weightedSum += socialScore * weights.twitter * verificationFactor('twitter');
+      totalWeight += weights.twitter;
     }
     if (blogScore !== null) {
-      weightedSum += blogScore * this.weights.blog;
-      totalWeight += this.weights.blog;
+      const blogFactor = blogFactors.reduce((a, b) => a + b, 0) / blogFactors.length;
+      weightedSum += blogScore * weights.blog * blogFactor;
+      totalWeight += weights.blog;
     }
 
     // Calculate final score (normalize if not all platforms are connected)
@@ -328,6 +387,10 @@ export class AggregationService {
     if (platformsMissing.length > 0) {
       allRecommendations.push(`Connect more platforms: ${platformsMissing.join(', ')}`);
     }
+    if (platformsUnverified.length > 0) {
+      allImprovements.push('Verify ownership of your connected platforms');
+      allRecommendations.unshift(`Verify ownership of: ${platformsUnverified.join(', ')}`);
+    }
 
     // Deduplicate recommendations
     const uniqueRecommendations = [...new Set(allRecommendations)];
@@ -340,9 +403,11 @@ export class AggregationService {
       socialScore,
       breakdown: {
         platformScores,
-        weights: this.weights,
+        weights,
         platformsConnected,
-        platformsMissing
+        platformsMissing,
+        platformsUnverified,
+        modelVersion: model.version
       },
       strengths: allStrengths,
       improvements: allImprovements,
@@ -354,7 +419,7 @@ export class AggregationService {
   /**
    * Calculate and store composite score for a candidate
    */
-  async calculateAndStoreScore(userId: string): Promise<ScoreUpdateResult> {
+  async calculateAndStoreScore(userId: string, audit: AuditContext = {}): Promise<ScoreUpdateResult> {
     // Get candidate profile
     const candidateProfile = await prisma.candidateProfile.findUnique({
       where: { userId }
@@ -382,7 +447,9 @@ export class AggregationService {
           platformScores: {},
           weights: this.weights,
           platformsConnected: [],
-          platformsMissing: []
+          platformsMissing: [],
+          platformsUnverified: [],
+          modelVersion: previousScoreRecord.modelVersion
         },
         strengths: previousScoreRecord.strengths,
         improvements: previousScoreRecord.improvements,
@@ -391,9 +458,9 @@ export class AggregationService {
       };
     }
 
-    // Aggregate profile and calculate new score
+    // Aggregate profile and calculate new score under the active model
     const profile = await this.aggregateProfile(userId);
-    const current = this.calculateCompositeScore(profile);
+    const current = this.calculateCompositeScore(profile, await scoringModelService.getActiveModel());
 
     // Store the new score
     await prisma.candidateScore.upsert({
@@ -408,7 +475,8 @@ export class AggregationService {
         blogScore: current.blogScore,
         socialScore: current.socialScore,
         strengths: current.strengths,
-        improvements: current.improvements
+        improvements: current.improvements,
+        modelVersion: current.breakdown.modelVersion
       },
       update: {
         compositeScore: current.overallScore,
@@ -418,6 +486,7 @@ export class AggregationService {
         socialScore: current.socialScore,
         strengths: current.strengths,
         improvements: current.improvements,
+        modelVersion: current.breakdown.modelVersion,
         updatedAt: new Date()
       }
     });
@@ -425,6 +494,27 @@ export class AggregationService {
     const changed = previous !== null && previous.overallScore !== current.overallScore;
     const changeAmount = previous !== null ? current.overallScore - previous.overallScore : current.overallScore;
 
+    await auditService.logScoreCalculation(
+      userId,
+      candidateProfile.id,
+      current,
+      previous?.overallScore ?? null,
+      audit
+    );
+
+    // Tell recruiters watching for this candidate
+    if (previous === null) {
+      await webhookService.emitCandidateEvent('new_candidate_match', candidateProfile.id, {
+        currentScore: current.overallScore
+      });
+    } else if (changed) {
+      await webhookService.emitCandidateEvent('score_updated', candidateProfile.id, {
+        previousScore: previous.overallScore,
+        currentScore: current.overallScore,
+        changeAmount
+      });
+    }
+
     return {
       previous,
       current,
@@ -454,9 +544,20 @@ export class AggregationService {
       return null;
     }
 
-    // Rebuild full score from stored data
+    // Rebuild full score from stored data with the model that produced it
+    const model = scoreRecord.modelVersion !== null
+      ? await scoringModelService.getModel(scoreRecord.modelVersion)
+      : null;
     const profile = await this.aggregateProfile(userId);
-    return this.calculateCompositeScore(profile);
+    const score = this.calculateCompositeScore(profile, model ?? undefined);
+
+    score.breakdown.percentiles = await cohortService.getPercentiles({
+      location: candidateProfile.location,
+      primaryLanguage: profile.platforms.github?.metrics.breakdown.topLanguage ?? null,
+      yearsOfExperience: profile.platforms.linkedin?.metrics.breakdown.yearsOfExperience ?? null
+    }, score.overallScore);
+
+    return score;
   }
 
   /**
@@ -487,7 +588,9 @@ export class AggregationService {
         platformScores: {},
         weights: this.weights,
         platformsConnected: [],
-        platformsMissing: []
+        platformsMissing: [],
+        platformsUnverified: [],
+        modelVersion: score.modelVersion
       },
       strengths: score.strengths,
       improvements: score.improvements,
@@ -497,11 +600,20 @@ export class AggregationService {
   }
 
   /**
-   * Refresh data and recalculate score
+   * Refresh data, check it for anomalies and recalculate score
    */
-  async refreshAndRecalculate(userId: string): Promise<ScoreUpdateResult> {
-    await this.refreshAllPlatformData(userId);
-    return this.calculateAndStoreScore(userId);
+  async refreshAndRecalculate(userId: string, audit: AuditContext = {}): Promise<ScoreUpdateResult> {
+    // Connectors overwrite the cache, so keep the previous snapshot to compare against
+    const previous = await this.aggregateProfile(userId);
+    const refreshed = await this.refreshAllPlatformData(userId);
+
+    try {
+      await anomalyService.detectAnomalies(refreshed.candidateId, previous.platforms, refreshed.platforms);
+    } catch (error) {
+      console.error('Error detecting score anomalies:', error);
+    }
+
+    return this.calculateAndStoreScore(userId, { trigger: 'data-refresh', ...audit });
   }
 
   /**
@@ -517,6 +629,18 @@ export class AggregationService {
   getWeights(): ScoringWeights {
     return { ...this.weights };
   }
+
+  /**
+   * The built-in formula, used when no stored model applies
+   */
+  getDefaultModel(): ScoringModelDefinition {
+    return {
+      version: null,
+      weights: this.getWeights(),
+      coefficients: DEFAULT_COEFFICIENTS,
+      thresholds: DEFAULT_THRESHOLDS
+    };
+  }
 }
 
 export const aggregationService = new AggregationService();
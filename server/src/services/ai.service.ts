@@ -16,8 +16,7 @@ export const crawlPapers = async (query: string): Promise<any[]> => {
                     title: p.title || 'Untitled',
                     abstract: p.abstract || '',
                     url: p.url || '',
-                    authors: [], // Firecrawl search might not return authors directly
-                    publishedDate: new Date().toISOString(),
+                    authors: [], // Firecrawl search might not return authors or dates directly
                     content: p.content || ''
                 }
             });
@@ -73,3 +72,11 @@ export const chatWithGemini = async (userId: string, message: string, contextPap
 
     return { response: responseText, sessionId: session.id };
 };
+
+export const getChatHistory = async (userId: string) => {
+    return await prisma.chatSession.findMany({
+        where: { userId },
+        include: { messages: { orderBy: { createdAt: 'asc' } } },
+        orderBy: { updatedAt: 'desc' }
+    });
+};
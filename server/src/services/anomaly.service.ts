@@ -0,0 +1,352 @@
+/**
+ * Score Anomaly Service
+ * - Compares each connector refresh with the previous snapshot to spot score gaming
+ * - Flags follower spikes, empty repositories, implausible tweet engagement and duplicated blog posts
+ * - Open and confirmed flags can dampen the affected platform's score until an admin dismisses them
+ */
+
+import { prisma } from '../lib/prisma';
+import { Platform, Prisma, ScoreAnomaly as PrismaScoreAnomaly } from '@prisma/client';
+import { DigitalProfile } from './aggregation.service';
+import { BlogData, GitHubData, TwitterData } from './connectors';
+
+export type AnomalyType = 'follower-spike' | 'empty-repositories' | 'engagement-ratio' | 'duplicate-posts';
+
+export type AnomalyStatus = 'open' | 'confirmed' | 'dismissed';
+
+export interface AnomalyFinding {
+  platform: Platform;
+  type: AnomalyType;
+  summary: string;
+  details: Record<string, unknown>;
+}
+
+export interface ScoreAnomaly extends AnomalyFinding {
+  id: string;
+  candidateId: string;
+  candidateName?: string;
+  candidateUserId?: string;
+  dampening: number;
+  status: AnomalyStatus;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AnomalyReview {
+  status: Exclude<AnomalyStatus, 'open'>;
+  dampening?: number;
+}
+
+export interface AnomalyReviewResult {
+  anomaly: ScoreAnomaly;
+  userId: string;
+  // The platform score in effect moved, so the stored score is stale
+  dampeningChanged: boolean;
+}
+
+// A flag only dampens by default when configured; 1 leaves scores untouched until an admin confirms
+const DEFAULT_DAMPENING = parseFloat(process.env.ANOMALY_DAMPENING_FACTOR || '1');
+// A dismissed pattern is not raised again for this long
+const SUPPRESS_DAYS = parseInt(process.env.ANOMALY_SUPPRESS_DAYS || '30', 10);
+
+const FOLLOWER_SPIKE_MIN_GAIN = 500;
+const FOLLOWER_SPIKE_RATIO = 3;
+const FOLLOWER_SPIKE_BASELINE = 50;
+
+const EMPTY_REPOSITORIES_MIN = 5;
+const EMPTY_REPOSITORIES_SHARE = 0.5;
+
+const ENGAGEMENT_MIN_FOLLOWERS = 1000;
+const ENGAGEMENT_MIN_TWEETS = 10;
+const ENGAGEMENT_RATIO_LOW = 0.0005;
+const ENGAGEMENT_RATIO_HIGH = 0.5;
+
+const DUPLICATE_POSTS_MIN = 3;
+
+const ACTIVE_STATUSES: AnomalyStatus[] = ['open', 'confirmed'];
+
+/**
+ * A follower count that jumped far beyond the previous snapshot
+ */
+export function detectFollowerSpike(
+  platform: Platform,
+  previousFollowers: number | undefined,
+  currentFollowers: number | undefined
+): AnomalyFinding | null {
+  if (previousFollowers === undefined || currentFollowers === undefined) return null;
+
+  const gain = currentFollowers - previousFollowers;
+  if (gain < FOLLOWER_SPIKE_MIN_GAIN) return null;
+  if (currentFollowers < Math.max(previousFollowers, FOLLOWER_SPIKE_BASELINE) * FOLLOWER_SPIKE_RATIO) return null;
+
+  return {
+    platform,
+    type: 'follower-spike',
+    summary: `Followers jumped from ${previousFollowers} to ${currentFollowers} since the last refresh`,
+    details: { previousFollowers, currentFollowers, gain }
+  };
+}
+
+/**
+ * Many own repositories that were never pushed to after being created
+ */
+export function detectEmptyRepositories(github: GitHubData): AnomalyFinding | null {
+  const own = github.repositories.filter(repo => !repo.isForked);
+  // The repository listing has no commit counts; no code and no push after creation means no commits
+  const empty = own.filter(repo =>
+    Object.keys(repo.languages).length === 0 &&
+    new Date(repo.pushedAt).getTime() <= new Date(repo.createdAt).getTime()
+  );
+
+  if (empty.length < EMPTY_REPOSITORIES_MIN || empty.length < own.length * EMPTY_REPOSITORIES_SHARE) return null;
+
+  return {
+    platform: Platform.GITHUB,
+    type: 'empty-repositories',
+    summary: `${empty.length} of ${own.length} repositories have no commits`,
+    details: {
+      emptyRepositories: empty.length,
+      ownRepositories: own.length,
+      examples: empty.slice(0, 5).map(repo => repo.fullName)
+    }
+  };
+}
+
+/**
+ * Average engagement per original tweet far outside what the follower count supports
+ */
+export function detectEngagementRatio(twitter: TwitterData): AnomalyFinding | null {
+  const followers = twitter.profile.followers;
+  const original = twitter.tweets.filter(tweet => !tweet.isRetweet);
+
+  if (followers < ENGAGEMENT_MIN_FOLLOWERS || original.length < ENGAGEMENT_MIN_TWEETS) return null;
+
+  const engagement = original.reduce((sum, tweet) => sum + tweet.likes + tweet.retweets + tweet.replies + tweet.quotes, 0);
+  const ratio = engagement / original.length / followers;
+
+  if (ratio >= ENGAGEMENT_RATIO_LOW && ratio <= ENGAGEMENT_RATIO_HIGH) return null;
+
+  return {
+    platform: Platform.TWITTER,
+    type: 'engagement-ratio',
+    summary: ratio < ENGAGEMENT_RATIO_LOW
+      ? `Tweets get almost no engagement for ${followers} followers`
+      : `Tweets get more engagement than ${followers} followers could plausibly give`,
+    details: { followers, tweets: original.length, engagementPerTweet: Math.round(engagement / original.length), ratio }
+  };
+}
+
+/**
+ * Clusters of posts sharing a title or excerpt on one blog
+ */
+export function detectDuplicatePosts(platform: Platform, blog: BlogData): AnomalyFinding | null {
+  const normalize = (text: string | null) => (text ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  const clusters = new Map<string, string[]>();
+
+  for (const post of blog.posts) {
+    const keys = new Set([normalize(post.title), normalize(post.excerpt)].filter(key => key.length > 0));
+    keys.forEach(key => clusters.set(key, [...(clusters.get(key) ?? []), post.id]));
+  }
+
+  const duplicated = Array.from(clusters.values()).filter(ids => ids.length >= DUPLICATE_POSTS_MIN);
+  if (duplicated.length === 0) return null;
+
+  const posts = new Set(duplicated.flat());
+
+  return {
+    platform,
+    type: 'duplicate-posts',
+    summary: `${posts.size} of ${blog.posts.length} posts repeat the same title or excerpt`,
+    details: { duplicatePosts: posts.size, totalPosts: blog.posts.length, clusters: duplicated.length }
+  };
+}
+
+/**
+ * Every suspicious pattern in a refresh, given the snapshot before it
+ */
+export function detectFindings(
+  previous: DigitalProfile['platforms'],
+  current: DigitalProfile['platforms']
+): AnomalyFinding[] {
+  const findings: (AnomalyFinding | null)[] = [];
+
+  if (current.github) {
+    findings.push(
+      detectFollowerSpike(Platform.GITHUB, previous.github?.profile.followers, current.github.profile.followers),
+      detectEmptyRepositories(current.github)
+    );
+  }
+  if (current.twitter) {
+    findings.push(
+      detectFollowerSpike(Platform.TWITTER, previous.twitter?.profile.followers, current.twitter.profile.followers),
+      detectEngagementRatio(current.twitter)
+    );
+  }
+  if (current.devto) findings.push(detectDuplicatePosts(Platform.DEVTO, current.devto));
+  if (current.hashnode) findings.push(detectDuplicatePosts(Platform.HASHNODE, current.hashnode));
+  if (current.medium) findings.push(detectDuplicatePosts(Platform.MEDIUM, current.medium));
+
+  return findings.filter((finding): finding is AnomalyFinding => finding !== null);
+}
+
+export class AnomalyService {
+  /**
+   * Flag the patterns found in a refresh; returns the newly raised flags
+   * An open flag of the same kind is updated instead, and a recently dismissed one is not raised again
+   */
+  async detectAnomalies(
+    candidateId: string,
+    previous: DigitalProfile['platforms'],
+    current: DigitalProfile['platforms']
+  ): Promise<ScoreAnomaly[]> {
+    const findings = detectFindings(previous, current);
+    if (findings.length === 0) return [];
+
+    const suppressSince = new Date(Date.now() - SUPPRESS_DAYS * 24 * 60 * 60 * 1000);
+    const existing = await prisma.scoreAnomaly.findMany({
+      where: {
+        candidateId,
+        OR: [
+          { status: { in: ACTIVE_STATUSES } },
+          { status: 'dismissed', reviewedAt: { gte: suppressSince } }
+        ]
+      }
+    });
+
+    const raised: ScoreAnomaly[] = [];
+
+    for (const finding of findings) {
+      const match = existing.find(row => row.platform === finding.platform && row.type === finding.type);
+
+      if (match?.status === 'dismissed') continue;
+
+      if (match) {
+        await prisma.scoreAnomaly.update({
+          where: { id: match.id },
+          data: { summary: finding.summary, details: finding.details as Prisma.InputJsonValue }
+        });
+        continue;
+      }
+
+      const created = await prisma.scoreAnomaly.create({
+        data: {
+          candidateId,
+          platform: finding.platform,
+          type: finding.type,
+          summary: finding.summary,
+          details: finding.details as Prisma.InputJsonValue,
+          dampening: DEFAULT_DAMPENING
+        }
+      });
+      raised.push(this.toScoreAnomaly(created));
+    }
+
+    return raised;
+  }
+
+  /**
+   * Score multiplier per flagged platform, keyed like verified platforms, e.g. 'github'
+   */
+  async getDampening(candidateId: string): Promise<Record<string, number>> {
+    const anomalies = await prisma.scoreAnomaly.findMany({
+      where: { candidateId, status: { in: ACTIVE_STATUSES }, dampening: { lt: 1 } },
+      select: { platform: true, dampening: true }
+    });
+
+    const dampening: Record<string, number> = {};
+    for (const anomaly of anomalies) {
+      const platform = anomaly.platform.toLowerCase();
+      dampening[platform] = Math.min(dampening[platform] ?? 1, anomaly.dampening);
+    }
+    return dampening;
+  }
+
+  /**
+   * List flags for admin review, newest first
+   */
+  async listAnomalies(
+    status?: AnomalyStatus,
+    limit = 50,
+    offset = 0
+  ): Promise<{ anomalies: ScoreAnomaly[]; total: number }> {
+    const where = status ? { status } : {};
+
+    const [anomalies, total] = await Promise.all([
+      prisma.scoreAnomaly.findMany({
+        where,
+        include: { candidate: { select: { userId: true, user: { select: { name: true } } } } },
+        orderBy: { createdAt: 'desc' },
+        skip: offset,
+        take: limit
+      }),
+      prisma.scoreAnomaly.count({ where })
+    ]);
+
+    return {
+      anomalies: anomalies.map(anomaly => ({
+        ...this.toScoreAnomaly(anomaly),
+        candidateName: anomaly.candidate.user.name,
+        candidateUserId: anomaly.candidate.userId
+      })),
+      total
+    };
+  }
+
+  /**
+   * Confirm or dismiss a flag, optionally changing how much it dampens the platform score
+   */
+  async reviewAnomaly(anomalyId: string, reviewerId: string, review: AnomalyReview): Promise<AnomalyReviewResult> {
+    const existing = await prisma.scoreAnomaly.findUnique({
+      where: { id: anomalyId },
+      include: { candidate: { select: { userId: true } } }
+    });
+
+    if (!existing) {
+      throw new Error('Anomaly not found');
+    }
+
+    if (review.dampening !== undefined && review.status === 'dismissed') {
+      throw new Error('Dismissed anomalies cannot dampen a score');
+    }
+
+    const updated = await prisma.scoreAnomaly.update({
+      where: { id: anomalyId },
+      data: {
+        status: review.status,
+        dampening: review.dampening ?? existing.dampening,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date()
+      }
+    });
+
+    const inEffect = (row: PrismaScoreAnomaly) =>
+      ACTIVE_STATUSES.includes(row.status as AnomalyStatus) ? row.dampening : 1;
+
+    return {
+      anomaly: this.toScoreAnomaly(updated),
+      userId: existing.candidate.userId,
+      dampeningChanged: inEffect(existing) !== inEffect(updated)
+    };
+  }
+
+  private toScoreAnomaly(row: PrismaScoreAnomaly): ScoreAnomaly {
+    return {
+      id: row.id,
+      candidateId: row.candidateId,
+      platform: row.platform,
+      type: row.type as AnomalyType,
+      summary: row.summary,
+      details: row.details as Record<string, unknown>,
+      dampening: row.dampening,
+      status: row.status as AnomalyStatus,
+      reviewedBy: row.reviewedBy,
+      reviewedAt: row.reviewedAt,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
+
+export const anomalyService = new AnomalyService();
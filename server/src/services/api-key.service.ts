@@ -0,0 +1,318 @@
+/**
+ * Recruiter API Key Service
+ * - Key generation, rotation and revocation (only a SHA-256 hash is stored)
+ * - Key validation for the public API
+ * - Monthly call quotas by subscription tier, pooled for organization members
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from '../lib/prisma';
+import { Organization, RecruiterProfile, SubscriptionTier } from '@prisma/client';
+import { RateLimit } from '../types';
+
+// Monthly API calls included in each subscription tier
+export const TIER_API_LIMITS: Record<SubscriptionTier, number> = {
+  [SubscriptionTier.BASIC]: 1000,
+  [SubscriptionTier.PREMIUM]: 10000,
+  [SubscriptionTier.ENTERPRISE]: 100000
+};
+
+/**
+ * Monthly API calls shared by an organization: the tier allowance for every seat
+ */
+export function organizationApiLimit(tier: SubscriptionTier, seatLimit: number): number {
+  return TIER_API_LIMITS[tier] * seatLimit;
+}
+
+const KEY_PREFIX = 'dd_live_';
+// Enough of the key to tell keys apart in the UI without revealing it
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+const QUOTA_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Returned once when a key is issued
+export interface IssuedApiKey {
+  apiKey: string;
+  prefix: string;
+  createdAt: Date;
+}
+
+export interface ApiKeyStatus {
+  hasKey: boolean;
+  prefix: string | null;
+  createdAt: Date | null;
+  lastUsedAt: Date | null;
+  tier: SubscriptionTier;
+  // Calls are counted against the organization's quota rather than the recruiter's
+  pooled: boolean;
+  used: number;
+  rateLimit: RateLimit;
+}
+
+export interface ApiCallResult {
+  allowed: boolean;
+  rateLimit: RateLimit;
+}
+
+// The columns shared by recruiter and organization quotas
+type QuotaCounter = Pick<RecruiterProfile, 'apiCallsUsed' | 'apiCallsLimit' | 'apiCallsResetAt'>;
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+export class ApiKeyService {
+  /**
+   * Issue the recruiter's first API key
+   */
+  async generateApiKey(recruiterUserId: string): Promise<IssuedApiKey> {
+    const recruiterProfile = await this.getRecruiterProfile(recruiterUserId);
+
+    if (recruiterProfile.apiKeyHash) {
+      throw new Error('API key already exists');
+    }
+
+    return this.issueKey(recruiterProfile);
+  }
+
+  /**
+   * Replace the recruiter's API key; the old key stops working immediately
+   */
+  async rotateApiKey(recruiterUserId: string): Promise<IssuedApiKey> {
+    const recruiterProfile = await this.getRecruiterProfile(recruiterUserId);
+
+    if (!recruiterProfile.apiKeyHash) {
+      throw new Error('API key not found');
+    }
+
+    return this.issueKey(recruiterProfile);
+  }
+
+  /**
+   * Revoke the recruiter's API key
+   */
+  async revokeApiKey(recruiterUserId: string): Promise<void> {
+    const recruiterProfile = await this.getRecruiterProfile(recruiterUserId);
+
+    if (!recruiterProfile.apiKeyHash) {
+      throw new Error('API key not found');
+    }
+
+    await prisma.recruiterProfile.update({
+      where: { id: recruiterProfile.id },
+      data: {
+        apiKeyHash: null,
+        apiKeyPrefix: null,
+        apiKeyCreatedAt: null,
+        apiKeyLastUsedAt: null
+      }
+    });
+  }
+
+  /**
+   * Get key details and quota usage without revealing the key
+   */
+  async getApiKeyStatus(recruiterUserId: string): Promise<ApiKeyStatus> {
+    const recruiterProfile = await this.rollQuotaWindow(await this.getRecruiterProfile(recruiterUserId));
+    const organization = await this.getOrganization(recruiterProfile.id);
+    const quota: QuotaCounter = organization ? await this.rollOrganizationQuotaWindow(organization) : recruiterProfile;
+
+    return {
+      hasKey: recruiterProfile.apiKeyHash !== null,
+      prefix: recruiterProfile.apiKeyPrefix,
+      createdAt: recruiterProfile.apiKeyCreatedAt,
+      lastUsedAt: recruiterProfile.apiKeyLastUsedAt,
+      tier: organization?.subscriptionTier ?? recruiterProfile.subscriptionTier,
+      pooled: organization !== null,
+      used: quota.apiCallsUsed,
+      rateLimit: this.toRateLimit(quota)
+    };
+  }
+
+  /**
+   * Find the recruiter behind an API key; keys of suspended or unverified accounts are rejected
+   */
+  async validateApiKey(apiKey: string): Promise<RecruiterProfile | null> {
+    if (!apiKey.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    return prisma.recruiterProfile.findFirst({
+      where: {
+        apiKeyHash: hashApiKey(apiKey),
+        user: { suspendedAt: null, emailVerifiedAt: { not: null } }
+      }
+    });
+  }
+
+  /**
+   * Charge one call against the recruiter's quota, or the organization's when the recruiter is a member
+   */
+  async consumeApiCall(recruiterProfile: RecruiterProfile): Promise<ApiCallResult> {
+    const organization = await this.getOrganization(recruiterProfile.id);
+
+    if (organization) {
+      return this.consumeOrganizationApiCall(recruiterProfile, organization);
+    }
+
+    const current = await this.rollQuotaWindow(recruiterProfile);
+
+    // Compare against the column so concurrent calls cannot overshoot the limit
+    const charged = await prisma.recruiterProfile.updateMany({
+      where: {
+        id: current.id,
+        apiCallsUsed: { lt: prisma.recruiterProfile.fields.apiCallsLimit }
+      },
+      data: {
+        apiCallsUsed: { increment: 1 },
+        apiKeyLastUsedAt: new Date()
+      }
+    });
+
+    const updated = await prisma.recruiterProfile.findUniqueOrThrow({
+      where: { id: current.id }
+    });
+
+    return {
+      allowed: charged.count === 1,
+      rateLimit: this.toRateLimit(updated)
+    };
+  }
+
+  private async consumeOrganizationApiCall(
+    recruiterProfile: RecruiterProfile,
+    organization: Organization
+  ): Promise<ApiCallResult> {
+    const current = await this.rollOrganizationQuotaWindow(organization);
+
+    // Same conditional increment as for recruiters, so members cannot overshoot the pool together
+    const charged = await prisma.organization.updateMany({
+      where: {
+        id: current.id,
+        apiCallsUsed: { lt: prisma.organization.fields.apiCallsLimit }
+      },
+      data: {
+        apiCallsUsed: { increment: 1 }
+      }
+    });
+
+    await prisma.recruiterProfile.update({
+      where: { id: recruiterProfile.id },
+      data: { apiKeyLastUsedAt: new Date() }
+    });
+
+    const updated = await prisma.organization.findUniqueOrThrow({
+      where: { id: current.id }
+    });
+
+    return {
+      allowed: charged.count === 1,
+      rateLimit: this.toRateLimit(updated)
+    };
+  }
+
+  /**
+   * Start a new quota window once the current one has ended
+   * The limit is reset to the subscription tier's allowance
+   */
+  private async rollQuotaWindow(recruiterProfile: RecruiterProfile): Promise<RecruiterProfile> {
+    if (Date.now() < recruiterProfile.apiCallsResetAt.getTime() + QUOTA_WINDOW_MS) {
+      return recruiterProfile;
+    }
+
+    // Conditional on the old window so concurrent requests only reset once
+    await prisma.recruiterProfile.updateMany({
+      where: {
+        id: recruiterProfile.id,
+        apiCallsResetAt: recruiterProfile.apiCallsResetAt
+      },
+      data: {
+        apiCallsUsed: 0,
+        apiCallsLimit: TIER_API_LIMITS[recruiterProfile.subscriptionTier],
+        apiCallsResetAt: new Date()
+      }
+    });
+
+    return prisma.recruiterProfile.findUniqueOrThrow({
+      where: { id: recruiterProfile.id }
+    });
+  }
+
+  private async rollOrganizationQuotaWindow(organization: Organization): Promise<Organization> {
+    if (Date.now() < organization.apiCallsResetAt.getTime() + QUOTA_WINDOW_MS) {
+      return organization;
+    }
+
+    await prisma.organization.updateMany({
+      where: {
+        id: organization.id,
+        apiCallsResetAt: organization.apiCallsResetAt
+      },
+      data: {
+        apiCallsUsed: 0,
+        apiCallsLimit: organizationApiLimit(organization.subscriptionTier, organization.seatLimit),
+        apiCallsResetAt: new Date()
+      }
+    });
+
+    return prisma.organization.findUniqueOrThrow({
+      where: { id: organization.id }
+    });
+  }
+
+  /**
+   * Store a new key hash and return the raw key
+   */
+  private async issueKey(recruiterProfile: RecruiterProfile): Promise<IssuedApiKey> {
+    const apiKey = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const prefix = apiKey.slice(0, DISPLAY_PREFIX_LENGTH);
+    const createdAt = new Date();
+
+    await prisma.recruiterProfile.update({
+      where: { id: recruiterProfile.id },
+      data: {
+        apiKeyHash: hashApiKey(apiKey),
+        apiKeyPrefix: prefix,
+        apiKeyCreatedAt: createdAt,
+        apiKeyLastUsedAt: null,
+        apiCallsLimit: TIER_API_LIMITS[recruiterProfile.subscriptionTier]
+      }
+    });
+
+    return { apiKey, prefix, createdAt };
+  }
+
+  private async getRecruiterProfile(recruiterUserId: string): Promise<RecruiterProfile> {
+    const recruiterProfile = await prisma.recruiterProfile.findUnique({
+      where: { userId: recruiterUserId }
+    });
+
+    if (!recruiterProfile) {
+      throw new Error('Recruiter profile not found');
+    }
+
+    return recruiterProfile;
+  }
+
+  private async getOrganization(recruiterProfileId: string): Promise<Organization | null> {
+    const membership = await prisma.organizationMember.findUnique({
+      where: { recruiterId: recruiterProfileId },
+      include: { organization: true }
+    });
+
+    return membership?.organization ?? null;
+  }
+
+  private toRateLimit(quota: QuotaCounter): RateLimit {
+    return {
+      limit: quota.apiCallsLimit,
+      remaining: Math.max(quota.apiCallsLimit - quota.apiCallsUsed, 0),
+      resetTime: new Date(quota.apiCallsResetAt.getTime() + QUOTA_WINDOW_MS),
+      windowMs: QUOTA_WINDOW_MS
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,221 @@
+/**
+ * Audit Trail Service
+ * - Append-only log of data access, public API calls and score calculations
+ * - Candidate-facing trail of who viewed their profile
+ * - Filterable trail for admins and compliance exports
+ */
+
+import { prisma } from '../lib/prisma';
+import { AuditLog as PrismaAuditLog, Prisma, UserType } from '@prisma/client';
+import { AuditEntry } from '../types';
+import { CompositeScore } from './aggregation.service';
+
+export enum AuditAction {
+  CANDIDATE_VIEWED = 'candidate.viewed',
+  SCORE_CALCULATED = 'score.calculated',
+  API_CALL = 'api.call',
+  DATA_EXPORTED = 'data.exported',
+  ACCOUNT_DELETION_REQUESTED = 'account.deletion_requested',
+  ACCOUNT_DELETION_CANCELLED = 'account.deletion_cancelled',
+  ACCOUNT_DELETED = 'account.deleted'
+}
+
+// Who performed an action and from where; omitted actors are the system
+export interface AuditContext {
+  actorId?: string;
+  actorType?: UserType | 'SYSTEM';
+  ipAddress?: string;
+  userAgent?: string;
+  trigger?: string;
+}
+
+export interface AuditTrailFilters {
+  subjectUserId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Audit entry with the acting user's details; `userId` is the actor
+export interface AuditTrailEntry extends AuditEntry {
+  actorType: string;
+  subjectUserId: string | null;
+  actor: {
+    name: string;
+    userType: UserType;
+    company: string | null;
+  } | null;
+}
+
+export interface AuditTrail {
+  entries: AuditTrailEntry[];
+  total: number;
+}
+
+export class AuditService {
+  /**
+   * Record a read of someone's data
+   */
+  async logDataAccess(
+    context: AuditContext,
+    action: AuditAction,
+    resource: string,
+    subjectUserId: string | null,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    await this.append({
+      ...this.fromContext(context),
+      subjectUserId,
+      action,
+      resource,
+      metadata: metadata ? (JSON.parse(JSON.stringify(metadata)) as Prisma.InputJsonValue) : undefined
+    });
+  }
+
+  /**
+   * Record a recruiter viewing a candidate profile
+   */
+  async logCandidateView(context: AuditContext, candidateId: string, source: string): Promise<void> {
+    const candidateProfile = await prisma.candidateProfile.findUnique({
+      where: { id: candidateId },
+      select: { userId: true }
+    });
+
+    await this.logDataAccess(
+      context,
+      AuditAction.CANDIDATE_VIEWED,
+      `candidate:${candidateId}`,
+      candidateProfile?.userId ?? null,
+      { source }
+    );
+  }
+
+  /**
+   * Record a stored score calculation
+   */
+  async logScoreCalculation(
+    userId: string,
+    candidateId: string,
+    score: CompositeScore,
+    previousScore: number | null,
+    context: AuditContext = {}
+  ): Promise<void> {
+    await this.append({
+      ...this.fromContext(context),
+      subjectUserId: userId,
+      action: AuditAction.SCORE_CALCULATED,
+      resource: `candidate:${candidateId}`,
+      metadata: {
+        trigger: context.trigger ?? null,
+        previousScore,
+        overallScore: score.overallScore,
+        githubScore: score.githubScore,
+        linkedinScore: score.linkedinScore,
+        blogScore: score.blogScore,
+        socialScore: score.socialScore,
+        weights: JSON.parse(JSON.stringify(score.breakdown.weights)),
+        platformsConnected: score.breakdown.platformsConnected
+      }
+    });
+  }
+
+  /**
+   * Record a public API call made with a recruiter's API key
+   */
+  async logApiCall(
+    recruiterUserId: string,
+    endpoint: string,
+    parameters: Record<string, unknown>,
+    context: AuditContext = {}
+  ): Promise<void> {
+    await this.append({
+      ...this.fromContext({ ...context, actorId: recruiterUserId, actorType: UserType.RECRUITER }),
+      action: AuditAction.API_CALL,
+      resource: endpoint,
+      metadata: JSON.parse(JSON.stringify({ parameters }))
+    });
+  }
+
+  /**
+   * Get audit entries, newest first
+   */
+  async getAuditTrail(filters: AuditTrailFilters, limit = 50, offset = 0): Promise<AuditTrail> {
+    const where: Prisma.AuditLogWhereInput = {
+      subjectUserId: filters.subjectUserId,
+      actorId: filters.actorId,
+      action: filters.action,
+      createdAt: filters.startDate || filters.endDate
+        ? { gte: filters.startDate, lte: filters.endDate }
+        : undefined
+    };
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: offset,
+        take: limit
+      }),
+      prisma.auditLog.count({ where })
+    ]);
+
+    // Actors are looked up separately: the log keeps no foreign keys so it outlives accounts
+    const actorIds = Array.from(new Set(logs.map(l => l.actorId).filter((id): id is string => id !== null)));
+    const actors = await prisma.user.findMany({
+      where: { id: { in: actorIds } },
+      select: { id: true, name: true, userType: true, recruiterProfile: { select: { company: true } } }
+    });
+    const actorsById = new Map(actors.map(a => [a.id, a]));
+
+    return {
+      entries: logs.map(log => {
+        const actor = log.actorId ? actorsById.get(log.actorId) : undefined;
+        return {
+          ...this.toAuditEntry(log),
+          actor: actor
+            ? { name: actor.name, userType: actor.userType, company: actor.recruiterProfile?.company ?? null }
+            : null
+        };
+      }),
+      total
+    };
+  }
+
+  /**
+   * Insert an entry; failures are logged so auditing never breaks the request
+   */
+  private async append(data: Prisma.AuditLogUncheckedCreateInput): Promise<void> {
+    try {
+      await prisma.auditLog.create({ data });
+    } catch (error) {
+      console.error('Audit Log Error:', error);
+    }
+  }
+
+  private fromContext(context: AuditContext) {
+    return {
+      actorId: context.actorId ?? null,
+      actorType: context.actorType ?? 'SYSTEM',
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null
+    };
+  }
+
+  private toAuditEntry(log: PrismaAuditLog): Omit<AuditTrailEntry, 'actor'> {
+    return {
+      id: log.id,
+      userId: log.actorId ?? '',
+      actorType: log.actorType,
+      subjectUserId: log.subjectUserId,
+      action: log.action,
+      resource: log.resource,
+      metadata: log.metadata ?? undefined,
+      timestamp: log.createdAt,
+      ipAddress: log.ipAddress ?? undefined,
+      userAgent: log.userAgent ?? undefined
+    };
+  }
+}
+
+export const auditService = new AuditService();
@@ -1,14 +1,37 @@
 import * as bcrypt from 'bcryptjs';
 import * as jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
 import { prisma } from '../lib/prisma';
 import { 
   CandidateRegistration, 
   RecruiterRegistration
 } from '../types';
-import { UserType, Platform, SubscriptionTier } from '@prisma/client';
+import { User, UserType, SubscriptionTier } from '@prisma/client';
+import { sessionService, SessionMetadata } from './session.service';
+import { mailService } from './mail.service';
+import { twoFactorService } from './two-factor.service';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+// Access tokens are short-lived; clients renew them with the session's refresh token
+const JWT_EXPIRES_IN = (process.env.JWT_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 48;
+
+// Failed logins allowed before the account locks; each further failure doubles the lockout
+const LOGIN_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5', 10);
+const LOGIN_LOCKOUT_BASE_MS = 60 * 1000;
+const LOGIN_LOCKOUT_MAX_MS = 60 * 60 * 1000;
+
+// Time allowed between the password step and the two-factor step
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_CHALLENGE_PURPOSE = 'two_factor_login';
+
+// Purposes of single-use emailed tokens
+export enum UserTokenType {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification'
+}
 
 export interface AuthResponse {
   user: {
@@ -16,10 +39,21 @@ export interface AuthResponse {
     email: string;
     name: string;
     userType: UserType;
+    emailVerified: boolean;
   };
   token: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+// Returned instead of tokens when the account has two-factor authentication enabled
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
 }
 
+export type LoginResult = AuthResponse | TwoFactorChallenge;
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -42,13 +76,13 @@ export class AuthService {
   }
 
   /**
-   * Generate a JWT token for a user
+   * Generate a JWT access token for a user's session
    */
-  static generateToken(userId: string, email: string, userType: UserType): string {
+  static generateToken(userId: string, email: string, userType: UserType, sessionId?: string): string {
     return jwt.sign(
-      { userId, email, userType },
+      { userId, email, userType, sessionId },
       JWT_SECRET,
-      { expiresIn: '7d' }
+      { expiresIn: JWT_EXPIRES_IN }
     );
   }
 
@@ -66,7 +100,7 @@ export class AuthService {
   /**
    * Register a new candidate
    */
-  static async registerCandidate(data: CandidateRegistration): Promise<AuthResponse> {
+  static async registerCandidate(data: CandidateRegistration, metadata: SessionMetadata = {}): Promise<AuthResponse> {
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
       where: { email: data.email }
@@ -117,24 +151,15 @@ export class AuthService {
       return user;
     });
 
-    // Generate token
-    const token = this.generateToken(result.id, result.email, result.userType);
+    await this.trySendVerificationEmail(result.id);
 
-    return {
-      user: {
-        id: result.id,
-        email: result.email,
-        name: result.name,
-        userType: result.userType
-      },
-      token
-    };
+    return this.issueSession(result, metadata);
   }
 
   /**
    * Register a new recruiter
    */
-  static async registerRecruiter(data: RecruiterRegistration): Promise<AuthResponse> {
+  static async registerRecruiter(data: RecruiterRegistration, metadata: SessionMetadata = {}): Promise<AuthResponse> {
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
       where: { email: data.email }
@@ -171,24 +196,15 @@ export class AuthService {
       return user;
     });
 
-    // Generate token
-    const token = this.generateToken(result.id, result.email, result.userType);
+    await this.trySendVerificationEmail(result.id);
 
-    return {
-      user: {
-        id: result.id,
-        email: result.email,
-        name: result.name,
-        userType: result.userType
-      },
-      token
-    };
+    return this.issueSession(result, metadata);
   }
 
   /**
    * Login user with email and password
    */
-  static async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  static async login(credentials: LoginCredentials, metadata: SessionMetadata = {}): Promise<LoginResult> {
     // Find user by email
     const user = await prisma.user.findUnique({
       where: { email: credentials.email }
@@ -198,27 +214,258 @@ export class AuthService {
       throw new Error('Invalid email or password');
     }
 
+    // Locked accounts are refused before the password is checked
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      throw new Error('Account temporarily locked');
+    }
+
     // Verify password
     const isValidPassword = await this.verifyPassword(credentials.password, user.passwordHash);
     
     if (!isValidPassword) {
+      await this.recordFailedLogin(user.id);
       throw new Error('Invalid email or password');
     }
 
-    // Generate token
-    const token = this.generateToken(user.id, user.email, user.userType);
+    if (user.suspendedAt) {
+      throw new Error('Account suspended');
+    }
+
+    // Failed attempts are only cleared once the second factor is also passed
+    if (user.twoFactorEnabledAt) {
+      return this.createTwoFactorChallenge(user.id);
+    }
+
+    await this.clearFailedLogins(user);
+
+    return this.issueSession(user, metadata);
+  }
+
+  /**
+   * Second login step: exchange the challenge and a TOTP or backup code for tokens
+   */
+  static async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    metadata: SessionMetadata = {}
+  ): Promise<AuthResponse> {
+    let userId: string;
+    let challengeId: string;
+
+    try {
+      const decoded = jwt.verify(challengeToken, JWT_SECRET) as { userId: string; purpose?: string; jti?: string };
+      if (decoded.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE || !decoded.jti) {
+        throw new Error('Wrong token purpose');
+      }
+      userId = decoded.userId;
+      challengeId = decoded.jti;
+    } catch {
+      throw new Error('Invalid or expired challenge');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('Invalid or expired challenge');
+    }
+
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      throw new Error('Account temporarily locked');
+    }
+
+    if (user.suspendedAt) {
+      throw new Error('Account suspended');
+    }
+
+    if (!(await twoFactorService.verifyCode(user.id, code))) {
+      await this.recordFailedLogin(user.id);
+      throw new Error('Invalid two-factor code');
+    }
+
+    // Consumed only once the code checks out; a replayed or concurrent completion finds no row
+    const consumed = await prisma.twoFactorChallenge.deleteMany({
+      where: { id: challengeId, userId: user.id, expiresAt: { gt: new Date() } }
+    });
+
+    if (consumed.count === 0) {
+      throw new Error('Invalid or expired challenge');
+    }
+
+    await this.clearFailedLogins(user);
+
+    return this.issueSession(user, metadata);
+  }
+
+  /**
+   * Short-lived, single-use token proving the password step passed; it cannot be used as an access token
+   */
+  static async createTwoFactorChallenge(userId: string): Promise<TwoFactorChallenge> {
+    const id = randomBytes(16).toString('hex');
+    const expiresAt = new Date(Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS);
+
+    await prisma.twoFactorChallenge.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+    await prisma.twoFactorChallenge.create({ data: { id, userId, expiresAt } });
+
+    return {
+      twoFactorRequired: true,
+      challengeToken: jwt.sign(
+        { userId, purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
+        JWT_SECRET,
+        { expiresIn: TWO_FACTOR_CHALLENGE_TTL_MS / 1000, jwtid: id }
+      )
+    };
+  }
+
+  /**
+   * When a locked account can try logging in again, or null if it is not locked
+   */
+  static async getLoginLockout(email: string): Promise<Date | null> {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { lockedUntil: true }
+    });
+
+    return user?.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : null;
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   */
+  static async refresh(refreshToken: string, metadata: SessionMetadata = {}): Promise<AuthResponse> {
+    const { session, refreshToken: nextToken, user } = await sessionService.rotateRefreshToken(refreshToken, metadata);
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        userType: user.userType,
+        emailVerified: user.emailVerifiedAt !== null
+      },
+      token: this.generateToken(user.id, user.email, user.userType, session.id),
+      refreshToken: nextToken,
+      refreshTokenExpiresAt: session.expiresAt
+    };
+  }
+
+  /**
+   * Create a session and issue its tokens
+   */
+  static async issueSession(user: User, metadata: SessionMetadata = {}): Promise<AuthResponse> {
+    const { session, refreshToken } = await sessionService.createSession(user.id, metadata);
 
     return {
       user: {
         id: user.id,
         email: user.email,
         name: user.name,
-        userType: user.userType
+        userType: user.userType,
+        emailVerified: user.emailVerifiedAt !== null
       },
-      token
+      token: this.generateToken(user.id, user.email, user.userType, session.id),
+      refreshToken,
+      refreshTokenExpiresAt: session.expiresAt
     };
   }
 
+  /**
+   * Email a password reset link
+   * Unknown addresses are ignored silently so the endpoint cannot be used to probe accounts
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (!user || user.suspendedAt) {
+      return;
+    }
+
+    // Only the newest link works
+    await this.invalidateUserTokens(user.id, UserTokenType.PASSWORD_RESET);
+
+    const token = await this.issueUserToken(user.id, UserTokenType.PASSWORD_RESET, PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+    await mailService.sendPasswordReset(user.email, user.name, token, PASSWORD_RESET_TTL_MINUTES);
+  }
+
+  /**
+   * Set a new password with a reset token and log out every session
+   */
+  static async resetPassword(token: string, newPassword: string): Promise<void> {
+    const userId = await this.consumeUserToken(token, UserTokenType.PASSWORD_RESET);
+    const passwordHash = await this.hashPassword(newPassword);
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { emailVerifiedAt: true }
+    });
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        passwordHash,
+        // The reset link was delivered to the address, which proves it
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+        failedLoginAttempts: 0,
+        lockedUntil: null
+      }
+    });
+
+    await sessionService.revokeAllSessions(userId);
+  }
+
+  /**
+   * Email a verification link to the user's address
+   */
+  static async sendVerificationEmail(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new Error('Email already verified');
+    }
+
+    await this.invalidateUserTokens(user.id, UserTokenType.EMAIL_VERIFICATION);
+
+    const token = await this.issueUserToken(
+      user.id,
+      UserTokenType.EMAIL_VERIFICATION,
+      EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000
+    );
+    await mailService.sendEmailVerification(user.email, user.name, token);
+  }
+
+  /**
+   * Mark the user's email as verified with a verification token
+   */
+  static async verifyEmail(token: string): Promise<void> {
+    const userId = await this.consumeUserToken(token, UserTokenType.EMAIL_VERIFICATION);
+
+    await prisma.user.updateMany({
+      where: { id: userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: new Date() }
+    });
+  }
+
+  /**
+   * Check whether a user has verified their email
+   */
+  static async isEmailVerified(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { emailVerifiedAt: true }
+    });
+
+    return !!user?.emailVerifiedAt;
+  }
+
   /**
    * Get user by ID
    */
@@ -228,6 +475,18 @@ export class AuthService {
     });
   }
 
+  /**
+   * Check that a user still exists and is not suspended
+   */
+  static async isAccountActive(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { suspendedAt: true }
+    });
+
+    return !!user && !user.suspendedAt;
+  }
+
   /**
    * Validate email format
    */
@@ -267,4 +526,101 @@ export class AuthService {
       errors
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Count a failed login and lock the account once past the threshold
+   */
+  private static async recordFailedLogin(userId: string): Promise<void> {
+    const { failedLoginAttempts } = await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true }
+    });
+
+    if (failedLoginAttempts < LOGIN_LOCKOUT_THRESHOLD) {
+      return;
+    }
+
+    const lockoutMs = Math.min(
+      LOGIN_LOCKOUT_BASE_MS * 2 ** (failedLoginAttempts - LOGIN_LOCKOUT_THRESHOLD),
+      LOGIN_LOCKOUT_MAX_MS
+    );
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { lockedUntil: new Date(Date.now() + lockoutMs) }
+    });
+  }
+
+  private static async clearFailedLogins(user: User): Promise<void> {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 0, lockedUntil: null }
+      });
+    }
+  }
+
+  /**
+   * Send the verification email after signup; mail failures must not fail the registration
+   */
+  private static async trySendVerificationEmail(userId: string): Promise<void> {
+    try {
+      await this.sendVerificationEmail(userId);
+    } catch (error) {
+      console.error('Verification Email Error:', error);
+    }
+  }
+
+  /**
+   * Store the hash of a new single-use token and return the raw token
+   */
+  private static async issueUserToken(userId: string, type: UserTokenType, ttlMs: number): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+
+    await prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: this.hashUserToken(token),
+        expiresAt: new Date(Date.now() + ttlMs)
+      }
+    });
+
+    return token;
+  }
+
+  /**
+   * Mark a token used and return its user; each token works once
+   */
+  private static async consumeUserToken(token: string, type: UserTokenType): Promise<string> {
+    const tokenHash = this.hashUserToken(token);
+
+    // Conditional update so a token cannot be redeemed twice concurrently
+    const consumed = await prisma.userToken.updateMany({
+      where: { tokenHash, type, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() }
+    });
+
+    if (consumed.count === 0) {
+      throw new Error('Invalid or expired token');
+    }
+
+    const userToken = await prisma.userToken.findUniqueOrThrow({
+      where: { tokenHash }
+    });
+
+    return userToken.userId;
+  }
+
+  private static async invalidateUserTokens(userId: string, type: UserTokenType): Promise<void> {
+    await prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+  }
+
+  private static hashUserToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
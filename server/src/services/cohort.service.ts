@@ -0,0 +1,266 @@
+/**
+ * Score Cohort Service
+ * - Percentile ranks of composite scores among public candidates
+ * - Peer cohorts by primary language, location and years of experience
+ * - Score distributions are materialized per cohort by a periodic job, so lookups stay cheap
+ */
+
+import { prisma } from '../lib/prisma';
+import { Platform, Prisma, ScoreCohort } from '@prisma/client';
+
+export type CohortType = 'all' | 'language' | 'location' | 'experience';
+
+// What places a candidate in a cohort
+export interface CohortAttributes {
+  location: string | null;
+  primaryLanguage: string | null;
+  yearsOfExperience: number | null;
+}
+
+export interface CohortRef {
+  type: CohortType;
+  key: string;
+  label: string;
+}
+
+export interface CohortPercentile extends CohortRef {
+  // Share of the cohort scoring below the candidate
+  percentile: number;
+  sampleSize: number;
+  averageScore: number;
+}
+
+export interface CohortRefreshResult {
+  candidates: number;
+  cohorts: number;
+}
+
+// Smaller cohorts are not published, so a score cannot be singled out from a cohort average
+const MIN_COHORT_SIZE = parseInt(process.env.COHORT_MIN_SIZE || '5', 10);
+const REFRESH_BATCH_SIZE = parseInt(process.env.COHORT_REFRESH_BATCH_SIZE || '500', 10);
+const TOP_PERFORMERS = 3;
+
+const ALL_CANDIDATES: CohortRef = { type: 'all', key: 'all', label: 'All candidates' };
+
+const EXPERIENCE_BANDS: { below: number; key: string; label: string }[] = [
+  { below: 3, key: '0-2', label: 'Under 3 years' },
+  { below: 6, key: '3-5', label: '3-5 years' },
+  { below: 11, key: '6-10', label: '6-10 years' },
+  { below: Infinity, key: '11+', label: 'Over 10 years' }
+];
+
+/**
+ * Cohort attributes from a candidate's location and stored platform metrics
+ */
+export function cohortAttributes(
+  location: string | null,
+  metrics: { platform: Platform; rawData: unknown }[]
+): CohortAttributes {
+  const breakdown = (platform: Platform) => {
+    const rawData = metrics.find(data => data.platform === platform)?.rawData as Record<string, unknown> | undefined;
+    return (rawData?.breakdown ?? {}) as Record<string, unknown>;
+  };
+
+  const topLanguage = breakdown(Platform.GITHUB).topLanguage;
+  const years = breakdown(Platform.LINKEDIN).yearsOfExperience;
+
+  return {
+    location,
+    primaryLanguage: typeof topLanguage === 'string' ? topLanguage : null,
+    yearsOfExperience: typeof years === 'number' ? years : null
+  };
+}
+
+/**
+ * The cohorts a candidate belongs to; everyone is in the all-candidates cohort
+ */
+export function cohortsFor(attributes: CohortAttributes): CohortRef[] {
+  const cohorts = [ALL_CANDIDATES];
+
+  if (attributes.primaryLanguage?.trim()) {
+    const label = attributes.primaryLanguage.trim();
+    cohorts.push({ type: 'language', key: label.toLowerCase(), label });
+  }
+
+  // Group by the first part of free-text locations, e.g. the city in "Berlin, Germany"
+  const city = attributes.location?.split(',')[0].trim();
+  if (city) {
+    cohorts.push({ type: 'location', key: city.toLowerCase(), label: city });
+  }
+
+  const years = attributes.yearsOfExperience;
+  if (years !== null) {
+    const band = EXPERIENCE_BANDS.find(b => years < b.below) ?? EXPERIENCE_BANDS[EXPERIENCE_BANDS.length - 1];
+    cohorts.push({ type: 'experience', key: band.key, label: band.label });
+  }
+
+  return cohorts;
+}
+
+/**
+ * Percentage of a score distribution strictly below a score
+ */
+export function percentileOf(histogram: number[], score: number): number {
+  const total = histogram.reduce((a, b) => a + b, 0);
+  if (total === 0) return 100;
+
+  const below = histogram.slice(0, Math.max(0, Math.min(Math.round(score), 101))).reduce((a, b) => a + b, 0);
+  return Math.round((below / total) * 100);
+}
+
+interface CohortAccumulator extends CohortRef {
+  histogram: number[];
+  total: number;
+  top: { candidateId: string; score: number }[];
+}
+
+const cohortId = (cohort: { type: string; key: string }) => `${cohort.type}:${cohort.key}`;
+
+export class CohortService {
+  /**
+   * Percentiles of a score in each of the candidate's published cohorts
+   */
+  async getPercentiles(attributes: CohortAttributes, score: number): Promise<CohortPercentile[]> {
+    const [percentiles] = await this.getPercentilesForMany([{ attributes, score }]);
+    return percentiles;
+  }
+
+  /**
+   * Percentiles for several candidates with a single cohort lookup
+   */
+  async getPercentilesForMany(entries: { attributes: CohortAttributes; score: number }[]): Promise<CohortPercentile[][]> {
+    const memberships = entries.map(entry => cohortsFor(entry.attributes));
+    const wanted = new Map<string, CohortRef>();
+    memberships.flat().forEach(cohort => wanted.set(cohortId(cohort), cohort));
+
+    if (wanted.size === 0) {
+      return entries.map(() => []);
+    }
+
+    const rows = await prisma.scoreCohort.findMany({
+      where: {
+        OR: Array.from(wanted.values()).map(cohort => ({ type: cohort.type, key: cohort.key }))
+      }
+    });
+    const byId = new Map(rows.map(row => [cohortId(row), row]));
+
+    return memberships.map((cohorts, index) =>
+      cohorts
+        .map(cohort => byId.get(cohortId(cohort)))
+        .filter((row): row is ScoreCohort => row !== undefined)
+        .map(row => this.toPercentile(row, entries[index].score))
+    );
+  }
+
+  /**
+   * Get a published cohort's distribution
+   */
+  async getCohort(type: CohortType, key: string): Promise<ScoreCohort | null> {
+    return prisma.scoreCohort.findUnique({
+      where: { type_key: { type, key } }
+    });
+  }
+
+  /**
+   * Names of a cohort's top scorers who are still public
+   */
+  async getTopPerformerNames(cohort: ScoreCohort): Promise<string[]> {
+    const candidates = await prisma.candidateProfile.findMany({
+      where: { id: { in: cohort.topCandidateIds }, isPublic: true },
+      select: { id: true, user: { select: { name: true } } }
+    });
+
+    return cohort.topCandidateIds
+      .map(id => candidates.find(candidate => candidate.id === id)?.user.name)
+      .filter((name): name is string => name !== undefined);
+  }
+
+  /**
+   * Rebuild every cohort's distribution from public candidates' latest scores
+   */
+  async refreshCohorts(): Promise<CohortRefreshResult> {
+    const cohorts = new Map<string, CohortAccumulator>();
+    let candidateCount = 0;
+    let cursor: string | undefined;
+
+    do {
+      const candidates = await prisma.candidateProfile.findMany({
+        where: {
+          isPublic: true,
+          user: { deletionScheduledFor: null },
+          candidateScores: { some: {} }
+        },
+        select: {
+          id: true,
+          location: true,
+          candidateScores: {
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            select: { compositeScore: true }
+          },
+          platformData: {
+            where: { dataType: 'metrics', platform: { in: [Platform.GITHUB, Platform.LINKEDIN] } },
+            select: { platform: true, rawData: true }
+          }
+        },
+        orderBy: { id: 'asc' },
+        take: REFRESH_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+
+      for (const candidate of candidates) {
+        const score = Math.max(0, Math.min(candidate.candidateScores[0].compositeScore, 100));
+        candidateCount++;
+
+        for (const cohort of cohortsFor(cohortAttributes(candidate.location, candidate.platformData))) {
+          const id = cohortId(cohort);
+          const accumulator = cohorts.get(id) ?? { ...cohort, histogram: new Array(101).fill(0), total: 0, top: [] };
+          accumulator.histogram[score]++;
+          accumulator.total += score;
+          accumulator.top = [...accumulator.top, { candidateId: candidate.id, score }]
+            .sort((a, b) => b.score - a.score)
+            .slice(0, TOP_PERFORMERS);
+          cohorts.set(id, accumulator);
+        }
+      }
+
+      cursor = candidates.length === REFRESH_BATCH_SIZE ? candidates[candidates.length - 1].id : undefined;
+    } while (cursor);
+
+    const refreshedAt = new Date();
+    const data: Prisma.ScoreCohortCreateManyInput[] = Array.from(cohorts.values())
+      .map(cohort => ({ cohort, sampleSize: cohort.histogram.reduce((a, b) => a + b, 0) }))
+      .filter(({ cohort, sampleSize }) => cohort.type === 'all' || sampleSize >= MIN_COHORT_SIZE)
+      .map(({ cohort, sampleSize }) => ({
+        type: cohort.type,
+        key: cohort.key,
+        label: cohort.label,
+        sampleSize,
+        averageScore: cohort.total / sampleSize,
+        histogram: cohort.histogram,
+        topCandidateIds: cohort.top.map(entry => entry.candidateId),
+        refreshedAt
+      }));
+
+    // Swap the whole table at once so readers never see a partial refresh
+    await prisma.$transaction([
+      prisma.scoreCohort.deleteMany({}),
+      prisma.scoreCohort.createMany({ data })
+    ]);
+
+    return { candidates: candidateCount, cohorts: data.length };
+  }
+
+  private toPercentile(row: ScoreCohort, score: number): CohortPercentile {
+    return {
+      type: row.type as CohortType,
+      key: row.key,
+      label: row.label,
+      percentile: percentileOf(row.histogram, score),
+      sampleSize: row.sampleSize,
+      averageScore: Math.round(row.averageScore)
+    };
+  }
+}
+
+export const cohortService = new CohortService();
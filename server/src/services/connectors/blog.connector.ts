@@ -472,6 +472,25 @@ export class BlogConnector {
     }
   }
 
+  /**
+   * Check whether the user placed a verification token in their blog profile bio
+   * Medium has no public API for the bio, so it cannot be verified
+   */
+  async hasVerificationToken(platform: Platform, username: string, token: string): Promise<boolean> {
+    switch (platform) {
+      case Platform.DEVTO: {
+        const profile = await this.fetchDevToProfile(username);
+        return profile.bio?.includes(token) ?? false;
+      }
+      case Platform.HASHNODE: {
+        const { profile } = await this.fetchHashnodeData(username);
+        return profile.bio?.includes(token) ?? false;
+      }
+      default:
+        throw new Error(`Verification not supported for ${platform}`);
+    }
+  }
+
   /**
    * Store blog data helper
    */
@@ -540,7 +559,7 @@ export class BlogConnector {
     // Update platform connection
     await prisma.platformConnection.updateMany({
       where: { candidateId, platform },
-      data: { lastSynced: new Date(), isVerified: true }
+      data: { lastSynced: new Date() }
     });
 
     return data;
@@ -100,6 +100,11 @@ interface GitHubUserResponse {
   public_gists: number;
 }
 
+interface GitHubGistResponse {
+  description: string | null;
+  files: Record<string, { filename: string; raw_url: string; size: number }>;
+}
+
 interface GitHubRepoResponse {
   name: string;
   full_name: string;
@@ -148,6 +153,10 @@ interface GraphQLUserResponse {
 const GITHUB_API_URL = 'https://api.github.com';
 const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql';
 
+// Verification tokens are short, so only small gist files are downloaded, and only so far
+const GIST_FILE_SIZE_LIMIT = 16 * 1024;
+const GIST_FETCH_TIMEOUT_MS = 5000;
+
 export class GitHubConnector {
   private token: string | null;
 
@@ -218,7 +227,7 @@ export class GitHubConnector {
    * Fetch user profile from GitHub
    */
   async fetchUserProfile(username: string): Promise<GitHubUserProfile> {
-    const data = await this.restRequest<GitHubUserResponse>(`/users/${username}`);
+    const data = await this.restRequest<GitHubUserResponse>(`/users/${encodeURIComponent(username)}`);
 
     return {
       login: data.login,
@@ -521,6 +530,72 @@ export class GitHubConnector {
     };
   }
 
+  /**
+   * Check whether the user placed a verification token in their bio or a recent public gist
+   */
+  async hasVerificationToken(username: string, token: string): Promise<boolean> {
+    const profile = await this.fetchUserProfile(username);
+    if (profile.bio?.includes(token)) {
+      return true;
+    }
+
+    const gists = await this.restRequest<GitHubGistResponse[]>(
+      `/users/${encodeURIComponent(username)}/gists?per_page=10`
+    );
+
+    for (const gist of gists) {
+      if (gist.description?.includes(token)) {
+        return true;
+      }
+
+      for (const file of Object.values(gist.files)) {
+        if (file.size > GIST_FILE_SIZE_LIMIT) {
+          continue;
+        }
+
+        const content = await this.fetchGistFile(file.raw_url);
+        if (content?.includes(token)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Download the start of a gist file, or null if it cannot be read in time
+   */
+  private async fetchGistFile(url: string): Promise<string | null> {
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': 'CandidateScoringPlatform' },
+        signal: AbortSignal.timeout(GIST_FETCH_TIMEOUT_MS)
+      });
+
+      if (!response.ok || !response.body) {
+        return null;
+      }
+
+      // The reported size can be wrong, so stop reading at the limit regardless
+      const reader = response.body.getReader();
+      const chunks: Uint8Array[] = [];
+      let received = 0;
+
+      while (received < GIST_FILE_SIZE_LIMIT) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        received += value.length;
+      }
+      await reader.cancel();
+
+      return Buffer.concat(chunks).subarray(0, GIST_FILE_SIZE_LIMIT).toString('utf8');
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Fetch all GitHub data for a user
    */
@@ -600,7 +675,7 @@ export class GitHubConnector {
     // Update platform connection sync time
     await prisma.platformConnection.updateMany({
       where: { candidateId, platform: Platform.GITHUB },
-      data: { lastSynced: new Date(), isVerified: true }
+      data: { lastSynced: new Date() }
     });
 
     return data;
@@ -383,7 +383,7 @@ export class LinkedInConnector {
     // Update platform connection
     await prisma.platformConnection.updateMany({
       where: { candidateId, platform: Platform.LINKEDIN },
-      data: { lastSynced: new Date(), isVerified: false } // Manual data is not verified
+      data: { lastSynced: new Date() } // Ownership is proven by signing in with LinkedIn
     });
 
     return data;
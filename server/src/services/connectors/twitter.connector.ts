@@ -371,6 +371,19 @@ export class TwitterConnector {
     };
   }
 
+  /**
+   * Check whether the user placed a verification token in their bio or a recent tweet
+   */
+  async hasVerificationToken(username: string, token: string): Promise<boolean> {
+    const profile = await this.fetchProfile(username);
+    if (profile.bio?.includes(token)) {
+      return true;
+    }
+
+    const tweets = await this.fetchTweets(profile.id, 20);
+    return tweets.some(tweet => tweet.text.includes(token));
+  }
+
   /**
    * Fetch all Twitter data for a user
    */
@@ -443,7 +456,7 @@ export class TwitterConnector {
     // Update platform connection
     await prisma.platformConnection.updateMany({
       where: { candidateId, platform: Platform.TWITTER },
-      data: { lastSynced: new Date(), isVerified: true }
+      data: { lastSynced: new Date() }
     });
 
     return data;
@@ -0,0 +1,323 @@
+/**
+ * Background Job Queue Service
+ * - Postgres-backed queue with status, attempts and exponential backoff
+ * - Optimistic row locking so several workers can share the jobs table
+ * - Job status lookup and manual retry of failed jobs
+ */
+
+import { prisma } from '../lib/prisma';
+import { Job as PrismaJob, Prisma } from '@prisma/client';
+import { JobStatus } from '../types';
+
+// Job types handled by the worker
+export enum JobType {
+  DATA_REFRESH = 'data-refresh',
+  SCORE_RECALCULATION = 'score-recalculation',
+  NOTIFICATION_PRUNE = 'notification-prune',
+  WEBHOOK_DELIVERY = 'webhook-delivery',
+  ACCOUNT_PURGE = 'account-purge',
+  SCORE_BACKFILL = 'score-backfill',
+  COHORT_REFRESH = 'cohort-refresh'
+}
+
+// Options when enqueueing a job
+export interface EnqueueOptions {
+  userId?: string;      // Owner allowed to read the job status
+  delayMs?: number;
+  maxAttempts?: number;
+  dedupeKey?: string;   // Reuse an open job with the same key instead of adding another
+}
+
+// Job status with queue details
+export interface JobDetail extends JobStatus {
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  result?: unknown;
+}
+
+// Retry backoff: 30s, 1m, 2m, ... capped at an hour
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// Processing jobs whose lock is older than this are assumed orphaned by a dead worker
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || String(15 * 60 * 1000), 10);
+
+const OPEN_STATUSES = ['pending', 'processing'];
+
+/**
+ * Delay before the next attempt after `attempts` failures
+ */
+export function backoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+export class JobQueueService {
+  /**
+   * Add a job to the queue and return its id
+   */
+  async enqueue(type: JobType, payload: Record<string, unknown>, options: EnqueueOptions = {}): Promise<string> {
+    if (options.dedupeKey) {
+      const existing = await prisma.job.findFirst({
+        where: { dedupeKey: options.dedupeKey, status: { in: OPEN_STATUSES } }
+      });
+
+      if (existing) {
+        return existing.id;
+      }
+    }
+
+    const job = await prisma.job.create({
+      data: {
+        type,
+        payload: payload as Prisma.InputJsonValue,
+        userId: options.userId,
+        dedupeKey: options.dedupeKey,
+        maxAttempts: options.maxAttempts,
+        runAt: new Date(Date.now() + (options.delayMs ?? 0))
+      }
+    });
+
+    return job.id;
+  }
+
+  /**
+   * Queue a refresh of all connected platforms followed by a score recalculation
+   */
+  async scheduleDataRefresh(candidateId: string, delay = 0): Promise<string> {
+    const userId = await this.getCandidateUserId(candidateId);
+
+    return this.enqueue(JobType.DATA_REFRESH, { candidateId }, {
+      userId,
+      delayMs: delay,
+      dedupeKey: `${JobType.DATA_REFRESH}:${candidateId}`
+    });
+  }
+
+  /**
+   * Queue a score recalculation from stored platform data
+   */
+  async scheduleScoreRecalculation(candidateId: string, delay = 0): Promise<string> {
+    const userId = await this.getCandidateUserId(candidateId);
+
+    return this.enqueue(JobType.SCORE_RECALCULATION, { candidateId }, {
+      userId,
+      delayMs: delay,
+      dedupeKey: `${JobType.SCORE_RECALCULATION}:${candidateId}`
+    });
+  }
+
+  /**
+   * Claim the next due job for a worker, or null if none is available
+   */
+  async claimNextJob(workerId: string): Promise<PrismaJob | null> {
+    const now = new Date();
+
+    // Another worker may claim the same row first; try a few candidates before giving up
+    for (let i = 0; i < 3; i++) {
+      const next = await prisma.job.findFirst({
+        where: { status: 'pending', runAt: { lte: now } },
+        orderBy: { runAt: 'asc' }
+      });
+
+      if (!next) {
+        return null;
+      }
+
+      const claimed = await prisma.job.updateMany({
+        where: { id: next.id, status: 'pending' },
+        data: {
+          status: 'processing',
+          lockedAt: now,
+          lockedBy: workerId,
+          attempts: { increment: 1 }
+        }
+      });
+
+      if (claimed.count === 1) {
+        return prisma.job.findUnique({ where: { id: next.id } });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Mark a job as completed; returns false if the worker no longer holds its lock
+   */
+  async completeJob(jobId: string, workerId: string, result?: unknown): Promise<boolean> {
+    // A worker whose lock was reclaimed must not overwrite the outcome of the next run
+    const updated = await prisma.job.updateMany({
+      where: { id: jobId, lockedBy: workerId, status: 'processing' },
+      data: {
+        status: 'completed',
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        result: result === undefined ? undefined : (JSON.parse(JSON.stringify(result)) as Prisma.InputJsonValue)
+      }
+    });
+
+    return updated.count === 1;
+  }
+
+  /**
+   * Record a failed attempt; retry with backoff until attempts run out.
+   * Returns false if the worker no longer holds the job's lock
+   */
+  async failJob(job: PrismaJob, workerId: string, error: string): Promise<boolean> {
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    const updated = await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: workerId, status: 'processing' },
+      data: {
+        status: exhausted ? 'failed' : 'pending',
+        runAt: exhausted ? job.runAt : new Date(Date.now() + backoffDelay(job.attempts)),
+        completedAt: exhausted ? new Date() : null,
+        lockedAt: null,
+        lockedBy: null,
+        lastError: error
+      }
+    });
+
+    return updated.count === 1;
+  }
+
+  /**
+   * Recover orphaned processing jobs: fail those out of attempts, requeue the rest
+   */
+  async releaseStaleLocks(): Promise<number> {
+    const stale = {
+      status: 'processing',
+      lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) }
+    };
+    const lastError = 'Lock expired before the job finished';
+
+    // A job that keeps outliving its lock would otherwise be retried forever
+    const failed = await prisma.job.updateMany({
+      where: { ...stale, attempts: { gte: prisma.job.fields.maxAttempts } },
+      data: {
+        status: 'failed',
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError
+      }
+    });
+
+    const released = await prisma.job.updateMany({
+      where: stale,
+      data: {
+        status: 'pending',
+        lockedAt: null,
+        lockedBy: null,
+        lastError
+      }
+    });
+
+    return failed.count + released.count;
+  }
+
+  /**
+   * Requeue a failed job with a fresh set of attempts
+   */
+  async retryFailedJob(jobId: string): Promise<void> {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (job.status !== 'failed') {
+      throw new Error('Only failed jobs can be retried');
+    }
+
+    await prisma.job.update({
+      where: { id: jobId },
+      data: {
+        status: 'pending',
+        attempts: 0,
+        runAt: new Date(),
+        completedAt: null,
+        lastError: null
+      }
+    });
+  }
+
+  /**
+   * Get a job visible to a user; admins can see every job
+   */
+  async getJobForUser(jobId: string, userId: string, isAdmin = false): Promise<JobDetail | null> {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+
+    if (!job || (job.userId !== userId && !isAdmin)) {
+      return null;
+    }
+
+    return this.toJobDetail(job);
+  }
+
+  /**
+   * Get the status of a job
+   */
+  async getJobStatus(jobId: string): Promise<JobStatus> {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    return this.toJobDetail(job);
+  }
+
+  /**
+   * Delete finished jobs older than the retention window
+   */
+  async pruneJobs(retentionDays = 14): Promise<number> {
+    const result = await prisma.job.deleteMany({
+      where: {
+        status: { in: ['completed', 'failed'] },
+        completedAt: { lt: new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000) }
+      }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Resolve the owning user of a candidate profile
+   */
+  private async getCandidateUserId(candidateId: string): Promise<string> {
+    const candidateProfile = await prisma.candidateProfile.findUnique({
+      where: { id: candidateId },
+      select: { userId: true }
+    });
+
+    if (!candidateProfile) {
+      throw new Error('Candidate profile not found');
+    }
+
+    return candidateProfile.userId;
+  }
+
+  /**
+   * Map a database row to the public job shape
+   */
+  private toJobDetail(job: PrismaJob): JobDetail {
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status as JobStatus['status'],
+      error: job.lastError ?? undefined,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt ?? undefined,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      runAt: job.runAt,
+      result: job.result ?? undefined
+    };
+  }
+}
+
+export const jobQueue = new JobQueueService();
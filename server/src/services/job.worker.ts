@@ -0,0 +1,323 @@
+/**
+ * Background Job Worker
+ * - Polls the job queue and runs registered handlers
+ * - Scheduler that queues refreshes for stale platform connections
+ * - Daily housekeeping for notifications, finished jobs and ended sessions
+ * - Daily purge of accounts past their deletion grace period
+ * - Batched rescoring of every candidate when a scoring model is published
+ * - Daily rebuild of the score cohorts behind percentile ranks
+ */
+
+import os from 'os';
+import { prisma } from '../lib/prisma';
+import { Job as PrismaJob, Platform } from '@prisma/client';
+import { jobQueue, JobQueueService, JobType } from './job.service';
+import { aggregationService } from './aggregation.service';
+import { notificationService, scoreUpdateService } from './notification.service';
+import { webhookService } from './webhook.service';
+import { accountService } from './account.service';
+import { sessionService } from './session.service';
+import { rateLimitService } from './rate-limit.service';
+import { scoringModelService } from './scoring-model.service';
+import { cohortService } from './cohort.service';
+
+// Payloads come back from the database untyped; each handler narrows its own
+export type JobHandler = (payload: unknown, job: PrismaJob) => Promise<unknown>;
+
+// Worker and scheduler configuration
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000', 10);
+const BATCH_SIZE = parseInt(process.env.JOB_BATCH_SIZE || '10', 10);
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.JOB_SCHEDULER_INTERVAL_MS || String(60 * 60 * 1000), 10);
+const STALE_AFTER_HOURS = parseInt(process.env.JOB_STALE_AFTER_HOURS || '24', 10);
+
+export class JobWorker {
+  readonly workerId = `${os.hostname()}:${process.pid}`;
+  private handlers = new Map<string, JobHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private busy = false;
+
+  constructor(private queue: JobQueueService = jobQueue) {}
+
+  /**
+   * Register the handler for a job type
+   */
+  registerHandler(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Start polling the queue
+   */
+  start(intervalMs = POLL_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop polling the queue
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run due jobs until the queue is empty or the batch is done
+   */
+  async tick(): Promise<number> {
+    // Skip if the previous tick is still working through its batch
+    if (this.busy) return 0;
+    this.busy = true;
+
+    let processed = 0;
+
+    try {
+      while (processed < BATCH_SIZE) {
+        const job = await this.queue.claimNextJob(this.workerId);
+        if (!job) break;
+
+        await this.runJob(job);
+        processed++;
+      }
+    } catch (error) {
+      console.error('Job Worker Error:', error);
+    } finally {
+      this.busy = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Run a claimed job and record the outcome
+   */
+  async runJob(job: PrismaJob): Promise<void> {
+    const handler = this.handlers.get(job.type);
+
+    if (!handler) {
+      await this.queue.failJob({ ...job, attempts: job.maxAttempts }, this.workerId, `No handler registered for ${job.type}`);
+      return;
+    }
+
+    try {
+      const result = await handler(job.payload, job);
+      if (!await this.queue.completeJob(job.id, this.workerId, result)) {
+        console.warn(`Job ${job.id} (${job.type}) finished after its lock was reclaimed; result discarded`);
+      }
+    } catch (error) {
+      console.error(`Job ${job.id} (${job.type}) failed:`, error);
+      await this.queue.failJob(job, this.workerId, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+export class JobScheduler {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private queue: JobQueueService = jobQueue) {}
+
+  /**
+   * Run a scan now and then on every interval
+   */
+  start(intervalMs = SCHEDULER_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    void this.runOnce();
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Recover orphaned jobs and queue periodic work
+   */
+  async runOnce(): Promise<void> {
+    try {
+      const released = await this.queue.releaseStaleLocks();
+      if (released > 0) {
+        console.log(`[jobs]: Released ${released} stale job locks`);
+      }
+
+      const queued = await this.enqueueStaleRefreshes();
+      if (queued > 0) {
+        console.log(`[jobs]: Queued refresh for ${queued} candidates with stale data`);
+      }
+
+      // One prune job per day, however often the scheduler runs
+      const today = new Date().toISOString().slice(0, 10);
+      await this.queue.enqueue(JobType.NOTIFICATION_PRUNE, {}, {
+        dedupeKey: `${JobType.NOTIFICATION_PRUNE}:${today}`
+      });
+      await this.queue.enqueue(JobType.ACCOUNT_PURGE, {}, {
+        dedupeKey: `${JobType.ACCOUNT_PURGE}:${today}`
+      });
+      await this.queue.enqueue(JobType.COHORT_REFRESH, {}, {
+        dedupeKey: `${JobType.COHORT_REFRESH}:${today}`
+      });
+    } catch (error) {
+      console.error('Job Scheduler Error:', error);
+    }
+  }
+
+  /**
+   * Queue a data refresh for every candidate with a connection not synced recently
+   */
+  async enqueueStaleRefreshes(staleAfterHours = STALE_AFTER_HOURS): Promise<number> {
+    const threshold = new Date(Date.now() - staleAfterHours * 60 * 60 * 1000);
+
+    // LinkedIn data is entered manually and never synced, so it cannot go stale
+    const connections = await prisma.platformConnection.findMany({
+      where: {
+        platform: { not: Platform.LINKEDIN },
+        OR: [{ lastSynced: null }, { lastSynced: { lt: threshold } }]
+      },
+      select: { candidateId: true },
+      distinct: ['candidateId']
+    });
+
+    for (const connection of connections) {
+      await this.queue.scheduleDataRefresh(connection.candidateId);
+    }
+
+    return connections.length;
+  }
+}
+
+/**
+ * Resolve the user behind a candidate job payload
+ */
+async function getCandidateUserId(candidateId: string): Promise<string> {
+  const candidateProfile = await prisma.candidateProfile.findUnique({
+    where: { id: candidateId },
+    select: { userId: true }
+  });
+
+  if (!candidateProfile) {
+    throw new Error('Candidate profile not found');
+  }
+
+  return candidateProfile.userId;
+}
+
+/**
+ * Read a string field from a job payload
+ */
+function payloadString(payload: unknown, key: string): string {
+  const value = (payload as Record<string, unknown> | null)?.[key];
+
+  if (typeof value !== 'string') {
+    throw new Error(`Job payload is missing ${key}`);
+  }
+
+  return value;
+}
+
+/**
+ * Read an optional string field from a job payload
+ */
+function optionalPayloadString(payload: unknown, key: string): string | undefined {
+  const value = (payload as Record<string, unknown> | null)?.[key];
+
+  return value === undefined || value === null ? undefined : payloadString(payload, key);
+}
+
+/**
+ * Read a numeric field from a job payload
+ */
+function payloadNumber(payload: unknown, key: string): number {
+  const value = (payload as Record<string, unknown> | null)?.[key];
+
+  if (typeof value !== 'number') {
+    throw new Error(`Job payload is missing ${key}`);
+  }
+
+  return value;
+}
+
+export const jobWorker = new JobWorker();
+export const jobScheduler = new JobScheduler();
+
+jobWorker.registerHandler(JobType.DATA_REFRESH, async (payload) => {
+  const userId = await getCandidateUserId(payloadString(payload, 'candidateId'));
+  const result = await scoreUpdateService.refreshAndNotify(userId);
+
+  return { overallScore: result.current.overallScore, changeAmount: result.changeAmount };
+});
+
+jobWorker.registerHandler(JobType.SCORE_RECALCULATION, async (payload) => {
+  const userId = await getCandidateUserId(payloadString(payload, 'candidateId'));
+  const result = await aggregationService.calculateAndStoreScore(userId, { trigger: JobType.SCORE_RECALCULATION });
+  await notificationService.notifyScoreUpdate(userId, result);
+
+  return { overallScore: result.current.overallScore, changeAmount: result.changeAmount };
+});
+
+jobWorker.registerHandler(JobType.NOTIFICATION_PRUNE, async () => {
+  const notifications = await notificationService.pruneNotifications();
+  const jobs = await jobQueue.pruneJobs();
+  const sessions = await sessionService.pruneSessions();
+  const rateLimitBuckets = await rateLimitService.prune();
+
+  return { notifications, jobs, sessions, rateLimitBuckets };
+});
+
+jobWorker.registerHandler(JobType.WEBHOOK_DELIVERY, async (payload, job) => {
+  const delivery = await webhookService.deliver(payloadString(payload, 'deliveryId'), job.attempts >= job.maxAttempts);
+
+  return { status: delivery.status, responseStatus: delivery.responseStatus };
+});
+
+jobWorker.registerHandler(JobType.ACCOUNT_PURGE, async () => {
+  const purged = await accountService.purgeDueAccounts();
+
+  return { purged };
+});
+
+jobWorker.registerHandler(JobType.COHORT_REFRESH, async () => {
+  return cohortService.refreshCohorts();
+});
+
+// Each run rescores one batch and queues the next, so no single job outlives its lock
+jobWorker.registerHandler(JobType.SCORE_BACKFILL, async (payload) => {
+  const version = payloadNumber(payload, 'version');
+  const batch = await scoringModelService.getBackfillBatch(version, optionalPayloadString(payload, 'cursor'));
+
+  if (!batch) {
+    return { superseded: true };
+  }
+
+  let failed = 0;
+  for (const userId of batch.userIds) {
+    try {
+      await aggregationService.calculateAndStoreScore(userId, { trigger: JobType.SCORE_BACKFILL });
+    } catch (error) {
+      console.error(`Score backfill failed for user ${userId}:`, error);
+      failed++;
+    }
+  }
+
+  if (batch.nextCursor) {
+    await jobQueue.enqueue(JobType.SCORE_BACKFILL, { version, cursor: batch.nextCursor }, {
+      dedupeKey: `${JobType.SCORE_BACKFILL}:${version}:${batch.nextCursor}`
+    });
+  }
+
+  return { rescored: batch.userIds.length - failed, failed, nextCursor: batch.nextCursor };
+});
@@ -0,0 +1,140 @@
+/**
+ * Mail Service
+ * - Pluggable transport (console and file transports for local development)
+ * - Templates for account emails
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+const MAIL_FROM = process.env.MAIL_FROM || 'DARE Dreamers <no-reply@daredreamers.dev>';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Implemented by each delivery backend
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Prints messages to the server log
+ */
+export class ConsoleMailTransport implements MailTransport {
+  name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`[mail]: To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+/**
+ * Writes each message as a JSON file, e.g. for inspecting emails in tests
+ */
+export class FileMailTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9.@-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Pick the transport named by MAIL_TRANSPORT
+ */
+function createDefaultTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === 'file') {
+    return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'mail-outbox'));
+  }
+
+  return new ConsoleMailTransport();
+}
+
+export class MailService {
+  private transport: MailTransport = createDefaultTransport();
+
+  /**
+   * Replace the delivery backend, e.g. with an SMTP or provider API transport
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: MAIL_FROM });
+  }
+
+  /**
+   * Send a link for choosing a new password
+   */
+  async sendPasswordReset(to: string, name: string, token: string, expiresInMinutes: number): Promise<void> {
+    const link = `${FRONTEND_URL}/forgot-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your DARE Dreamers password',
+      text: [
+        `Hi ${name},`,
+        '',
+        'Someone asked to reset the password for your DARE Dreamers account.',
+        `Choose a new password here (the link expires in ${expiresInMinutes} minutes):`,
+        link,
+        '',
+        'If this was not you, you can ignore this email.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Send a link confirming the address belongs to the user
+   */
+  async sendEmailVerification(to: string, name: string, token: string): Promise<void> {
+    const link = `${FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your DARE Dreamers email',
+      text: [
+        `Hi ${name},`,
+        '',
+        'Please confirm your email address:',
+        link
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Send a link for joining a recruiter organization
+   */
+  async sendOrganizationInvitation(to: string, organizationName: string, token: string, expiresInDays: number): Promise<void> {
+    const link = `${FRONTEND_URL}/organization?invitation=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: `Join ${organizationName} on DARE Dreamers`,
+      text: [
+        'Hi,',
+        '',
+        `You have been invited to join ${organizationName} on DARE Dreamers.`,
+        `Sign in with this email address and accept the invitation here (the link expires in ${expiresInDays} days):`,
+        link
+      ].join('\n')
+    });
+  }
+}
+
+export const mailService = new MailService();
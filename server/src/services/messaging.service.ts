@@ -0,0 +1,334 @@
+/**
+ * Messaging Service
+ * - Recruiters send contact requests to public candidates who are open to opportunities
+ * - A conversation opens only once the candidate accepts; either side can close it
+ * - Every request, answer and message notifies the recipient
+ */
+
+import { prisma } from '../lib/prisma';
+import { ConversationStatus, DirectMessage, Prisma } from '@prisma/client';
+import { notificationService } from './notification.service';
+
+export interface MessageEntry {
+  id: string;
+  body: string;
+  fromMe: boolean;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ConversationSummary {
+  id: string;
+  status: ConversationStatus;
+  candidateId: string;
+  // Whether the viewer is the candidate, who answers the contact request
+  viewerIsCandidate: boolean;
+  // The other participant, as the viewer sees them
+  counterpart: {
+    name: string;
+    company: string | null;
+  };
+  lastMessage: MessageEntry | null;
+  unreadCount: number;
+  createdAt: Date;
+  lastMessageAt: Date;
+}
+
+export interface ConversationDetails extends ConversationSummary {
+  messages: MessageEntry[];
+}
+
+interface Participant {
+  userId: string;
+  candidateId: string | null;
+  recruiterId: string | null;
+}
+
+const CONVERSATION_INCLUDE = {
+  candidate: { select: { userId: true, user: { select: { name: true } } } },
+  recruiter: { select: { userId: true, company: true, user: { select: { name: true } } } }
+} satisfies Prisma.ConversationInclude;
+
+type ConversationWithParticipants = Prisma.ConversationGetPayload<{ include: typeof CONVERSATION_INCLUDE }>;
+
+// Candidates recruiters may write to: public, open to opportunities, active and not departing
+const CONTACTABLE_CANDIDATE = {
+  isPublic: true,
+  openToOpportunities: true,
+  user: { suspendedAt: null, deletionScheduledFor: null }
+} satisfies Prisma.CandidateProfileWhereInput;
+
+export class MessagingService {
+  /**
+   * Send a contact request; the introduction is the first message of the conversation
+   */
+  async sendContactRequest(userId: string, candidateId: string, body: string): Promise<ConversationDetails> {
+    const recruiter = await prisma.recruiterProfile.findUnique({
+      where: { userId },
+      select: { id: true, company: true, user: { select: { name: true } } }
+    });
+
+    if (!recruiter) {
+      throw new Error('Recruiter profile not found');
+    }
+
+    // Private, unavailable, suspended and departing candidates look the same to the recruiter
+    const candidate = await prisma.candidateProfile.findFirst({
+      where: { id: candidateId, ...CONTACTABLE_CANDIDATE },
+      select: { id: true, userId: true }
+    });
+
+    if (!candidate) {
+      throw new Error('Candidate is not accepting contact requests');
+    }
+
+    const existing = await prisma.conversation.findUnique({
+      where: { candidateId_recruiterId: { candidateId, recruiterId: recruiter.id } }
+    });
+
+    if (existing) {
+      throw new Error('Contact request already sent');
+    }
+
+    const conversation = await prisma.conversation.create({
+      data: {
+        candidateId,
+        recruiterId: recruiter.id,
+        messages: { create: { senderId: userId, body } }
+      },
+      include: {
+        ...CONVERSATION_INCLUDE,
+        messages: { orderBy: { createdAt: 'asc' } }
+      }
+    }).catch((error: unknown) => {
+      // A concurrent request for the same pair got past the check above first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('Contact request already sent');
+      }
+      throw error;
+    });
+
+    await notificationService.notifyContactRequest(candidate.userId, conversation.id, recruiter.user.name, recruiter.company);
+
+    return {
+      ...this.toSummary(conversation, userId, conversation.messages[0], 0),
+      messages: conversation.messages.map(message => this.toMessage(message, userId))
+    };
+  }
+
+  /**
+   * Accept or decline a pending contact request (candidate only)
+   */
+  async respondToRequest(userId: string, conversationId: string, accept: boolean): Promise<ConversationStatus> {
+    const participant = await this.getParticipant(userId);
+    const conversation = await this.getConversationFor(participant, conversationId);
+
+    if (conversation.candidateId !== participant.candidateId) {
+      throw new Error('Only the candidate can answer a contact request');
+    }
+
+    const status = accept ? ConversationStatus.ACCEPTED : ConversationStatus.DECLINED;
+
+    // Conditional update so a double submit cannot answer twice
+    const updated = await prisma.conversation.updateMany({
+      where: { id: conversationId, status: ConversationStatus.PENDING },
+      data: { status, respondedAt: new Date() }
+    });
+
+    if (updated.count === 0) {
+      throw new Error('Contact request already answered');
+    }
+
+    await notificationService.notifyContactRequestAnswered(
+      conversation.recruiter.userId,
+      conversationId,
+      conversation.candidate.user.name,
+      accept
+    );
+
+    return status;
+  }
+
+  /**
+   * Send a message in an accepted conversation; recruiters need the candidate's continued consent (public, open to opportunities, active and not pending deletion)
+   */
+  async sendMessage(userId: string, conversationId: string, body: string): Promise<MessageEntry> {
+    const participant = await this.getParticipant(userId);
+    const conversation = await this.getConversationFor(participant, conversationId);
+
+    if (conversation.status !== ConversationStatus.ACCEPTED) {
+      throw new Error('Conversation is not open');
+    }
+
+    const fromCandidate = conversation.candidateId === participant.candidateId;
+
+    if (!fromCandidate) {
+      const contactable = await prisma.candidateProfile.count({
+        where: { id: conversation.candidateId, ...CONTACTABLE_CANDIDATE }
+      });
+
+      if (contactable === 0) {
+        throw new Error('Candidate is not accepting messages');
+      }
+    }
+
+    const sentAt = new Date();
+    const [message] = await prisma.$transaction([
+      prisma.directMessage.create({
+        data: { conversationId, senderId: userId, body, createdAt: sentAt }
+      }),
+      prisma.conversation.update({
+        where: { id: conversationId },
+        data: { lastMessageAt: sentAt }
+      })
+    ]);
+
+    await notificationService.notifyNewMessage(
+      fromCandidate ? conversation.recruiter.userId : conversation.candidate.userId,
+      conversationId,
+      fromCandidate ? conversation.candidate.user.name : conversation.recruiter.user.name,
+      body
+    );
+
+    return this.toMessage(message, userId);
+  }
+
+  /**
+   * Close a conversation, or withdraw a pending request; no further messages can be sent
+   */
+  async closeConversation(userId: string, conversationId: string): Promise<void> {
+    const participant = await this.getParticipant(userId);
+    await this.getConversationFor(participant, conversationId);
+
+    const updated = await prisma.conversation.updateMany({
+      where: {
+        id: conversationId,
+        status: { in: [ConversationStatus.PENDING, ConversationStatus.ACCEPTED] }
+      },
+      data: { status: ConversationStatus.CLOSED }
+    });
+
+    if (updated.count === 0) {
+      throw new Error('Conversation is not open');
+    }
+  }
+
+  /**
+   * List the user's conversations, most recently active first
+   */
+  async listConversations(userId: string): Promise<ConversationSummary[]> {
+    const participant = await this.getParticipant(userId);
+
+    const conversations = await prisma.conversation.findMany({
+      where: this.participantWhere(participant),
+      include: {
+        ...CONVERSATION_INCLUDE,
+        messages: { orderBy: { createdAt: 'desc' }, take: 1 },
+        _count: { select: { messages: { where: { readAt: null, senderId: { not: userId } } } } }
+      },
+      orderBy: { lastMessageAt: 'desc' }
+    });
+
+    return conversations.map(conversation =>
+      this.toSummary(conversation, userId, conversation.messages[0] ?? null, conversation._count.messages)
+    );
+  }
+
+  /**
+   * Get a conversation with its messages; messages from the other side are marked read
+   */
+  async getConversation(userId: string, conversationId: string): Promise<ConversationDetails> {
+    const participant = await this.getParticipant(userId);
+    const conversation = await this.getConversationFor(participant, conversationId);
+
+    await prisma.directMessage.updateMany({
+      where: { conversationId, senderId: { not: userId }, readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    const messages = await prisma.directMessage.findMany({
+      where: { conversationId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return {
+      ...this.toSummary(conversation, userId, messages[messages.length - 1] ?? null, 0),
+      messages: messages.map(message => this.toMessage(message, userId))
+    };
+  }
+
+  private async getParticipant(userId: string): Promise<Participant> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        candidateProfile: { select: { id: true } },
+        recruiterProfile: { select: { id: true } }
+      }
+    });
+
+    if (!user || (!user.candidateProfile && !user.recruiterProfile)) {
+      throw new Error('Profile not found');
+    }
+
+    return {
+      userId,
+      candidateId: user.candidateProfile?.id ?? null,
+      recruiterId: user.recruiterProfile?.id ?? null
+    };
+  }
+
+  // Recruiters lose sight of candidates who asked for their account to be deleted
+  private participantWhere(participant: Participant): Prisma.ConversationWhereInput {
+    return participant.candidateId
+      ? { candidateId: participant.candidateId }
+      : { recruiterId: participant.recruiterId ?? undefined, candidate: { user: { deletionScheduledFor: null } } };
+  }
+
+  private async getConversationFor(participant: Participant, conversationId: string): Promise<ConversationWithParticipants> {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: conversationId, ...this.participantWhere(participant) },
+      include: CONVERSATION_INCLUDE
+    });
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  private toSummary(
+    conversation: ConversationWithParticipants,
+    userId: string,
+    lastMessage: DirectMessage | null,
+    unreadCount: number
+  ): ConversationSummary {
+    const viewerIsCandidate = conversation.candidate.userId === userId;
+
+    return {
+      id: conversation.id,
+      status: conversation.status,
+      candidateId: conversation.candidateId,
+      viewerIsCandidate,
+      counterpart: viewerIsCandidate
+        ? { name: conversation.recruiter.user.name, company: conversation.recruiter.company }
+        : { name: conversation.candidate.user.name, company: null },
+      lastMessage: lastMessage ? this.toMessage(lastMessage, userId) : null,
+      unreadCount,
+      createdAt: conversation.createdAt,
+      lastMessageAt: conversation.lastMessageAt
+    };
+  }
+
+  private toMessage(message: DirectMessage, userId: string): MessageEntry {
+    return {
+      id: message.id,
+      body: message.body,
+      fromMe: message.senderId === userId,
+      readAt: message.readAt,
+      createdAt: message.createdAt
+    };
+  }
+}
+
+export const messagingService = new MessagingService();
@@ -8,8 +8,10 @@
  */
 
 import { prisma } from '../lib/prisma';
-import { Platform } from '@prisma/client';
+import { Platform, Notification as PrismaNotification } from '@prisma/client';
 import { aggregationService, ScoreUpdateResult } from './aggregation.service';
+import { ScoreDispute } from './score-transparency.service';
+import { jobQueue } from './job.service';
 
 // Notification types
 export enum NotificationType {
@@ -19,7 +21,11 @@ export enum NotificationType {
   PLATFORM_CONNECTED = 'PLATFORM_CONNECTED',
   PLATFORM_DATA_REFRESHED = 'PLATFORM_DATA_REFRESHED',
   NEW_RECOMMENDATION = 'NEW_RECOMMENDATION',
-  PROFILE_VIEW = 'PROFILE_VIEW'
+  PROFILE_VIEW = 'PROFILE_VIEW',
+  DISPUTE_UPDATE = 'DISPUTE_UPDATE',
+  CONTACT_REQUEST = 'CONTACT_REQUEST',
+  CONTACT_REQUEST_ANSWERED = 'CONTACT_REQUEST_ANSWERED',
+  NEW_MESSAGE = 'NEW_MESSAGE'
 }
 
 // Notification interface
@@ -50,8 +56,11 @@ export interface PlatformConnectionData {
   isVerified: boolean;
 }
 
-// Notification store (in-memory for now, can be replaced with Redis/DB)
-const notificationStore: Map<string, Notification[]> = new Map();
+// Retention windows for pruning (read notifications go first)
+const READ_RETENTION_DAYS = parseInt(process.env.NOTIFICATION_READ_RETENTION_DAYS || '30', 10);
+const UNREAD_RETENTION_DAYS = parseInt(process.env.NOTIFICATION_UNREAD_RETENTION_DAYS || '90', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class NotificationService {
   /**
@@ -64,89 +73,72 @@ export class NotificationService {
     message: string,
     data?: Record<string, unknown>
   ): Promise<Notification> {
-    const notification: Notification = {
-      id: `notif-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      userId,
-      type,
-      title,
-      message,
-      data,
-      read: false,
-      createdAt: new Date()
-    };
-
-    // Store notification
-    const userNotifications = notificationStore.get(userId) || [];
-    userNotifications.unshift(notification);
-    
-    // Keep only last 100 notifications per user
-    if (userNotifications.length > 100) {
-      userNotifications.splice(100);
-    }
-    
-    notificationStore.set(userId, userNotifications);
+    const notification = await prisma.notification.create({
+      data: {
+        userId,
+        type,
+        title,
+        message,
+        data: data ? JSON.parse(JSON.stringify(data)) : undefined
+      }
+    });
 
     // In production, this would also:
-    // - Store in database
     // - Send push notification
     // - Send email if user preferences allow
     // - Trigger webhooks
 
-    return notification;
+    return this.toNotification(notification);
   }
 
   /**
    * Get notifications for a user
    */
-  getNotifications(userId: string, limit = 20, unreadOnly = false): Notification[] {
-    const notifications = notificationStore.get(userId) || [];
-    
-    let filtered = notifications;
-    if (unreadOnly) {
-      filtered = notifications.filter(n => !n.read);
-    }
-    
-    return filtered.slice(0, limit);
+  async getNotifications(userId: string, limit = 20, unreadOnly = false, offset = 0): Promise<Notification[]> {
+    const notifications = await prisma.notification.findMany({
+      where: {
+        userId,
+        ...(unreadOnly ? { read: false } : {})
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: offset,
+      take: limit
+    });
+
+    return notifications.map(n => this.toNotification(n));
   }
 
   /**
    * Mark notification as read
    */
-  markAsRead(userId: string, notificationId: string): boolean {
-    const notifications = notificationStore.get(userId) || [];
-    const notification = notifications.find(n => n.id === notificationId);
-    
-    if (notification) {
-      notification.read = true;
-      return true;
-    }
-    
-    return false;
+  async markAsRead(userId: string, notificationId: string): Promise<boolean> {
+    const result = await prisma.notification.updateMany({
+      where: { id: notificationId, userId },
+      data: { read: true, readAt: new Date() }
+    });
+
+    return result.count > 0;
   }
 
   /**
    * Mark all notifications as read
    */
-  markAllAsRead(userId: string): number {
-    const notifications = notificationStore.get(userId) || [];
-    let count = 0;
-    
-    for (const notification of notifications) {
-      if (!notification.read) {
-        notification.read = true;
-        count++;
-      }
-    }
-    
-    return count;
+  async markAllAsRead(userId: string): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: { userId, read: false },
+      data: { read: true, readAt: new Date() }
+    });
+
+    return result.count;
   }
 
   /**
    * Get unread notification count
    */
-  getUnreadCount(userId: string): number {
-    const notifications = notificationStore.get(userId) || [];
-    return notifications.filter(n => !n.read).length;
+  async getUnreadCount(userId: string): Promise<number> {
+    return prisma.notification.count({
+      where: { userId, read: false }
+    });
   }
 
   /**
@@ -218,6 +210,73 @@ export class NotificationService {
     );
   }
 
+  /**
+   * Notify candidate that their score dispute was reviewed
+   */
+  async notifyDisputeReviewed(userId: string, dispute: ScoreDispute): Promise<Notification> {
+    const isResolved = dispute.status === 'resolved';
+
+    const title = isResolved ? '✅ Score Dispute Resolved' : '📋 Score Dispute Reviewed';
+    const message = dispute.resolution
+      || (isResolved
+        ? 'Your score dispute has been resolved. Check your score breakdown for any changes.'
+        : 'Your score dispute was reviewed and no change was made to your score.');
+
+    return this.createNotification(
+      userId,
+      NotificationType.DISPUTE_UPDATE,
+      title,
+      message,
+      { disputeId: dispute.id, type: dispute.type, status: dispute.status }
+    );
+  }
+
+  /**
+   * Notify candidate that a recruiter wants to contact them
+   */
+  async notifyContactRequest(userId: string, conversationId: string, recruiterName: string, company: string): Promise<Notification> {
+    return this.createNotification(
+      userId,
+      NotificationType.CONTACT_REQUEST,
+      '✉️ New Contact Request',
+      `${recruiterName} from ${company} would like to get in touch. Accept the request to start a conversation.`,
+      { conversationId }
+    );
+  }
+
+  /**
+   * Notify recruiter that a candidate answered their contact request
+   */
+  async notifyContactRequestAnswered(
+    userId: string,
+    conversationId: string,
+    candidateName: string,
+    accepted: boolean
+  ): Promise<Notification> {
+    return this.createNotification(
+      userId,
+      NotificationType.CONTACT_REQUEST_ANSWERED,
+      accepted ? '✅ Contact Request Accepted' : 'Contact Request Declined',
+      accepted
+        ? `${candidateName} accepted your contact request. You can now message them.`
+        : `${candidateName} declined your contact request.`,
+      { conversationId, accepted }
+    );
+  }
+
+  /**
+   * Notify the other side of a conversation about a new message
+   */
+  async notifyNewMessage(userId: string, conversationId: string, senderName: string, preview: string): Promise<Notification> {
+    return this.createNotification(
+      userId,
+      NotificationType.NEW_MESSAGE,
+      `💬 New message from ${senderName}`,
+      preview.length > 140 ? `${preview.slice(0, 137)}...` : preview,
+      { conversationId }
+    );
+  }
+
   /**
    * Notify user of data refresh
    */
@@ -275,24 +334,58 @@ export class NotificationService {
   /**
    * Delete notification
    */
-  deleteNotification(userId: string, notificationId: string): boolean {
-    const notifications = notificationStore.get(userId) || [];
-    const index = notifications.findIndex(n => n.id === notificationId);
-    
-    if (index !== -1) {
-      notifications.splice(index, 1);
-      notificationStore.set(userId, notifications);
-      return true;
-    }
-    
-    return false;
+  async deleteNotification(userId: string, notificationId: string): Promise<boolean> {
+    const result = await prisma.notification.deleteMany({
+      where: { id: notificationId, userId }
+    });
+
+    return result.count > 0;
   }
 
   /**
    * Clear all notifications for a user
    */
-  clearAllNotifications(userId: string): void {
-    notificationStore.set(userId, []);
+  async clearAllNotifications(userId: string): Promise<void> {
+    await prisma.notification.deleteMany({
+      where: { userId }
+    });
+  }
+
+  /**
+   * Prune notifications past their retention window
+   */
+  async pruneNotifications(
+    readRetentionDays = READ_RETENTION_DAYS,
+    unreadRetentionDays = UNREAD_RETENTION_DAYS
+  ): Promise<number> {
+    const now = Date.now();
+
+    const result = await prisma.notification.deleteMany({
+      where: {
+        OR: [
+          { read: true, createdAt: { lt: new Date(now - readRetentionDays * DAY_MS) } },
+          { createdAt: { lt: new Date(now - unreadRetentionDays * DAY_MS) } }
+        ]
+      }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Map a stored notification row to the public shape
+   */
+  private toNotification(row: PrismaNotification): Notification {
+    return {
+      id: row.id,
+      userId: row.userId,
+      type: row.type as NotificationType,
+      title: row.title,
+      message: row.message,
+      data: (row.data as Record<string, unknown> | null) ?? undefined,
+      read: row.read,
+      createdAt: row.createdAt
+    };
   }
 }
 
@@ -382,26 +475,25 @@ export class ScoreUpdateService {
   }
 
   /**
-   * Schedule periodic score updates for all candidates
-   * This would typically be called by a background job
+   * Queue a background refresh if any platform data is stale (older than 24 hours)
+   * Returns the job id, or null if the data is fresh
    */
-  async schedulePeriodicUpdate(userId: string): Promise<void> {
-    // Check if data is stale (older than 24 hours)
+  async schedulePeriodicUpdate(userId: string): Promise<string | null> {
     const candidateProfile = await prisma.candidateProfile.findUnique({
       where: { userId },
       include: { platformConnections: true }
     });
 
-    if (!candidateProfile) return;
+    if (!candidateProfile) return null;
 
     const staleThreshold = new Date(Date.now() - 24 * 60 * 60 * 1000);
     const hasStaleData = candidateProfile.platformConnections.some(
       c => !c.lastSynced || c.lastSynced < staleThreshold
     );
 
-    if (hasStaleData) {
-      await this.refreshAndNotify(userId);
-    }
+    if (!hasStaleData) return null;
+
+    return jobQueue.scheduleDataRefresh(candidateProfile.id);
   }
 }
 
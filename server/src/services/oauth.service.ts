@@ -0,0 +1,350 @@
+/**
+ * OAuth Sign-In Service
+ * - Login and registration through GitHub, LinkedIn and Google
+ * - Linking provider identities to existing users
+ * - Verified platform connections for GitHub and LinkedIn accounts
+ * - Signed, single-use state for the provider round trip, bound to the browser that started it
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { prisma } from '../lib/prisma';
+import { OAuthIdentity, Platform, User, UserType } from '@prisma/client';
+import { AuthService, LoginResult } from './auth.service';
+import { SessionMetadata } from './session.service';
+import { jobQueue } from './job.service';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export enum OAuthProvider {
+  GITHUB = 'github',
+  LINKEDIN = 'linkedin',
+  GOOGLE = 'google'
+}
+
+// Provider accounts that are also scored platforms
+const PROVIDER_PLATFORMS: Partial<Record<OAuthProvider, Platform>> = {
+  [OAuthProvider.GITHUB]: Platform.GITHUB,
+  [OAuthProvider.LINKEDIN]: Platform.LINKEDIN
+};
+
+// Provider profile normalized by the passport strategies
+export interface OAuthProfile {
+  provider: OAuthProvider;
+  providerUserId: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  username: string | null;
+  profileUrl: string | null;
+}
+
+// Carried through the provider redirect in the `state` parameter
+export interface OAuthState {
+  intent: 'login' | 'link';
+  userId?: string;
+  nonce: string;
+}
+
+// A signed state and the nonce the starting browser keeps in a cookie
+export interface OAuthStateGrant {
+  state: string;
+  nonce: string;
+  expiresAt: Date;
+}
+
+export type OAuthSignInResult = LoginResult & {
+  isNewUser: boolean;
+};
+
+export interface OAuthIdentityInfo {
+  provider: string;
+  email: string | null;
+  username: string | null;
+  profileUrl: string | null;
+  lastLoginAt: Date;
+  createdAt: Date;
+}
+
+export class OAuthService {
+  /**
+   * Sign the state sent to the provider and record its nonce until the callback
+   */
+  async createState(intent: OAuthState['intent'], userId?: string): Promise<OAuthStateGrant> {
+    const nonce = randomBytes(16).toString('hex');
+    const expiresAt = new Date(Date.now() + STATE_TTL_MS);
+    const payload: OAuthState = { intent, userId, nonce };
+
+    await prisma.oAuthStateNonce.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+    await prisma.oAuthStateNonce.create({ data: { nonce, expiresAt } });
+
+    return {
+      state: jwt.sign(payload, this.stateSecret(), { expiresIn: STATE_TTL_MS / 1000 }),
+      nonce,
+      expiresAt
+    };
+  }
+
+  /**
+   * Check the state returned by the provider against the browser's nonce, and consume it
+   */
+  async verifyState(token: string | undefined, browserNonce: string | undefined): Promise<OAuthState> {
+    if (!token || !browserNonce) {
+      throw new Error('Invalid OAuth state');
+    }
+
+    let state: OAuthState;
+    try {
+      state = jwt.verify(token, this.stateSecret()) as OAuthState;
+    } catch {
+      throw new Error('Invalid OAuth state');
+    }
+
+    // A state started in another browser, e.g. a link handed to a victim, is refused
+    const expected = Buffer.from(state.nonce);
+    const actual = Buffer.from(browserNonce);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new Error('Invalid OAuth state');
+    }
+
+    const consumed = await prisma.oAuthStateNonce.deleteMany({
+      where: { nonce: state.nonce, expiresAt: { gt: new Date() } }
+    });
+
+    if (consumed.count === 0) {
+      throw new Error('Invalid OAuth state');
+    }
+
+    return state;
+  }
+
+  /**
+   * Log in with a provider profile, registering a candidate on first use
+   * Unknown identities are linked to an existing user only when the provider vouches for the email
+   */
+  async signIn(profile: OAuthProfile, metadata: SessionMetadata = {}): Promise<OAuthSignInResult> {
+    const identity = await prisma.oAuthIdentity.findUnique({
+      where: { provider_providerUserId: { provider: profile.provider, providerUserId: profile.providerUserId } },
+      include: { user: true }
+    });
+
+    let user: User;
+    let isNewUser = false;
+
+    // Suspended accounts are refused before anything is written for them
+    if (identity) {
+      if (identity.user.suspendedAt) {
+        throw new Error('Account suspended');
+      }
+
+      user = identity.user;
+      await prisma.oAuthIdentity.update({
+        where: { id: identity.id },
+        data: {
+          email: profile.email,
+          username: profile.username,
+          profileUrl: profile.profileUrl,
+          lastLoginAt: new Date()
+        }
+      });
+    } else {
+      const existing = profile.email
+        ? await prisma.user.findUnique({ where: { email: profile.email } })
+        : null;
+
+      if (existing && !profile.emailVerified) {
+        throw new Error('Email already registered');
+      }
+
+      if (existing?.suspendedAt) {
+        throw new Error('Account suspended');
+      }
+
+      if (existing) {
+        user = existing;
+      } else {
+        user = await this.registerCandidate(profile);
+        isNewUser = true;
+      }
+
+      await this.createIdentity(user.id, profile);
+    }
+
+    // Signing in through the provider proves the address if it vouches for it
+    if (!user.emailVerifiedAt && profile.emailVerified && profile.email === user.email) {
+      user = await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: new Date() }
+      });
+    }
+
+    await this.connectPlatform(user, profile);
+
+    // Accounts with two-factor authentication still need the second step
+    const session = user.twoFactorEnabledAt
+      ? await AuthService.createTwoFactorChallenge(user.id)
+      : await AuthService.issueSession(user, metadata);
+
+    return { ...session, isNewUser };
+  }
+
+  /**
+   * Link a provider identity to a logged-in user
+   */
+  async linkIdentity(userId: string, profile: OAuthProfile): Promise<OAuthIdentityInfo> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const [linkedElsewhere, linkedProvider] = await Promise.all([
+      prisma.oAuthIdentity.findUnique({
+        where: { provider_providerUserId: { provider: profile.provider, providerUserId: profile.providerUserId } }
+      }),
+      prisma.oAuthIdentity.findUnique({
+        where: { userId_provider: { userId, provider: profile.provider } }
+      })
+    ]);
+
+    if (linkedElsewhere && linkedElsewhere.userId !== userId) {
+      throw new Error('OAuth account linked to another user');
+    }
+
+    if (linkedProvider && linkedProvider.providerUserId !== profile.providerUserId) {
+      throw new Error('Provider already linked');
+    }
+
+    const identity = linkedElsewhere ?? await this.createIdentity(userId, profile);
+
+    await this.connectPlatform(user, profile);
+
+    return this.toIdentityInfo(identity);
+  }
+
+  /**
+   * List the providers linked to a user
+   */
+  async listIdentities(userId: string): Promise<OAuthIdentityInfo[]> {
+    const identities = await prisma.oAuthIdentity.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return identities.map(identity => this.toIdentityInfo(identity));
+  }
+
+  /**
+   * Unlink a provider; the platform connection it created stays but is no longer verified
+   */
+  async unlinkIdentity(userId: string, provider: OAuthProvider): Promise<void> {
+    const result = await prisma.oAuthIdentity.deleteMany({
+      where: { userId, provider }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Identity not found');
+    }
+
+    const platform = PROVIDER_PLATFORMS[provider];
+    if (platform) {
+      await prisma.platformConnection.updateMany({
+        where: { platform, candidate: { userId } },
+        data: { isVerified: false, verifiedAt: null }
+      });
+    }
+  }
+
+  /**
+   * Create a candidate from a provider profile
+   * The password is random; the user can set one through the password reset flow
+   */
+  private async registerCandidate(profile: OAuthProfile): Promise<User> {
+    if (!profile.email) {
+      throw new Error('OAuth provider did not share an email address');
+    }
+
+    const passwordHash = await AuthService.hashPassword(randomBytes(32).toString('hex'));
+
+    return prisma.user.create({
+      data: {
+        email: profile.email,
+        passwordHash,
+        name: profile.name || profile.username || profile.email,
+        userType: UserType.CANDIDATE,
+        emailVerifiedAt: profile.emailVerified ? new Date() : null,
+        candidateProfile: {
+          create: { isPublic: false }
+        }
+      }
+    });
+  }
+
+  private async createIdentity(userId: string, profile: OAuthProfile): Promise<OAuthIdentity> {
+    return prisma.oAuthIdentity.create({
+      data: {
+        userId,
+        provider: profile.provider,
+        providerUserId: profile.providerUserId,
+        email: profile.email,
+        username: profile.username,
+        profileUrl: profile.profileUrl
+      }
+    });
+  }
+
+  /**
+   * Record the provider account as a verified platform connection of a candidate
+   * The OAuth login proves ownership, so no separate verification is needed
+   */
+  private async connectPlatform(user: User, profile: OAuthProfile): Promise<void> {
+    const platform = PROVIDER_PLATFORMS[profile.provider];
+
+    if (!platform || user.userType !== UserType.CANDIDATE) {
+      return;
+    }
+
+    const candidateProfile = await prisma.candidateProfile.findUnique({
+      where: { userId: user.id },
+      include: { platformConnections: { where: { platform } } }
+    });
+
+    if (!candidateProfile) {
+      return;
+    }
+
+    const username = profile.username || profile.providerUserId;
+    const current = candidateProfile.platformConnections[0];
+
+    if (current && current.username === username && current.isVerified) {
+      return;
+    }
+
+    await prisma.platformConnection.upsert({
+      where: { candidateId_platform: { candidateId: candidateProfile.id, platform } },
+      create: { candidateId: candidateProfile.id, platform, username, isVerified: true, verifiedAt: new Date() },
+      update: { username, isVerified: true, verifiedAt: new Date() }
+    });
+
+    await jobQueue.scheduleDataRefresh(candidateProfile.id);
+  }
+
+  private toIdentityInfo(identity: OAuthIdentity): OAuthIdentityInfo {
+    return {
+      provider: identity.provider,
+      email: identity.email,
+      username: identity.username,
+      profileUrl: identity.profileUrl,
+      lastLoginAt: identity.lastLoginAt,
+      createdAt: identity.createdAt
+    };
+  }
+
+  private stateSecret(): string {
+    return process.env.JWT_SECRET || 'your-secret-key';
+  }
+}
+
+export const oauthService = new OAuthService();
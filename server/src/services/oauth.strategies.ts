@@ -0,0 +1,104 @@
+/**
+ * OAuth Passport Strategies
+ * - Strategies built from <PROVIDER>_CLIENT_ID / <PROVIDER>_CLIENT_SECRET when configured
+ * - Provider profiles normalized to OAuthProfile
+ * - Registration hook so tests can substitute a mocked provider
+ */
+
+import passport from 'passport';
+import { Strategy as GitHubStrategy } from 'passport-github2';
+import { Strategy as LinkedInStrategy } from 'passport-linkedin-oauth2';
+import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
+import { OAuthProfile, OAuthProvider } from './oauth.service';
+
+// Email entries as returned by the providers; GitHub and Google report verification
+interface ProviderEmail {
+  value: string;
+  primary?: boolean;
+  verified?: boolean;
+}
+
+type VerifyDone = (error: Error | null, profile?: OAuthProfile) => void;
+
+const registered = new Set<OAuthProvider>();
+
+/**
+ * Use a strategy for a provider, replacing any configured one
+ */
+export function registerOAuthStrategy(provider: OAuthProvider, strategy: passport.Strategy): void {
+  passport.use(provider, strategy);
+  registered.add(provider);
+}
+
+/**
+ * Make sure a strategy exists for the provider; false when it is not configured
+ * Strategies are built on first use so they see environment loaded at startup
+ */
+export function ensureOAuthStrategy(provider: OAuthProvider): boolean {
+  if (registered.has(provider)) {
+    return true;
+  }
+
+  const strategy = createStrategy(provider);
+  if (!strategy) {
+    return false;
+  }
+
+  registerOAuthStrategy(provider, strategy);
+  return true;
+}
+
+/**
+ * Normalize a passport profile
+ */
+export function toOAuthProfile(provider: OAuthProvider, profile: passport.Profile & { profileUrl?: string }): OAuthProfile {
+  const emails = (profile.emails ?? []) as ProviderEmail[];
+  const email = emails.find(e => e.primary) ?? emails[0];
+
+  return {
+    provider,
+    providerUserId: String(profile.id),
+    email: email?.value ?? null,
+    // LinkedIn only returns the member's confirmed primary address
+    emailVerified: provider === OAuthProvider.LINKEDIN ? !!email : email?.verified === true,
+    name: profile.displayName || null,
+    username: profile.username ?? null,
+    profileUrl: profile.profileUrl ?? null
+  };
+}
+
+function createStrategy(provider: OAuthProvider): passport.Strategy | null {
+  const prefix = provider.toUpperCase();
+  const clientID = process.env[`${prefix}_CLIENT_ID`];
+  const clientSecret = process.env[`${prefix}_CLIENT_SECRET`];
+
+  if (!clientID || !clientSecret) {
+    return null;
+  }
+
+  const callbackURL = `${process.env.OAUTH_CALLBACK_BASE_URL || 'http://localhost:3001'}/api/auth/oauth/${provider}/callback`;
+  const verify = (_accessToken: string, _refreshToken: string, profile: passport.Profile, done: VerifyDone) => {
+    done(null, toOAuthProfile(provider, profile));
+  };
+
+  switch (provider) {
+    case OAuthProvider.GITHUB:
+      return new GitHubStrategy(
+        { clientID, clientSecret, callbackURL, scope: ['read:user', 'user:email'], allRawEmails: true },
+        verify
+      );
+    case OAuthProvider.LINKEDIN:
+      return new LinkedInStrategy(
+        { clientID, clientSecret, callbackURL, scope: ['r_liteprofile', 'r_emailaddress'] },
+        verify
+      );
+    case OAuthProvider.GOOGLE:
+      // The Google typings expect Express.User, which this app declares as the JWT payload
+      return new GoogleStrategy(
+        { clientID, clientSecret, callbackURL, scope: ['openid', 'email', 'profile'] },
+        (accessToken, refreshToken, profile, done) => verify(accessToken, refreshToken, profile, done as VerifyDone)
+      );
+    default:
+      return null;
+  }
+}
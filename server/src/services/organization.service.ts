@@ -0,0 +1,517 @@
+/**
+ * Organization Service
+ * - Recruiter workspaces with owner, admin and member roles
+ * - Email invitations that hold a seat until accepted
+ * - Seat limits and the pooled API quota follow the subscription tier
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from '../lib/prisma';
+import { Organization, OrganizationMember, OrganizationRole, SubscriptionTier } from '@prisma/client';
+import { organizationApiLimit } from './api-key.service';
+import { mailService } from './mail.service';
+
+// Seats included in each subscription tier
+export const TIER_SEAT_LIMITS: Record<SubscriptionTier, number> = {
+  [SubscriptionTier.BASIC]: 3,
+  [SubscriptionTier.PREMIUM]: 10,
+  [SubscriptionTier.ENTERPRISE]: 50
+};
+
+const INVITATION_TTL_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Roles allowed to manage members and invitations
+const MANAGER_ROLES: OrganizationRole[] = [OrganizationRole.OWNER, OrganizationRole.ADMIN];
+
+export interface OrganizationMemberSummary {
+  id: string;
+  recruiterId: string;
+  name: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export interface OrganizationInvitationSummary {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface OrganizationDetails {
+  id: string;
+  name: string;
+  subscriptionTier: SubscriptionTier;
+  role: OrganizationRole;
+  seats: {
+    used: number;
+    limit: number;
+  };
+  apiCalls: {
+    used: number;
+    limit: number;
+  };
+  members: OrganizationMemberSummary[];
+  // Only shown to owners and admins
+  invitations: OrganizationInvitationSummary[];
+}
+
+type Membership = OrganizationMember & { organization: Organization };
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class OrganizationService {
+  /**
+   * Create an organization owned by the recruiter, on the recruiter's subscription tier
+   */
+  async createOrganization(userId: string, name: string): Promise<OrganizationDetails> {
+    const recruiterProfile = await this.getRecruiterProfile(userId);
+
+    const existing = await prisma.organizationMember.findUnique({
+      where: { recruiterId: recruiterProfile.id }
+    });
+
+    if (existing) {
+      throw new Error('Already a member of an organization');
+    }
+
+    const tier = recruiterProfile.subscriptionTier;
+    const seatLimit = TIER_SEAT_LIMITS[tier];
+
+    await prisma.organization.create({
+      data: {
+        name,
+        subscriptionTier: tier,
+        seatLimit,
+        apiCallsLimit: organizationApiLimit(tier, seatLimit),
+        members: {
+          create: { recruiterId: recruiterProfile.id, role: OrganizationRole.OWNER }
+        }
+      }
+    });
+
+    return this.getOrganization(userId);
+  }
+
+  /**
+   * Get the recruiter's organization with its members and seat usage
+   */
+  async getOrganization(userId: string): Promise<OrganizationDetails> {
+    const membership = await this.getMembership(userId);
+    const { organization } = membership;
+
+    const [members, invitations] = await Promise.all([
+      prisma.organizationMember.findMany({
+        where: { organizationId: organization.id },
+        include: { recruiter: { include: { user: { select: { name: true, email: true } } } } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.organizationInvitation.findMany({
+        where: { organizationId: organization.id, acceptedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { createdAt: 'desc' }
+      })
+    ]);
+
+    return {
+      id: organization.id,
+      name: organization.name,
+      subscriptionTier: organization.subscriptionTier,
+      role: membership.role,
+      seats: {
+        used: members.length + invitations.length,
+        limit: organization.seatLimit
+      },
+      apiCalls: {
+        used: organization.apiCallsUsed,
+        limit: organization.apiCallsLimit
+      },
+      members: members.map(member => ({
+        id: member.id,
+        recruiterId: member.recruiterId,
+        name: member.recruiter.user.name,
+        email: member.recruiter.user.email,
+        role: member.role,
+        joinedAt: member.createdAt
+      })),
+      invitations: MANAGER_ROLES.includes(membership.role)
+        ? invitations.map(invitation => ({
+          id: invitation.id,
+          email: invitation.email,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt,
+          createdAt: invitation.createdAt
+        }))
+        : []
+    };
+  }
+
+  /**
+   * Rename the organization
+   */
+  async updateOrganization(userId: string, name: string): Promise<OrganizationDetails> {
+    const membership = await this.getMembership(userId, MANAGER_ROLES);
+
+    await prisma.organization.update({
+      where: { id: membership.organizationId },
+      data: { name }
+    });
+
+    return this.getOrganization(userId);
+  }
+
+  /**
+   * Invite a recruiter by email; the invitation takes a seat until it is accepted or expires
+   * Only owners can invite admins
+   */
+  async inviteMember(userId: string, email: string, role: OrganizationRole): Promise<OrganizationInvitationSummary> {
+    const membership = await this.getMembership(userId, MANAGER_ROLES);
+    const { organization } = membership;
+    const normalizedEmail = email.trim().toLowerCase();
+
+    if (role === OrganizationRole.OWNER
+      || (role === OrganizationRole.ADMIN && membership.role !== OrganizationRole.OWNER)) {
+      throw new Error('Insufficient organization permissions');
+    }
+
+    const existingMember = await prisma.organizationMember.findFirst({
+      where: {
+        organizationId: organization.id,
+        recruiter: { user: { email: { equals: normalizedEmail, mode: 'insensitive' } } }
+      }
+    });
+
+    if (existingMember) {
+      throw new Error('Already a member of this organization');
+    }
+
+    const pending = await prisma.organizationInvitation.findFirst({
+      where: { organizationId: organization.id, email: normalizedEmail, acceptedAt: null, expiresAt: { gt: new Date() } }
+    });
+
+    if (pending) {
+      throw new Error('Invitation already pending');
+    }
+
+    if (await this.countUsedSeats(organization.id) >= organization.seatLimit) {
+      throw new Error('No seats available');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const invitation = await prisma.organizationInvitation.create({
+      data: {
+        organizationId: organization.id,
+        email: normalizedEmail,
+        role,
+        tokenHash: hashInvitationToken(token),
+        invitedById: membership.recruiterId,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * DAY_MS)
+      }
+    });
+
+    await mailService.sendOrganizationInvitation(normalizedEmail, organization.name, token, INVITATION_TTL_DAYS);
+
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt
+    };
+  }
+
+  /**
+   * Withdraw a pending invitation, freeing its seat
+   */
+  async revokeInvitation(userId: string, invitationId: string): Promise<void> {
+    const membership = await this.getMembership(userId, MANAGER_ROLES);
+
+    const deleted = await prisma.organizationInvitation.deleteMany({
+      where: { id: invitationId, organizationId: membership.organizationId, acceptedAt: null }
+    });
+
+    if (deleted.count === 0) {
+      throw new Error('Invitation not found');
+    }
+  }
+
+  /**
+   * Join an organization with an invitation token sent to the recruiter's email
+   */
+  async acceptInvitation(userId: string, token: string): Promise<OrganizationDetails> {
+    const recruiterProfile = await this.getRecruiterProfile(userId);
+
+    const invitation = await prisma.organizationInvitation.findUnique({
+      where: { tokenHash: hashInvitationToken(token) },
+      include: { organization: true }
+    });
+
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt <= new Date()) {
+      throw new Error('Invalid or expired invitation');
+    }
+
+    if (invitation.email !== recruiterProfile.user.email.toLowerCase()) {
+      throw new Error('Invitation was sent to a different email');
+    }
+
+    const existing = await prisma.organizationMember.findUnique({
+      where: { recruiterId: recruiterProfile.id }
+    });
+
+    if (existing) {
+      throw new Error('Already a member of an organization');
+    }
+
+    // The invitation already holds a seat; this only catches a tier downgrade since it was sent
+    const members = await prisma.organizationMember.count({
+      where: { organizationId: invitation.organizationId }
+    });
+
+    if (members >= invitation.organization.seatLimit) {
+      throw new Error('No seats available');
+    }
+
+    await prisma.$transaction(async tx => {
+      // Conditional so the same invitation cannot be accepted twice
+      const claimed = await tx.organizationInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null },
+        data: { acceptedAt: new Date() }
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('Invalid or expired invitation');
+      }
+
+      await tx.organizationMember.create({
+        data: {
+          organizationId: invitation.organizationId,
+          recruiterId: recruiterProfile.id,
+          role: invitation.role
+        }
+      });
+    });
+
+    return this.getOrganization(userId);
+  }
+
+  /**
+   * Change a member's role; making someone else owner transfers ownership
+   */
+  async updateMemberRole(userId: string, memberId: string, role: OrganizationRole): Promise<OrganizationDetails> {
+    const membership = await this.getMembership(userId, [OrganizationRole.OWNER]);
+
+    if (memberId === membership.id) {
+      throw new Error('Cannot change your own role');
+    }
+
+    const member = await this.getMember(membership.organizationId, memberId);
+
+    if (role === OrganizationRole.OWNER) {
+      await prisma.$transaction([
+        prisma.organizationMember.update({
+          where: { id: member.id },
+          data: { role: OrganizationRole.OWNER }
+        }),
+        prisma.organizationMember.update({
+          where: { id: membership.id },
+          data: { role: OrganizationRole.ADMIN }
+        })
+      ]);
+    } else {
+      await prisma.organizationMember.update({
+        where: { id: member.id },
+        data: { role }
+      });
+    }
+
+    return this.getOrganization(userId);
+  }
+
+  /**
+   * Remove a member; admins can only remove plain members
+   */
+  async removeMember(userId: string, memberId: string): Promise<void> {
+    const membership = await this.getMembership(userId, MANAGER_ROLES);
+
+    if (memberId === membership.id) {
+      throw new Error('Use leave to remove yourself');
+    }
+
+    const member = await this.getMember(membership.organizationId, memberId);
+
+    if (member.role === OrganizationRole.OWNER) {
+      throw new Error('Cannot remove the organization owner');
+    }
+
+    if (membership.role === OrganizationRole.ADMIN && member.role !== OrganizationRole.MEMBER) {
+      throw new Error('Insufficient organization permissions');
+    }
+
+    await prisma.organizationMember.delete({
+      where: { id: member.id }
+    });
+  }
+
+  /**
+   * Leave the organization; owners must transfer ownership first
+   */
+  async leaveOrganization(userId: string): Promise<void> {
+    const membership = await this.getMembership(userId);
+
+    if (membership.role === OrganizationRole.OWNER) {
+      throw new Error('Transfer ownership before leaving');
+    }
+
+    await prisma.organizationMember.delete({
+      where: { id: membership.id }
+    });
+  }
+
+  /**
+   * Delete the organization; members keep their own saved searches
+   */
+  async deleteOrganization(userId: string): Promise<void> {
+    const membership = await this.getMembership(userId, [OrganizationRole.OWNER]);
+
+    await prisma.organization.delete({
+      where: { id: membership.organizationId }
+    });
+  }
+
+  /**
+   * Before a recruiter's account is purged, pass their ownership to the longest-standing admin,
+   * or member, so the organization is not left without an owner; a sole owner's organization is deleted
+   */
+  async handOverOwnership(userId: string): Promise<void> {
+    const membership = await prisma.organizationMember.findFirst({
+      where: { recruiter: { userId }, role: OrganizationRole.OWNER }
+    });
+
+    if (!membership) {
+      return;
+    }
+
+    const successor = await prisma.organizationMember.findFirst({
+      where: { organizationId: membership.organizationId, id: { not: membership.id } },
+      // ADMIN sorts before MEMBER in the enum
+      orderBy: [{ role: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    if (!successor) {
+      await prisma.organization.delete({ where: { id: membership.organizationId } });
+      return;
+    }
+
+    await prisma.organizationMember.update({
+      where: { id: successor.id },
+      data: { role: OrganizationRole.OWNER }
+    });
+  }
+
+  /**
+   * Move an organization to another tier, updating its seats and pooled quota
+   */
+  async setSubscriptionTier(organizationId: string, tier: SubscriptionTier): Promise<Organization> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId }
+    });
+
+    if (!organization) {
+      throw new Error('Organization not found');
+    }
+
+    const seatLimit = TIER_SEAT_LIMITS[tier];
+
+    return prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        subscriptionTier: tier,
+        seatLimit,
+        apiCallsLimit: organizationApiLimit(tier, seatLimit)
+      }
+    });
+  }
+
+  /**
+   * Recruiter profile ids of everyone in the same organization, including the recruiter
+   * Used to find items shared inside the organization
+   */
+  async getTeammateIds(recruiterProfileId: string): Promise<string[]> {
+    const membership = await prisma.organizationMember.findUnique({
+      where: { recruiterId: recruiterProfileId }
+    });
+
+    if (!membership) {
+      return [recruiterProfileId];
+    }
+
+    const members = await prisma.organizationMember.findMany({
+      where: { organizationId: membership.organizationId },
+      select: { recruiterId: true }
+    });
+
+    return members.map(member => member.recruiterId);
+  }
+
+  private async countUsedSeats(organizationId: string): Promise<number> {
+    const [members, invitations] = await Promise.all([
+      prisma.organizationMember.count({ where: { organizationId } }),
+      prisma.organizationInvitation.count({
+        where: { organizationId, acceptedAt: null, expiresAt: { gt: new Date() } }
+      })
+    ]);
+
+    return members + invitations;
+  }
+
+  private async getRecruiterProfile(userId: string) {
+    const recruiterProfile = await prisma.recruiterProfile.findUnique({
+      where: { userId },
+      include: { user: { select: { email: true } } }
+    });
+
+    if (!recruiterProfile) {
+      throw new Error('Recruiter profile not found');
+    }
+
+    return recruiterProfile;
+  }
+
+  /**
+   * Get the recruiter's membership, optionally requiring one of the given roles
+   */
+  private async getMembership(userId: string, roles?: OrganizationRole[]): Promise<Membership> {
+    const membership = await prisma.organizationMember.findFirst({
+      where: { recruiter: { userId } },
+      include: { organization: true }
+    });
+
+    if (!membership) {
+      throw new Error('Not a member of an organization');
+    }
+
+    if (roles && !roles.includes(membership.role)) {
+      throw new Error('Insufficient organization permissions');
+    }
+
+    return membership;
+  }
+
+  private async getMember(organizationId: string, memberId: string): Promise<OrganizationMember> {
+    const member = await prisma.organizationMember.findFirst({
+      where: { id: memberId, organizationId }
+    });
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    return member;
+  }
+}
+
+export const organizationService = new OrganizationService();
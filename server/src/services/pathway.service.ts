@@ -1,17 +1,32 @@
-
 import { prisma } from '../lib/prisma';
 
 export const getAllPathways = async () => {
-    return await prisma.pathway.findMany();
+    return await prisma.pathway.findMany({ orderBy: { createdAt: 'asc' } });
 };
 
 export const getPathwayById = async (id: string) => {
     return await prisma.pathway.findUnique({ where: { id } });
 };
 
+export const getUserPathwayProgress = async (userId: string) => {
+    return await prisma.userPathwayProgress.findMany({
+        where: { userId },
+        include: { pathway: true },
+        orderBy: { updatedAt: 'desc' }
+    });
+};
+
+// Joining twice keeps the existing progress
 export const joinPathway = async (userId: string, pathwayId: string) => {
-    return await prisma.userPathwayProgress.create({
-        data: {
+    const pathway = await getPathwayById(pathwayId);
+    if (!pathway) throw new Error('Pathway not found');
+
+    return await prisma.userPathwayProgress.upsert({
+        where: {
+            userId_pathwayId: { userId, pathwayId }
+        },
+        update: {},
+        create: {
             userId,
             pathwayId,
             status: 'STARTED',
@@ -21,10 +36,15 @@ export const joinPathway = async (userId: string, pathwayId: string) => {
 };
 
 export const updatePathwayProgress = async (userId: string, pathwayId: string, progress: number) => {
-    return await prisma.userPathwayProgress.update({
+    const existing = await prisma.userPathwayProgress.findUnique({
         where: {
             userId_pathwayId: { userId, pathwayId }
-        },
+        }
+    });
+    if (!existing) throw new Error('Pathway not joined');
+
+    return await prisma.userPathwayProgress.update({
+        where: { id: existing.id },
         data: {
             progress,
             status: progress >= 100 ? 'COMPLETED' : 'STARTED'
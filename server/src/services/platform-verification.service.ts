@@ -0,0 +1,127 @@
+/**
+ * Platform Ownership Verification Service
+ * - Per-candidate challenge token placed on a platform profile
+ * - Checks through the platform connectors before a connection counts as verified
+ * - Score recalculation once a platform is verified
+ */
+
+import { randomBytes } from 'crypto';
+import { prisma } from '../lib/prisma';
+import { Platform, PlatformConnection } from '@prisma/client';
+import { githubConnector, blogConnector, twitterConnector } from './connectors';
+import { jobQueue } from './job.service';
+
+// Where the candidate can place the token on each platform
+const VERIFICATION_INSTRUCTIONS: Partial<Record<Platform, string>> = {
+  [Platform.GITHUB]: 'Add the token to your GitHub bio or to a public gist',
+  [Platform.DEVTO]: 'Add the token to your dev.to profile bio',
+  [Platform.HASHNODE]: 'Add the token to your Hashnode profile tagline',
+  [Platform.TWITTER]: 'Tweet the token or add it to your bio',
+  [Platform.LINKEDIN]: 'Sign in with LinkedIn to verify this account'
+};
+
+export interface VerificationChallenge {
+  token: string;
+  platforms: Array<{
+    platform: Platform;
+    username: string;
+    isVerified: boolean;
+    verifiedAt: Date | null;
+    instructions: string | null;
+  }>;
+}
+
+export class PlatformVerificationService {
+  /**
+   * Get the candidate's challenge token, issuing one on first use
+   */
+  async getChallenge(userId: string): Promise<VerificationChallenge> {
+    const candidateProfile = await prisma.candidateProfile.findUnique({
+      where: { userId },
+      include: { platformConnections: { orderBy: { createdAt: 'asc' } } }
+    });
+
+    if (!candidateProfile) {
+      throw new Error('Candidate profile not found');
+    }
+
+    let token = candidateProfile.verificationToken;
+    if (!token) {
+      token = `dare-dreamers-verify-${randomBytes(8).toString('hex')}`;
+      await prisma.candidateProfile.update({
+        where: { id: candidateProfile.id },
+        data: { verificationToken: token }
+      });
+    }
+
+    return {
+      token,
+      platforms: candidateProfile.platformConnections.map(connection => ({
+        platform: connection.platform,
+        username: connection.username,
+        isVerified: connection.isVerified,
+        verifiedAt: connection.verifiedAt,
+        instructions: VERIFICATION_INSTRUCTIONS[connection.platform] ?? null
+      }))
+    };
+  }
+
+  /**
+   * Check the platform for the challenge token and mark the connection verified
+   */
+  async verifyPlatform(userId: string, platform: Platform): Promise<PlatformConnection> {
+    const candidateProfile = await prisma.candidateProfile.findUnique({
+      where: { userId },
+      include: { platformConnections: { where: { platform } } }
+    });
+
+    if (!candidateProfile) {
+      throw new Error('Candidate profile not found');
+    }
+
+    const connection = candidateProfile.platformConnections[0];
+    if (!connection) {
+      throw new Error('Platform not connected');
+    }
+
+    if (connection.isVerified) {
+      return connection;
+    }
+
+    if (!candidateProfile.verificationToken) {
+      throw new Error('No verification challenge issued');
+    }
+
+    const found = await this.hasToken(platform, connection.username, candidateProfile.verificationToken);
+    if (!found) {
+      throw new Error('Verification token not found');
+    }
+
+    const verified = await prisma.platformConnection.update({
+      where: { id: connection.id },
+      data: { isVerified: true, verifiedAt: new Date() }
+    });
+
+    // Verified platforms carry their full weight in the composite score
+    await jobQueue.scheduleScoreRecalculation(candidateProfile.id);
+
+    return verified;
+  }
+
+  private async hasToken(platform: Platform, username: string, token: string): Promise<boolean> {
+    switch (platform) {
+      case Platform.GITHUB:
+        return githubConnector.hasVerificationToken(username, token);
+      case Platform.TWITTER:
+        return twitterConnector.hasVerificationToken(username, token);
+      case Platform.DEVTO:
+      case Platform.HASHNODE:
+        return blogConnector.hasVerificationToken(platform, username, token);
+      default:
+        // LinkedIn is verified through OAuth sign-in; Medium exposes no bio
+        throw new Error('Verification not supported for this platform');
+    }
+  }
+}
+
+export const platformVerificationService = new PlatformVerificationService();
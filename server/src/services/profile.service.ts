@@ -1,12 +1,28 @@
 import { prisma } from '../lib/prisma';
 import { ProfileUpdate } from '../types';
-import { Platform, UserType } from '@prisma/client';
+import { Platform, Prisma, UserType } from '@prisma/client';
 
 export interface PlatformConnectionUpdate {
   platform: Platform;
   username: string;
 }
 
+// Recruiter profile fields safe to return to clients (never the API key hash)
+export const recruiterProfileSelect = {
+  id: true,
+  userId: true,
+  company: true,
+  subscriptionTier: true,
+  apiKeyPrefix: true,
+  apiKeyCreatedAt: true,
+  apiKeyLastUsedAt: true,
+  apiCallsUsed: true,
+  apiCallsLimit: true,
+  apiCallsResetAt: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.RecruiterProfileSelect;
+
 export class ProfileService {
   /**
    * Get candidate profile with platform connections
@@ -27,7 +43,8 @@ export class ProfileService {
    */
   static async getRecruiterProfile(userId: string) {
     return prisma.recruiterProfile.findUnique({
-      where: { userId }
+      where: { userId },
+      select: recruiterProfileSelect
     });
   }
 
@@ -55,6 +72,7 @@ export class ProfileService {
         bio: updates.bio,
         website: updates.website,
         isPublic: updates.isPublic,
+        openToOpportunities: updates.openToOpportunities,
         updatedAt: new Date()
       },
       include: {
@@ -95,7 +113,8 @@ export class ProfileService {
       data: {
         company: updates.company,
         updatedAt: new Date()
-      }
+      },
+      select: recruiterProfileSelect
     });
 
     // Also update user name if provided
@@ -137,6 +156,7 @@ export class ProfileService {
       update: {
         username,
         isVerified: false, // Reset verification when username changes
+        verifiedAt: null,
         lastSynced: null
       },
       create: {
@@ -206,6 +226,7 @@ export class ProfileService {
           update: {
             username: conn.username,
             isVerified: false,
+            verifiedAt: null,
             lastSynced: null
           },
           create: {
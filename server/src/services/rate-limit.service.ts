@@ -0,0 +1,165 @@
+/**
+ * Rate Limit Service
+ * - Fixed-window counters behind a pluggable store
+ * - In-memory store for single instances, Postgres store shared across instances
+ */
+
+import { prisma } from '../lib/prisma';
+import { RateLimit } from '../types';
+
+export interface RateLimitHit {
+  count: number;
+  resetTime: Date;
+}
+
+// Implemented by each counter backend
+export interface RateLimitStore {
+  name: string;
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+  prune(): Promise<number>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  rateLimit: RateLimit;
+}
+
+/**
+ * Keeps counters in process memory; limits are per instance
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  name = 'memory';
+
+  private buckets = new Map<string, RateLimitHit>();
+
+  constructor(private readonly maxBuckets = 10000) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+
+    if (this.buckets.size >= this.maxBuckets) {
+      await this.prune();
+    }
+
+    const bucket = this.buckets.get(key);
+
+    if (!bucket || bucket.resetTime.getTime() <= now) {
+      const fresh = { count: 1, resetTime: new Date(now + windowMs) };
+      this.buckets.set(key, fresh);
+      return { ...fresh };
+    }
+
+    bucket.count += 1;
+    return { ...bucket };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key);
+  }
+
+  async prune(): Promise<number> {
+    const now = Date.now();
+    let pruned = 0;
+
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.resetTime.getTime() <= now) {
+        this.buckets.delete(key);
+        pruned++;
+      }
+    }
+
+    return pruned;
+  }
+}
+
+/**
+ * Keeps counters in the rate_limit_buckets table so every instance shares them
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  name = 'postgres';
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+
+    // One statement so concurrent requests cannot lose increments or double-reset the window
+    const [row] = await prisma.$queryRaw<Array<{ count: number; reset_at: Date }>>`
+      INSERT INTO rate_limit_buckets (key, count, reset_at)
+      VALUES (${key}, 1, ${resetAt})
+      ON CONFLICT (key) DO UPDATE SET
+        count = CASE WHEN rate_limit_buckets.reset_at <= ${now} THEN 1 ELSE rate_limit_buckets.count + 1 END,
+        reset_at = CASE WHEN rate_limit_buckets.reset_at <= ${now} THEN EXCLUDED.reset_at ELSE rate_limit_buckets.reset_at END
+      RETURNING count, reset_at
+    `;
+
+    return { count: row.count, resetTime: row.reset_at };
+  }
+
+  async reset(key: string): Promise<void> {
+    await prisma.rateLimitBucket.deleteMany({ where: { key } });
+  }
+
+  async prune(): Promise<number> {
+    const result = await prisma.rateLimitBucket.deleteMany({
+      where: { resetAt: { lte: new Date() } }
+    });
+
+    return result.count;
+  }
+}
+
+/**
+ * Pick the store named by RATE_LIMIT_STORE
+ */
+function createDefaultStore(): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE === 'postgres') {
+    return new PostgresRateLimitStore();
+  }
+
+  return new MemoryRateLimitStore();
+}
+
+export class RateLimitService {
+  private store: RateLimitStore = createDefaultStore();
+
+  /**
+   * Replace the counter backend, e.g. with a Redis store
+   */
+  setStore(store: RateLimitStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Count a request against a key's budget
+   */
+  async consume(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const { count, resetTime } = await this.store.increment(key, windowMs);
+
+    return {
+      allowed: count <= limit,
+      rateLimit: {
+        limit,
+        remaining: Math.max(limit - count, 0),
+        resetTime,
+        windowMs
+      }
+    };
+  }
+
+  /**
+   * Clear a key's counter, e.g. after a successful login
+   */
+  async reset(key: string): Promise<void> {
+    await this.store.reset(key);
+  }
+
+  /**
+   * Drop expired counters
+   */
+  async prune(): Promise<number> {
+    return this.store.prune();
+  }
+}
+
+export const rateLimitService = new RateLimitService();
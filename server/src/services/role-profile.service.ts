@@ -0,0 +1,345 @@
+/**
+ * Role Profile Service
+ * - Role-specific scoring on top of the composite weights: custom weights,
+ *   required languages and minimum platform scores
+ * - Built-in profiles for common roles, plus recruiter-defined ones shareable inside their organization
+ * - Role-adjusted scores are computed at search time from stored platform scores
+ */
+
+import { prisma } from '../lib/prisma';
+import { RoleProfile } from '@prisma/client';
+import { organizationService } from './organization.service';
+import { ScoringWeights, UNVERIFIED_PLATFORM_FACTOR } from './scoring-model.service';
+
+// Minimum stored platform scores a candidate needs for the role
+export interface MinPlatformScores {
+  github?: number;
+  linkedin?: number;
+  blog?: number;
+  social?: number;
+}
+
+export interface RoleProfileDefinition {
+  name: string;
+  weights: ScoringWeights;
+  requiredLanguages: string[];
+  minPlatformScores: MinPlatformScores;
+}
+
+export interface RoleProfileSummary extends RoleProfileDefinition {
+  // Built-in profiles use their key as id
+  id: string;
+  builtIn: boolean;
+  shared: boolean;
+  // Only the recruiter who created a profile can change or delete it
+  isOwner: boolean;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export interface RoleProfileInput {
+  name: string;
+  weights: ScoringWeights;
+  requiredLanguages?: string[];
+  minPlatformScores?: MinPlatformScores;
+  shared?: boolean;
+}
+
+// A candidate's latest stored platform scores
+export interface PlatformScores {
+  github: number | null;
+  linkedin: number | null;
+  blog: number | null;
+  social: number | null;
+}
+
+// Share of its score each platform contributes after ownership verification
+export type VerificationFactors = Partial<Record<keyof ScoringWeights, number>>;
+
+export const BUILT_IN_ROLE_PROFILES: Record<string, RoleProfileDefinition> = {
+  backend: {
+    name: 'Backend engineer',
+    weights: { github: 0.55, linkedin: 0.25, twitter: 0.05, blog: 0.15 },
+    requiredLanguages: [],
+    minPlatformScores: { github: 50 }
+  },
+  frontend: {
+    name: 'Frontend engineer',
+    weights: { github: 0.5, linkedin: 0.2, twitter: 0.1, blog: 0.2 },
+    requiredLanguages: [],
+    minPlatformScores: { github: 40 }
+  },
+  devrel: {
+    name: 'Developer relations',
+    weights: { github: 0.2, linkedin: 0.15, twitter: 0.3, blog: 0.35 },
+    requiredLanguages: [],
+    minPlatformScores: { blog: 50, social: 40 }
+  },
+  data: {
+    name: 'Data engineer',
+    weights: { github: 0.45, linkedin: 0.3, twitter: 0.05, blog: 0.2 },
+    requiredLanguages: ['Python'],
+    minPlatformScores: {}
+  }
+};
+
+/**
+ * Weighted average of the stored platform scores under a role's weights,
+ * normalised over the platforms the candidate has a score for
+ */
+export function calculateRoleScore(
+  scores: PlatformScores,
+  weights: ScoringWeights,
+  factors: VerificationFactors = {}
+): number {
+  const parts: [number | null, keyof ScoringWeights][] = [
+    [scores.github, 'github'],
+    [scores.linkedin, 'linkedin'],
+    [scores.social, 'twitter'],
+    [scores.blog, 'blog']
+  ];
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const [score, platform] of parts) {
+    if (score === null) continue;
+    weightedSum += score * weights[platform] * (factors[platform] ?? 1);
+    totalWeight += weights[platform];
+  }
+
+  return totalWeight > 0 ? Math.round(weightedSum / totalWeight) : 0;
+}
+
+/**
+ * Verification factors from a candidate's connections, matching the composite score
+ */
+export function verificationFactors(connections: { platform: string; isVerified: boolean }[]): VerificationFactors {
+  const factor = (connection: { isVerified: boolean }) => (connection.isVerified ? 1 : UNVERIFIED_PLATFORM_FACTOR);
+  const factors: VerificationFactors = {};
+  const blogFactors: number[] = [];
+
+  for (const connection of connections) {
+    switch (connection.platform) {
+      case 'GITHUB':
+        factors.github = factor(connection);
+        break;
+      case 'LINKEDIN':
+        factors.linkedin = factor(connection);
+        break;
+      case 'TWITTER':
+        factors.twitter = factor(connection);
+        break;
+      default:
+        blogFactors.push(factor(connection));
+    }
+  }
+
+  if (blogFactors.length > 0) {
+    factors.blog = blogFactors.reduce((a, b) => a + b, 0) / blogFactors.length;
+  }
+
+  return factors;
+}
+
+/**
+ * Whether a candidate meets a role's language and platform score requirements
+ */
+export function meetsRoleRequirements(
+  role: RoleProfileDefinition,
+  scores: PlatformScores,
+  languages: string[]
+): boolean {
+  const minimums = Object.entries(role.minPlatformScores) as [keyof MinPlatformScores, number | undefined][];
+
+  for (const [platform, minimum] of minimums) {
+    if (minimum === undefined) continue;
+    const score = scores[platform];
+    if (score === null || score < minimum) return false;
+  }
+
+  const candidateLanguages = languages.map(language => language.toLowerCase());
+  return role.requiredLanguages.every(language => candidateLanguages.includes(language.toLowerCase()));
+}
+
+interface RecruiterContext {
+  recruiterId: string;
+  teammateIds: string[];
+}
+
+export class RoleProfileService {
+  /**
+   * List built-in profiles, the recruiter's own and those shared by their organization
+   */
+  async listRoleProfiles(userId: string): Promise<RoleProfileSummary[]> {
+    const { recruiterId, teammateIds } = await this.getRecruiterContext(userId);
+
+    const profiles = await prisma.roleProfile.findMany({
+      where: {
+        OR: [
+          { recruiterId },
+          { recruiterId: { in: teammateIds }, shared: true }
+        ]
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    return [
+      ...Object.keys(BUILT_IN_ROLE_PROFILES).map(key => this.builtInSummary(key)),
+      ...profiles.map(profile => this.toSummary(profile, recruiterId))
+    ];
+  }
+
+  /**
+   * Resolve a built-in key or an accessible profile id for searching
+   */
+  async getRoleProfile(userId: string, idOrKey: string): Promise<RoleProfileSummary> {
+    if (Object.prototype.hasOwnProperty.call(BUILT_IN_ROLE_PROFILES, idOrKey)) {
+      return this.builtInSummary(idOrKey);
+    }
+
+    const context = await this.getRecruiterContext(userId);
+    const profile = await this.getAccessibleProfile(context, idOrKey);
+
+    return this.toSummary(profile, context.recruiterId);
+  }
+
+  async createRoleProfile(userId: string, input: RoleProfileInput): Promise<RoleProfileSummary> {
+    const { recruiterId } = await this.getRecruiterContext(userId);
+    this.assertWeights(input.weights);
+    await this.assertNameAvailable(recruiterId, input.name);
+
+    const profile = await prisma.roleProfile.create({
+      data: {
+        recruiterId,
+        name: input.name,
+        weights: { ...input.weights },
+        requiredLanguages: input.requiredLanguages ?? [],
+        minPlatformScores: { ...input.minPlatformScores },
+        shared: input.shared ?? false
+      }
+    });
+
+    return this.toSummary(profile, recruiterId);
+  }
+
+  async updateRoleProfile(
+    userId: string,
+    profileId: string,
+    updates: Partial<RoleProfileInput>
+  ): Promise<RoleProfileSummary> {
+    const context = await this.getRecruiterContext(userId);
+    await this.getAccessibleProfile(context, profileId, true);
+
+    if (updates.weights) {
+      this.assertWeights(updates.weights);
+    }
+
+    if (updates.name !== undefined) {
+      await this.assertNameAvailable(context.recruiterId, updates.name, profileId);
+    }
+
+    const profile = await prisma.roleProfile.update({
+      where: { id: profileId },
+      data: {
+        name: updates.name,
+        weights: updates.weights ? { ...updates.weights } : undefined,
+        requiredLanguages: updates.requiredLanguages,
+        minPlatformScores: updates.minPlatformScores ? { ...updates.minPlatformScores } : undefined,
+        shared: updates.shared
+      }
+    });
+
+    return this.toSummary(profile, context.recruiterId);
+  }
+
+  async deleteRoleProfile(userId: string, profileId: string): Promise<void> {
+    const context = await this.getRecruiterContext(userId);
+    await this.getAccessibleProfile(context, profileId, true);
+
+    await prisma.roleProfile.delete({ where: { id: profileId } });
+  }
+
+  private assertWeights(weights: ScoringWeights): void {
+    if (Object.values(weights).every(weight => weight === 0)) {
+      throw new Error('At least one platform weight must be positive');
+    }
+  }
+
+  private async assertNameAvailable(recruiterId: string, name: string, exceptId?: string): Promise<void> {
+    const existing = await prisma.roleProfile.findUnique({
+      where: { recruiterId_name: { recruiterId, name } }
+    });
+
+    if (existing && existing.id !== exceptId) {
+      throw new Error('A role profile with this name already exists');
+    }
+  }
+
+  private async getRecruiterContext(userId: string): Promise<RecruiterContext> {
+    const recruiterProfile = await prisma.recruiterProfile.findUnique({
+      where: { userId },
+      select: { id: true }
+    });
+
+    if (!recruiterProfile) {
+      throw new Error('Recruiter profile not found');
+    }
+
+    return {
+      recruiterId: recruiterProfile.id,
+      teammateIds: await organizationService.getTeammateIds(recruiterProfile.id)
+    };
+  }
+
+  /**
+   * Load a profile the recruiter owns or that their organization shares
+   */
+  private async getAccessibleProfile(context: RecruiterContext, profileId: string, ownerOnly = false): Promise<RoleProfile> {
+    const profile = await prisma.roleProfile.findUnique({
+      where: { id: profileId }
+    });
+
+    const isOwner = profile?.recruiterId === context.recruiterId;
+    const isShared = !!profile?.shared && context.teammateIds.includes(profile.recruiterId);
+
+    if (!profile || (!isOwner && !isShared)) {
+      throw new Error('Role profile not found');
+    }
+
+    if (ownerOnly && !isOwner) {
+      throw new Error('Only the owner can change this role profile');
+    }
+
+    return profile;
+  }
+
+  private builtInSummary(key: string): RoleProfileSummary {
+    return {
+      id: key,
+      ...BUILT_IN_ROLE_PROFILES[key],
+      builtIn: true,
+      shared: false,
+      isOwner: false,
+      createdAt: null,
+      updatedAt: null
+    };
+  }
+
+  private toSummary(profile: RoleProfile, viewerRecruiterId: string): RoleProfileSummary {
+    return {
+      id: profile.id,
+      name: profile.name,
+      weights: profile.weights as unknown as ScoringWeights,
+      requiredLanguages: profile.requiredLanguages,
+      minPlatformScores: profile.minPlatformScores as MinPlatformScores,
+      builtIn: false,
+      shared: profile.shared,
+      isOwner: profile.recruiterId === viewerRecruiterId,
+      createdAt: profile.createdAt,
+      updatedAt: profile.updatedAt
+    };
+  }
+}
+
+export const roleProfileService = new RoleProfileService();
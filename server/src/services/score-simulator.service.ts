@@ -0,0 +1,285 @@
+/**
+ * Score Simulator Service
+ * - Projects a candidate's composite score under hypothetical changes to their platform data
+ * - Connector metrics are recalculated from the adjusted raw data, so projections follow the same formulas
+ * - Nothing is persisted; simulations read the cached platform data only
+ */
+
+import {
+  githubConnector, GitHubData, GitHubRepository,
+  blogConnector, BlogData, BlogPost,
+  twitterConnector, TwitterData, TwitterTweet,
+  LinkedInData
+} from './connectors';
+import { aggregationService, CompositeScore, DigitalProfile } from './aggregation.service';
+import { scoringModelService } from './scoring-model.service';
+
+export type SimulatedPlatform = 'github' | 'linkedin' | 'twitter' | 'devto' | 'hashnode' | 'medium';
+
+// Hypothetical changes; counts are added to what the candidate already has
+export interface ScoreSimulationDeltas {
+  github?: { repos?: number; stars?: number; followers?: number };
+  twitter?: { tweets?: number; followers?: number };
+  // Applied to the first connected blog: dev.to, then Hashnode, then Medium
+  blog?: { posts?: number };
+  // A platform the candidate has not connected yet, with the platform score they expect there
+  newPlatform?: { platform: SimulatedPlatform; score: number };
+}
+
+export interface PlatformScoreChange {
+  platform: string;
+  current: number | null;
+  projected: number | null;
+  change: number;
+}
+
+export interface ScoreSimulation {
+  current: CompositeScore;
+  projected: CompositeScore;
+  overallChange: number;
+  platformChanges: PlatformScoreChange[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+
+export class ScoreSimulatorService {
+  /**
+   * Compare the candidate's score under the active model with the score after the given changes
+   */
+  async simulate(userId: string, deltas: ScoreSimulationDeltas): Promise<ScoreSimulation> {
+    const [profile, model] = await Promise.all([
+      aggregationService.aggregateProfile(userId),
+      scoringModelService.getActiveModel()
+    ]);
+
+    const current = aggregationService.calculateCompositeScore(profile, model);
+    const projected = aggregationService.calculateCompositeScore(this.applyDeltas(profile, deltas), model);
+
+    const platforms = new Set([
+      ...Object.keys(current.breakdown.platformScores),
+      ...Object.keys(projected.breakdown.platformScores)
+    ]);
+
+    const platformChanges = Array.from(platforms).map(platform => {
+      const before = current.breakdown.platformScores[platform] ?? null;
+      const after = projected.breakdown.platformScores[platform] ?? null;
+      return {
+        platform,
+        current: before,
+        projected: after,
+        change: (after ?? 0) - (before ?? 0)
+      };
+    });
+
+    return {
+      current,
+      projected,
+      overallChange: projected.overallScore - current.overallScore,
+      platformChanges
+    };
+  }
+
+  /**
+   * Copy of the profile with the changes applied and connector metrics recalculated
+   */
+  applyDeltas(profile: DigitalProfile, deltas: ScoreSimulationDeltas, now: Date = new Date()): DigitalProfile {
+    const platforms = { ...profile.platforms };
+    let verifiedPlatforms = profile.verifiedPlatforms;
+
+    if (deltas.github) {
+      if (!platforms.github) {
+        throw new Error('Simulated platform is not connected');
+      }
+      platforms.github = this.simulateGitHub(platforms.github, deltas.github, now);
+    }
+
+    if (deltas.twitter) {
+      if (!platforms.twitter) {
+        throw new Error('Simulated platform is not connected');
+      }
+      platforms.twitter = this.simulateTwitter(platforms.twitter, deltas.twitter, now);
+    }
+
+    if (deltas.blog) {
+      const key = (['devto', 'hashnode', 'medium'] as const).find(blog => platforms[blog]);
+      if (!key) {
+        throw new Error('Simulated platform is not connected');
+      }
+      platforms[key] = this.simulateBlog(platforms[key] as BlogData, deltas.blog, now);
+    }
+
+    if (deltas.newPlatform) {
+      const { platform, score } = deltas.newPlatform;
+      if (platforms[platform]) {
+        throw new Error('Simulated platform is already connected');
+      }
+
+      // Without data there are no sub-scores, so the expected score is used as is
+      const data = { metrics: { overallScore: score, recommendations: [] } };
+      switch (platform) {
+        case 'github':
+          platforms.github = data as unknown as GitHubData;
+          break;
+        case 'linkedin':
+          platforms.linkedin = data as unknown as LinkedInData;
+          break;
+        case 'twitter':
+          platforms.twitter = data as unknown as TwitterData;
+          break;
+        default:
+          platforms[platform] = data as unknown as BlogData;
+      }
+
+      // Assume the candidate verifies the new platform as part of connecting it
+      verifiedPlatforms = [...verifiedPlatforms, platform];
+    }
+
+    return { ...profile, platforms, verifiedPlatforms };
+  }
+
+  /**
+   * Extra repositories look like the candidate's most recent one; extra stars land on the first own
+   * repository, which is a simulated one when repositories are added too
+   */
+  private simulateGitHub(
+    data: GitHubData,
+    delta: NonNullable<ScoreSimulationDeltas['github']>,
+    now: Date
+  ): GitHubData {
+    const ownRepos = data.repositories.filter(repo => !repo.isForked);
+    const template = [...ownRepos].sort((a, b) => b.pushedAt.localeCompare(a.pushedAt))[0];
+
+    const simulatedRepo = (index: number): GitHubRepository => ({
+      name: `simulated-${index + 1}`,
+      fullName: `${data.profile.login}/simulated-${index + 1}`,
+      description: template?.description ?? null,
+      url: '',
+      language: template?.language ?? null,
+      languages: template ? { ...template.languages } : {},
+      stargazersCount: 0,
+      forksCount: 0,
+      watchersCount: 0,
+      openIssuesCount: 0,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      pushedAt: now.toISOString(),
+      isForked: false,
+      topics: template ? [...template.topics] : [],
+      license: template?.license ?? null,
+      defaultBranch: template?.defaultBranch ?? 'main'
+    });
+
+    const repositories = [
+      ...Array.from({ length: delta.repos ?? 0 }, (_, index) => simulatedRepo(index)),
+      ...data.repositories
+    ];
+
+    if (delta.stars) {
+      // Stars need an own repository to land on
+      let target = repositories.findIndex(repo => !repo.isForked);
+      if (target === -1) {
+        repositories.unshift(simulatedRepo(0));
+        target = 0;
+      }
+      repositories[target] = {
+        ...repositories[target],
+        stargazersCount: repositories[target].stargazersCount + delta.stars
+      };
+    }
+
+    const profile = { ...data.profile, followers: data.profile.followers + (delta.followers ?? 0) };
+
+    return {
+      ...data,
+      profile,
+      repositories,
+      metrics: githubConnector.calculateMetrics(profile, repositories, data.contributionStats)
+    };
+  }
+
+  /**
+   * Extra tweets like the candidate's most recent one, one a day going back from now, with their average engagement
+   */
+  private simulateTwitter(
+    data: TwitterData,
+    delta: NonNullable<ScoreSimulationDeltas['twitter']>,
+    now: Date
+  ): TwitterData {
+    const originalTweets = data.tweets.filter(tweet => !tweet.isRetweet);
+    const template = [...originalTweets].sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+
+    const tweets: TwitterTweet[] = [
+      ...Array.from({ length: delta.tweets ?? 0 }, (_, index) => ({
+        id: `simulated-${index + 1}`,
+        text: template?.text ?? '',
+        createdAt: new Date(now.getTime() - index * DAY_MS).toISOString(),
+        likes: average(originalTweets.map(tweet => tweet.likes)),
+        retweets: average(originalTweets.map(tweet => tweet.retweets)),
+        replies: average(originalTweets.map(tweet => tweet.replies)),
+        quotes: average(originalTweets.map(tweet => tweet.quotes)),
+        isRetweet: false,
+        isReply: false,
+        hashtags: template ? [...template.hashtags] : [],
+        mentions: [],
+        urls: []
+      })),
+      ...data.tweets
+    ];
+
+    const profile = {
+      ...data.profile,
+      followers: data.profile.followers + (delta.followers ?? 0),
+      tweetCount: data.profile.tweetCount + (delta.tweets ?? 0)
+    };
+
+    return {
+      ...data,
+      profile,
+      tweets,
+      metrics: twitterConnector.calculateMetrics(profile, tweets)
+    };
+  }
+
+  /**
+   * Extra posts like the candidate's most recent one, one a week going back from now, with their average engagement
+   */
+  private simulateBlog(
+    data: BlogData,
+    delta: NonNullable<ScoreSimulationDeltas['blog']>,
+    now: Date
+  ): BlogData {
+    const template = [...data.posts].sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))[0];
+
+    const posts: BlogPost[] = [
+      ...Array.from({ length: delta.posts ?? 0 }, (_, index) => ({
+        id: `simulated-${index + 1}`,
+        title: template?.title ?? 'Simulated post',
+        slug: `simulated-${index + 1}`,
+        url: '',
+        excerpt: null,
+        content: null,
+        tags: template ? [...template.tags] : [],
+        publishedAt: new Date(now.getTime() - index * 7 * DAY_MS).toISOString(),
+        readingTime: average(data.posts.map(post => post.readingTime)) || 5,
+        reactions: average(data.posts.map(post => post.reactions)),
+        comments: average(data.posts.map(post => post.comments)),
+        coverImage: null
+      })),
+      ...data.posts
+    ];
+
+    const profile = { ...data.profile, totalPosts: data.profile.totalPosts + (delta.posts ?? 0) };
+
+    return {
+      ...data,
+      profile,
+      posts,
+      metrics: blogConnector.calculateMetrics(profile, posts)
+    };
+  }
+}
+
+export const scoreSimulatorService = new ScoreSimulatorService();
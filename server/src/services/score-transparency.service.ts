@@ -10,8 +10,15 @@
  */
 
 import { prisma } from '../lib/prisma';
-import { Platform } from '@prisma/client';
-import { aggregationService, CompositeScore } from './aggregation.service';
+import { ScoreDispute as PrismaScoreDispute, UserType } from '@prisma/client';
+import { aggregationService, CompositeScore, DigitalProfile } from './aggregation.service';
+import { BlogData } from './connectors';
+import { notificationService } from './notification.service';
+import { scoringModelService, ScoringWeights } from './scoring-model.service';
+import { cohortService, cohortAttributes, percentileOf, CohortPercentile } from './cohort.service';
+
+// Connector data for one aggregated platform
+type ProfilePlatformData = NonNullable<DigitalProfile['platforms'][keyof DigitalProfile['platforms']]>;
 
 // Detailed score breakdown
 export interface DetailedScoreBreakdown {
@@ -20,6 +27,10 @@ export interface DetailedScoreBreakdown {
   name: string;
   overallScore: number;
   lastUpdated: Date;
+  // Scoring model version that produced the score, null for scores from before versioning
+  modelVersion: number | null;
+  // Percentile ranks among public candidates overall and in the candidate's peer cohorts
+  percentiles: CohortPercentile[];
   platformBreakdown: {
     github?: PlatformScoreDetail;
     linkedin?: PlatformScoreDetail;
@@ -91,6 +102,28 @@ export interface ScoreDispute {
   adminNotes?: string;
 }
 
+// Allowed status changes for a dispute under review
+export const DISPUTE_TRANSITIONS: Record<ScoreDispute['status'], ScoreDispute['status'][]> = {
+  'pending': ['in-review', 'resolved', 'rejected'],
+  'in-review': ['resolved', 'rejected'],
+  'resolved': [],
+  'rejected': []
+};
+
+// Admin decision on a dispute
+export interface DisputeReview {
+  status: Exclude<ScoreDispute['status'], 'pending'>;
+  resolution?: string;
+  adminNotes?: string;
+  recalculate?: boolean; // Recompute the score when resolving a calculation error
+}
+
+// Outcome of a dispute review
+export interface DisputeReviewResult {
+  dispute: ScoreDispute;
+  recalculatedScore?: CompositeScore;
+}
+
 // Score report export
 export interface ScoreReport {
   generatedAt: Date;
@@ -106,6 +139,7 @@ export interface ScoreReport {
     percentile: number;
     peerAverage: number;
     topPerformers: string[];
+    cohorts: CohortPercentile[];
   };
 }
 
@@ -135,6 +169,12 @@ export class ScoreTransparencyService {
 
     const score = candidateProfile.candidateScores[0];
     const profile = await aggregationService.aggregateProfile(userId);
+
+    // Explain the score with the weights of the model that produced it
+    const model = score.modelVersion !== null
+      ? await scoringModelService.getModel(score.modelVersion)
+      : null;
+    const weights = model?.weights ?? aggregationService.getWeights();
     
     // Build platform breakdown
     const platformBreakdown: DetailedScoreBreakdown['platformBreakdown'] = {};
@@ -144,7 +184,8 @@ export class ScoreTransparencyService {
         'GitHub',
         score.githubScore,
         profile.platforms.github.metrics.overallScore,
-        profile.platforms.github
+        profile.platforms.github,
+        weights
       );
     }
     
@@ -153,7 +194,8 @@ export class ScoreTransparencyService {
         'LinkedIn',
         score.linkedinScore,
         profile.platforms.linkedin.metrics.overallScore,
-        profile.platforms.linkedin
+        profile.platforms.linkedin,
+        weights
       );
     }
     
@@ -165,7 +207,7 @@ export class ScoreTransparencyService {
     
     if (blogScores.length > 0) {
       const avgBlogScore = Math.round(blogScores.reduce((a, b) => a + b, 0) / blogScores.length);
-      platformBreakdown.blog = this.buildBlogDetail('Blog Platforms', avgBlogScore, profile.platforms);
+      platformBreakdown.blog = this.buildBlogDetail('Blog Platforms', avgBlogScore, profile.platforms, weights);
     }
     
     if (profile.platforms.twitter) {
@@ -173,7 +215,8 @@ export class ScoreTransparencyService {
         'Social Media',
         score.socialScore,
         profile.platforms.twitter.metrics.overallScore,
-        profile.platforms.twitter
+        profile.platforms.twitter,
+        weights
       );
     }
 
@@ -186,12 +229,19 @@ export class ScoreTransparencyService {
     // Get historical trend
     const historicalTrend = await this.getScoreHistory(userId, 30);
 
+    const percentiles = await cohortService.getPercentiles(
+      cohortAttributes(candidateProfile.location, candidateProfile.platformData),
+      score.compositeScore
+    );
+
     return {
       candidateId: candidateProfile.id,
       userId: candidateProfile.userId,
       name: candidateProfile.user.name,
       overallScore: score.compositeScore,
       lastUpdated: score.updatedAt,
+      modelVersion: score.modelVersion,
+      percentiles,
       platformBreakdown,
       scoringFactors,
       recommendations,
@@ -221,7 +271,7 @@ export class ScoreTransparencyService {
     // Calculate comparison data for comparison reports
     let comparison: ScoreReport['comparison'] = undefined;
     if (reportType === 'comparison') {
-      comparison = await this.calculateComparison(breakdown.overallScore);
+      comparison = await this.calculateComparison(breakdown);
     }
 
     return {
@@ -239,7 +289,7 @@ export class ScoreTransparencyService {
   }
 
   /**
-   * Submit a score dispute (in-memory for now)
+   * Submit a score dispute
    */
   async submitScoreDispute(
     userId: string,
@@ -254,35 +304,122 @@ export class ScoreTransparencyService {
       throw new Error('Candidate profile not found');
     }
 
-    // In a real implementation, this would save to database
-    // For now, return a mock dispute object
-    const dispute: ScoreDispute = {
-      id: `dispute-${Date.now()}`,
-      candidateId: candidateProfile.id,
-      type,
-      description,
-      status: 'pending',
-      submittedAt: new Date()
-    };
+    const dispute = await prisma.scoreDispute.create({
+      data: {
+        candidateId: candidateProfile.id,
+        type,
+        description
+      }
+    });
 
-    return dispute;
+    return this.toScoreDispute(dispute);
   }
 
   /**
-   * Get score disputes for a candidate (in-memory for now)
+   * Get score disputes for a candidate, newest first
    */
   async getScoreDisputes(userId: string): Promise<ScoreDispute[]> {
-    const candidateProfile = await prisma.candidateProfile.findUnique({
-      where: { userId }
+    const disputes = await prisma.scoreDispute.findMany({
+      where: { candidate: { userId } },
+      orderBy: { submittedAt: 'desc' }
     });
 
-    if (!candidateProfile) {
-      return [];
+    return disputes.map(d => this.toScoreDispute(d));
+  }
+
+  /**
+   * Get a single dispute filed by a candidate
+   */
+  async getScoreDispute(userId: string, disputeId: string): Promise<ScoreDispute | null> {
+    const dispute = await prisma.scoreDispute.findFirst({
+      where: { id: disputeId, candidate: { userId } }
+    });
+
+    return dispute ? this.toScoreDispute(dispute) : null;
+  }
+
+  /**
+   * List disputes for the admin review queue, oldest first
+   */
+  async listDisputesForReview(
+    status?: ScoreDispute['status'],
+    limit = 50,
+    offset = 0
+  ): Promise<{ disputes: ScoreDispute[]; total: number }> {
+    const where = status ? { status } : {};
+
+    const [disputes, total] = await Promise.all([
+      prisma.scoreDispute.findMany({
+        where,
+        orderBy: { submittedAt: 'asc' },
+        skip: offset,
+        take: limit
+      }),
+      prisma.scoreDispute.count({ where })
+    ]);
+
+    return {
+      disputes: disputes.map(d => this.toScoreDispute(d)),
+      total
+    };
+  }
+
+  /**
+   * Move a dispute through its review lifecycle
+   * pending -> in-review -> resolved | rejected (pending may be closed directly)
+   */
+  async reviewScoreDispute(
+    disputeId: string,
+    reviewerId: string,
+    review: DisputeReview
+  ): Promise<DisputeReviewResult> {
+    const existing = await prisma.scoreDispute.findUnique({
+      where: { id: disputeId },
+      include: { candidate: { select: { userId: true } } }
+    });
+
+    if (!existing) {
+      throw new Error('Dispute not found');
+    }
+
+    const currentStatus = existing.status as ScoreDispute['status'];
+
+    if (!DISPUTE_TRANSITIONS[currentStatus].includes(review.status)) {
+      throw new Error(`Cannot move dispute from ${currentStatus} to ${review.status}`);
+    }
+
+    if (review.recalculate && (review.status !== 'resolved' || existing.type !== 'calculation-error')) {
+      throw new Error('Only disputes resolved as calculation errors can trigger a recalculation');
+    }
+
+    const updated = await prisma.scoreDispute.update({
+      where: { id: disputeId },
+      data: {
+        status: review.status,
+        reviewedAt: new Date(),
+        reviewedBy: reviewerId,
+        resolution: review.resolution ?? existing.resolution,
+        adminNotes: review.adminNotes ?? existing.adminNotes
+      }
+    });
+
+    const dispute = this.toScoreDispute(updated);
+
+    let recalculatedScore: CompositeScore | undefined;
+    if (review.recalculate) {
+      const scoreResult = await aggregationService.calculateAndStoreScore(existing.candidate.userId, {
+        actorId: reviewerId,
+        actorType: UserType.ADMIN,
+        trigger: 'dispute-review'
+      });
+      recalculatedScore = scoreResult.current;
     }
 
-    // In a real implementation, this would fetch from database
-    // For now, return empty array
-    return [];
+    if (dispute.status === 'resolved' || dispute.status === 'rejected') {
+      await notificationService.notifyDisputeReviewed(existing.candidate.userId, dispute);
+    }
+
+    return { dispute, recalculatedScore };
   }
 
   /**
@@ -292,7 +429,8 @@ export class ScoreTransparencyService {
     platformName: string,
     finalScore: number | null,
     rawScore: number,
-    platformData: any
+    platformData: ProfilePlatformData,
+    weights: ScoringWeights
   ): PlatformScoreDetail {
     const status = finalScore 
       ? finalScore >= 80 ? 'excellent' 
@@ -304,9 +442,9 @@ export class ScoreTransparencyService {
     return {
       platform: platformName,
       score: finalScore || 0,
-      weight: this.getPlatformWeight(platformName.toLowerCase()),
+      weight: this.getPlatformWeight(platformName.toLowerCase(), weights),
       status,
-      metrics: platformData.metrics || {},
+      metrics: this.numericMetrics(platformData.metrics),
       strengths: this.extractStrengths(platformData),
       areasForImprovement: this.extractImprovements(platformData)
     };
@@ -318,27 +456,18 @@ export class ScoreTransparencyService {
   private buildBlogDetail(
     platformName: string,
     avgScore: number,
-    platforms: any
+    platforms: DigitalProfile['platforms'],
+    weights: ScoringWeights
   ): PlatformScoreDetail {
     const metrics: Record<string, number> = {};
     let totalPosts = 0;
     let totalEngagement = 0;
-    const platformsWithData = [];
+    const platformsWithData = [platforms.devto, platforms.hashnode, platforms.medium]
+      .filter((data): data is BlogData => data !== undefined);
 
-    if (platforms.devto) {
-      platformsWithData.push(platforms.devto);
-      totalPosts += platforms.devto.metrics.totalPosts || 0;
-      totalEngagement += platforms.devto.metrics.averageEngagement || 0;
-    }
-    if (platforms.hashnode) {
-      platformsWithData.push(platforms.hashnode);
-      totalPosts += platforms.hashnode.metrics.totalPosts || 0;
-      totalEngagement += platforms.hashnode.metrics.averageEngagement || 0;
-    }
-    if (platforms.medium) {
-      platformsWithData.push(platforms.medium);
-      totalPosts += platforms.medium.metrics.totalPosts || 0;
-      totalEngagement += platforms.medium.metrics.averageEngagement || 0;
+    for (const data of platformsWithData) {
+      totalPosts += data.metrics.breakdown.totalPosts;
+      totalEngagement += data.metrics.engagementScore;
     }
 
     metrics.averageScore = avgScore;
@@ -348,7 +477,7 @@ export class ScoreTransparencyService {
     return {
       platform: platformName,
       score: avgScore,
-      weight: this.getPlatformWeight('blog'),
+      weight: this.getPlatformWeight('blog', weights),
       status: avgScore >= 80 ? 'excellent' : avgScore >= 65 ? 'good' : 'needs-improvement',
       metrics,
       strengths: this.extractBlogStrengths(platforms),
@@ -572,4 +701,181 @@ export class ScoreTransparencyService {
   /**
    * Get score history for trend analysis
    */
-  private async getScoreHistory(userId: string, days: number): Promise<ScoreHistoryPoint
+  private async getScoreHistory(userId: string, days: number): Promise<ScoreHistoryPoint[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const scores = await prisma.candidateScore.findMany({
+      where: {
+        candidate: { userId },
+        createdAt: { gte: since }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return scores.map(score => ({
+      date: score.createdAt,
+      overallScore: score.compositeScore,
+      githubScore: score.githubScore ?? undefined,
+      linkedinScore: score.linkedinScore ?? undefined,
+      blogScore: score.blogScore ?? undefined,
+      socialScore: score.socialScore ?? undefined
+    }));
+  }
+
+  /**
+   * Compare a score against the latest scores of public candidates, as of the last cohort refresh
+   */
+  private async calculateComparison(breakdown: DetailedScoreBreakdown): Promise<ScoreReport['comparison']> {
+    const cohort = await cohortService.getCohort('all', 'all');
+
+    if (!cohort) {
+      return { percentile: 100, peerAverage: breakdown.overallScore, topPerformers: [], cohorts: [] };
+    }
+
+    return {
+      percentile: percentileOf(cohort.histogram, breakdown.overallScore),
+      peerAverage: Math.round(cohort.averageScore),
+      topPerformers: await cohortService.getTopPerformerNames(cohort),
+      cohorts: breakdown.percentiles.filter(p => p.type !== 'all')
+    };
+  }
+
+  /**
+   * Get the composite weight for a platform category
+   */
+  private getPlatformWeight(platform: string, weights: ScoringWeights): number {
+    switch (platform) {
+      case 'github':
+        return weights.github;
+      case 'linkedin':
+        return weights.linkedin;
+      case 'blog':
+      case 'blog platforms':
+        return weights.blog;
+      case 'twitter':
+      case 'social media':
+        return weights.twitter;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Extract strengths from strong sub-scores
+   */
+  private extractStrengths(platformData: ProfilePlatformData): string[] {
+    return Object.entries(this.numericMetrics(platformData.metrics))
+      .filter(([key, value]) => key !== 'overallScore' && key.endsWith('Score') && value >= 70)
+      .map(([key]) => `Strong ${this.humanizeMetric(key)}`);
+  }
+
+  /**
+   * Extract areas for improvement from weak sub-scores and connector recommendations
+   */
+  private extractImprovements(platformData: ProfilePlatformData): string[] {
+    const weakAreas = Object.entries(this.numericMetrics(platformData.metrics))
+      .filter(([key, value]) => key !== 'overallScore' && key.endsWith('Score') && value < 50)
+      .map(([key]) => `Improve ${this.humanizeMetric(key)}`);
+
+    return [...weakAreas, ...platformData.metrics.recommendations].slice(0, 5);
+  }
+
+  /**
+   * Extract strengths across connected blog platforms
+   */
+  private extractBlogStrengths(platforms: DigitalProfile['platforms']): string[] {
+    const strengths: string[] = [];
+
+    for (const [name, data] of this.blogPlatforms(platforms)) {
+      if (data.metrics.overallScore >= 70) {
+        strengths.push(`Strong presence on ${name}`);
+      }
+      if (data.metrics.consistencyScore >= 70) {
+        strengths.push(`Consistent publishing on ${name}`);
+      }
+      if (data.metrics.engagementScore >= 70) {
+        strengths.push(`High reader engagement on ${name}`);
+      }
+    }
+
+    return strengths;
+  }
+
+  /**
+   * Extract improvement areas across connected blog platforms
+   */
+  private extractBlogImprovements(platforms: DigitalProfile['platforms']): string[] {
+    const improvements: string[] = [];
+
+    for (const [name, data] of this.blogPlatforms(platforms)) {
+      if (data.metrics.consistencyScore < 50) {
+        improvements.push(`Publish more regularly on ${name}`);
+      }
+      if (data.metrics.engagementScore < 50) {
+        improvements.push(`Grow reader engagement on ${name}`);
+      }
+      if (data.metrics.topicDiversityScore < 50) {
+        improvements.push(`Cover a wider range of topics on ${name}`);
+      }
+    }
+
+    return improvements;
+  }
+
+  /**
+   * Connected blog platforms with display names
+   */
+  private blogPlatforms(platforms: DigitalProfile['platforms']): [string, BlogData][] {
+    const entries: [string, BlogData][] = [];
+    if (platforms.devto) entries.push(['Dev.to', platforms.devto]);
+    if (platforms.hashnode) entries.push(['Hashnode', platforms.hashnode]);
+    if (platforms.medium) entries.push(['Medium', platforms.medium]);
+    return entries;
+  }
+
+  /**
+   * Top-level numeric scores of a platform's metrics
+   */
+  private numericMetrics(metrics: ProfilePlatformData['metrics']): Record<string, number> {
+    const numeric: Record<string, number> = {};
+
+    for (const [key, value] of Object.entries(metrics)) {
+      if (typeof value === 'number') {
+        numeric[key] = value;
+      }
+    }
+
+    return numeric;
+  }
+
+  /**
+   * Turn a metric key like codeQualityScore into "code quality"
+   */
+  private humanizeMetric(key: string): string {
+    return key
+      .replace(/Score$/, '')
+      .replace(/([A-Z])/g, ' $1')
+      .toLowerCase()
+      .trim();
+  }
+
+  /**
+   * Map a database row to the public dispute shape
+   */
+  private toScoreDispute(row: PrismaScoreDispute): ScoreDispute {
+    return {
+      id: row.id,
+      candidateId: row.candidateId,
+      type: row.type as ScoreDispute['type'],
+      description: row.description,
+      status: row.status as ScoreDispute['status'],
+      submittedAt: row.submittedAt,
+      reviewedAt: row.reviewedAt ?? undefined,
+      reviewedBy: row.reviewedBy ?? undefined,
+      resolution: row.resolution ?? undefined,
+      adminNotes: row.adminNotes ?? undefined
+    };
+  }
+}
+
+export const scoreTransparencyService = new ScoreTransparencyService();
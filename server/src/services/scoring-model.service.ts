@@ -0,0 +1,299 @@
+/**
+ * Scoring Model Service
+ * - Versioned scoring formulas: platform weights, metric coefficients and thresholds
+ * - The highest published version is the active one; version 1 reproduces the original formula
+ * - Publishing a version queues a backfill that rescores every candidate under it
+ */
+
+import { prisma } from '../lib/prisma';
+import { Prisma, ScoringModel as PrismaScoringModel } from '@prisma/client';
+import { jobQueue, JobType } from './job.service';
+
+// Scoring weights configuration
+export interface ScoringWeights {
+  github: number;
+  linkedin: number;
+  twitter: number;
+  blog: number;
+}
+
+// Coefficients combining each platform's sub-scores into its platform score
+export interface PlatformCoefficients {
+  github: {
+    codeQualityScore: number;
+    languageDiversity: number;
+    commitFrequency: number;
+    collaborationScore: number;
+    projectImpactScore: number;
+  };
+  linkedin: {
+    experienceScore: number;
+    educationScore: number;
+    skillsScore: number;
+    networkScore: number;
+  };
+  twitter: {
+    engagementScore: number;
+    technicalContentScore: number;
+    influenceScore: number;
+    consistencyScore: number;
+  };
+  blog: {
+    contentQualityScore: number;
+    consistencyScore: number;
+    engagementScore: number;
+    topicDiversityScore: number;
+  };
+}
+
+// Platform score bands for strengths and improvement suggestions
+export interface ScoreThresholds {
+  strength: number;
+  improvement: number;
+}
+
+// A scoring formula; version is null for the built-in defaults
+export interface ScoringModelDefinition {
+  version: number | null;
+  weights: ScoringWeights;
+  coefficients: PlatformCoefficients;
+  thresholds: ScoreThresholds;
+}
+
+export interface ScoringModelSummary extends ScoringModelDefinition {
+  version: number;
+  notes: string | null;
+  publishedBy: string | null;
+  createdAt: Date;
+  active: boolean;
+  // Candidates whose latest score was produced by this version
+  scoredCandidates: number;
+}
+
+// Changes for a new version; anything omitted carries over from the active version
+export interface ScoringModelInput {
+  weights?: Partial<ScoringWeights>;
+  coefficients?: { [P in keyof PlatformCoefficients]?: Partial<PlatformCoefficients[P]> };
+  thresholds?: Partial<ScoreThresholds>;
+  notes?: string;
+}
+
+export interface BackfillBatch {
+  userIds: string[];
+  nextCursor: string | null;
+}
+
+// Default scoring weights
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  github: 0.35,
+  linkedin: 0.30,
+  twitter: 0.15,
+  blog: 0.20
+};
+
+// Coefficients the connectors use for their own overall scores
+export const DEFAULT_COEFFICIENTS: PlatformCoefficients = {
+  github: {
+    codeQualityScore: 0.25,
+    languageDiversity: 0.15,
+    commitFrequency: 0.25,
+    collaborationScore: 0.2,
+    projectImpactScore: 0.15
+  },
+  linkedin: {
+    experienceScore: 0.35,
+    educationScore: 0.2,
+    skillsScore: 0.25,
+    networkScore: 0.2
+  },
+  twitter: {
+    engagementScore: 0.3,
+    technicalContentScore: 0.25,
+    influenceScore: 0.25,
+    consistencyScore: 0.2
+  },
+  blog: {
+    contentQualityScore: 0.3,
+    consistencyScore: 0.25,
+    engagementScore: 0.3,
+    topicDiversityScore: 0.15
+  }
+};
+
+export const DEFAULT_THRESHOLDS: ScoreThresholds = {
+  strength: 70,
+  improvement: 50
+};
+
+// Share of its score an unverified platform contributes; 0 excludes unverified platforms
+export const UNVERIFIED_PLATFORM_FACTOR = parseFloat(process.env.UNVERIFIED_PLATFORM_FACTOR || '0.25');
+
+// Processes cache the active model briefly; a publish elsewhere is picked up within this window
+const ACTIVE_MODEL_TTL_MS = parseInt(process.env.SCORING_MODEL_CACHE_MS || '60000', 10);
+const BACKFILL_BATCH_SIZE = parseInt(process.env.SCORE_BACKFILL_BATCH_SIZE || '100', 10);
+
+export class ScoringModelService {
+  private activeModel: { model: ScoringModelDefinition; loadedAt: number } | null = null;
+
+  /**
+   * Get the active scoring model, seeding version 1 from the defaults on first use
+   */
+  async getActiveModel(): Promise<ScoringModelDefinition> {
+    if (this.activeModel && Date.now() - this.activeModel.loadedAt < ACTIVE_MODEL_TTL_MS) {
+      return this.activeModel.model;
+    }
+
+    let latest = await prisma.scoringModel.findFirst({ orderBy: { version: 'desc' } });
+
+    if (!latest) {
+      latest = await prisma.scoringModel.upsert({
+        where: { version: 1 },
+        create: {
+          version: 1,
+          weights: { ...DEFAULT_WEIGHTS },
+          coefficients: DEFAULT_COEFFICIENTS as unknown as Prisma.InputJsonValue,
+          thresholds: { ...DEFAULT_THRESHOLDS },
+          notes: 'Original scoring formula'
+        },
+        update: {}
+      });
+    }
+
+    const model = this.toDefinition(latest);
+    this.activeModel = { model, loadedAt: Date.now() };
+
+    return model;
+  }
+
+  /**
+   * Get a specific version, or null if it was never published
+   */
+  async getModel(version: number): Promise<ScoringModelDefinition | null> {
+    const model = await prisma.scoringModel.findUnique({ where: { version } });
+    return model ? this.toDefinition(model) : null;
+  }
+
+  /**
+   * List published versions, newest first, with how many candidates each has scored
+   */
+  async listModels(): Promise<ScoringModelSummary[]> {
+    await this.getActiveModel();
+
+    const [models, counts] = await Promise.all([
+      prisma.scoringModel.findMany({ orderBy: { version: 'desc' } }),
+      prisma.candidateScore.groupBy({
+        by: ['modelVersion'],
+        _count: { _all: true }
+      })
+    ]);
+
+    return models.map((model, index) => ({
+      ...this.toDefinition(model),
+      version: model.version,
+      notes: model.notes,
+      publishedBy: model.publishedBy,
+      createdAt: model.createdAt,
+      active: index === 0,
+      scoredCandidates: counts.find(count => count.modelVersion === model.version)?._count._all ?? 0
+    }));
+  }
+
+  /**
+   * Publish a new version built on the active one and queue the rescoring backfill
+   */
+  async publishModel(
+    input: ScoringModelInput,
+    publishedBy: string
+  ): Promise<{ model: ScoringModelDefinition; jobId: string }> {
+    // Build on the latest stored version, not a cached one
+    this.activeModel = null;
+    const active = await this.getActiveModel();
+    const version = (active.version ?? 0) + 1;
+
+    const coefficients: PlatformCoefficients = {
+      github: { ...active.coefficients.github, ...input.coefficients?.github },
+      linkedin: { ...active.coefficients.linkedin, ...input.coefficients?.linkedin },
+      twitter: { ...active.coefficients.twitter, ...input.coefficients?.twitter },
+      blog: { ...active.coefficients.blog, ...input.coefficients?.blog }
+    };
+    const weights = { ...active.weights, ...input.weights };
+    const thresholds = { ...active.thresholds, ...input.thresholds };
+
+    if (Object.values(weights).every(weight => weight === 0)) {
+      throw new Error('At least one platform weight must be positive');
+    }
+
+    if (thresholds.improvement > thresholds.strength) {
+      throw new Error('Improvement threshold cannot exceed strength threshold');
+    }
+
+    let created: PrismaScoringModel;
+    try {
+      created = await prisma.scoringModel.create({
+        data: {
+          version,
+          weights: { ...weights },
+          coefficients: coefficients as unknown as Prisma.InputJsonValue,
+          thresholds: { ...thresholds },
+          notes: input.notes,
+          publishedBy
+        }
+      });
+    } catch (error) {
+      // Someone else published from the same base version first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('Scoring model was changed concurrently');
+      }
+      throw error;
+    }
+
+    const model = this.toDefinition(created);
+    this.activeModel = { model, loadedAt: Date.now() };
+
+    const jobId = await jobQueue.enqueue(JobType.SCORE_BACKFILL, { version }, {
+      dedupeKey: `${JobType.SCORE_BACKFILL}:${version}`
+    });
+
+    return { model, jobId };
+  }
+
+  /**
+   * Next page of candidates to rescore under a version; null once a newer version supersedes it
+   */
+  async getBackfillBatch(version: number, cursor?: string): Promise<BackfillBatch | null> {
+    const latest = await prisma.scoringModel.findFirst({
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+
+    // The newer version queues its own backfill
+    if (!latest || latest.version !== version) {
+      return null;
+    }
+
+    // Candidates without connections have nothing to score
+    const candidates = await prisma.candidateProfile.findMany({
+      where: { platformConnections: { some: {} } },
+      select: { id: true, userId: true },
+      orderBy: { id: 'asc' },
+      take: BACKFILL_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+
+    return {
+      userIds: candidates.map(candidate => candidate.userId),
+      nextCursor: candidates.length === BACKFILL_BATCH_SIZE ? candidates[candidates.length - 1].id : null
+    };
+  }
+
+  private toDefinition(model: PrismaScoringModel): ScoringModelDefinition {
+    return {
+      version: model.version,
+      weights: model.weights as unknown as ScoringWeights,
+      coefficients: model.coefficients as unknown as PlatformCoefficients,
+      thresholds: model.thresholds as unknown as ScoreThresholds
+    };
+  }
+}
+
+export const scoringModelService = new ScoringModelService();
@@ -1,57 +1,42 @@
 import { prisma } from '../lib/prisma';
-import { fetchGithubData, fetchSocialData } from './context.service';
-
-export const calculateUserScore = async (userId: string) => {
-    const user = await prisma.user.findUnique({ where: { id: userId } });
-    if (!user) throw new Error('User not found');
-
-    let totalScore = 0;
-    const breakdown: any = {};
-
-    // 1. GitHub Score
-    if (user.githubHandle) {
-        const ghData = await fetchGithubData(user.githubHandle);
-        if (ghData) {
-            const ghScore = (ghData.public_repos * 10) + (ghData.followers * 5);
-            totalScore += ghScore;
-            breakdown.github = { ...ghData, score: ghScore };
-
-            await prisma.socialScore.create({
-                data: {
-                    userId,
-                    platform: 'github',
-                    rawScore: ghScore,
-                    details: ghData as any
-                }
-            });
-        }
+import { UserType } from '@prisma/client';
+import { aggregationService, CompositeScore } from './aggregation.service';
+import { AuditContext } from './audit.service';
+
+// Recalculate and store a candidate's composite score
+export const calculateUserScore = async (userId: string, audit: AuditContext = {}): Promise<CompositeScore> => {
+    const result = await aggregationService.calculateAndStoreScore(userId, audit);
+    return result.current;
+};
+
+// Latest score, calculating it on first access for the candidate themselves
+export const getUserScore = async (userId: string, calculateIfMissing = false): Promise<CompositeScore | null> => {
+    const score = await aggregationService.getCurrentScore(userId);
+
+    if (!score && calculateIfMissing) {
+        return calculateUserScore(userId);
+    }
+
+    return score;
+};
+
+// Candidates and admins can always see a score; recruiters only see public profiles
+export const canViewScore = async (
+    viewer: { userId: string; userType: UserType },
+    userId: string
+): Promise<boolean> => {
+    if (viewer.userId === userId || viewer.userType === UserType.ADMIN) {
+        return true;
     }
 
-    // 2. LinkedIn (Simulated)
-    if (user.linkedinHandle) {
-        const liData = await fetchSocialData('linkedin', user.linkedinHandle);
-        const liScore = liData.followers / 10; // Simple logic
-        totalScore += liScore;
-        breakdown.linkedin = { ...liData, score: liScore };
-
-        await prisma.socialScore.create({
-            data: {
-                userId,
-                platform: 'linkedin',
-                rawScore: Math.floor(liScore),
-                details: liData as any
-            }
-        });
+    if (viewer.userType !== UserType.RECRUITER) {
+        return false;
     }
 
-    // Save Total Score
-    await prisma.score.create({
-        data: {
-            userId,
-            totalScore: Math.floor(totalScore),
-            breakdown
-        }
+    const candidateProfile = await prisma.candidateProfile.findUnique({
+        where: { userId },
+        select: { isPublic: true }
     });
 
-    return { totalScore, breakdown };
+    return !!candidateProfile?.isPublic;
 };
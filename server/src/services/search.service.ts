@@ -10,7 +10,15 @@
  */
 
 import { prisma } from '../lib/prisma';
-import { Platform } from '@prisma/client';
+import { Platform, SavedSearch } from '@prisma/client';
+import { organizationService } from './organization.service';
+import {
+  RoleProfileSummary,
+  calculateRoleScore,
+  meetsRoleRequirements,
+  verificationFactors
+} from './role-profile.service';
+import { cohortService, cohortAttributes, CohortPercentile } from './cohort.service';
 
 // Search filters
 export interface CandidateSearchFilters {
@@ -28,6 +36,7 @@ export interface CandidateSearchFilters {
   hasTwitter?: boolean;
   hasBlog?: boolean;
   isPublic?: boolean;
+  candidateIds?: string[];
 }
 
 // Sort options
@@ -50,6 +59,7 @@ export interface SearchResultCandidate {
   location: string | null;
   bio: string | null;
   isPublic: boolean;
+  openToOpportunities: boolean;
   score: {
     composite: number;
     github: number | null;
@@ -66,6 +76,10 @@ export interface SearchResultCandidate {
   languages: string[];
   strengths: string[];
   matchScore?: number;
+  // Score under the searched role profile's weights
+  roleScore?: number;
+  // Percentile ranks among public candidates overall and in the candidate's peer cohorts
+  percentiles?: CohortPercentile[];
 }
 
 // Search result
@@ -77,6 +91,7 @@ export interface SearchResult {
   totalPages: number;
   filters: CandidateSearchFilters;
   sortBy: SortBy;
+  roleProfile?: RoleProfileSummary;
 }
 
 // Saved search
@@ -88,26 +103,39 @@ export interface SavedSearchConfig {
   createdAt: Date;
   lastRunAt: Date | null;
   notifyOnNewMatches: boolean;
+  // Shared with the recruiter's organization
+  shared: boolean;
+  // Only the recruiter who saved a search can change or delete it
+  isOwner: boolean;
 }
 
 export class SearchService {
   /**
-   * Search candidates with filters
+   * Search candidates with filters; a role profile adds its requirements and ranks by role-adjusted score
    */
   async searchCandidates(
     filters: CandidateSearchFilters,
     sortBy: SortBy = SortBy.SCORE_DESC,
     page = 1,
-    pageSize = 20
+    pageSize = 20,
+    roleProfile?: RoleProfileSummary
   ): Promise<SearchResult> {
     // Build query conditions
     const whereConditions: Record<string, unknown>[] = [];
+
+    // Accounts pending deletion are never searchable
+    whereConditions.push({ user: { deletionScheduledFor: null } });
     
     // Public profile filter
     if (filters.isPublic !== false) {
       whereConditions.push({ isPublic: true });
     }
 
+    // Restrict to specific candidates
+    if (filters.candidateIds) {
+      whereConditions.push({ id: { in: filters.candidateIds } });
+    }
+
     // Location filter
     if (filters.location) {
       whereConditions.push({
@@ -202,6 +230,7 @@ export class SearchService {
           location: candidate.location,
           bio: candidate.bio,
           isPublic: candidate.isPublic,
+          openToOpportunities: candidate.openToOpportunities,
           score: {
             composite: score?.compositeScore || 0,
             github: score?.githubScore || null,
@@ -216,10 +245,27 @@ export class SearchService {
           })),
           skills: Array.from(skills),
           languages: Array.from(languages),
-          strengths: score?.strengths || []
+          strengths: score?.strengths || [],
+          roleScore: roleProfile && score
+            ? calculateRoleScore(
+              {
+                github: score.githubScore,
+                linkedin: score.linkedinScore,
+                blog: score.blogScore,
+                social: score.socialScore
+              },
+              roleProfile.weights,
+              verificationFactors(candidate.platformConnections)
+            )
+            : undefined
         };
       });
 
+    // Role requirements; candidates without a score cannot meet them
+    if (roleProfile) {
+      results = results.filter(c => c.roleScore !== undefined && meetsRoleRequirements(roleProfile, c.score, c.languages));
+    }
+
     // Filter by skills
     if (filters.skills && filters.skills.length > 0) {
       const skillsLower = filters.skills.map(s => s.toLowerCase());
@@ -268,7 +314,7 @@ export class SearchService {
     }
 
     // Sort results
-    results = this.sortResults(results, sortBy);
+    results = this.sortResults(results, sortBy, roleProfile !== undefined);
 
     // Paginate
     const total = results.length;
@@ -276,6 +322,19 @@ export class SearchService {
     const offset = (page - 1) * pageSize;
     const paginatedResults = results.slice(offset, offset + pageSize);
 
+    // Percentiles are only looked up for the page being returned
+    const profilesById = new Map(candidates.map(candidate => [candidate.id, candidate]));
+    const percentiles = await cohortService.getPercentilesForMany(paginatedResults.map(c => {
+      const candidate = profilesById.get(c.id);
+      return {
+        attributes: cohortAttributes(c.location, candidate ? candidate.platformData : []),
+        score: c.score.composite
+      };
+    }));
+    paginatedResults.forEach((c, index) => {
+      c.percentiles = percentiles[index];
+    });
+
     return {
       candidates: paginatedResults,
       total,
@@ -283,19 +342,40 @@ export class SearchService {
       pageSize,
       totalPages,
       filters,
-      sortBy
+      sortBy,
+      roleProfile
+    };
+  }
+
+  /**
+   * Map a stored saved search to its config
+   */
+  private toSavedSearchConfig(search: SavedSearch, viewerRecruiterId: string = search.recruiterId): SavedSearchConfig {
+    const params = search.queryParams as Record<string, unknown>;
+    return {
+      id: search.id,
+      name: search.name,
+      filters: (params.filters || {}) as CandidateSearchFilters,
+      sortBy: (params.sortBy || SortBy.SCORE_DESC) as SortBy,
+      createdAt: search.createdAt,
+      lastRunAt: null,
+      notifyOnNewMatches: (params.notifyOnNewMatches || false) as boolean,
+      shared: search.shared,
+      isOwner: search.recruiterId === viewerRecruiterId
     };
   }
 
   /**
-   * Sort search results
+   * Sort search results; score sorts use the role-adjusted score when searching for a role
    */
-  private sortResults(results: SearchResultCandidate[], sortBy: SortBy): SearchResultCandidate[] {
+  private sortResults(results: SearchResultCandidate[], sortBy: SortBy, byRoleScore = false): SearchResultCandidate[] {
+    const overall = (c: SearchResultCandidate) => (byRoleScore ? c.roleScore ?? 0 : c.score.composite);
+
     switch (sortBy) {
       case SortBy.SCORE_DESC:
-        return results.sort((a, b) => b.score.composite - a.score.composite);
+        return results.sort((a, b) => overall(b) - overall(a));
       case SortBy.SCORE_ASC:
-        return results.sort((a, b) => a.score.composite - b.score.composite);
+        return results.sort((a, b) => overall(a) - overall(b));
       case SortBy.GITHUB_DESC:
         return results.sort((a, b) => (b.score.github || 0) - (a.score.github || 0));
       case SortBy.LINKEDIN_DESC:
@@ -313,11 +393,15 @@ export class SearchService {
   }
 
   /**
-   * Get candidate by ID (for recruiter viewing)
+   * Get a candidate by ID; private, suspended and departing candidates are not found
    */
-  async getCandidateById(candidateId: string, recruiterId?: string): Promise<SearchResultCandidate | null> {
-    const candidate = await prisma.candidateProfile.findUnique({
-      where: { id: candidateId },
+  async getCandidateById(candidateId: string): Promise<SearchResultCandidate | null> {
+    const candidate = await prisma.candidateProfile.findFirst({
+      where: {
+        id: candidateId,
+        isPublic: true,
+        user: { suspendedAt: null, deletionScheduledFor: null }
+      },
       include: {
         user: { select: { name: true } },
         platformConnections: true,
@@ -333,11 +417,6 @@ export class SearchService {
 
     if (!candidate) return null;
 
-    // Check visibility
-    if (!candidate.isPublic && !recruiterId) {
-      return null;
-    }
-
     const score = candidate.candidateScores[0];
     const skills = new Set<string>();
     const languages = new Set<string>();
@@ -362,6 +441,7 @@ export class SearchService {
       location: candidate.location,
       bio: candidate.bio,
       isPublic: candidate.isPublic,
+      openToOpportunities: candidate.openToOpportunities,
       score: {
         composite: score?.compositeScore || 0,
         github: score?.githubScore || null,
@@ -388,7 +468,8 @@ export class SearchService {
     name: string,
     filters: CandidateSearchFilters,
     sortBy: SortBy = SortBy.SCORE_DESC,
-    notifyOnNewMatches = false
+    notifyOnNewMatches = false,
+    shared = false
   ): Promise<SavedSearchConfig> {
     const recruiterProfile = await prisma.recruiterProfile.findUnique({
       where: { userId: recruiterId }
@@ -406,23 +487,16 @@ export class SearchService {
           filters,
           sortBy,
           notifyOnNewMatches
-        }))
+        })),
+        shared
       }
     });
 
-    return {
-      id: savedSearch.id,
-      name: savedSearch.name,
-      filters,
-      sortBy,
-      createdAt: savedSearch.createdAt,
-      lastRunAt: null,
-      notifyOnNewMatches
-    };
+    return this.toSavedSearchConfig(savedSearch);
   }
 
   /**
-   * Get saved searches for a recruiter
+   * Get a recruiter's saved searches and those shared by their organization
    */
   async getSavedSearches(recruiterId: string): Promise<SavedSearchConfig[]> {
     const recruiterProfile = await prisma.recruiterProfile.findUnique({
@@ -433,23 +507,95 @@ export class SearchService {
       return [];
     }
 
+    const teammateIds = await organizationService.getTeammateIds(recruiterProfile.id);
+
     const searches = await prisma.savedSearch.findMany({
-      where: { recruiterId: recruiterProfile.id },
+      where: {
+        OR: [
+          { recruiterId: recruiterProfile.id },
+          { recruiterId: { in: teammateIds }, shared: true }
+        ]
+      },
       orderBy: { createdAt: 'desc' }
     });
 
-    return searches.map(s => {
-      const params = s.queryParams as Record<string, unknown>;
-      return {
-        id: s.id,
-        name: s.name,
-        filters: (params.filters || {}) as CandidateSearchFilters,
-        sortBy: (params.sortBy || SortBy.SCORE_DESC) as SortBy,
-        createdAt: s.createdAt,
-        lastRunAt: null,
-        notifyOnNewMatches: (params.notifyOnNewMatches || false) as boolean
-      };
+    return searches.map(s => this.toSavedSearchConfig(s, recruiterProfile.id));
+  }
+
+  /**
+   * Find which of the given recruiters have alerting saved searches matching a public candidate
+   * Returns recruiter profile id -> matching saved search ids
+   */
+  async findMatchingSavedSearches(candidateId: string, recruiterProfileIds: string[]): Promise<Map<string, string[]>> {
+    const matches = new Map<string, string[]>();
+
+    if (recruiterProfileIds.length === 0) {
+      return matches;
+    }
+
+    const searches = await prisma.savedSearch.findMany({
+      where: { recruiterId: { in: recruiterProfileIds } }
+    });
+
+    for (const search of searches) {
+      const config = this.toSavedSearchConfig(search);
+      if (!config.notifyOnNewMatches) continue;
+
+      // Alerts never reveal private profiles
+      const result = await this.searchCandidates(
+        { ...config.filters, isPublic: true, candidateIds: [candidateId] },
+        config.sortBy,
+        1,
+        1
+      );
+
+      if (result.total > 0) {
+        matches.set(search.recruiterId, [...(matches.get(search.recruiterId) || []), search.id]);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Update a saved search
+   */
+  async updateSavedSearch(
+    recruiterId: string,
+    searchId: string,
+    updates: {
+      name?: string;
+      filters?: CandidateSearchFilters;
+      sortBy?: SortBy;
+      notifyOnNewMatches?: boolean;
+      shared?: boolean;
+    }
+  ): Promise<SavedSearchConfig | null> {
+    const searches = await this.getSavedSearches(recruiterId);
+    const existing = searches.find(s => s.id === searchId && s.isOwner);
+
+    if (!existing) {
+      return null;
+    }
+
+    const filters = updates.filters ?? existing.filters;
+    const sortBy = updates.sortBy ?? existing.sortBy;
+    const notifyOnNewMatches = updates.notifyOnNewMatches ?? existing.notifyOnNewMatches;
+
+    const savedSearch = await prisma.savedSearch.update({
+      where: { id: searchId },
+      data: {
+        name: updates.name ?? existing.name,
+        queryParams: JSON.parse(JSON.stringify({
+          filters,
+          sortBy,
+          notifyOnNewMatches
+        })),
+        shared: updates.shared ?? existing.shared
+      }
     });
+
+    return this.toSavedSearchConfig(savedSearch);
   }
 
   /**
@@ -483,7 +629,7 @@ export class SearchService {
   }
 
   /**
-   * Run a saved search
+   * Run a saved search, including one shared by the recruiter's organization
    */
   async runSavedSearch(
     recruiterId: string,
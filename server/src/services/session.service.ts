@@ -0,0 +1,259 @@
+/**
+ * Session Service
+ * - Login sessions with device and user-agent metadata
+ * - Rotating refresh tokens (only a SHA-256 hash is stored)
+ * - Refresh token reuse detection
+ * - Logout, per-device revocation and "log out all devices"
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from '../lib/prisma';
+import { Session as PrismaSession, User } from '@prisma/client';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export enum SessionRevokedReason {
+  LOGOUT = 'logout',
+  LOGOUT_ALL = 'logout_all',
+  REUSE_DETECTED = 'reuse_detected'
+}
+
+// Where a session was started or refreshed from
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Returned when a session is created or its refresh token rotated
+export interface IssuedSession {
+  session: PrismaSession;
+  refreshToken: string;
+}
+
+export interface RotatedSession extends IssuedSession {
+  user: User;
+}
+
+// Session as shown in the "your devices" list
+export interface SessionInfo {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+/**
+ * Hash a refresh token for storage and lookup
+ */
+export function hashRefreshToken(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken).digest('hex');
+}
+
+/**
+ * Describe a device from its user agent, e.g. "Chrome on macOS"
+ */
+export function describeDevice(userAgent?: string): string | null {
+  if (!userAgent) return null;
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\//, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/curl\//, 'curl']
+  ];
+  const systems: [RegExp, string][] = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux']
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? 'Unknown device';
+}
+
+export class SessionService {
+  /**
+   * Start a session for a user who has just authenticated
+   */
+  async createSession(userId: string, metadata: SessionMetadata = {}): Promise<IssuedSession> {
+    const refreshToken = this.generateRefreshToken();
+
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: hashRefreshToken(refreshToken),
+        deviceName: describeDevice(metadata.userAgent),
+        userAgent: metadata.userAgent ?? null,
+        ipAddress: metadata.ipAddress ?? null,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY_MS)
+      }
+    });
+
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one
+   * Presenting an already-rotated token revokes the session, since it means the token leaked
+   */
+  async rotateRefreshToken(refreshToken: string, metadata: SessionMetadata = {}): Promise<RotatedSession> {
+    const tokenHash = hashRefreshToken(refreshToken);
+
+    const session = await prisma.session.findUnique({
+      where: { refreshTokenHash: tokenHash },
+      include: { user: true }
+    });
+
+    if (!session) {
+      const reused = await prisma.session.findUnique({
+        where: { previousTokenHash: tokenHash }
+      });
+
+      if (reused && !reused.revokedAt) {
+        await this.revoke({ id: reused.id }, SessionRevokedReason.REUSE_DETECTED);
+      }
+
+      throw new Error('Invalid refresh token');
+    }
+
+    if (session.revokedAt || session.expiresAt < new Date()) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (session.user.suspendedAt) {
+      throw new Error('Account suspended');
+    }
+
+    const nextToken = this.generateRefreshToken();
+
+    // Conditional on the presented hash so two concurrent refreshes cannot both succeed
+    const rotated = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashRefreshToken(nextToken),
+        previousTokenHash: tokenHash,
+        lastUsedAt: new Date(),
+        userAgent: metadata.userAgent ?? session.userAgent,
+        ipAddress: metadata.ipAddress ?? session.ipAddress
+      }
+    });
+
+    if (rotated.count === 0) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const { user, ...updated } = await prisma.session.findUniqueOrThrow({
+      where: { id: session.id },
+      include: { user: true }
+    });
+
+    return { session: updated, refreshToken: nextToken, user };
+  }
+
+  /**
+   * Check that an access token's session has not been revoked or expired
+   */
+  async isSessionActive(userId: string, sessionId: string): Promise<boolean> {
+    const session = await prisma.session.findFirst({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: { id: true }
+    });
+
+    return !!session;
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+
+    return sessions.map(session => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId
+    }));
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const count = await this.revoke({ id: sessionId, userId }, SessionRevokedReason.LOGOUT);
+
+    if (count === 0) {
+      throw new Error('Session not found');
+    }
+  }
+
+  /**
+   * Revoke every session of a user, optionally keeping the current one
+   */
+  async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    return this.revoke(
+      { userId, id: exceptSessionId ? { not: exceptSessionId } : undefined },
+      SessionRevokedReason.LOGOUT_ALL
+    );
+  }
+
+  /**
+   * Delete sessions that expired or were revoked more than the retention window ago
+   */
+  async pruneSessions(retentionDays = 30): Promise<number> {
+    const threshold = new Date(Date.now() - retentionDays * DAY_MS);
+
+    const result = await prisma.session.deleteMany({
+      where: {
+        OR: [
+          { expiresAt: { lt: threshold } },
+          { revokedAt: { lt: threshold } }
+        ]
+      }
+    });
+
+    return result.count;
+  }
+
+  private async revoke(
+    where: { id?: string | { not: string }; userId?: string },
+    reason: SessionRevokedReason
+  ): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: { ...where, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+
+    return result.count;
+  }
+
+  private generateRefreshToken(): string {
+    return randomBytes(48).toString('base64url');
+  }
+}
+
+export const sessionService = new SessionService();
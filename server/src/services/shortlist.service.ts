@@ -0,0 +1,547 @@
+/**
+ * Shortlist Service
+ * - Recruiter shortlists run as hiring pipelines with configurable stages
+ * - Stage moves with ordering inside each stage, and a stage-change history
+ * - Per-candidate tags and notes, shareable inside the recruiter's organization
+ */
+
+import { prisma } from '../lib/prisma';
+import { Shortlist } from '@prisma/client';
+import { organizationService } from './organization.service';
+
+export const DEFAULT_PIPELINE_STAGES = ['sourced', 'contacted', 'interviewing', 'offer', 'hired', 'rejected'];
+
+// Candidates who asked for their account to be deleted are hidden from recruiters straight away
+const VISIBLE_ENTRY = { candidate: { user: { deletionScheduledFor: null } } };
+
+export interface ShortlistSummary {
+  id: string;
+  name: string;
+  stages: string[];
+  shared: boolean;
+  // Only the recruiter who created a shortlist can rename, reconfigure, share or delete it
+  isOwner: boolean;
+  entryCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ShortlistEntrySummary {
+  id: string;
+  stage: string;
+  position: number;
+  tags: string[];
+  candidate: {
+    id: string;
+    name: string;
+    location: string | null;
+    compositeScore: number | null;
+  };
+  updatedAt: Date;
+}
+
+export interface ShortlistDetails extends ShortlistSummary {
+  entries: ShortlistEntrySummary[];
+}
+
+export interface StageChangeEntry {
+  id: string;
+  fromStage: string | null;
+  toStage: string;
+  changedBy: string | null;
+  createdAt: Date;
+}
+
+export interface CandidateNoteEntry {
+  id: string;
+  body: string;
+  shared: boolean;
+  isOwner: boolean;
+  author: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface RecruiterContext {
+  recruiterId: string;
+  teammateIds: string[];
+}
+
+export class ShortlistService {
+  /**
+   * List the recruiter's shortlists and those shared by their organization
+   */
+  async listShortlists(userId: string): Promise<ShortlistSummary[]> {
+    const { recruiterId, teammateIds } = await this.getRecruiterContext(userId);
+
+    const shortlists = await prisma.shortlist.findMany({
+      where: {
+        OR: [
+          { recruiterId },
+          { recruiterId: { in: teammateIds }, shared: true }
+        ]
+      },
+      include: { _count: { select: { entries: { where: VISIBLE_ENTRY } } } },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    return shortlists.map(shortlist => this.toSummary(shortlist, recruiterId, shortlist._count.entries));
+  }
+
+  async createShortlist(
+    userId: string,
+    data: { name: string; stages?: string[]; shared?: boolean }
+  ): Promise<ShortlistSummary> {
+    const { recruiterId } = await this.getRecruiterContext(userId);
+
+    const shortlist = await prisma.shortlist.create({
+      data: {
+        recruiterId,
+        name: data.name,
+        stages: this.normalizeStages(data.stages ?? DEFAULT_PIPELINE_STAGES),
+        shared: data.shared ?? false
+      }
+    });
+
+    return this.toSummary(shortlist, recruiterId, 0);
+  }
+
+  /**
+   * Get a shortlist with its entries, ordered by stage and position
+   */
+  async getShortlist(userId: string, shortlistId: string): Promise<ShortlistDetails> {
+    const context = await this.getRecruiterContext(userId);
+    const shortlist = await this.getAccessibleShortlist(context, shortlistId);
+
+    const entries = await prisma.shortlistEntry.findMany({
+      where: { shortlistId, ...VISIBLE_ENTRY },
+      include: {
+        candidate: {
+          include: {
+            user: { select: { name: true } },
+            candidateScores: { orderBy: { createdAt: 'desc' }, take: 1 }
+          }
+        }
+      },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    const stageOrder = new Map(shortlist.stages.map((stage, index) => [stage, index]));
+
+    return {
+      ...this.toSummary(shortlist, context.recruiterId, entries.length),
+      entries: entries
+        .map(entry => ({
+          id: entry.id,
+          stage: entry.stage,
+          position: entry.position,
+          tags: entry.tags,
+          candidate: {
+            id: entry.candidate.id,
+            name: entry.candidate.user.name,
+            location: entry.candidate.location,
+            compositeScore: entry.candidate.candidateScores[0]?.compositeScore ?? null
+          },
+          updatedAt: entry.updatedAt
+        }))
+        .sort((a, b) => (stageOrder.get(a.stage) ?? 0) - (stageOrder.get(b.stage) ?? 0))
+    };
+  }
+
+  /**
+   * Rename, reconfigure the stages of, or share a shortlist (owner only)
+   * A stage can only be removed once no candidate is in it
+   */
+  async updateShortlist(
+    userId: string,
+    shortlistId: string,
+    updates: { name?: string; stages?: string[]; shared?: boolean }
+  ): Promise<ShortlistSummary> {
+    const context = await this.getRecruiterContext(userId);
+    const shortlist = await this.getAccessibleShortlist(context, shortlistId, true);
+
+    const stages = updates.stages ? this.normalizeStages(updates.stages) : undefined;
+    if (stages) {
+      const removed = shortlist.stages.filter(stage => !stages.includes(stage));
+
+      if (removed.length > 0) {
+        const occupied = await prisma.shortlistEntry.count({
+          where: { shortlistId, stage: { in: removed } }
+        });
+
+        if (occupied > 0) {
+          throw new Error('Move candidates out of a stage before removing it');
+        }
+      }
+    }
+
+    const updated = await prisma.shortlist.update({
+      where: { id: shortlistId },
+      data: {
+        name: updates.name,
+        stages,
+        shared: updates.shared
+      },
+      include: { _count: { select: { entries: { where: VISIBLE_ENTRY } } } }
+    });
+
+    return this.toSummary(updated, context.recruiterId, updated._count.entries);
+  }
+
+  async deleteShortlist(userId: string, shortlistId: string): Promise<void> {
+    const context = await this.getRecruiterContext(userId);
+    await this.getAccessibleShortlist(context, shortlistId, true);
+
+    await prisma.shortlist.delete({
+      where: { id: shortlistId }
+    });
+  }
+
+  /**
+   * Add a public candidate to a shortlist, at the end of the first stage unless another is given
+   */
+  async addCandidate(
+    userId: string,
+    shortlistId: string,
+    candidateId: string,
+    stage?: string
+  ): Promise<ShortlistEntrySummary> {
+    const context = await this.getRecruiterContext(userId);
+    const shortlist = await this.getAccessibleShortlist(context, shortlistId);
+    const targetStage = stage ?? shortlist.stages[0];
+
+    if (!shortlist.stages.includes(targetStage)) {
+      throw new Error('Unknown stage');
+    }
+
+    const candidate = await prisma.candidateProfile.findFirst({
+      where: { id: candidateId, isPublic: true, user: { deletionScheduledFor: null } },
+      include: {
+        user: { select: { name: true } },
+        candidateScores: { orderBy: { createdAt: 'desc' }, take: 1 }
+      }
+    });
+
+    if (!candidate) {
+      throw new Error('Candidate not found');
+    }
+
+    const existing = await prisma.shortlistEntry.findUnique({
+      where: { shortlistId_candidateId: { shortlistId, candidateId } }
+    });
+
+    if (existing) {
+      throw new Error('Candidate already on shortlist');
+    }
+
+    const position = await prisma.shortlistEntry.count({
+      where: { shortlistId, stage: targetStage }
+    });
+
+    const entry = await prisma.shortlistEntry.create({
+      data: {
+        shortlistId,
+        candidateId,
+        stage: targetStage,
+        position,
+        stageChanges: {
+          create: { fromStage: null, toStage: targetStage, changedById: context.recruiterId }
+        }
+      }
+    });
+
+    await this.touch(shortlistId);
+
+    return {
+      id: entry.id,
+      stage: entry.stage,
+      position: entry.position,
+      tags: entry.tags,
+      candidate: {
+        id: candidate.id,
+        name: candidate.user.name,
+        location: candidate.location,
+        compositeScore: candidate.candidateScores[0]?.compositeScore ?? null
+      },
+      updatedAt: entry.updatedAt
+    };
+  }
+
+  /**
+   * Move an entry to a stage and position; the other entries in both stages are renumbered
+   */
+  async moveEntry(
+    userId: string,
+    shortlistId: string,
+    entryId: string,
+    stage: string,
+    position?: number
+  ): Promise<void> {
+    const context = await this.getRecruiterContext(userId);
+    const shortlist = await this.getAccessibleShortlist(context, shortlistId);
+
+    if (!shortlist.stages.includes(stage)) {
+      throw new Error('Unknown stage');
+    }
+
+    const entry = await this.getEntry(shortlistId, entryId);
+
+    const column = (await prisma.shortlistEntry.findMany({
+      where: { shortlistId, stage, id: { not: entryId } },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true }
+    })).map(e => e.id);
+
+    const index = Math.min(Math.max(position ?? column.length, 0), column.length);
+    column.splice(index, 0, entryId);
+
+    const operations = column.map((id, order) => prisma.shortlistEntry.update({
+      where: { id },
+      data: id === entryId ? { stage, position: order } : { position: order }
+    }));
+
+    if (entry.stage !== stage) {
+      // Close the gap left in the old stage
+      const previous = await prisma.shortlistEntry.findMany({
+        where: { shortlistId, stage: entry.stage, id: { not: entryId } },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        select: { id: true }
+      });
+
+      operations.push(...previous.map((e, order) => prisma.shortlistEntry.update({
+        where: { id: e.id },
+        data: { position: order }
+      })));
+    }
+
+    await prisma.$transaction([
+      ...operations,
+      ...(entry.stage !== stage
+        ? [prisma.shortlistStageChange.create({
+          data: { entryId, fromStage: entry.stage, toStage: stage, changedById: context.recruiterId }
+        })]
+        : [])
+    ]);
+
+    await this.touch(shortlistId);
+  }
+
+  async updateEntryTags(userId: string, shortlistId: string, entryId: string, tags: string[]): Promise<string[]> {
+    const context = await this.getRecruiterContext(userId);
+    await this.getAccessibleShortlist(context, shortlistId);
+    await this.getEntry(shortlistId, entryId);
+
+    const normalized = [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+    const entry = await prisma.shortlistEntry.update({
+      where: { id: entryId },
+      data: { tags: normalized }
+    });
+
+    return entry.tags;
+  }
+
+  async removeEntry(userId: string, shortlistId: string, entryId: string): Promise<void> {
+    const context = await this.getRecruiterContext(userId);
+    await this.getAccessibleShortlist(context, shortlistId);
+    await this.getEntry(shortlistId, entryId);
+
+    await prisma.shortlistEntry.delete({
+      where: { id: entryId }
+    });
+
+    await this.touch(shortlistId);
+  }
+
+  /**
+   * Get an entry's stage changes, oldest first
+   */
+  async getEntryHistory(userId: string, shortlistId: string, entryId: string): Promise<StageChangeEntry[]> {
+    const context = await this.getRecruiterContext(userId);
+    await this.getAccessibleShortlist(context, shortlistId);
+    await this.getEntry(shortlistId, entryId);
+
+    const changes = await prisma.shortlistStageChange.findMany({
+      where: { entryId },
+      include: { changedBy: { include: { user: { select: { name: true } } } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return changes.map(change => ({
+      id: change.id,
+      fromStage: change.fromStage,
+      toStage: change.toStage,
+      changedBy: change.changedBy?.user.name ?? null,
+      createdAt: change.createdAt
+    }));
+  }
+
+  /**
+   * List the recruiter's notes on a candidate and those their organization shared
+   */
+  async listNotes(userId: string, candidateId: string): Promise<CandidateNoteEntry[]> {
+    const { recruiterId, teammateIds } = await this.getRecruiterContext(userId);
+
+    const notes = await prisma.candidateNote.findMany({
+      where: {
+        candidateId,
+        OR: [
+          { recruiterId },
+          { recruiterId: { in: teammateIds }, shared: true }
+        ]
+      },
+      include: { recruiter: { include: { user: { select: { name: true } } } } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return notes.map(note => ({
+      id: note.id,
+      body: note.body,
+      shared: note.shared,
+      isOwner: note.recruiterId === recruiterId,
+      author: note.recruiter.user.name,
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt
+    }));
+  }
+
+  async addNote(userId: string, candidateId: string, body: string, shared = false): Promise<CandidateNoteEntry> {
+    const { recruiterId } = await this.getRecruiterContext(userId);
+
+    const candidate = await prisma.candidateProfile.findUnique({
+      where: { id: candidateId },
+      select: { id: true }
+    });
+
+    if (!candidate) {
+      throw new Error('Candidate not found');
+    }
+
+    const note = await prisma.candidateNote.create({
+      data: { recruiterId, candidateId, body, shared },
+      include: { recruiter: { include: { user: { select: { name: true } } } } }
+    });
+
+    return {
+      id: note.id,
+      body: note.body,
+      shared: note.shared,
+      isOwner: true,
+      author: note.recruiter.user.name,
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt
+    };
+  }
+
+  /**
+   * Edit or share one of the recruiter's own notes
+   */
+  async updateNote(userId: string, noteId: string, updates: { body?: string; shared?: boolean }): Promise<void> {
+    const { recruiterId } = await this.getRecruiterContext(userId);
+
+    const updated = await prisma.candidateNote.updateMany({
+      where: { id: noteId, recruiterId },
+      data: updates
+    });
+
+    if (updated.count === 0) {
+      throw new Error('Note not found');
+    }
+  }
+
+  async deleteNote(userId: string, noteId: string): Promise<void> {
+    const { recruiterId } = await this.getRecruiterContext(userId);
+
+    const deleted = await prisma.candidateNote.deleteMany({
+      where: { id: noteId, recruiterId }
+    });
+
+    if (deleted.count === 0) {
+      throw new Error('Note not found');
+    }
+  }
+
+  private async getRecruiterContext(userId: string): Promise<RecruiterContext> {
+    const recruiterProfile = await prisma.recruiterProfile.findUnique({
+      where: { userId },
+      select: { id: true }
+    });
+
+    if (!recruiterProfile) {
+      throw new Error('Recruiter profile not found');
+    }
+
+    return {
+      recruiterId: recruiterProfile.id,
+      teammateIds: await organizationService.getTeammateIds(recruiterProfile.id)
+    };
+  }
+
+  /**
+   * Find a shortlist the recruiter owns, or one shared by a teammate
+   * Teammates can work a shared pipeline but not reconfigure it
+   */
+  private async getAccessibleShortlist(context: RecruiterContext, shortlistId: string, ownerOnly = false): Promise<Shortlist> {
+    const shortlist = await prisma.shortlist.findUnique({
+      where: { id: shortlistId }
+    });
+
+    const isOwner = shortlist?.recruiterId === context.recruiterId;
+    const isShared = !!shortlist?.shared && context.teammateIds.includes(shortlist.recruiterId);
+
+    if (!shortlist || (!isOwner && !isShared)) {
+      throw new Error('Shortlist not found');
+    }
+
+    if (ownerOnly && !isOwner) {
+      throw new Error('Only the owner can change this shortlist');
+    }
+
+    return shortlist;
+  }
+
+  private async getEntry(shortlistId: string, entryId: string) {
+    const entry = await prisma.shortlistEntry.findFirst({
+      where: { id: entryId, shortlistId }
+    });
+
+    if (!entry) {
+      throw new Error('Entry not found');
+    }
+
+    return entry;
+  }
+
+  // Keep recently worked shortlists at the top of the list
+  private async touch(shortlistId: string): Promise<void> {
+    await prisma.shortlist.update({
+      where: { id: shortlistId },
+      data: { updatedAt: new Date() }
+    });
+  }
+
+  private normalizeStages(stages: string[]): string[] {
+    const normalized = [...new Set(stages.map(stage => stage.trim().toLowerCase()).filter(Boolean))];
+
+    if (normalized.length === 0) {
+      throw new Error('A shortlist needs at least one stage');
+    }
+
+    return normalized;
+  }
+
+  private toSummary(shortlist: Shortlist, recruiterId: string, entryCount: number): ShortlistSummary {
+    return {
+      id: shortlist.id,
+      name: shortlist.name,
+      stages: shortlist.stages,
+      shared: shortlist.shared,
+      isOwner: shortlist.recruiterId === recruiterId,
+      entryCount,
+      createdAt: shortlist.createdAt,
+      updatedAt: shortlist.updatedAt
+    };
+  }
+}
+
+export const shortlistService = new ShortlistService();
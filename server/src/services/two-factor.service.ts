@@ -0,0 +1,361 @@
+/**
+ * Two-Factor Authentication Service
+ * - TOTP (RFC 6238) enrollment with otpauth URIs for authenticator apps
+ * - Single-use backup codes
+ * - Per-company enforcement for recruiters
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { prisma } from '../lib/prisma';
+import { UserType } from '@prisma/client';
+
+const ISSUER = 'DARE Dreamers';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next step to allow for clock drift
+const TOTP_WINDOW = 1;
+const BACKUP_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Compute the TOTP code for a time step
+ */
+export function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+export function totpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Find the time step a code belongs to within the drift window, or null
+ */
+export function verifyTotp(secret: string, code: string, time: number = Date.now()): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return null;
+  }
+
+  const current = totpStep(time);
+
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    const expected = generateTotp(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+export class TwoFactorService {
+  /**
+   * Start enrollment: store a new pending secret and return it for the authenticator app
+   */
+  async beginEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication already enabled');
+    }
+
+    const secret = base32Encode(randomBytes(20));
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: this.encryptSecret(secret), twoFactorLastStep: null }
+    });
+
+    return {
+      secret,
+      otpauthUri: this.buildOtpAuthUri(secret, user.email)
+    };
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator app; returns the backup codes
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication already enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new Error('Two-factor enrollment not started');
+    }
+
+    const step = verifyTotp(this.decryptSecret(user.twoFactorSecret), code);
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step }
+    });
+
+    return this.replaceBackupCodes(userId);
+  }
+
+  /**
+   * Turn two-factor authentication off; refused when the user's company requires it
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    if (await this.isRequired(userId)) {
+      throw new Error('Two-factor authentication is required by your company');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await prisma.$transaction([
+      prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+      prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null }
+      })
+    ]);
+  }
+
+  /**
+   * Issue a fresh set of backup codes, invalidating the old ones
+   */
+  async regenerateBackupCodes(userId: string, code: string): Promise<string[]> {
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    return this.replaceBackupCodes(userId);
+  }
+
+  /**
+   * Check a TOTP or backup code for an enrolled user
+   * TOTP codes are accepted once; backup codes are spent
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+      throw new Error('Two-factor authentication not enabled');
+    }
+
+    const normalized = code.replace(/\s/g, '');
+    const step = verifyTotp(this.decryptSecret(user.twoFactorSecret), normalized);
+
+    if (step !== null) {
+      // Conditional update so the same code cannot be used twice, even concurrently
+      const accepted = await prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }]
+        },
+        data: { twoFactorLastStep: step }
+      });
+
+      return accepted.count === 1;
+    }
+
+    const spent = await prisma.twoFactorBackupCode.updateMany({
+      where: { userId, codeHash: this.hashBackupCode(normalized), usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    return spent.count === 1;
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabledAt: true }
+    });
+
+    return !!user?.twoFactorEnabledAt;
+  }
+
+  /**
+   * Whether the user's company requires recruiters to use two-factor authentication
+   */
+  async isRequired(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { userType: true, recruiterProfile: { select: { company: true } } }
+    });
+
+    if (user?.userType !== UserType.RECRUITER || !user.recruiterProfile) {
+      return false;
+    }
+
+    const policy = await prisma.companySecurityPolicy.findUnique({
+      where: { company: this.normalizeCompany(user.recruiterProfile.company) }
+    });
+
+    return policy?.requireTwoFactor ?? false;
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const [enabled, required, backupCodesRemaining] = await Promise.all([
+      this.isEnabled(userId),
+      this.isRequired(userId),
+      prisma.twoFactorBackupCode.count({ where: { userId, usedAt: null } })
+    ]);
+
+    return { enabled, required, backupCodesRemaining };
+  }
+
+  /**
+   * Require (or stop requiring) two-factor authentication for a company's recruiters
+   */
+  async setCompanyRequirement(company: string, requireTwoFactor: boolean) {
+    const name = this.normalizeCompany(company);
+
+    return prisma.companySecurityPolicy.upsert({
+      where: { company: name },
+      create: { company: name, requireTwoFactor },
+      update: { requireTwoFactor }
+    });
+  }
+
+  buildOtpAuthUri(secret: string, email: string): string {
+    const label = encodeURIComponent(`${ISSUER}:${email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: ISSUER,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS)
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private async replaceBackupCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await prisma.$transaction([
+      prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorBackupCode.createMany({
+        data: codes.map(code => ({ userId, codeHash: this.hashBackupCode(code) }))
+      })
+    ]);
+
+    return codes;
+  }
+
+  private hashBackupCode(code: string): string {
+    // Accept codes typed with or without the dash
+    return createHash('sha256').update(code.replace(/-/g, '').toLowerCase()).digest('hex');
+  }
+
+  private normalizeCompany(company: string): string {
+    return company.trim().toLowerCase();
+  }
+
+  // Secrets are encrypted at rest with AES-256-GCM
+  private encryptionKey(): Buffer {
+    const key = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key';
+    return createHash('sha256').update(key).digest();
+  }
+
+  private encryptSecret(secret: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+  }
+
+  private decryptSecret(stored: string): string {
+    const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,623 @@
+/**
+ * Recruiter Webhook Service
+ * - Webhook subscriptions per recruiter with an event filter
+ * - HMAC-SHA256 signed payloads
+ * - Delivery log with retries through the job queue
+ * - Test pings and automatic disabling of failing endpoints
+ * - Endpoints must be public https URLs; private, loopback and link-local addresses are refused
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { prisma } from '../lib/prisma';
+import { Webhook as PrismaWebhook, WebhookDelivery as PrismaWebhookDelivery } from '@prisma/client';
+import { WebhookEvent } from '../types';
+import { jobQueue, JobType } from './job.service';
+import { searchService } from './search.service';
+
+export type WebhookEventType = Exclude<WebhookEvent['type'], 'ping'>;
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = ['score_updated', 'new_candidate_match', 'profile_updated'];
+
+// Headers sent with every delivery
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const EVENT_HEADER = 'X-Webhook-Event';
+export const DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+// Webhook subscription without its secret
+export interface WebhookSummary {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  isActive: boolean;
+  consecutiveFailures: number;
+  disabledAt: Date | null;
+  disabledReason: string | null;
+  lastDeliveryAt: Date | null;
+  createdAt: Date;
+}
+
+// Returned once on creation and on secret rotation
+export interface WebhookWithSecret extends WebhookSummary {
+  secret: string;
+}
+
+export interface WebhookUpdate {
+  url?: string;
+  events?: WebhookEventType[];
+  isActive?: boolean;
+}
+
+// Delivery log entry
+export interface WebhookDeliveryLog {
+  id: string;
+  eventId: string;
+  eventType: string;
+  status: 'pending' | 'success' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  lastAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+// Outcome of a single HTTP attempt
+interface AttemptResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+const MAX_WEBHOOKS_PER_RECRUITER = 10;
+const DELIVERY_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+const DELIVERY_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+// Endpoints are disabled after this many failed attempts in a row
+const MAX_CONSECUTIVE_FAILURES = parseInt(process.env.WEBHOOK_MAX_CONSECUTIVE_FAILURES || '15', 10);
+// Signatures older than this are rejected by verifySignature
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Addresses a webhook may never reach: private networks, loopback, link-local (cloud metadata) and the like
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+// Local receivers for development; never honoured in production
+const allowLocalEndpoints = () =>
+  process.env.NODE_ENV !== 'production' && process.env.WEBHOOK_ALLOW_LOCAL_URLS === 'true';
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+
+  // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are matched against the IPv4 ranges
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether a webhook URL uses an allowed scheme: https, or http during development
+ */
+export function isAllowedWebhookScheme(url: string): boolean {
+  const allowHttp = process.env.NODE_ENV === 'development' || allowLocalEndpoints();
+  return /^https:\/\//i.test(url) || (allowHttp && /^http:\/\//i.test(url));
+}
+
+// Resolves like dns.lookup but fails for hosts with any non-public address, so each connection is checked
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+
+    if (addresses.length === 0 || addresses.some(entry => !isPublicAddress(entry.address))) {
+      return callback(new Error('Webhook URL must point to a public address'), '', 0);
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Check that a webhook URL may be called: allowed scheme and only public addresses
+ */
+export async function assertDeliverableUrl(url: string): Promise<void> {
+  if (!isAllowedWebhookScheme(url)) {
+    throw new Error('Webhook URL must use https');
+  }
+
+  if (allowLocalEndpoints()) return;
+
+  // URL keeps the brackets around IPv6 literals
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await dns.promises.lookup(hostname, { all: true })).map(entry => entry.address);
+  } catch {
+    throw new Error('Webhook URL host could not be resolved');
+  }
+
+  if (addresses.length === 0 || addresses.some(address => !isPublicAddress(address))) {
+    throw new Error('Webhook URL must point to a public address');
+  }
+}
+
+/**
+ * Sign a request body: hex HMAC-SHA256 of `${timestamp}.${body}`
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check a signature header of the form `t=<unix seconds>,v1=<hex digest>`
+ * Receivers can use the same check
+ */
+export function verifySignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map(part => part.split('=', 2) as [string, string])
+  );
+  const timestamp = parseInt(parts.t, 10);
+
+  if (!timestamp || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body), 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export class WebhookService {
+  /**
+   * Register a webhook for a recruiter; the secret is only returned here
+   */
+  async registerWebhook(recruiterUserId: string, url: string, events: WebhookEventType[]): Promise<WebhookWithSecret> {
+    const recruiterProfile = await this.getRecruiterProfile(recruiterUserId);
+
+    const count = await prisma.webhook.count({
+      where: { recruiterId: recruiterProfile.id }
+    });
+
+    if (count >= MAX_WEBHOOKS_PER_RECRUITER) {
+      throw new Error('Webhook limit reached');
+    }
+
+    await assertDeliverableUrl(url);
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        recruiterId: recruiterProfile.id,
+        url,
+        secret: this.generateSecret(),
+        events: Array.from(new Set(events))
+      }
+    });
+
+    return { ...this.toWebhookSummary(webhook), secret: webhook.secret };
+  }
+
+  /**
+   * List a recruiter's webhooks
+   */
+  async listWebhooks(recruiterUserId: string): Promise<WebhookSummary[]> {
+    const recruiterProfile = await this.getRecruiterProfile(recruiterUserId);
+
+    const webhooks = await prisma.webhook.findMany({
+      where: { recruiterId: recruiterProfile.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return webhooks.map(w => this.toWebhookSummary(w));
+  }
+
+  /**
+   * Update a webhook; re-enabling clears the failure count
+   */
+  async updateWebhook(recruiterUserId: string, webhookId: string, updates: WebhookUpdate): Promise<WebhookSummary> {
+    await this.getOwnedWebhook(recruiterUserId, webhookId);
+
+    if (updates.url !== undefined) {
+      await assertDeliverableUrl(updates.url);
+    }
+
+    const webhook = await prisma.webhook.update({
+      where: { id: webhookId },
+      data: {
+        url: updates.url,
+        events: updates.events ? Array.from(new Set(updates.events)) : undefined,
+        isActive: updates.isActive,
+        ...(updates.isActive === true
+          ? { consecutiveFailures: 0, disabledAt: null, disabledReason: null }
+          : {})
+      }
+    });
+
+    return this.toWebhookSummary(webhook);
+  }
+
+  /**
+   * Replace a webhook's signing secret
+   */
+  async rotateSecret(recruiterUserId: string, webhookId: string): Promise<WebhookWithSecret> {
+    await this.getOwnedWebhook(recruiterUserId, webhookId);
+
+    const webhook = await prisma.webhook.update({
+      where: { id: webhookId },
+      data: { secret: this.generateSecret() }
+    });
+
+    return { ...this.toWebhookSummary(webhook), secret: webhook.secret };
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   */
+  async unregisterWebhook(recruiterUserId: string, webhookId: string): Promise<void> {
+    await this.getOwnedWebhook(recruiterUserId, webhookId);
+
+    await prisma.webhook.delete({
+      where: { id: webhookId }
+    });
+  }
+
+  /**
+   * Get the delivery log for a webhook, newest first
+   */
+  async getDeliveries(recruiterUserId: string, webhookId: string, limit = 20, offset = 0): Promise<WebhookDeliveryLog[]> {
+    await this.getOwnedWebhook(recruiterUserId, webhookId);
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { webhookId },
+      orderBy: { createdAt: 'desc' },
+      skip: offset,
+      take: limit
+    });
+
+    return deliveries.map(d => this.toDeliveryLog(d));
+  }
+
+  /**
+   * Send a ping right away and return its delivery log entry
+   * Works on disabled webhooks and does not count towards auto-disabling
+   */
+  async sendTestPing(recruiterUserId: string, webhookId: string): Promise<WebhookDeliveryLog> {
+    const webhook = await this.getOwnedWebhook(recruiterUserId, webhookId);
+
+    const delivery = await this.createDelivery(webhook, 'ping', {
+      message: 'Test ping from Dare Dreamers',
+      webhookId: webhook.id
+    });
+
+    const result = await this.attemptDelivery(webhook, delivery);
+    const updated = await this.recordAttempt(delivery, result, true);
+
+    return this.toDeliveryLog(updated);
+  }
+
+  /**
+   * Queue an event for every active webhook of the given recruiters subscribed to it
+   * Returns the number of deliveries queued
+   */
+  async dispatchEvent(
+    type: WebhookEventType,
+    recruiterProfileIds: string[],
+    buildData: (recruiterId: string) => Record<string, unknown>
+  ): Promise<number> {
+    if (recruiterProfileIds.length === 0) return 0;
+
+    const webhooks = await prisma.webhook.findMany({
+      where: {
+        recruiterId: { in: recruiterProfileIds },
+        isActive: true,
+        events: { has: type }
+      }
+    });
+
+    for (const webhook of webhooks) {
+      const delivery = await this.createDelivery(webhook, type, buildData(webhook.recruiterId));
+
+      await jobQueue.enqueue(JobType.WEBHOOK_DELIVERY, { deliveryId: delivery.id }, {
+        maxAttempts: DELIVERY_MAX_ATTEMPTS
+      });
+    }
+
+    return webhooks.length;
+  }
+
+  /**
+   * Send a candidate event to recruiters whose alerting saved searches match the candidate
+   * Best effort: errors are logged, never thrown to the caller
+   */
+  async emitCandidateEvent(
+    type: WebhookEventType,
+    candidateId: string,
+    data: Record<string, unknown>
+  ): Promise<number> {
+    try {
+      const subscribed = await prisma.webhook.findMany({
+        where: { isActive: true, events: { has: type } },
+        select: { recruiterId: true },
+        distinct: ['recruiterId']
+      });
+
+      const matches = await searchService.findMatchingSavedSearches(
+        candidateId,
+        subscribed.map(w => w.recruiterId)
+      );
+
+      return await this.dispatchEvent(type, Array.from(matches.keys()), recruiterId => ({
+        candidateId,
+        ...data,
+        savedSearchIds: matches.get(recruiterId) || []
+      }));
+    } catch (error) {
+      console.error('Webhook Dispatch Error:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Deliver a queued event; throws on failure so the job queue retries with backoff
+   */
+  async deliver(deliveryId: string, isFinalAttempt = false): Promise<WebhookDeliveryLog> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true }
+    });
+
+    if (!delivery) {
+      throw new Error('Webhook delivery not found');
+    }
+
+    // Nothing left to do for deliveries to disabled endpoints
+    if (!delivery.webhook.isActive) {
+      const updated = await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: 'failed', error: 'Webhook disabled' }
+      });
+      return this.toDeliveryLog(updated);
+    }
+
+    const result = await this.attemptDelivery(delivery.webhook, delivery);
+    const webhook = await this.recordEndpointHealth(delivery.webhook, result);
+    const updated = await this.recordAttempt(delivery, result, isFinalAttempt || !webhook.isActive);
+
+    if (!result.ok && webhook.isActive) {
+      throw new Error(result.error || `Webhook endpoint returned ${result.status}`);
+    }
+
+    return this.toDeliveryLog(updated);
+  }
+
+  /**
+   * POST a signed payload to the webhook URL
+   * The URL is checked again before each attempt, and every connection only reaches public addresses,
+   * so a hostname re-pointed at an internal service after registration is still refused
+   */
+  private async attemptDelivery(webhook: PrismaWebhook, delivery: PrismaWebhookDelivery): Promise<AttemptResult> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    try {
+      await assertDeliverableUrl(webhook.url);
+
+      const status = await this.post(webhook.url, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DareDreamers-Webhooks/1.0',
+        [EVENT_HEADER]: delivery.eventType,
+        [DELIVERY_HEADER]: delivery.id,
+        [SIGNATURE_HEADER]: `t=${timestamp},v1=${signPayload(webhook.secret, timestamp, body)}`
+      });
+      const ok = status >= 200 && status < 300;
+
+      return {
+        ok,
+        status,
+        error: ok ? undefined : `Webhook endpoint returned ${status}`,
+        durationMs: Date.now() - startedAt
+      };
+    } catch (error: any) {
+      return {
+        ok: false,
+        error: error?.name === 'TimeoutError' ? 'Request timed out' : error?.message || 'Request failed',
+        durationMs: Date.now() - startedAt
+      };
+    }
+  }
+
+  /**
+   * Send a POST without following redirects and resolve with the response status
+   * The response body is discarded unread, so an endpoint cannot be used to read other services
+   */
+  private post(url: string, body: string, headers: Record<string, string>): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const client = url.toLowerCase().startsWith('https:') ? https : http;
+      const request = client.request(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: allowLocalEndpoints() ? undefined : publicLookup
+      }, response => {
+        clearTimeout(timer);
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+
+      const timer = setTimeout(() => {
+        const timeout = new Error('Request timed out');
+        timeout.name = 'TimeoutError';
+        request.destroy(timeout);
+      }, DELIVERY_TIMEOUT_MS);
+
+      request.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      request.end(body);
+    });
+  }
+
+  /**
+   * Store the outcome of an attempt on the delivery log
+   */
+  private async recordAttempt(
+    delivery: PrismaWebhookDelivery,
+    result: AttemptResult,
+    isFinalAttempt: boolean
+  ): Promise<PrismaWebhookDelivery> {
+    const now = new Date();
+
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: result.ok ? 'success' : isFinalAttempt ? 'failed' : 'pending',
+        attempts: { increment: 1 },
+        responseStatus: result.status ?? null,
+        error: result.error ?? null,
+        durationMs: result.durationMs,
+        lastAttemptAt: now,
+        deliveredAt: result.ok ? now : null
+      }
+    });
+  }
+
+  /**
+   * Track consecutive failures and disable endpoints that keep failing
+   */
+  private async recordEndpointHealth(webhook: PrismaWebhook, result: AttemptResult): Promise<PrismaWebhook> {
+    if (result.ok) {
+      return prisma.webhook.update({
+        where: { id: webhook.id },
+        data: { consecutiveFailures: 0, lastDeliveryAt: new Date() }
+      });
+    }
+
+    const failures = webhook.consecutiveFailures + 1;
+    const disable = failures >= MAX_CONSECUTIVE_FAILURES;
+
+    return prisma.webhook.update({
+      where: { id: webhook.id },
+      data: {
+        consecutiveFailures: failures,
+        ...(disable
+          ? {
+              isActive: false,
+              disabledAt: new Date(),
+              disabledReason: `Disabled after ${failures} consecutive failed deliveries`
+            }
+          : {})
+      }
+    });
+  }
+
+  /**
+   * Create a delivery log entry with its event envelope
+   */
+  private async createDelivery(
+    webhook: PrismaWebhook,
+    type: WebhookEvent['type'],
+    data: Record<string, unknown>
+  ): Promise<PrismaWebhookDelivery> {
+    const event: WebhookEvent = {
+      id: randomUUID(),
+      type,
+      timestamp: new Date(),
+      data,
+      recruiterId: webhook.recruiterId
+    };
+
+    return prisma.webhookDelivery.create({
+      data: {
+        webhookId: webhook.id,
+        eventId: event.id,
+        eventType: type,
+        payload: JSON.parse(JSON.stringify(event))
+      }
+    });
+  }
+
+  /**
+   * Get a webhook owned by the recruiter
+   */
+  private async getOwnedWebhook(recruiterUserId: string, webhookId: string): Promise<PrismaWebhook> {
+    const recruiterProfile = await this.getRecruiterProfile(recruiterUserId);
+
+    const webhook = await prisma.webhook.findFirst({
+      where: { id: webhookId, recruiterId: recruiterProfile.id }
+    });
+
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+
+    return webhook;
+  }
+
+  private async getRecruiterProfile(recruiterUserId: string) {
+    const recruiterProfile = await prisma.recruiterProfile.findUnique({
+      where: { userId: recruiterUserId }
+    });
+
+    if (!recruiterProfile) {
+      throw new Error('Recruiter profile not found');
+    }
+
+    return recruiterProfile;
+  }
+
+  private generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+
+  private toWebhookSummary(webhook: PrismaWebhook): WebhookSummary {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      events: webhook.events as WebhookEventType[],
+      isActive: webhook.isActive,
+      consecutiveFailures: webhook.consecutiveFailures,
+      disabledAt: webhook.disabledAt,
+      disabledReason: webhook.disabledReason,
+      lastDeliveryAt: webhook.lastDeliveryAt,
+      createdAt: webhook.createdAt
+    };
+  }
+
+  private toDeliveryLog(delivery: PrismaWebhookDelivery): WebhookDeliveryLog {
+    return {
+      id: delivery.id,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      status: delivery.status as WebhookDeliveryLog['status'],
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      durationMs: delivery.durationMs,
+      lastAttemptAt: delivery.lastAttemptAt,
+      deliveredAt: delivery.deliveredAt,
+      createdAt: delivery.createdAt
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -41,16 +41,27 @@ export interface ProfileUpdate {
   bio?: string;
   website?: string;
   isPublic?: boolean;
+  openToOpportunities?: boolean;
 }
 
 // User Data Export Interface
 export interface UserDataExport {
-  user: User;
+  user: Omit<User, 'passwordHash'>;
   profile: any; // Will be either CandidateProfile or RecruiterProfile from Prisma
   platformConnections?: any[];
   scores?: any[];
   platformData?: any[];
   savedSearches?: any[];
+  roleProfiles?: any[];
+  scoreDisputes?: any[];
+  notifications?: any[];
+  pathwayProgress?: any[];
+  chatSessions?: any[];
+  webhooks?: any[];
+  shortlists?: any[];
+  candidateNotes?: any[];
+  conversations?: any[];
+  auditEntries?: any[];
   exportedAt: Date;
 }
 
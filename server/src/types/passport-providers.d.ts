@@ -0,0 +1,30 @@
+// Both strategies extend passport-oauth2 but ship without type definitions
+
+declare module 'passport-github2' {
+  import OAuth2Strategy, { StrategyOptions, VerifyFunction } from 'passport-oauth2';
+
+  export interface GitHubStrategyOptions extends Omit<StrategyOptions, 'authorizationURL' | 'tokenURL'> {
+    authorizationURL?: string;
+    tokenURL?: string;
+    userProfileURL?: string;
+    userEmailURL?: string;
+    allRawEmails?: boolean;
+  }
+
+  export class Strategy extends OAuth2Strategy {
+    constructor(options: GitHubStrategyOptions, verify: VerifyFunction);
+  }
+}
+
+declare module 'passport-linkedin-oauth2' {
+  import OAuth2Strategy, { StrategyOptions, VerifyFunction } from 'passport-oauth2';
+
+  export interface LinkedInStrategyOptions extends Omit<StrategyOptions, 'authorizationURL' | 'tokenURL'> {
+    authorizationURL?: string;
+    tokenURL?: string;
+  }
+
+  export class Strategy extends OAuth2Strategy {
+    constructor(options: LinkedInStrategyOptions, verify: VerifyFunction);
+  }
+}
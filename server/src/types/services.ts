@@ -1,17 +1,19 @@
 // Service interfaces for the Candidate Scoring Platform
 
 import {
-  User,
   CandidateProfile,
   RecruiterProfile,
+  CandidateScore,
+  SavedSearch
+} from '@prisma/client';
+import {
+  User,
   CandidateRegistration,
   RecruiterRegistration,
   ProfileUpdate,
   UserDataExport,
-  CandidateScore,
   SearchQuery,
   SearchResults,
-  SavedSearch,
   GitHubProfile,
   Repository,
   CodeQualityMetrics,
@@ -243,7 +245,7 @@ export interface ErrorResponse {
 // Webhook Event Types
 export interface WebhookEvent {
   id: string;
-  type: 'score_updated' | 'new_candidate_match' | 'profile_updated';
+  type: 'score_updated' | 'new_candidate_match' | 'profile_updated' | 'ping';
   timestamp: Date;
   data: any;
   recruiterId: string;